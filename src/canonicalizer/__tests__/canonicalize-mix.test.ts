@@ -0,0 +1,329 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { TrackMatchResult, ExistingArtist, ExistingTrack } from '../../lib/matching/track-matcher';
+import type { MatchResult } from '../../lib/matching/fuzzy-matcher';
+import type { RawMix, RawTrack } from '../../lib/supabase/types';
+
+const mocks = vi.hoisted(() => ({
+  matchTrack: vi.fn(),
+  findMatchingArtists: vi.fn(),
+  checkForDuplicateMix: vi.fn(),
+  findCrossPlatformDuplicates: vi.fn(),
+  findMixesSharingTracks: vi.fn(),
+  getFestivalEdition: vi.fn(),
+}));
+
+// Everything the planner reads from the database
+vi.mock('../../lib/matching/track-matcher', () => ({
+  TrackMatcher: class {
+    matchTrack = mocks.matchTrack;
+    findMatchingArtists = mocks.findMatchingArtists;
+  },
+}));
+vi.mock('../../lib/duplicate-detection', () => ({
+  checkForDuplicateMix: mocks.checkForDuplicateMix,
+  checkForDuplicateMixes: vi.fn(),
+  mergeRawMixData: vi.fn(),
+}));
+vi.mock('../../lib/cross-platform-duplicates', () => ({
+  findCrossPlatformDuplicates: mocks.findCrossPlatformDuplicates,
+}));
+vi.mock('../../lib/tracklist-similarity', () => ({
+  findMixesSharingTracks: mocks.findMixesSharingTracks,
+  NEAR_IDENTICAL_TRACKLIST: { MIN_SHARED_TRACKS: 5 },
+}));
+vi.mock('../../lib/contextVenueService', () => ({
+  contextVenueService: { getFestivalEdition: mocks.getFestivalEdition },
+}));
+
+import { MixCanonicalizer, summarizePlan, type CanonicalizationOptions } from '../canonicalize-mix';
+
+const SYSTEM_USER = '00000000-0000-4000-8000-000000000001';
+
+function rawMix(overrides: Partial<RawMix> = {}): RawMix {
+  return {
+    id: 'raw-mix-1',
+    provider: 'soundcloud',
+    source_url: 'https://soundcloud.com/lane8music/brightest-lights-tour-mix',
+    external_id: 'sc:123456',
+    raw_title: 'Brightest Lights Tour Mix',
+    raw_description: null,
+    raw_artist: 'Lane 8',
+    uploaded_at: '2025-07-30T12:00:00Z',
+    duration_seconds: 3600,
+    artwork_url: null,
+    raw_metadata: {},
+    status: 'pending',
+    canonicalized_mix_id: null,
+    error_message: null,
+    created_at: '2025-07-30T12:05:00Z',
+    processed_at: null,
+    ...overrides,
+  };
+}
+
+function rawTrack(position: number, lineText: string, rawArtist: string | null, rawTitle: string | null): RawTrack {
+  return {
+    id: `raw-track-${position}`,
+    raw_mix_id: 'raw-mix-1',
+    line_text: lineText,
+    position,
+    timestamp_seconds: (position - 1) * 300,
+    raw_artist: rawArtist,
+    raw_title: rawTitle,
+    source: 'description',
+    created_at: '2025-07-30T12:05:00Z',
+  };
+}
+
+function matched<T>(item: T | null, score: number): MatchResult<T> {
+  return { match: item, score, isHighConfidence: !!item && score >= 0.9, alternatives: [] };
+}
+
+function trackMatch(overrides: Partial<TrackMatchResult> = {}): TrackMatchResult {
+  return {
+    track: null,
+    artists: [],
+    shouldCreateNew: true,
+    confidence: 'low',
+    aliases: [],
+    isUnidentified: false,
+    ...overrides,
+  };
+}
+
+const LANE_8: ExistingArtist = { id: 'artist-lane-8', name: 'Lane 8' };
+const BRIGHTEST_LIGHTS: ExistingTrack = { id: 'track-brightest-lights', title: 'Brightest Lights' };
+
+/**
+ * Canonicalizer reading the given raw mix and tracks instead of the staging tables
+ */
+function canonicalizerFor(mix: RawMix, tracks: RawTrack[]): MixCanonicalizer {
+  const canonicalizer = new MixCanonicalizer();
+  vi.spyOn(canonicalizer as any, 'getRawMixData').mockResolvedValue({ rawMix: mix, rawTracks: tracks });
+  return canonicalizer;
+}
+
+async function plan(tracks: RawTrack[], options: CanonicalizationOptions, mix: RawMix = rawMix()) {
+  const result = await canonicalizerFor(mix, tracks).buildPlan(mix.id, options);
+  expect(result).not.toBeNull();
+  return result!;
+}
+
+describe('MixCanonicalizer.buildPlan', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.checkForDuplicateMix.mockResolvedValue({ isDuplicate: false });
+    mocks.findCrossPlatformDuplicates.mockResolvedValue([]);
+    mocks.findMixesSharingTracks.mockResolvedValue([]);
+    mocks.findMatchingArtists.mockResolvedValue([matched<ExistingArtist>(null, 0)]);
+    mocks.matchTrack.mockResolvedValue(trackMatch());
+  });
+
+  describe('verification', () => {
+    const tracks = [rawTrack(1, 'Nox Vahn - Nevermind', 'Nox Vahn', 'Nevermind')];
+
+    it('records the system user on everything auto-verified in rolling mode', async () => {
+      mocks.matchTrack.mockResolvedValue(trackMatch({ confidence: 'high' }));
+
+      const result = await plan(tracks, { mode: 'rolling', systemUserId: SYSTEM_USER });
+
+      expect(result.mix).toMatchObject({ isVerified: true, verifiedBy: SYSTEM_USER });
+      expect(result.mixArtist).toMatchObject({ artistId: null, name: 'Lane 8', isVerified: true, verifiedBy: SYSTEM_USER });
+      expect(result.tracks[0]).toMatchObject({ trackId: null, title: 'Nevermind', isVerified: true, verifiedBy: SYSTEM_USER });
+      expect(result.tracks[0].artists).toEqual([
+        expect.objectContaining({ artistId: null, name: 'Nox Vahn', isVerified: true, verifiedBy: SYSTEM_USER }),
+      ]);
+
+      for (const verifiedAt of [result.mix.verifiedAt, result.mixArtist!.verifiedAt, result.tracks[0].verifiedAt]) {
+        expect(Number.isNaN(Date.parse(verifiedAt!))).toBe(false);
+      }
+    });
+
+    it('leaves new artists and tracks unverified in backfill mode', async () => {
+      mocks.matchTrack.mockResolvedValue(trackMatch({ confidence: 'high' }));
+
+      const result = await plan(tracks, { mode: 'backfill', systemUserId: SYSTEM_USER });
+
+      expect(result.mix).toMatchObject({ isVerified: false, verifiedBy: null, verifiedAt: null });
+      expect(result.mixArtist).toMatchObject({ isVerified: false, verifiedBy: null, verifiedAt: null });
+      expect(result.tracks[0]).toMatchObject({ isVerified: false, verifiedBy: null, verifiedAt: null });
+      expect(result.tracks[0].artists[0]).toMatchObject({ isVerified: false, verifiedBy: null, verifiedAt: null });
+    });
+
+    it('only auto-verifies new tracks matched with high confidence', async () => {
+      mocks.matchTrack.mockResolvedValue(trackMatch({ confidence: 'medium' }));
+
+      const result = await plan(tracks, { mode: 'rolling', systemUserId: SYSTEM_USER });
+
+      expect(result.tracks[0]).toMatchObject({ isVerified: false, verifiedBy: null, verifiedAt: null });
+    });
+
+    it('verifies without a verifier when no system user is configured', async () => {
+      const result = await plan([], { mode: 'rolling' });
+
+      expect(result.mix).toMatchObject({ isVerified: true, verifiedBy: null, verifiedAt: null });
+      expect(result.mixArtist).toMatchObject({ isVerified: true, verifiedBy: null, verifiedAt: null });
+    });
+
+    it('reuses existing artists and tracks without verifier fields', async () => {
+      mocks.findMatchingArtists.mockResolvedValue([matched(LANE_8, 0.97)]);
+      mocks.matchTrack.mockResolvedValue(trackMatch({ track: matched(BRIGHTEST_LIGHTS, 0.95), confidence: 'high' }));
+
+      const result = await plan(
+        [rawTrack(1, 'Lane 8 - Brightest Lights', 'Lane 8', 'Brightest Lights')],
+        { mode: 'rolling', systemUserId: SYSTEM_USER }
+      );
+
+      expect(result.mixArtist).toMatchObject({ artistId: LANE_8.id, isVerified: true, verifiedBy: null, verifiedAt: null });
+      expect(result.tracks[0]).toMatchObject({
+        trackId: BRIGHTEST_LIGHTS.id,
+        isVerified: true,
+        verifiedBy: null,
+        verifiedAt: null,
+        artists: [],
+      });
+    });
+  });
+
+  describe('tracks', () => {
+    it('links high-confidence track artists and skips the rest', async () => {
+      mocks.matchTrack.mockResolvedValue(trackMatch({
+        artists: [matched(LANE_8, 0.96), matched({ id: 'artist-polica', name: 'POLIÇA' }, 0.7)],
+      }));
+
+      const result = await plan(
+        [rawTrack(1, 'Lane 8 & POLIÇA - Brightest Lights', 'Lane 8 & POLIÇA', 'Brightest Lights')],
+        { mode: 'rolling' }
+      );
+
+      expect(result.tracks[0].artists).toEqual([
+        expect.objectContaining({ artistId: LANE_8.id, role: 'primary', position: 1 }),
+      ]);
+    });
+
+    it('links "ID - ID" lines as unidentified placeholders without an artist', async () => {
+      mocks.matchTrack.mockResolvedValue(trackMatch({ isUnidentified: true }));
+
+      const result = await plan([rawTrack(1, 'ID - ID', 'ID', 'ID')], { mode: 'rolling' });
+
+      expect(result.tracks[0]).toMatchObject({ trackId: null, isUnidentified: true, isVerified: false, artists: [] });
+    });
+
+    it('keeps the known artist on "Artist - ID" lines', async () => {
+      mocks.matchTrack.mockResolvedValue(trackMatch({ isUnidentified: true, artists: [matched(LANE_8, 0.98)] }));
+
+      const result = await plan([rawTrack(1, 'Lane 8 - ID', 'Lane 8', 'ID')], { mode: 'rolling' });
+
+      expect(result.tracks[0]).toMatchObject({ isUnidentified: true, title: 'ID' });
+      expect(result.tracks[0].artists).toEqual([expect.objectContaining({ artistId: LANE_8.id })]);
+    });
+
+    it('creates the artist on "Artist - ID" lines when no existing artist is a candidate', async () => {
+      mocks.matchTrack.mockResolvedValue(trackMatch({ isUnidentified: true, artists: [matched<ExistingArtist>(null, 0)] }));
+
+      const result = await plan([rawTrack(1, 'Anyma - ID', 'Anyma', 'ID')], { mode: 'rolling' });
+
+      expect(result.tracks[0]).toMatchObject({ isUnidentified: true, title: 'ID' });
+      expect(result.tracks[0].artists).toEqual([
+        expect.objectContaining({ artistId: null, name: 'Anyma', role: 'primary', position: 1 }),
+      ]);
+    });
+
+    it('does not duplicate an artist that matched only at medium confidence on "Artist - ID" lines', async () => {
+      mocks.matchTrack.mockResolvedValue(trackMatch({ isUnidentified: true, artists: [matched(LANE_8, 0.8)] }));
+
+      const result = await plan([rawTrack(1, 'Lane 8 - ID', 'Lane 8', 'ID')], { mode: 'rolling' });
+
+      expect(result.tracks[0]).toMatchObject({ isUnidentified: true, artists: [] });
+    });
+
+    it('leaves a new track with a medium artist match unverified without creating an artist', async () => {
+      mocks.matchTrack.mockResolvedValue(trackMatch({
+        confidence: 'high',
+        artists: [matched(LANE_8, 0.8), matched({ id: 'artist-polica', name: 'POLIÇA' }, 0.75)],
+      }));
+
+      const result = await plan(
+        [rawTrack(1, 'Lane 8 & POLIÇA - Brightest Lights', 'Lane 8 & POLIÇA', 'Brightest Lights')],
+        { mode: 'rolling', systemUserId: SYSTEM_USER }
+      );
+
+      expect(result.tracks[0]).toMatchObject({ trackId: null, isVerified: false, verifiedBy: null, artists: [] });
+      expect(summarizePlan(result).artistsCreated).toBe(1); // Only the mix artist
+    });
+  });
+
+  it('merges into the mix sharing an external ID without planning a mix artist', async () => {
+    mocks.checkForDuplicateMix.mockResolvedValue({ isDuplicate: true, existingMixId: 'mix-1' });
+
+    const result = await plan([], { mode: 'rolling' });
+
+    expect(result).toMatchObject({ action: 'merge', existingMixId: 'mix-1', duplicateMatch: 'external_id', mixArtist: null });
+    expect(mocks.findCrossPlatformDuplicates).not.toHaveBeenCalled();
+  });
+
+  describe('cross-platform duplicates', () => {
+    it('keeps medium-scoring candidates for review', async () => {
+      const candidate = { rawMixId: 'raw-mix-yt', mixId: 'mix-yt', provider: 'youtube', score: 0.7, decision: 'review', signals: {} };
+      mocks.findCrossPlatformDuplicates.mockResolvedValue([candidate]);
+
+      const result = await plan([], { mode: 'rolling' });
+
+      expect(result).toMatchObject({ action: 'create', duplicateCandidates: [candidate] });
+    });
+
+    it('still plans the mix when the lookup fails', async () => {
+      mocks.findCrossPlatformDuplicates.mockRejectedValue(new Error('Failed to fetch cross-platform candidates: fetch failed'));
+
+      const result = await plan([], { mode: 'rolling' });
+
+      expect(result).toMatchObject({ action: 'create', duplicateCandidates: [] });
+      expect(result.notes).toContain('Cross-platform duplicate lookup failed, mix not checked for uploads on other platforms');
+    });
+  });
+
+  describe('similar tracklists', () => {
+    it('queues near-identical tracklists for review', async () => {
+      const nearIdentical = { mixId: 'mix-2', title: 'Repeat', sharedTracks: 12, trackCount: 13, jaccard: 0.92, orderedOverlap: 0.9, nearIdentical: true };
+      const related = { mixId: 'mix-3', title: 'Related', sharedTracks: 5, trackCount: 20, jaccard: 0.3, orderedOverlap: 0.2, nearIdentical: false };
+      mocks.findMixesSharingTracks.mockResolvedValue([nearIdentical, related]);
+
+      const result = await plan([], { mode: 'rolling' });
+
+      expect(result.similarTracklists).toEqual([nearIdentical]);
+    });
+
+    it('still plans the mix when the lookup fails', async () => {
+      mocks.findMixesSharingTracks.mockRejectedValue(
+        new Error('Failed to find mixes sharing tracks: Could not find the function public.find_mixes_sharing_tracks')
+      );
+
+      const result = await plan([], { mode: 'rolling' });
+
+      expect(result).toMatchObject({ action: 'create', similarTracklists: [] });
+      expect(result.notes).toContain('Tracklist similarity lookup failed, mix not checked for near-identical tracklists');
+    });
+  });
+
+  it('summarizes what a plan would write', async () => {
+    mocks.matchTrack
+      .mockResolvedValueOnce(trackMatch({ track: matched(BRIGHTEST_LIGHTS, 0.95), confidence: 'high', aliases: ['Brightest Lights (Extended Mix)'] }))
+      .mockResolvedValueOnce(trackMatch({ artists: [matched(LANE_8, 0.96)] }))
+      .mockResolvedValueOnce(trackMatch({ isUnidentified: true }));
+
+    const result = await plan([
+      rawTrack(1, 'Lane 8 - Brightest Lights (Extended Mix)', 'Lane 8', 'Brightest Lights (Extended Mix)'),
+      rawTrack(2, 'Lane 8 - Road', 'Lane 8', 'Road'),
+      rawTrack(3, 'ID - ID', 'ID', 'ID'),
+    ], { mode: 'rolling' });
+
+    expect(summarizePlan(result)).toEqual({
+      tracksMatched: 1,
+      tracksCreated: 1,
+      tracksUnidentified: 1,
+      artistsReused: 1,
+      artistsCreated: 1, // The mix artist
+      aliases: 1,
+    });
+  });
+});
@@ -1,15 +1,39 @@
 import { getServiceClient } from '../lib/supabase/service';
 import { TrackMatcher, type TrackMatchResult } from '../lib/matching/track-matcher';
-import { checkForDuplicateMix, mergeExternalIds } from '../lib/duplicate-detection';
-import { addExternalId, type ExternalIds } from '../lib/external-ids';
+import { checkForDuplicateMix, checkForDuplicateMixes, mergeRawMixData, type DuplicateCheckResult } from '../lib/duplicate-detection';
+import { findCrossPlatformDuplicates, type CrossPlatformCandidate } from '../lib/cross-platform-duplicates';
+import { findMixesSharingTracks, NEAR_IDENTICAL_TRACKLIST, type TracklistSimilarity } from '../lib/tracklist-similarity';
+import { addExternalId, mergeExternalIds, type ExternalIds } from '../lib/external-ids';
+import { isPlaceholder } from '../lib/tracklist-parser';
+import { extractStageInfo, resolveFestivalDay, type ResolvedEventDate } from '../lib/stage-detection';
+import { describeEventDate, extractEventDate, MIN_EVENT_DATE_CONFIDENCE, type EventDatePrecision } from '../lib/event-date-extraction';
+import { contextVenueService } from '../lib/contextVenueService';
 import { logger } from '../services/logger';
 import type { RawMix, RawTrack } from '../lib/supabase/types';
+import { getStoredDetection, type DetectedVenue } from '../utils/contextVenueDetector';
 
 /**
  * Canonicalization pipeline for converting raw mixes to production schema
  * Handles the full process: raw staging → production tables
  */
 
+/**
+ * Stages of canonicalization, used to report where a failure happened
+ * The write stages (mix → mark_processed) run inside a single database transaction
+ */
+export type CanonicalizationStage =
+  | 'fetch'
+  | 'duplicate_check'
+  | 'matching'
+  | 'write'
+  | 'mix'
+  | 'mix_artists'
+  | 'tracks'
+  | 'track_artists'
+  | 'mix_tracks'
+  | 'track_aliases'
+  | 'mark_processed';
+
 export interface CanonicalizationResult {
   success: boolean;
   mixId?: string;
@@ -19,12 +43,139 @@ export interface CanonicalizationResult {
   errors: string[];
   skipped?: boolean;
   reason?: string;
+  failedStage?: CanonicalizationStage; // Set when success is false; nothing was written
+  plan?: CanonicalizationPlan; // Set for dry runs
 }
 
+/**
+ * Backfill never auto-verifies; rolling auto-verifies confident matches
+ */
+export const CANONICALIZATION_MODES = ['backfill', 'rolling'] as const;
+export type CanonicalizationMode = typeof CANONICALIZATION_MODES[number];
+
 export interface CanonicalizationOptions {
-  mode?: 'backfill' | 'rolling';
+  mode?: CanonicalizationMode;
   autoVerifyThreshold?: number; // Confidence threshold for auto-verification (0-1)
   systemUserId?: string; // User ID for automated verification tracking
+  dryRun?: boolean; // Build the plan but don't write to production tables
+  duplicateCheck?: DuplicateCheckResult; // Pre-fetched result from checkDuplicatesForRawMixes
+}
+
+/**
+ * Artist to link to a mix or track - artistId is null when a new artist will be created
+ */
+export interface PlannedArtist {
+  artistId: string | null;
+  name: string;
+  isVerified: boolean;
+  verifiedBy: string | null; // Only written for new artists
+  verifiedAt: string | null;
+  role: string;
+  position?: number;
+}
+
+/**
+ * Track to link to a mix - trackId is null when a new track will be created
+ * Unidentified tracks ("ID - ID") never get a track; they're linked as placeholders with their known artist
+ */
+export interface PlannedTrack {
+  lineText: string;
+  position: number | null;
+  startTime: number | null;
+  trackId: string | null;
+  title: string;
+  isVerified: boolean;
+  verifiedBy: string | null; // Only written for new tracks
+  verifiedAt: string | null;
+  isUnidentified: boolean;
+  confidence: TrackMatchResult['confidence'];
+  artists: PlannedArtist[]; // Only used for new and unidentified tracks
+  aliases: string[];
+}
+
+/**
+ * Festival, stage and day a set was played at
+ */
+export interface PlannedEvent {
+  festival: string;
+  stage: string | null;
+  day: number | null;
+  weekend: number | null;
+  setTime: string | null;
+}
+
+/**
+ * Everything canonicalization will write for one raw mix
+ * Built with read-only queries, then applied atomically by the canonicalize_raw_mix RPC
+ */
+export interface CanonicalizationPlan {
+  rawMixId: string;
+  action: 'create' | 'merge';
+  existingMixId: string | null;
+  duplicateMatch: 'external_id' | 'content' | null; // How existingMixId was found
+  duplicateCandidates: CrossPlatformCandidate[]; // Possible cross-platform duplicates queued for review
+  similarTracklists: TracklistSimilarity[]; // Existing mixes with near-identical tracklists, queued for review
+  mix: {
+    title: string;
+    description: string | null;
+    audioUrl: string;
+    coverUrl: string | null;
+    duration: number | null;
+    publishedDate: string | null;
+    eventDate: string | null; // YYYY-MM-DD the set was played, distinct from the upload date
+    eventDatePrecision: EventDatePrecision | null;
+    ingestionNotes: string | null; // How the event date was worked out
+    externalIds: ExternalIds;
+    isVerified: boolean;
+    verifiedBy: string | null;
+    verifiedAt: string | null;
+    ingestionSource: string;
+  };
+  mixArtist: PlannedArtist | null;
+  tracks: PlannedTrack[];
+  event: PlannedEvent | null; // Festival stage contexts are linked after the plan is applied
+  venue: DetectedVenue | null; // Linked after the plan is applied, or proposed if it needs verification
+  notes: string[];
+}
+
+/**
+ * Counts of what a plan would write
+ */
+export interface CanonicalizationPlanSummary {
+  tracksMatched: number;
+  tracksCreated: number;
+  tracksUnidentified: number;
+  artistsReused: number;
+  artistsCreated: number;
+  aliases: number;
+}
+
+/**
+ * Summarize a plan into match/create counts
+ */
+export function summarizePlan(plan: CanonicalizationPlan): CanonicalizationPlanSummary {
+  const artists = [
+    ...(plan.mixArtist ? [plan.mixArtist] : []),
+    ...plan.tracks.flatMap(track => track.artists),
+  ];
+  
+  return {
+    tracksMatched: plan.tracks.filter(track => track.trackId).length,
+    tracksCreated: plan.tracks.filter(track => !track.trackId && !track.isUnidentified).length,
+    tracksUnidentified: plan.tracks.filter(track => track.isUnidentified).length,
+    artistsReused: artists.filter(artist => artist.artistId).length,
+    artistsCreated: artists.filter(artist => !artist.artistId).length,
+    aliases: plan.tracks.reduce((sum, track) => sum + track.aliases.length, 0),
+  };
+}
+
+/**
+ * Raised while building a plan so the failing stage can be reported
+ */
+class CanonicalizationStageError extends Error {
+  constructor(readonly stage: CanonicalizationStage, message: string) {
+    super(message);
+  }
 }
 
 export class MixCanonicalizer {
@@ -33,6 +184,7 @@ export class MixCanonicalizer {
   
   /**
    * Canonicalize a single raw mix
+   * All writes happen in one transaction - either the whole mix lands or nothing does
    */
   async canonicalizeMix(
     rawMixId: string, 
@@ -47,37 +199,463 @@ export class MixCanonicalizer {
     };
     
     try {
-      // Get raw mix and tracks
-      const { rawMix, rawTracks } = await this.getRawMixData(rawMixId);
+      const plan = await this.buildPlan(rawMixId, options);
       
-      if (!rawMix) {
+      if (!plan) {
+        result.failedStage = 'fetch';
         result.errors.push(`Raw mix not found: ${rawMixId}`);
         return result;
       }
       
-      logger.info(`Canonicalizing mix: ${rawMix.raw_title}`, {
-        rawMixId,
-        workerType: 'canonicalization',
+      if (options.dryRun) {
+        // Report what would be written without touching production tables
+        const summary = summarizePlan(plan);
+        result.success = true;
+        result.skipped = true;
+        result.reason = 'Dry run - no changes written';
+        result.mixId = plan.existingMixId || undefined;
+        result.tracksCreated = summary.tracksCreated;
+        result.artistsCreated = summary.artistsCreated;
+        result.aliasesCreated = summary.aliases;
+        result.plan = plan;
+        return result;
+      }
+      
+      return await this.applyPlan(plan, result);
+      
+    } catch (err) {
+      const stage = err instanceof CanonicalizationStageError ? err.stage : 'write';
+      const message = err instanceof Error ? err.message : String(err);
+      const error = `Canonicalization failed for ${rawMixId} at stage ${stage}: ${message}`;
+      result.failedStage = stage;
+      result.errors.push(error);
+      logger.error(error, err as Error, { rawMixId });
+      return result;
+    }
+  }
+  
+  /**
+   * Work out everything canonicalization would write for a raw mix, without writing anything
+   * Returns null if the raw mix doesn't exist
+   */
+  async buildPlan(
+    rawMixId: string,
+    options: CanonicalizationOptions = {}
+  ): Promise<CanonicalizationPlan | null> {
+    // Get raw mix and tracks
+    const { rawMix, rawTracks } = await this.runStage('fetch', () => this.getRawMixData(rawMixId));
+    
+    if (!rawMix) return null;
+    
+    logger.info(`Canonicalizing mix: ${rawMix.raw_title}`, {
+      rawMixId,
+      workerType: 'canonicalization',
+    });
+    
+    // Check for existing duplicates in production
+    const externalIds = this.createExternalIds(rawMix);
+    const duplicateCheck = options.duplicateCheck
+      || await this.runStage('duplicate_check', () => checkForDuplicateMix(externalIds));
+    
+    const plan: CanonicalizationPlan = {
+      rawMixId: rawMix.id,
+      action: duplicateCheck.isDuplicate ? 'merge' : 'create',
+      existingMixId: duplicateCheck.existingMixId || null,
+      duplicateMatch: duplicateCheck.isDuplicate ? 'external_id' : null,
+      duplicateCandidates: [],
+      similarTracklists: [],
+      mix: {
+        title: rawMix.raw_title || 'Untitled Mix',
+        description: rawMix.raw_description,
+        audioUrl: rawMix.source_url, // Use source URL as audio URL for now
+        coverUrl: rawMix.artwork_url,
+        duration: rawMix.duration_seconds,
+        publishedDate: rawMix.uploaded_at,
+        eventDate: null,
+        eventDatePrecision: null,
+        ingestionNotes: null,
+        externalIds,
+        ...this.getVerificationFields(options, this.shouldAutoVerifyMix(options)),
+        ingestionSource: rawMix.provider,
+      },
+      mixArtist: null,
+      tracks: [],
+      event: null,
+      venue: getStoredDetection(rawMix)?.venue || null,
+      notes: [],
+    };
+    
+    // No shared external ID - look for the same set uploaded to another platform
+    if (plan.action === 'create') {
+      await this.runStage('duplicate_check', () => this.applyCrossPlatformDuplicates(plan, rawMix, rawTracks));
+    }
+    
+    await this.runStage('matching', async () => {
+      if (plan.action === 'merge') {
+        // Existing mix - only fill in tracks if it doesn't have any yet (preserve existing data)
+        plan.notes.push('Updated existing mix with merged data');
+        
+        if (rawTracks.length > 0) {
+          if (await this.mixHasTracks(plan.existingMixId!)) {
+            logger.info(`Mix ${plan.existingMixId} already has tracks, skipping track processing`);
+            plan.notes.push('Existing mix already has tracks, tracklist not merged');
+          } else {
+            plan.tracks = await this.planTracks(rawTracks, {});
+          }
+        }
+        return;
+      }
+      
+      // Plan mix artist if available
+      if (rawMix.raw_artist) {
+        plan.mixArtist = await this.planMixArtist(rawMix.raw_artist, options);
+      }
+      
+      // Plan tracks
+      if (rawTracks.length > 0) {
+        plan.tracks = await this.planTracks(rawTracks, options);
+      }
+    });
+    
+    // Festival stage and the date the set was played
+    await this.runStage('matching', () => this.planEvent(plan, rawMix));
+    
+    if (plan.venue?.requires_verification) {
+      plan.notes.push(`Venue "${plan.venue.name}" proposed for verification (${plan.venue.matched_text || 'free-form mention'})`);
+    }
+    
+    // Flag existing mixes with near-identical tracklists (re-uploads, radio show repeats)
+    if (plan.action === 'create') {
+      await this.planSimilarTracklists(plan);
+    }
+    
+    return plan;
+  }
+  
+  /**
+   * Find existing mixes with a near-identical tracklist to queue for review
+   * These are only review hints, so a failed lookup is noted rather than failing the mix
+   */
+  private async planSimilarTracklists(plan: CanonicalizationPlan): Promise<void> {
+    const trackIds = plan.tracks.map(track => track.trackId).filter((id): id is string => !!id);
+    
+    try {
+      const similar = await findMixesSharingTracks(trackIds, {
+        limit: 5,
+        minSharedTracks: NEAR_IDENTICAL_TRACKLIST.MIN_SHARED_TRACKS,
       });
+      plan.similarTracklists = similar.filter(match => match.nearIdentical);
+    } catch (err) {
+      logger.warn(`Tracklist similarity lookup failed for ${plan.rawMixId}: ${(err as Error).message}`, { rawMixId: plan.rawMixId });
+      plan.notes.push('Tracklist similarity lookup failed, mix not checked for near-identical tracklists');
+      return;
+    }
+    
+    if (plan.similarTracklists.length > 0) {
+      plan.notes.push(`${plan.similarTracklists.length} mix(es) with a near-identical tracklist queued for review`);
+    }
+  }
+  
+  /**
+   * Run content-based cross-platform duplicate detection and fold the result into the plan
+   * A high-scoring candidate turns the plan into a merge; medium scores are kept for review.
+   * A failed lookup only costs the content match, so the mix is still canonicalized without it.
+   */
+  private async applyCrossPlatformDuplicates(
+    plan: CanonicalizationPlan,
+    rawMix: RawMix,
+    rawTracks: RawTrack[]
+  ): Promise<void> {
+    let candidates: CrossPlatformCandidate[];
+    try {
+      candidates = await findCrossPlatformDuplicates(rawMix, rawTracks);
+    } catch (err) {
+      logger.warn(`Cross-platform duplicate lookup failed for ${plan.rawMixId}: ${(err as Error).message}`, { rawMixId: plan.rawMixId });
+      plan.notes.push('Cross-platform duplicate lookup failed, mix not checked for uploads on other platforms');
+      return;
+    }
+    
+    const best = candidates.find(candidate => candidate.decision === 'merge');
+    
+    if (!best) {
+      plan.duplicateCandidates = candidates;
+      if (candidates.length > 0) {
+        plan.notes.push(`${candidates.length} possible cross-platform duplicate(s) queued for review`);
+      }
+      return;
+    }
+    
+    const { data: candidateRawMix, error } = await this.supabase
+      .from('raw_mixes')
+      .select('*')
+      .eq('id', best.rawMixId)
+      .single();
+    
+    if (error) {
+      throw new Error(`Failed to fetch duplicate raw mix: ${error.message}`);
+    }
+    
+    // Take each field from whichever platform has the higher source priority
+    const merged = mergeRawMixData(rawMix, candidateRawMix, rawMix.provider, candidateRawMix.provider);
+    
+    plan.action = 'merge';
+    plan.existingMixId = best.mixId;
+    plan.duplicateMatch = 'content';
+    plan.mix = {
+      ...plan.mix,
+      title: merged.raw_title || plan.mix.title,
+      description: merged.raw_description,
+      coverUrl: merged.artwork_url,
+      duration: merged.duration_seconds,
+      publishedDate: merged.uploaded_at,
+      externalIds: mergeExternalIds(this.createExternalIds(candidateRawMix), plan.mix.externalIds),
+    };
+    plan.notes.push(
+      `Matched ${best.provider} upload ${best.rawMixId} by content (score ${best.score.toFixed(2)})`
+    );
+  }
+  
+  /**
+   * Work out when the set was played, and the festival and stage for festival sets
+   * "Day N" needs the festival's edition dates; dates below MIN_EVENT_DATE_CONFIDENCE are only noted
+   */
+  private async planEvent(plan: CanonicalizationPlan, rawMix: RawMix): Promise<void> {
+    const title = rawMix.raw_title || '';
+    const festival = this.getDetectedFestival(rawMix);
+    let festivalDay: ResolvedEventDate | null = null;
+    
+    if (festival) {
+      const detected = getStoredDetection(rawMix)?.stage;
+      const info = detected || extractStageInfo(title, rawMix.raw_description || '', festival);
       
-      // Check for existing duplicates in production
-      const externalIds = this.createExternalIds(rawMix);
-      const duplicateCheck = await checkForDuplicateMix(externalIds);
+      plan.event = {
+        festival,
+        stage: info.stage || null,
+        day: info.day || null,
+        weekend: info.weekend || null,
+        setTime: info.setTime || null,
+      };
       
-      if (duplicateCheck.isDuplicate) {
-        // Update existing mix instead of creating new
-        return await this.updateExistingMix(rawMix, rawTracks, duplicateCheck.existingMixId!, result);
+      if (info.day) {
+        festivalDay = resolveFestivalDay(info, await contextVenueService.getFestivalEdition(festival));
+        if (!festivalDay) {
+          plan.notes.push(`Day ${info.day} of ${festival} not resolved to a date (no edition dates, set them with contexts dates)`);
+        }
       }
+    }
+    
+    const eventDate = extractEventDate({
+      title,
+      description: rawMix.raw_description,
+      provider: rawMix.provider,
+      rawMetadata: rawMix.raw_metadata,
+      uploadedAt: rawMix.uploaded_at,
+      festival,
+      festivalDay,
+    });
+    
+    if (!eventDate) return;
+    
+    const description = describeEventDate(eventDate);
+    if (eventDate.confidence < MIN_EVENT_DATE_CONFIDENCE) {
+      plan.notes.push(`${description} - below ${MIN_EVENT_DATE_CONFIDENCE}, not written`);
+      return;
+    }
+    
+    plan.mix.eventDate = eventDate.date;
+    plan.mix.eventDatePrecision = eventDate.precision;
+    plan.mix.ingestionNotes = description;
+    plan.notes.push(description);
+  }
+  
+  /**
+   * Highest-confidence festival from the detector, or from rule suggestions that don't need approval
+   */
+  private getDetectedFestival(rawMix: RawMix): string | null {
+    const detected = getStoredDetection(rawMix)?.contexts || [];
+    const suggested = rawMix.suggested_contexts || [];
+    
+    const festivals = [
+      ...detected,
+      ...suggested
+        .filter(suggestion => !suggestion.requires_approval)
+        .map(suggestion => ({ name: suggestion.context_name, type: suggestion.context_type, confidence: suggestion.confidence })),
+    ]
+      .filter(context => context.type === 'festival' && context.name)
+      .sort((a, b) => b.confidence - a.confidence);
+    
+    return festivals[0]?.name || null;
+  }
+  
+  /**
+   * Link the mix to its festival and stage contexts, creating the stage under the festival
+   * Runs after the mix is written, so a failure here only loses the links
+   */
+  private async linkEventContexts(plan: CanonicalizationPlan, mixId: string): Promise<void> {
+    if (!plan.event) return;
+    
+    const festival = { name: plan.event.festival, type: 'festival' as const };
+    
+    try {
+      const { context: festivalContext } = await contextVenueService.ensureContext({
+        ...festival,
+        role: 'performed_at',
+        confidence: 1,
+        reason_codes: ['canonicalization'],
+      });
+      await contextVenueService.ensureMixContext(mixId, festivalContext.id, 'performed_at');
       
-      // Create new mix in production
-      return await this.createNewMix(rawMix, rawTracks, result, options);
+      if (plan.event.stage) {
+        const { context: stageContext } = await contextVenueService.ensureContext({
+          name: plan.event.stage,
+          type: 'stage',
+          role: 'performed_at',
+          confidence: 1,
+          reason_codes: ['canonicalization'],
+          parent: festival,
+        });
+        await contextVenueService.ensureMixContext(mixId, stageContext.id, 'performed_at');
+      }
+    } catch (err) {
+      logger.warn(`Failed to link festival contexts for ${plan.rawMixId}: ${(err as Error).message}`, { rawMixId: plan.rawMixId });
+    }
+  }
+  
+  /**
+   * Link the detected venue to the mix, or queue it for verification if it came from free-form text
+   * Runs after the mix is written, so a failure here only loses the venue
+   */
+  private async linkVenue(plan: CanonicalizationPlan, mixId: string): Promise<void> {
+    if (!plan.venue) return;
+    
+    try {
+      if (plan.venue.requires_verification) {
+        await contextVenueService.proposeVenue(plan.rawMixId, mixId, plan.venue);
+        return;
+      }
       
+      const { venue } = await contextVenueService.ensureVenue(plan.venue);
+      await contextVenueService.updateMixVenue(mixId, venue.id, { onlyIfEmpty: true });
     } catch (err) {
-      const error = `Canonicalization failed for ${rawMixId}: ${err}`;
-      result.errors.push(error);
-      logger.error(error, err as Error, { rawMixId });
+      logger.warn(`Failed to link venue for ${plan.rawMixId}: ${(err as Error).message}`, { rawMixId: plan.rawMixId });
+    }
+  }
+  
+  /**
+   * Queue medium-confidence cross-platform duplicates and near-identical tracklists for moderator review
+   * Runs after the mix is written, so a failure here only loses the review entries
+   */
+  private async queueDuplicateReviews(plan: CanonicalizationPlan, mixId: string): Promise<void> {
+    const contentMatches = plan.duplicateCandidates
+      .filter(candidate => candidate.decision === 'review' && candidate.mixId !== mixId)
+      .map(candidate => ({
+        raw_mix_id: plan.rawMixId,
+        mix_id: mixId,
+        candidate_mix_id: candidate.mixId,
+        candidate_raw_mix_id: candidate.rawMixId,
+        score: candidate.score,
+        signals: candidate.signals,
+        match_type: 'content',
+      }));
+    
+    const tracklistMatches = plan.similarTracklists
+      .filter(match => match.mixId !== mixId)
+      .map(match => ({
+        raw_mix_id: plan.rawMixId,
+        mix_id: mixId,
+        candidate_mix_id: match.mixId,
+        candidate_raw_mix_id: null,
+        score: match.jaccard,
+        signals: { jaccard: match.jaccard, orderedOverlap: match.orderedOverlap, sharedTracks: match.sharedTracks },
+        match_type: 'tracklist',
+      }));
+    
+    // A mix flagged by both checks only needs reviewing once
+    const reviews = [
+      ...contentMatches,
+      ...tracklistMatches.filter(match => !contentMatches.some(content => content.candidate_mix_id === match.candidate_mix_id)),
+    ];
+    
+    if (reviews.length === 0) return;
+    
+    const { error } = await this.supabase
+      .from('mix_duplicate_reviews')
+      .upsert(reviews, { onConflict: 'mix_id,candidate_mix_id', ignoreDuplicates: true });
+    
+    if (error) {
+      logger.warn(`Failed to queue duplicate reviews for ${plan.rawMixId}: ${error.message}`, { rawMixId: plan.rawMixId });
+    } else {
+      logger.info(`Queued ${reviews.length} possible duplicate(s) for review`, { rawMixId: plan.rawMixId });
+    }
+  }
+  
+  /**
+   * Check a page of raw mixes for existing production duplicates in one round-trip
+   * Results are keyed by raw mix ID and can be passed back in as options.duplicateCheck
+   */
+  async checkDuplicatesForRawMixes(
+    rawMixes: Array<Pick<RawMix, 'id' | 'provider' | 'external_id'>>
+  ): Promise<Map<string, DuplicateCheckResult>> {
+    const lookups: Record<string, ExternalIds> = {};
+    for (const rawMix of rawMixes) {
+      lookups[rawMix.id] = this.createExternalIds(rawMix);
+    }
+    
+    return checkForDuplicateMixes(lookups);
+  }
+  
+  /**
+   * Apply a plan in a single transaction via the canonicalize_raw_mix RPC
+   */
+  private async applyPlan(
+    plan: CanonicalizationPlan,
+    result: CanonicalizationResult
+  ): Promise<CanonicalizationResult> {
+    const { data, error } = await this.supabase.rpc('canonicalize_raw_mix', { p_plan: plan });
+    
+    if (error) {
+      throw new CanonicalizationStageError('write', `canonicalize_raw_mix RPC failed: ${error.message}`);
+    }
+    
+    if (!data?.success) {
+      // The transaction was rolled back, nothing from this mix was written
+      result.failedStage = data?.failed_stage || 'write';
+      result.errors.push(`Failed at stage ${result.failedStage}: ${data?.error || 'unknown error'}`);
+      logger.error(`Canonicalization rolled back for ${plan.rawMixId} at stage ${result.failedStage}`, undefined, {
+        rawMixId: plan.rawMixId,
+      });
       return result;
     }
+    
+    result.success = true;
+    result.mixId = data.mix_id;
+    result.tracksCreated = data.tracks_created;
+    result.artistsCreated = data.artists_created;
+    result.aliasesCreated = data.aliases_created;
+    
+    await this.queueDuplicateReviews(plan, data.mix_id);
+    await this.linkEventContexts(plan, data.mix_id);
+    await this.linkVenue(plan, data.mix_id);
+    
+    if (plan.action === 'merge') {
+      result.skipped = false;
+      result.reason = 'Updated existing mix with merged data';
+    }
+    
+    logger.info(`${plan.action === 'merge' ? 'Updated' : 'Created'} mix: ${result.mixId}`, { rawMixId: plan.rawMixId });
+    return result;
+  }
+  
+  /**
+   * Run one planning stage, tagging any error with the stage name
+   */
+  private async runStage<T>(stage: CanonicalizationStage, fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (err) {
+      if (err instanceof CanonicalizationStageError) throw err;
+      throw new CanonicalizationStageError(stage, err instanceof Error ? err.message : String(err));
+    }
   }
   
   /**
@@ -125,22 +703,22 @@ export class MixCanonicalizer {
    * Get verification fields for auto-verified entities
    */
   private getVerificationFields(options: CanonicalizationOptions, shouldVerify: boolean): {
-    is_verified: boolean;
-    verified_by: string | null;
-    verified_at: string | null;
+    isVerified: boolean;
+    verifiedBy: string | null;
+    verifiedAt: string | null;
   } {
     if (shouldVerify && options.systemUserId) {
       return {
-        is_verified: true,
-        verified_by: options.systemUserId,
-        verified_at: new Date().toISOString()
+        isVerified: true,
+        verifiedBy: options.systemUserId,
+        verifiedAt: new Date().toISOString()
       };
     }
     
     return {
-      is_verified: shouldVerify,
-      verified_by: null,
-      verified_at: null
+      isVerified: shouldVerify,
+      verifiedBy: null,
+      verifiedAt: null
     };
   }
 
@@ -168,7 +746,7 @@ export class MixCanonicalizer {
   /**
    * Create external IDs object from raw mix
    */
-  private createExternalIds(rawMix: RawMix): ExternalIds {
+  private createExternalIds(rawMix: Pick<RawMix, 'provider' | 'external_id'>): ExternalIds {
     let externalIds: ExternalIds = {};
     
     if (rawMix.external_id) {
@@ -179,241 +757,80 @@ export class MixCanonicalizer {
   }
   
   /**
-   * Update existing mix with new data (merge approach)
+   * Check whether a production mix already has a tracklist
    */
-  private async updateExistingMix(
-    rawMix: RawMix,
-    rawTracks: RawTrack[],
-    existingMixId: string,
-    result: CanonicalizationResult
-  ): Promise<CanonicalizationResult> {
-    logger.info(`Updating existing mix: ${existingMixId}`, {
-      rawMixId: rawMix.id,
-    });
-    
-    // Get existing mix data
-    const { data: existingMix, error: fetchError } = await this.supabase
-      .from('mixes')
-      .select('external_ids, description, cover_url, duration')
-      .eq('id', existingMixId)
-      .single();
-    
-    if (fetchError) {
-      result.errors.push(`Failed to fetch existing mix: ${fetchError.message}`);
-      return result;
-    }
-    
-    // Merge external IDs
-    const newExternalIds = this.createExternalIds(rawMix);
-    const mergedExternalIds = mergeExternalIds(
-      existingMix.external_ids as ExternalIds,
-      newExternalIds
-    );
-    
-    // Update mix with merged data
-    const { error: updateError } = await this.supabase
-      .from('mixes')
-      .update({
-        external_ids: mergedExternalIds,
-        // Only update if current values are null/empty
-        description: existingMix.description || rawMix.raw_description,
-        cover_url: existingMix.cover_url || rawMix.artwork_url,
-        duration: existingMix.duration || rawMix.duration_seconds,
-      })
-      .eq('id', existingMixId);
-    
-    if (updateError) {
-      result.errors.push(`Failed to update existing mix: ${updateError.message}`);
-      return result;
-    }
+  private async mixHasTracks(mixId: string): Promise<boolean> {
+    const { data: existingTracks, error } = await this.supabase
+      .from('mix_tracks')
+      .select('position')
+      .eq('mix_id', mixId)
+      .limit(1);
     
-    // Process tracks if this source has better tracklist data
-    if (rawTracks.length > 0) {
-      await this.processTracksForExistingMix(existingMixId, rawTracks, result);
+    if (error) {
+      throw new Error(`Failed to check existing tracks: ${error.message}`);
     }
     
-    // Mark raw mix as processed
-    await this.markRawMixProcessed(rawMix.id, existingMixId);
-    
-    result.success = true;
-    result.mixId = existingMixId;
-    result.skipped = false;
-    result.reason = 'Updated existing mix with merged data';
-    
-    return result;
+    return !!existingTracks && existingTracks.length > 0;
   }
   
   /**
-   * Create new mix in production
+   * Plan mix artist (DJ/host)
    */
-  private async createNewMix(
-    rawMix: RawMix,
-    rawTracks: RawTrack[],
-    result: CanonicalizationResult,
+  private async planMixArtist(
+    rawArtist: string,
     options: CanonicalizationOptions = {}
-  ): Promise<CanonicalizationResult> {
-    // Create the mix record
-    const mixData = {
-      title: rawMix.raw_title || 'Untitled Mix',
-      description: rawMix.raw_description,
-      audio_url: rawMix.source_url, // Use source URL as audio URL for now
-      cover_url: rawMix.artwork_url,
-      duration: rawMix.duration_seconds,
-      published_date: rawMix.uploaded_at,
-      external_ids: this.createExternalIds(rawMix),
-      ...this.getVerificationFields(options, this.shouldAutoVerifyMix(options)),
-      ingestion_source: rawMix.provider,
-      raw_mix_id: rawMix.id,
-    };
-    
-    const { data: mix, error: mixError } = await this.supabase
-      .from('mixes')
-      .insert(mixData)
-      .select('id')
-      .single();
-    
-    if (mixError) {
-      result.errors.push(`Failed to create mix: ${mixError.message}`);
-      return result;
-    }
+  ): Promise<PlannedArtist> {
+    const artistMatch = await this.trackMatcher.findMatchingArtists([rawArtist]);
     
-    const mixId = mix.id;
-    result.mixId = mixId;
-    
-    logger.info(`Created mix: ${mixId}`, { rawMixId: rawMix.id });
-    
-    // Process mix artist if available
-    if (rawMix.raw_artist) {
-      await this.processMixArtist(mixId, rawMix.raw_artist, result, options);
-    }
-    
-    // Process tracks
-    if (rawTracks.length > 0) {
-      await this.processTracks(mixId, rawTracks, result, options);
+    if (artistMatch[0]?.match) {
+      // Use existing artist
+      logger.debug(`Using existing artist: ${artistMatch[0].match.name}`);
+      return {
+        artistId: artistMatch[0].match.id,
+        name: artistMatch[0].match.name,
+        isVerified: true,
+        verifiedBy: null,
+        verifiedAt: null,
+        role: 'dj',
+      };
     }
     
-    // Mark raw mix as processed
-    await this.markRawMixProcessed(rawMix.id, mixId);
-    
-    result.success = true;
-    return result;
-  }
-  
-  /**
-   * Process mix artist (DJ/host)
-   */
-  private async processMixArtist(
-    mixId: string,
-    rawArtist: string,
-    result: CanonicalizationResult,
-    options: CanonicalizationOptions = {}
-  ): Promise<void> {
-    try {
-      const artistMatch = await this.trackMatcher.findMatchingArtists([rawArtist]);
-      
-      let artistId: string;
-      
-      if (artistMatch[0]?.match) {
-        // Use existing artist
-        artistId = artistMatch[0].match.id;
-        logger.debug(`Using existing artist: ${artistMatch[0].match.name}`);
-      } else {
-        // Create new artist
-        const { data: artist, error: artistError } = await this.supabase
-          .from('artists')
-          .insert({
-            name: rawArtist,
-            ...this.getVerificationFields(options, this.shouldAutoVerifyArtist(options)),
-            ingestion_source: 'auto',
-          })
-          .select('id')
-          .single();
-        
-        if (artistError) {
-          result.errors.push(`Failed to create artist: ${artistError.message}`);
-          return;
-        }
-        
-        artistId = artist.id;
-        result.artistsCreated++;
-        logger.debug(`Created new artist: ${rawArtist}`);
-      }
-      
-      // Link artist to mix
-      const { error: linkError } = await this.supabase
-        .from('mix_artists')
-        .insert({
-          mix_id: mixId,
-          artist_id: artistId,
-          role: 'dj',
-        });
-      
-      if (linkError) {
-        result.errors.push(`Failed to link mix artist: ${linkError.message}`);
-      }
-      
-    } catch (err) {
-      result.errors.push(`Failed to process mix artist: ${err}`);
-    }
+    // Create new artist
+    return {
+      artistId: null,
+      name: rawArtist,
+      ...this.getVerificationFields(options, this.shouldAutoVerifyArtist(options)),
+      role: 'dj',
+    };
   }
   
   /**
-   * Process tracks for a mix
+   * Plan tracks for a mix
    */
-  private async processTracks(
-    mixId: string,
+  private async planTracks(
     rawTracks: RawTrack[],
-    result: CanonicalizationResult,
     options: CanonicalizationOptions = {}
-  ): Promise<void> {
+  ): Promise<PlannedTrack[]> {
+    const planned: PlannedTrack[] = [];
+    
     for (const rawTrack of rawTracks) {
       try {
-        await this.processTrack(mixId, rawTrack, result, options);
+        planned.push(await this.planTrack(rawTrack, options));
       } catch (err) {
-        result.errors.push(`Failed to process track ${rawTrack.position}: ${err}`);
+        throw new Error(`Failed to match track ${rawTrack.position}: ${err}`);
       }
     }
-  }
-  
-  /**
-   * Process tracks for existing mix (additive approach)
-   */
-  private async processTracksForExistingMix(
-    mixId: string,
-    rawTracks: RawTrack[],
-    result: CanonicalizationResult
-  ): Promise<void> {
-    // Check if mix already has tracks
-    const { data: existingTracks, error } = await this.supabase
-      .from('mix_tracks')
-      .select('position')
-      .eq('mix_id', mixId)
-      .limit(1);
     
-    if (error) {
-      result.errors.push(`Failed to check existing tracks: ${error.message}`);
-      return;
-    }
-    
-    // If mix already has tracks, don't overwrite (preserve existing data)
-    if (existingTracks && existingTracks.length > 0) {
-      logger.info(`Mix ${mixId} already has tracks, skipping track processing`);
-      return;
-    }
-    
-    // Process tracks normally
-    await this.processTracks(mixId, rawTracks, result);
+    return planned;
   }
   
   /**
-   * Process a single track
+   * Plan a single track
    */
-  private async processTrack(
-    mixId: string,
+  private async planTrack(
     rawTrack: RawTrack,
-    result: CanonicalizationResult,
     options: CanonicalizationOptions = {}
-  ): Promise<void> {
+  ): Promise<PlannedTrack> {
     // Match against existing tracks and artists
     const matchResult = await this.trackMatcher.matchTrack({
       rawTitle: rawTrack.raw_title || undefined,
@@ -422,196 +839,106 @@ export class MixCanonicalizer {
       position: rawTrack.position || 0,
     });
     
-    let trackId: string;
+    const base = {
+      lineText: rawTrack.line_text,
+      position: rawTrack.position,
+      startTime: rawTrack.timestamp_seconds,
+      confidence: matchResult.confidence,
+      aliases: matchResult.aliases,
+    };
+    
+    if (matchResult.isUnidentified) {
+      // Placeholder - keep the known artist so the track can be resolved once someone IDs it
+      return {
+        ...base,
+        trackId: null,
+        title: rawTrack.raw_title || 'ID',
+        isVerified: false,
+        verifiedBy: null,
+        verifiedAt: null,
+        isUnidentified: true,
+        artists: this.planTrackArtists(rawTrack, matchResult, options).slice(0, 1),
+      };
+    }
     
     if (matchResult.track?.match && matchResult.track.isHighConfidence) {
       // Use existing track
-      trackId = matchResult.track.match.id;
       logger.debug(`Using existing track: ${matchResult.track.match.title}`);
-    } else {
-      // Create new track
-      trackId = await this.createNewTrack(rawTrack, matchResult, result, options);
+      return {
+        ...base,
+        trackId: matchResult.track.match.id,
+        title: matchResult.track.match.title,
+        isVerified: true,
+        verifiedBy: null,
+        verifiedAt: null,
+        isUnidentified: false,
+        artists: [],
+      };
     }
     
-    // Create mix_tracks relationship
-    const { error: mixTrackError } = await this.supabase
-      .from('mix_tracks')
-      .insert({
-        mix_id: mixId,
-        track_id: trackId,
-        position: rawTrack.position,
-        start_time: rawTrack.timestamp_seconds,
-      });
-    
-    if (mixTrackError) {
-      result.errors.push(`Failed to create mix_tracks: ${mixTrackError.message}`);
-    }
+    // Create new track, left for review when an artist only matched at medium confidence
+    const hasUnconfirmedArtist = matchResult.artists.some(artist => artist.match && !artist.isHighConfidence);
     
-    // Create track aliases
-    await this.createTrackAliases(trackId, matchResult.aliases, mixId, result);
+    return {
+      ...base,
+      trackId: null,
+      title: rawTrack.raw_title || this.extractTitleFromLine(rawTrack.line_text) || 'Unknown Track',
+      ...this.getVerificationFields(
+        options,
+        !hasUnconfirmedArtist && this.shouldAutoVerifyTrack(matchResult.confidence, options)
+      ),
+      isUnidentified: false,
+      artists: this.planTrackArtists(rawTrack, matchResult, options),
+    };
   }
   
   /**
-   * Create new track
+   * Plan artists for a new track
+   * Only high-confidence matches are linked. The raw artist is created only when the matcher found no
+   * candidate at all, so a medium match on "Lane 8" is left for review instead of duplicating it.
    */
-  private async createNewTrack(
+  private planTrackArtists(
     rawTrack: RawTrack,
     matchResult: TrackMatchResult,
-    result: CanonicalizationResult,
     options: CanonicalizationOptions = {}
-  ): Promise<string> {
-    const trackTitle = rawTrack.raw_title || this.extractTitleFromLine(rawTrack.line_text) || 'Unknown Track';
-    
-    const { data: track, error: trackError } = await this.supabase
-      .from('tracks')
-      .insert({
-        title: trackTitle,
-        ...this.getVerificationFields(options, this.shouldAutoVerifyTrack(matchResult.confidence, options)),
-        ingestion_source: 'auto',
-      })
-      .select('id')
-      .single();
-    
-    if (trackError) {
-      throw new Error(`Failed to create track: ${trackError.message}`);
-    }
+  ): PlannedArtist[] {
+    const artists: PlannedArtist[] = [];
     
-    result.tracksCreated++;
-    
-    // Create track artists
-    if (matchResult.artists.length > 0) {
-      await this.createTrackArtists(track.id, matchResult.artists, result, options);
-    } else if (rawTrack.raw_artist) {
-      // Create artist from raw data
-      await this.createTrackArtistFromRaw(track.id, rawTrack.raw_artist, result, options);
-    }
-    
-    return track.id;
-  }
-  
-  /**
-   * Create track artists
-   */
-  private async createTrackArtists(
-    trackId: string,
-    artistMatches: TrackMatchResult['artists'],
-    result: CanonicalizationResult,
-    options: CanonicalizationOptions = {}
-  ): Promise<void> {
-    for (let i = 0; i < artistMatches.length; i++) {
-      const artistMatch = artistMatches[i];
-      let artistId: string;
-      
-      if (artistMatch.match && artistMatch.isHighConfidence) {
-        artistId = artistMatch.match.id;
-      } else {
-        // Would need artist name to create new one
-        // Skip for now if no high confidence match
-        continue;
-      }
-      
-      const { error } = await this.supabase
-        .from('track_artists')
-        .insert({
-          track_id: trackId,
-          artist_id: artistId,
-          role: i === 0 ? 'primary' : 'featured',
-          position: i + 1,
-        });
+    matchResult.artists.forEach((artistMatch, i) => {
+      if (!artistMatch.match || !artistMatch.isHighConfidence) return;
       
-      if (error) {
-        result.errors.push(`Failed to create track_artists: ${error.message}`);
-      }
-    }
-  }
-  
-  /**
-   * Create track artist from raw data
-   */
-  private async createTrackArtistFromRaw(
-    trackId: string,
-    rawArtist: string,
-    result: CanonicalizationResult,
-    options: CanonicalizationOptions = {}
-  ): Promise<void> {
-    const { data: artist, error: artistError } = await this.supabase
-      .from('artists')
-      .insert({
-        name: rawArtist,
-        ...this.getVerificationFields(options, this.shouldAutoVerifyArtist(options)),
-        ingestion_source: 'auto',
-      })
-      .select('id')
-      .single();
+      artists.push({
+        artistId: artistMatch.match.id,
+        name: artistMatch.match.name,
+        isVerified: true,
+        verifiedBy: null,
+        verifiedAt: null,
+        role: i === 0 ? 'primary' : 'featured',
+        position: i + 1,
+      });
+    });
     
-    if (artistError) {
-      result.errors.push(`Failed to create artist: ${artistError.message}`);
-      return;
+    if (artists.length > 0) {
+      return artists;
     }
     
-    result.artistsCreated++;
+    const hasCandidate = matchResult.artists.some(artistMatch => artistMatch.match || artistMatch.alternatives.length > 0);
+    if (hasCandidate || (!matchResult.isUnidentified && matchResult.artists.length > 0)) {
+      return [];
+    }
     
-    const { error: linkError } = await this.supabase
-      .from('track_artists')
-      .insert({
-        track_id: trackId,
-        artist_id: artist.id,
+    if (rawTrack.raw_artist && !isPlaceholder(rawTrack.raw_artist)) {
+      // Create artist from raw data
+      return [{
+        artistId: null,
+        name: rawTrack.raw_artist,
+        ...this.getVerificationFields(options, this.shouldAutoVerifyArtist(options)),
         role: 'primary',
         position: 1,
-      });
-    
-    if (linkError) {
-      result.errors.push(`Failed to link track artist: ${linkError.message}`);
-    }
-  }
-  
-  /**
-   * Create track aliases
-   */
-  private async createTrackAliases(
-    trackId: string,
-    aliases: string[],
-    mixId: string,
-    result: CanonicalizationResult
-  ): Promise<void> {
-    for (const alias of aliases) {
-      const { error } = await this.supabase
-        .from('track_aliases')
-        .insert({
-          track_id: trackId,
-          alias,
-          source_type: 'ingestion',
-          mix_id: mixId,
-          is_primary: false,
-        });
-      
-      if (error) {
-        // Don't fail if alias already exists
-        if (!error.message.includes('duplicate')) {
-          result.errors.push(`Failed to create alias: ${error.message}`);
-        }
-      } else {
-        result.aliasesCreated++;
-      }
+      }];
     }
-  }
-  
-  /**
-   * Mark raw mix as processed
-   */
-  private async markRawMixProcessed(rawMixId: string, canonicalizedMixId: string): Promise<void> {
-    const { error } = await this.supabase
-      .from('raw_mixes')
-      .update({
-        status: 'canonicalized',
-        canonicalized_mix_id: canonicalizedMixId,
-        processed_at: new Date().toISOString(),
-      })
-      .eq('id', rawMixId);
     
-    if (error) {
-      logger.error(`Failed to mark raw mix as processed: ${error.message}`);
-    }
+    return [];
   }
   
   /**
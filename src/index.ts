@@ -1,12 +1,22 @@
 #!/usr/bin/env node
 
-import { program } from 'commander';
+import { program, Option } from 'commander';
 import { runIngestionJob } from './jobs/run-ingestion';
 import { 
   runCanonicalizationJob, 
   retryFailedCanonicalization, 
-  showCanonicalizationStats 
+  showCanonicalizationStats,
+  showCanonicalizationPlan
 } from './jobs/run-canonicalization';
+import { CANONICALIZATION_MODES } from './canonicalizer/canonicalize-mix';
+import { showSimilarMixes } from './jobs/run-mixes';
+import { reviewPendingContexts, submitContextReview } from './jobs/run-context-review';
+import { runRuleFeedbackJob } from './jobs/run-rule-feedback';
+import { testRule, backtestRule, createRule, activateRule } from './jobs/run-rules';
+import { runVenueGeocoding, reviewVenueProposals, submitVenueReview } from './jobs/run-venues';
+import { showMergeCandidates, reviewMergeCandidates, mergeRows, parseMergeKind } from './jobs/run-merges';
+import { showContextTree, showContextMixes, setContextDates } from './jobs/run-contexts';
+import { showSchedules, addSchedule, setScheduleActive } from './jobs/run-schedules';
 import { logger } from './services/logger';
 
 /**
@@ -80,6 +90,379 @@ canonicalizeCmd
     }
   });
 
+canonicalizeCmd
+  .command('plan <rawMixId>')
+  .description('Show what canonicalization would do for a raw mix without writing anything')
+  .option('--json', 'Print the plan as JSON')
+  .addOption(
+    new Option('-m, --mode <mode>', 'Canonicalization mode; backfill never auto-verifies')
+      .choices(CANONICALIZATION_MODES)
+      .default('rolling')
+  )
+  .action(async (rawMixId, options) => {
+    try {
+      await showCanonicalizationPlan(rawMixId, { json: options.json, mode: options.mode });
+    } catch (err) {
+      logger.error('Plan command failed', err as Error);
+      process.exit(1);
+    }
+  });
+
+// Mix commands
+const mixesCmd = program
+  .command('mixes')
+  .description('Production mix commands');
+
+mixesCmd
+  .command('similar <mixId>')
+  .description('List mixes whose tracklists overlap with a mix')
+  .option('-l, --limit <count>', 'Maximum number of matches', '20')
+  .option('-s, --min-shared <count>', 'Minimum shared tracks', '2')
+  .option('--json', 'Print matches as JSON')
+  .action(async (mixId, options) => {
+    try {
+      await showSimilarMixes(mixId, {
+        limit: parseInt(options.limit),
+        minShared: parseInt(options.minShared),
+        json: options.json,
+      });
+    } catch (err) {
+      logger.error('Similar mixes command failed', err as Error);
+      process.exit(1);
+    }
+  });
+
+// Context commands
+const contextsCmd = program
+  .command('contexts')
+  .description('Context and venue commands');
+
+contextsCmd
+  .command('review')
+  .description('Review pending context suggestions from context rules')
+  .option('-l, --limit <count>', 'Page size', '20')
+  .option('-r, --reviewer <userId>', 'Moderator user ID recorded as reviewed_by (default: MODERATOR_USER_ID)')
+  .option('--id <applicationId>', 'Review a single rule application instead of paging interactively')
+  .option('--verdict <verdict>', 'Verdict for --id: correct, incorrect, partial or spam')
+  .option('--notes <text>', 'Feedback notes for --id')
+  .action(async (options) => {
+    try {
+      if (options.id) {
+        if (!options.verdict) {
+          throw new Error('--verdict is required with --id');
+        }
+        await submitContextReview(options.id, options.verdict, {
+          reviewerId: options.reviewer,
+          notes: options.notes,
+        });
+      } else {
+        await reviewPendingContexts({
+          limit: parseInt(options.limit),
+          reviewerId: options.reviewer,
+        });
+      }
+    } catch (err) {
+      logger.error('Context review command failed', err as Error);
+      process.exit(1);
+    }
+  });
+
+contextsCmd
+  .command('geocode-venues')
+  .description('Fill in missing venue coordinates and country codes from the gazetteer')
+  .option('-l, --limit <count>', 'Maximum venues to check', '500')
+  .option('--dry-run', 'Show what would be filled in without updating venues')
+  .action(async (options) => {
+    try {
+      await runVenueGeocoding({
+        limit: parseInt(options.limit),
+        dryRun: options.dryRun,
+      });
+    } catch (err) {
+      logger.error('Venue geocoding command failed', err as Error);
+      process.exit(1);
+    }
+  });
+
+contextsCmd
+  .command('review-venues')
+  .description('Review venues proposed from free-form "live at" mentions')
+  .option('-l, --limit <count>', 'Page size', '20')
+  .option('-r, --reviewer <userId>', 'Moderator user ID recorded as verified_by (default: MODERATOR_USER_ID)')
+  .option('--id <proposalId>', 'Review a single venue proposal instead of paging interactively')
+  .option('--verdict <verdict>', 'Verdict for --id: approve or reject')
+  .option('--notes <text>', 'Review notes for --id')
+  .action(async (options) => {
+    try {
+      if (options.id) {
+        if (!options.verdict) {
+          throw new Error('--verdict is required with --id');
+        }
+        await submitVenueReview(options.id, options.verdict, {
+          reviewerId: options.reviewer,
+          notes: options.notes,
+        });
+      } else {
+        await reviewVenueProposals({
+          limit: parseInt(options.limit),
+          reviewerId: options.reviewer,
+        });
+      }
+    } catch (err) {
+      logger.error('Venue review command failed', err as Error);
+      process.exit(1);
+    }
+  });
+
+contextsCmd
+  .command('tree <context>')
+  .description('Show a context\'s parents and the contexts under it (name or ID)')
+  .action(async (context) => {
+    try {
+      await showContextTree(context);
+    } catch (err) {
+      logger.error('Context tree command failed', err as Error);
+      process.exit(1);
+    }
+  });
+
+contextsCmd
+  .command('mixes <context>')
+  .description('List mixes linked to a context or any context under it (name or ID)')
+  .option('-l, --limit <count>', 'Page size', '50')
+  .option('-o, --offset <count>', 'Mixes to skip', '0')
+  .option('--json', 'Print mixes as JSON')
+  .action(async (context, options) => {
+    try {
+      await showContextMixes(context, {
+        limit: parseInt(options.limit),
+        offset: parseInt(options.offset),
+        json: options.json,
+      });
+    } catch (err) {
+      logger.error('Context mixes command failed', err as Error);
+      process.exit(1);
+    }
+  });
+
+contextsCmd
+  .command('dates <festival> <start> [end]')
+  .description('Set a festival edition\'s first and last day (YYYY-MM-DD), used to resolve "Day N" in set titles')
+  .action(async (festival, start, end) => {
+    try {
+      await setContextDates(festival, start, end);
+    } catch (err) {
+      logger.error('Context dates command failed', err as Error);
+      process.exit(1);
+    }
+  });
+
+contextsCmd
+  .command('duplicates <kind>')
+  .description('List likely duplicate venues or contexts, or merge them interactively with --review')
+  .option('-l, --limit <count>', 'Maximum number of pairs', '50')
+  .option('--review', 'Step through the pairs and merge the confirmed ones')
+  .option('--json', 'Print pairs as JSON')
+  .action(async (kindInput, options) => {
+    try {
+      const kind = parseMergeKind(kindInput);
+      if (!kind) {
+        throw new Error(`Unknown kind "${kindInput}" (expected venues or contexts)`);
+      }
+
+      if (options.review) {
+        await reviewMergeCandidates(kind, { limit: parseInt(options.limit) });
+      } else {
+        await showMergeCandidates(kind, { limit: parseInt(options.limit), json: options.json });
+      }
+    } catch (err) {
+      logger.error('Duplicates command failed', err as Error);
+      process.exit(1);
+    }
+  });
+
+contextsCmd
+  .command('merge <kind> <survivorId> <duplicateId>')
+  .description('Merge a duplicate venue or context into the one to keep, recording its name as an alias')
+  .action(async (kindInput, survivorId, duplicateId) => {
+    try {
+      const kind = parseMergeKind(kindInput);
+      if (!kind) {
+        throw new Error(`Unknown kind "${kindInput}" (expected venue or context)`);
+      }
+
+      await mergeRows(kind, survivorId, duplicateId);
+    } catch (err) {
+      logger.error('Merge command failed', err as Error);
+      process.exit(1);
+    }
+  });
+
+// Context rule commands
+const rulesCmd = program
+  .command('rules')
+  .description('Context rule commands');
+
+rulesCmd
+  .command('feedback')
+  .description('Recompute rule accuracy from moderator feedback and adjust low-precision rules')
+  .option('-p, --min-precision <value>', 'Cap confidence at precision for rules below this', '0.7')
+  .option('-d, --deactivate-below <value>', 'Deactivate rules below this precision', '0.4')
+  .option('-n, --min-reviewed <count>', 'Reviews needed on the current version before acting', '10')
+  .option('--dry-run', 'Report without updating rules')
+  .action(async (options) => {
+    try {
+      await runRuleFeedbackJob({
+        minPrecision: parseFloat(options.minPrecision),
+        deactivateBelow: parseFloat(options.deactivateBelow),
+        minReviewed: parseInt(options.minReviewed),
+        dryRun: options.dryRun,
+      });
+    } catch (err) {
+      logger.error('Rule feedback command failed', err as Error);
+      process.exit(1);
+    }
+  });
+
+rulesCmd
+  .command('test <rule>')
+  .description('Validate a rule draft (JSON file or inline JSON) and run it against sample text')
+  .requiredOption('-t, --title <title>', 'Mix title to test against')
+  .option('-d, --description <text>', 'Mix description')
+  .option('-p, --platform <platform>', 'Platform (youtube, soundcloud, mixcloud)')
+  .option('--channel-name <name>', 'Channel name or username')
+  .option('--channel-id <id>', 'Channel ID')
+  .action(async (rule, options) => {
+    try {
+      await testRule(rule, {
+        title: options.title,
+        description: options.description,
+        platform: options.platform,
+        channelName: options.channelName,
+        channelId: options.channelId,
+      });
+    } catch (err) {
+      logger.error('Rule test command failed', err as Error);
+      process.exit(1);
+    }
+  });
+
+rulesCmd
+  .command('backtest <rule>')
+  .description('Run a rule draft against recent raw mixes and compare with active rules (nothing is recorded)')
+  .option('-s, --sample <count>', 'Number of recent raw mixes to sample', '500')
+  .option('-p, --provider <provider>', 'Only sample raw mixes from this provider')
+  .option('--show <count>', 'Number of hits/misses to list', '10')
+  .option('--json', 'Output as JSON')
+  .action(async (rule, options) => {
+    try {
+      await backtestRule(rule, {
+        sample: parseInt(options.sample),
+        provider: options.provider,
+        show: parseInt(options.show),
+        json: options.json,
+      });
+    } catch (err) {
+      logger.error('Rule backtest command failed', err as Error);
+      process.exit(1);
+    }
+  });
+
+rulesCmd
+  .command('create <rule>')
+  .description('Save a rule draft as the next version of its rule (inactive unless --activate)')
+  .option('--activate', 'Activate the new version and deactivate previous versions')
+  .action(async (rule, options) => {
+    try {
+      await createRule(rule, { activate: options.activate });
+    } catch (err) {
+      logger.error('Rule create command failed', err as Error);
+      process.exit(1);
+    }
+  });
+
+rulesCmd
+  .command('activate <ruleId>')
+  .description('Activate a rule version and deactivate its other versions')
+  .action(async (ruleId) => {
+    try {
+      await activateRule(ruleId);
+    } catch (err) {
+      logger.error('Rule activate command failed', err as Error);
+      process.exit(1);
+    }
+  });
+
+// Job schedule commands
+const schedulesCmd = program
+  .command('schedules')
+  .description('Recurring job schedule commands');
+
+schedulesCmd
+  .command('list')
+  .description('List job schedules and when they next run')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    try {
+      await showSchedules({ json: options.json });
+    } catch (err) {
+      logger.error('Schedule list command failed', err as Error);
+      process.exit(1);
+    }
+  });
+
+schedulesCmd
+  .command('add <workerType> <sourceId> <cron>')
+  .description('Schedule recurring jobs for a source (cron in UTC, e.g. "0 */6 * * *" or @daily)')
+  .option('-n, --name <name>', 'Schedule name (default <workerType>:<sourceId>)')
+  .option('-m, --mode <mode>', 'Job mode (rolling or backfill)', 'rolling')
+  .option('-b, --batch-size <count>', 'Batch size for each job', '50')
+  .option('-a, --max-attempts <count>', 'Attempts before a job fails', '3')
+  .action(async (workerType, sourceId, cron, options) => {
+    try {
+      if (options.mode !== 'rolling' && options.mode !== 'backfill') {
+        console.log(`Invalid mode: ${options.mode} (use rolling or backfill)`);
+        process.exit(1);
+      }
+      await addSchedule({
+        workerType,
+        sourceId,
+        cron,
+        name: options.name,
+        mode: options.mode,
+        batchSize: parseInt(options.batchSize),
+        maxAttempts: parseInt(options.maxAttempts),
+      });
+    } catch (err) {
+      logger.error('Schedule add command failed', err as Error);
+      process.exit(1);
+    }
+  });
+
+schedulesCmd
+  .command('pause <schedule>')
+  .description('Stop a schedule from creating jobs')
+  .action(async (schedule) => {
+    try {
+      await setScheduleActive(schedule, false);
+    } catch (err) {
+      logger.error('Schedule pause command failed', err as Error);
+      process.exit(1);
+    }
+  });
+
+schedulesCmd
+  .command('resume <schedule>')
+  .description('Resume a paused schedule from its next match')
+  .action(async (schedule) => {
+    try {
+      await setScheduleActive(schedule, true);
+    } catch (err) {
+      logger.error('Schedule resume command failed', err as Error);
+      process.exit(1);
+    }
+  });
+
 // Status command
 program
   .command('status')
@@ -114,6 +497,80 @@ program
     }
   });
 
+// Job chain command
+program
+  .command('job <jobId>')
+  .description('Show a job with its parent and child jobs (e.g. ingestion → canonicalization)')
+  .option('--json', 'Output as JSON')
+  .action(async (jobId, options) => {
+    try {
+      const { JobQueue } = await import('./services/job-queue');
+      const chain = await new JobQueue().getJobChain(jobId);
+      
+      if (!chain) {
+        console.log(`Job not found: ${jobId}`);
+        process.exit(1);
+      }
+      
+      if (options.json) {
+        console.log(JSON.stringify(chain, null, 2));
+        return;
+      }
+      
+      console.log(`🔗 Job chain ${chain.rootJobId}: ${chain.status}\n`);
+      
+      for (const job of chain.jobs) {
+        const marker = job.id === jobId ? '  ◀' : '';
+        const failure = job.failure_class ? ` [${job.failure_class}]` : '';
+        console.log(`${'  '.repeat(job.depth)}${job.worker_type} ${job.id}: ${job.status} (attempt ${job.attempts}/${job.max_attempts})${failure}${marker}`);
+        if (job.error_message && job.status !== 'completed') {
+          console.log(`${'  '.repeat(job.depth)}  ${job.error_message}`);
+        }
+      }
+    } catch (err) {
+      logger.error('Job command failed', err as Error);
+      process.exit(1);
+    }
+  });
+
+// Workers command
+program
+  .command('workers')
+  .description('List registered ingestion workers and their capabilities')
+  .action(async () => {
+    try {
+      const { workerRegistry } = await import('./workers');
+      const { getConcurrencyLimits } = await import('./lib/job-concurrency');
+      const limits = getConcurrencyLimits();
+      
+      console.log('🔧 Registered Workers\n');
+      
+      for (const registration of workerRegistry.list()) {
+        const { capabilities, configSchema } = registration;
+        const flags = [
+          capabilities.hasTracklists ? 'tracklists' : null,
+          capabilities.supportsBackfill ? 'backfill' : null,
+          capabilities.supportsRolling ? 'rolling' : null,
+          capabilities.producesMixes ? 'mixes' : null,
+        ].filter(Boolean).join(', ');
+        
+        console.log(`${registration.type} (${registration.name})`);
+        console.log(`  source_id:    ${configSchema.sourceIdDescription}`);
+        console.log(`  capabilities: ${flags || 'none'}`);
+        if (configSchema.requiredEnv?.length) {
+          console.log(`  requires:     ${configSchema.requiredEnv.join(', ')}`);
+        }
+        if (limits[registration.type] !== undefined) {
+          console.log(`  concurrency:  ${limits[registration.type]} job(s) at a time across processors`);
+        }
+        console.log('');
+      }
+    } catch (err) {
+      logger.error('Workers command failed', err as Error);
+      process.exit(1);
+    }
+  });
+
 // Help command
 program
   .command('help')
@@ -127,7 +584,27 @@ Available Commands:
   canonicalize run          Process pending raw mixes
   canonicalize retry        Retry failed canonicalizations  
   canonicalize stats        Show canonicalization statistics
+  canonicalize plan <id>    Dry-run canonicalization for a raw mix (--json for JSON, --mode rolling|backfill)
+  mixes similar <id>        List mixes sharing tracks with a mix
+  contexts review           Review pending context suggestions (c/i/p/s)
+  contexts geocode-venues   Fill in missing venue coordinates and country codes (--dry-run)
+  contexts review-venues    Approve or reject venues proposed from "live at" mentions (a/r)
+  contexts tree <context>   Show a context's parents and children
+  contexts mixes <context>  List mixes under a context and its children (e.g. "BBC Radio 1")
+  contexts dates <festival> Set a festival edition's dates (<start> [end], YYYY-MM-DD)
+  contexts duplicates       List likely duplicate venues or contexts (--review to merge)
+  contexts merge            Merge a duplicate venue or context into another (<kind> <keep> <dup>)
+  rules feedback            Update rule accuracy from moderator feedback (--dry-run)
+  rules test <rule>         Validate a rule draft and run it against a title (-t)
+  rules backtest <rule>     Run a rule draft against recent raw mixes, showing hits/misses/overlaps
+  rules create <rule>       Save a rule draft as a new version (--activate)
+  rules activate <id>       Activate a rule version
+  schedules list            List recurring job schedules (--json)
+  schedules add             Schedule jobs for a source (<workerType> <sourceId> "<cron>")
+  schedules pause|resume    Pause or resume a schedule by name or ID
   status                    Show service status
+  job <id>                  Show a job's chain (ingestion → canonicalization) and its overall status
+  workers                   List registered ingestion workers
   help                      Show this help
 
 Environment Variables:
@@ -136,6 +613,11 @@ Environment Variables:
   YOUTUBE_API_KEY           YouTube Data API key
   SOUNDCLOUD_CLIENT_ID      SoundCloud API client ID (optional)
   LOG_LEVEL                 Logging level (debug, info, warn, error)
+  MODERATOR_USER_ID         Default reviewer for contexts review and review-venues
+  GEONAMES_CITIES_PATH      GeoNames cities file for venue geocoding outside the ~130 bundled cities
+  JOB_CONCURRENCY           Jobs the job processor runs at once (default 2)
+  JOB_LEASE_SECONDS         Job lease length; heartbeats extend it while a job runs (default 300)
+  JOB_CONCURRENCY_LIMITS    Per-worker-type caps across processors, e.g. "1001tracklists=1,youtube=2"
 
 Configuration:
   Edit config/sources.json to configure ingestion sources
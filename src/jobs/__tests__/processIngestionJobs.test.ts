@@ -0,0 +1,235 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { IngestionJob } from '../../lib/supabase/types';
+
+interface Call {
+  table: string;
+  op: 'select' | 'insert' | 'update' | 'upsert';
+  values?: any;
+  filters: Record<string, unknown>;
+  order?: string[];
+  single?: boolean;
+}
+
+const { supabase } = vi.hoisted(() => {
+  const supabase = {
+    calls: [] as Call[],
+    // Rows an update on ingestion_jobs matches, empty once another processor holds the lease
+    heldRows: [{ id: 'job-1' }] as Array<{ id: string }>,
+    // Running jobs counted against the concurrency caps, and the pending job the fallback claim picks
+    runningRows: [] as Array<{ worker_type: string }> | null, // null fails the count
+    pendingRow: null as { id: string } | null,
+    rpcCalls: [] as Array<{ name: string; args: any }>,
+    rpcError: null as { message: string } | null,
+    from(table: string) {
+      const call: Call = { table, op: 'select', filters: {} };
+      const builder: any = {
+        select: () => builder,
+        insert: (values: any) => Object.assign(call, { op: 'insert', values }) && builder,
+        update: (values: any) => Object.assign(call, { op: 'update', values }) && builder,
+        upsert: (values: any) => Object.assign(call, { op: 'upsert', values }) && builder,
+        eq: (column: string, value: unknown) => { call.filters[column] = value; return builder; },
+        in: (column: string, values: unknown[]) => { call.filters[column] = values; return builder; },
+        not: (column: string, operator: string, value: unknown) => { call.filters[`not.${column}`] = `${operator}.${value}`; return builder; },
+        or: (filter: string) => { call.filters.or = filter; return builder; },
+        order: (column: string, { ascending }: { ascending: boolean }) => {
+          call.order = [...(call.order || []), `${column} ${ascending ? 'asc' : 'desc'}`];
+          return builder;
+        },
+        limit: () => builder,
+        single: () => Object.assign(call, { single: true }) && builder,
+        maybeSingle: () => Object.assign(call, { single: true }) && builder,
+        then: (resolve: any, reject: any) => {
+          supabase.calls.push(call);
+          return Promise.resolve(supabase.respond(call)).then(resolve, reject);
+        },
+      };
+      return builder;
+    },
+    respond(call: Call) {
+      if (call.table !== 'ingestion_jobs') return { data: null, error: null };
+      if (call.op === 'update') return { data: call.single ? supabase.heldRows[0] ?? null : supabase.heldRows, error: null };
+      if (call.filters.status === 'running') {
+        return supabase.runningRows
+          ? { data: supabase.runningRows, error: null }
+          : { data: null, error: { message: 'connection refused' } };
+      }
+      if (call.filters.status === 'pending') return { data: supabase.pendingRow, error: null };
+      return { data: { attempts: 0, max_attempts: 3 }, error: null };
+    },
+    rpc: async (name: string, args: any) => {
+      supabase.rpcCalls.push({ name, args });
+      return { data: [], error: supabase.rpcError };
+    },
+  };
+  return { supabase };
+});
+
+vi.mock('../../lib/supabase/service', () => ({ getServiceClient: () => supabase }));
+vi.mock('../../workers', () => ({ workerRegistry: {} }));
+vi.mock('../../services/job-scheduler', () => ({ jobScheduler: {} }));
+vi.mock('../../canonicalizer/canonicalize-mix', () => ({ MixCanonicalizer: class {} }));
+
+import { IngestionJobProcessor, type JobExecutionResult } from '../processIngestionJobs';
+import { logger } from '../../services/logger';
+
+const job = {
+  id: 'job-1',
+  worker_type: 'youtube',
+  job_payload: { worker_type: 'youtube', source_id: 'UC123', mode: 'rolling', batch_size: 10 },
+  attempts: 0,
+  max_attempts: 3,
+} as unknown as IngestionJob;
+
+const succeeded: JobExecutionResult = {
+  success: true,
+  totalItems: 1,
+  successfulItems: 1,
+  failedItems: 0,
+  errors: [],
+  duration: 5,
+};
+
+/**
+ * Processor with a claimed job whose execution finishes when `finish` is called
+ */
+function runningJob(shutdownTimeout: number) {
+  const processor = new IngestionJobProcessor({ shutdownTimeout });
+  let finish!: (result: JobExecutionResult) => void;
+
+  vi.spyOn(processor as any, 'parseJobPayload').mockImplementation(payload => payload);
+  vi.spyOn(processor as any, 'executeJob').mockReturnValue(new Promise(resolve => { finish = resolve; }));
+
+  (processor as any).isRunning = true;
+  (processor as any).startJob(job);
+
+  return { processor, finish: (result: JobExecutionResult) => finish(result), active: () => (processor as any).activeJobs };
+}
+
+function jobUpdates(): string[] {
+  return supabase.calls
+    .filter(call => call.table === 'ingestion_jobs' && call.op === 'update')
+    .map(call => call.values.status);
+}
+
+describe('IngestionJobProcessor', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    supabase.calls = [];
+    supabase.heldRows = [{ id: 'job-1' }];
+    supabase.runningRows = [];
+    supabase.pendingRow = null;
+    supabase.rpcCalls = [];
+    supabase.rpcError = null;
+  });
+
+  describe('stop', () => {
+    it('lets running jobs finish and records their result', async () => {
+      const { processor, finish, active } = runningJob(1000);
+
+      setTimeout(() => finish(succeeded), 5);
+      await processor.stop();
+
+      expect(jobUpdates()).toEqual(['completed']);
+      expect(active().size).toBe(0);
+    });
+
+    it('returns jobs still running after the timeout to pending and discards their result', async () => {
+      const { processor, finish, active } = runningJob(5);
+      const { done } = active().get(job.id);
+
+      await processor.stop();
+      expect(jobUpdates()).toEqual(['pending']);
+
+      finish(succeeded);
+      await done;
+
+      expect(jobUpdates()).toEqual(['pending']);
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('not recording the result'));
+    });
+  });
+
+  describe('recording results', () => {
+    it('skips the completion log when another processor holds the lease', async () => {
+      supabase.heldRows = [];
+      const { finish, active } = runningJob(1000);
+      const { done } = active().get(job.id);
+
+      finish(succeeded);
+      await done;
+
+      expect(jobUpdates()).toEqual(['completed']);
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining('Lost lease on job job-1 before it could be marked completed'),
+        expect.anything()
+      );
+      expect(supabase.calls.some(call => call.table === 'ingestion_logs' && call.values?.message === 'Job completed successfully'))
+        .toBe(false);
+    });
+
+    it('skips the retry log when another processor holds the lease', async () => {
+      supabase.heldRows = [];
+      const { finish, active } = runningJob(1000);
+      const { done } = active().get(job.id);
+
+      finish({ ...succeeded, success: false, errors: [{ error_type: 'worker_error', message: 'fetch failed' }] });
+      await done;
+
+      expect(jobUpdates()).toEqual(['pending']);
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining('before it could be marked pending for retry'),
+        expect.anything()
+      );
+    });
+  });
+
+  describe('claiming', () => {
+    const claim = (processor: IngestionJobProcessor) => (processor as any).claimNextJob();
+
+    it('passes the configured caps to claim_next_job', async () => {
+      vi.stubEnv('JOB_CONCURRENCY_LIMITS', 'youtube=2');
+      try {
+        await claim(new IngestionJobProcessor());
+      } finally {
+        vi.unstubAllEnvs();
+      }
+
+      expect(supabase.rpcCalls).toEqual([{
+        name: 'claim_next_job',
+        args: expect.objectContaining({ p_concurrency_limits: { '1001tracklists': 1, youtube: 2 } }),
+      }]);
+    });
+
+    it('falls back to the highest-priority, oldest pending job when the RPC fails', async () => {
+      supabase.rpcError = { message: 'function claim_next_job does not exist' };
+      supabase.pendingRow = { id: 'job-1' };
+
+      expect(await claim(new IngestionJobProcessor({ concurrencyLimits: {} }))).toEqual({ id: 'job-1' });
+
+      const [candidate, update] = supabase.calls.filter(call => call.table === 'ingestion_jobs');
+      expect(candidate.order).toEqual(['priority desc', 'created_at asc']);
+      expect(candidate.filters['not.worker_type']).toBeUndefined();
+      expect(update).toMatchObject({ op: 'update', values: { status: 'running' }, filters: { id: 'job-1', status: 'pending' } });
+    });
+
+    it('skips worker types whose running jobs have reached their cap in the fallback', async () => {
+      supabase.rpcError = { message: 'function claim_next_job does not exist' };
+      supabase.runningRows = [{ worker_type: '1001tracklists' }, { worker_type: 'youtube' }];
+
+      await claim(new IngestionJobProcessor({ concurrencyLimits: { '1001tracklists': 1, youtube: 2 } }));
+
+      const [running, candidate] = supabase.calls.filter(call => call.table === 'ingestion_jobs');
+      expect(running.filters).toEqual({ status: 'running', worker_type: ['1001tracklists', 'youtube'] });
+      expect(candidate.filters['not.worker_type']).toBe('in.("1001tracklists")');
+    });
+
+    it('treats capped worker types as full when running jobs cannot be counted', async () => {
+      supabase.rpcError = { message: 'function claim_next_job does not exist' };
+      supabase.runningRows = null;
+
+      await claim(new IngestionJobProcessor({ concurrencyLimits: { '1001tracklists': 1 } }));
+
+      const [, candidate] = supabase.calls.filter(call => call.table === 'ingestion_jobs');
+      expect(candidate.filters['not.worker_type']).toBe('in.("1001tracklists")');
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { RuleDefinition } from '../../lib/context-rules-engine';
+
+vi.mock('../../lib/supabase/service', () => ({
+  getServiceClient: () => ({}),
+}));
+
+import { RuleAuthoringRunner, rawMixToContent, type RuleDraft } from '../run-rules';
+
+const draft: RuleDraft = {
+  rule_name: 'Tomorrowland keyword',
+  rule_type: 'keyword',
+  target_context_type: 'festival',
+  target_context_name: 'Tomorrowland',
+  pattern_config: { keywords: ['tomorrowland'], append_year: true },
+};
+
+const existingRule: RuleDefinition = {
+  id: 'rule-1',
+  rule_name: 'Tomorrowland title',
+  rule_type: 'title_pattern',
+  target_context_type: 'festival',
+  target_context_name: 'Tomorrowland',
+  pattern_config: { contains: ['Tomorrowland'], append_year: true },
+  confidence_weight: 0.9,
+  requires_approval: false,
+  priority: 10,
+  version: 1,
+};
+
+function rawMix(id: string, title: string, description: string | null = null) {
+  return { id, provider: 'youtube', raw_title: title, raw_description: description, raw_artist: null, raw_metadata: {} };
+}
+
+function runnerWith(rawMixes: ReturnType<typeof rawMix>[], activeRules: RuleDefinition[]) {
+  const runner = new RuleAuthoringRunner();
+  vi.spyOn(runner as any, 'getSampleRawMixes').mockResolvedValue(rawMixes);
+  vi.spyOn(runner as any, 'getActiveRules').mockResolvedValue(activeRules);
+  return runner;
+}
+
+describe('RuleAuthoringRunner.backtest', () => {
+  it('treats year-suffixed editions as the candidate\'s context', async () => {
+    const runner = runnerWith([
+      rawMix('raw-1', 'Tomorrowland 2024 - Mainstage Sunset Set'),
+      rawMix('raw-2', 'Live from the Tomorrowland 2023 Freedom Stage'),
+    ], [existingRule]);
+
+    const result = await runner.backtest(draft);
+
+    expect(result.hits.map(hit => hit.suggestion?.context_name)).toEqual(['Tomorrowland 2024', 'Tomorrowland 2023']);
+    expect(result.overlaps).toEqual([expect.objectContaining({ ruleName: 'Tomorrowland title', sameContext: true, mixes: 2 })]);
+  });
+
+  it('counts year-suffixed editions from existing rules as misses', async () => {
+    const narrowDraft: RuleDraft = { ...draft, pattern_config: { keywords: ['tomorrowland', 'mainstage'], require_all: true, append_year: true } };
+    const runner = runnerWith([
+      rawMix('raw-1', 'Tomorrowland 2024 - Mainstage Sunset Set'),
+      rawMix('raw-2', 'Tomorrowland 2023 - Freedom Stage'),
+    ], [existingRule]);
+
+    const result = await runner.backtest(narrowDraft);
+
+    expect(result.hits.map(hit => hit.rawMixId)).toEqual(['raw-1']);
+    expect(result.misses.map(miss => miss.rawMixId)).toEqual(['raw-2']);
+  });
+});
+
+describe('rawMixToContent', () => {
+  it('uses the Mixcloud display name as the channel, as the worker does', () => {
+    const content = rawMixToContent({
+      ...rawMix('raw-1', 'Defected Radio Show'),
+      provider: 'mixcloud',
+      raw_artist: 'Defected Records',
+      raw_metadata: { key: '/defected/defected-radio-show/', user: { username: 'defected', name: 'Defected Records' } },
+    });
+
+    expect(content).toMatchObject({ platform: 'mixcloud', channel_name: 'Defected Records', channel_id: 'defected' });
+  });
+});
@@ -3,25 +3,60 @@ import dotenv from 'dotenv';
 // Load environment variables from .env.local
 dotenv.config({ path: '.env.local' });
 
+import os from 'os';
+import { randomUUID } from 'crypto';
 import { getServiceClient } from '../lib/supabase/service';
 import { logger } from '../services/logger';
+import { jobScheduler } from '../services/job-scheduler';
 import type { 
   IngestionJob, 
   BaseJobPayload, 
+  CanonicalizationJobPayload,
   StructuredError,
   SystemHealth 
 } from '../lib/supabase/types';
-import { SoundCloudWorker } from '../workers/soundcloud-worker';
-import { YouTubeWorker } from '../workers/youtube-worker';
-import { OneTracklistWorker } from '../workers/1001tracklists-worker';
-import { ArtistLinkDiscoveryWorker } from '../workers/artist-discovery-worker';
+import { workerRegistry } from '../workers';
 import { MixCanonicalizer, type CanonicalizationOptions } from '../canonicalizer/canonicalize-mix';
-import type { SourceConfig, BaseIngestionWorker } from '../lib/worker-interface';
+import type { SourceConfig } from '../lib/worker-interface';
+import { classifyFailure, formatRetryDelay, getRetryDelaySeconds } from '../lib/job-failures';
+import { getConcurrencyLimits } from '../lib/job-concurrency';
 
 /**
  * Job processor that polls for pending ingestion jobs and executes them
+ * Each process runs up to `concurrency` jobs at once, highest priority first, with per-worker-type caps
+ * (see lib/job-concurrency) applied across all processors. Jobs are claimed with a lease that heartbeats
+ * extend while the job runs; jobs whose lease expires (a processor died) are reaped back to pending.
+ * Each poll also creates jobs for due job_schedules (see services/job-scheduler).
+ * Ingestion jobs that insert raw mixes enqueue a child canonicalization job for exactly those mixes.
  */
 
+export interface JobProcessorOptions {
+  concurrency?: number;  // Jobs run at once by this process (default JOB_CONCURRENCY or 2)
+  leaseSeconds?: number; // How long a claimed job is held without a heartbeat (default JOB_LEASE_SECONDS or 300)
+  pollInterval?: number; // Milliseconds between polls for new jobs
+  shutdownTimeout?: number; // Milliseconds stop() waits for running jobs before releasing them (default 30s)
+  concurrencyLimits?: Record<string, number>; // Per-worker-type caps across processors (default from JOB_CONCURRENCY_LIMITS)
+}
+
+interface ActiveJob {
+  job: IngestionJob;
+  startedAt: number;
+  heartbeat: NodeJS.Timeout;
+  leaseLost: boolean; // Set when a heartbeat finds the job reaped, so its result isn't written
+  done: Promise<void>;
+}
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_LEASE_SECONDS = 300;
+const DEFAULT_POLL_INTERVAL = 2 * 60 * 1000; // 2 minutes
+const DEFAULT_SHUTDOWN_TIMEOUT = 30 * 1000;
+
+// Heartbeats per lease period, so one or two missed heartbeats don't lose the job
+const HEARTBEATS_PER_LEASE = 3;
+
+// worker_type of jobs that canonicalize the raw mixes inserted by their parent job
+const CANONICALIZATION_JOB = 'canonicalization';
+
 export interface JobExecutionResult {
   success: boolean;
   totalItems: number;
@@ -29,22 +64,29 @@ export interface JobExecutionResult {
   failedItems: number;
   errors: StructuredError[];
   duration: number;
+  childJobId?: string; // Canonicalization job enqueued for the mixes this job inserted
 }
 
 export class IngestionJobProcessor {
   private supabase = getServiceClient();
   private isRunning = false;
-  private pollInterval = 2 * 60 * 1000; // 2 minutes
-  private currentJobId: string | null = null;
+  private pollInterval: number;
+  private concurrency: number;
+  private leaseSeconds: number;
+  private shutdownTimeout: number;
+  private concurrencyLimits: Record<string, number>;
+  private activeJobs = new Map<string, ActiveJob>();
   private canonicalizer = new MixCanonicalizer();
   private readonly SYSTEM_USER_ID = 'system-auto-verify'; // System user for automated verification
-  
-  private workers = new Map<string, BaseIngestionWorker>([
-    ['soundcloud', new SoundCloudWorker()],
-    ['youtube', new YouTubeWorker()],
-    ['1001tracklists', new OneTracklistWorker()],
-    ['artist-discovery', new ArtistLinkDiscoveryWorker()],
-  ]);
+  private readonly workerId = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+  constructor(options: JobProcessorOptions = {}) {
+    this.concurrency = options.concurrency || parseInt(process.env.JOB_CONCURRENCY || '') || DEFAULT_CONCURRENCY;
+    this.leaseSeconds = options.leaseSeconds || parseInt(process.env.JOB_LEASE_SECONDS || '') || DEFAULT_LEASE_SECONDS;
+    this.pollInterval = options.pollInterval || DEFAULT_POLL_INTERVAL;
+    this.shutdownTimeout = options.shutdownTimeout ?? DEFAULT_SHUTDOWN_TIMEOUT;
+    this.concurrencyLimits = options.concurrencyLimits || getConcurrencyLimits();
+  }
 
   /**
    * Ensure system user exists for automated verification tracking
@@ -99,7 +141,7 @@ export class IngestionJobProcessor {
     }
 
     this.isRunning = true;
-    logger.info('🚀 Starting ingestion job processor');
+    logger.info(`🚀 Starting ingestion job processor ${this.workerId} with ${this.concurrency} slot(s)`);
 
     // Ensure system user exists for verification tracking
     await this.ensureSystemUser();
@@ -114,15 +156,28 @@ export class IngestionJobProcessor {
 
   /**
    * Stop the polling loop
+   * Running jobs get shutdownTimeout to finish. Any still running after that are returned to pending,
+   * and whatever they produce later is discarded like a job whose lease was lost.
    */
   async stop(): Promise<void> {
+    if (!this.isRunning) return;
+
     logger.info('🛑 Stopping ingestion job processor');
     this.isRunning = false;
 
-    // If there's a job running, mark it as failed so it can be retried
-    if (this.currentJobId) {
+    if (this.activeJobs.size > 0) {
+      logger.info(`Waiting up to ${this.shutdownTimeout}ms for ${this.activeJobs.size} running job(s)`);
+      await Promise.race([
+        Promise.all(Array.from(this.activeJobs.values(), active => active.done)),
+        this.sleep(this.shutdownTimeout),
+      ]);
+    }
+
+    for (const active of Array.from(this.activeJobs.values())) {
+      active.leaseLost = true;
+      clearInterval(active.heartbeat);
       await this.handleJobFailure(
-        this.currentJobId,
+        active.job.id,
         'Job processor shutdown during execution'
       );
     }
@@ -137,17 +192,20 @@ export class IngestionJobProcessor {
         // Update health monitoring
         await this.updateHealthStatus();
 
-        // Get next pending job
-        const job = await this.getNextPendingJob();
-        
-        if (job && job.id) {
-          await this.processJob(job);
-        } else if (job) {
-          logger.warn('Retrieved job with missing ID, skipping', { metadata: { job } });
-        }
+        // Return jobs abandoned by dead processors to the queue
+        await this.reapExpiredJobs();
 
-        // Wait before next poll
-        await this.sleep(this.pollInterval);
+        // Create jobs for schedules that have come due
+        await this.runDueSchedules();
+
+        // Claim jobs until every slot is busy or the queue is empty
+        await this.fillSlots();
+
+        // Wait for the next poll, or for a slot to free up
+        await Promise.race([
+          this.sleep(this.pollInterval),
+          ...Array.from(this.activeJobs.values(), active => active.done),
+        ]);
       } catch (error) {
         logger.error('Error in polling loop', error as Error);
         await this.sleep(this.pollInterval);
@@ -156,74 +214,248 @@ export class IngestionJobProcessor {
   }
 
   /**
-   * Get the next pending job using FOR UPDATE SKIP LOCKED
+   * Claim and start jobs for every free slot
    */
-  private async getNextPendingJob(): Promise<IngestionJob | null> {
+  private async fillSlots(): Promise<void> {
+    while (this.isRunning && this.activeJobs.size < this.concurrency) {
+      const job = await this.claimNextJob();
+
+      if (!job) break;
+
+      if (!job.id) {
+        logger.warn('Claimed job with missing ID, skipping', { metadata: { job } });
+        break;
+      }
+
+      this.startJob(job);
+    }
+  }
+
+  /**
+   * Run a claimed job in the background, sending heartbeats until it finishes
+   */
+  private startJob(job: IngestionJob): void {
+    const active: ActiveJob = {
+      job,
+      startedAt: Date.now(),
+      leaseLost: false,
+      heartbeat: setInterval(
+        () => this.sendHeartbeat(active),
+        (this.leaseSeconds * 1000) / HEARTBEATS_PER_LEASE
+      ),
+      done: Promise.resolve(),
+    };
+
+    active.done = this.processJob(active).finally(() => {
+      clearInterval(active.heartbeat);
+      this.activeJobs.delete(job.id);
+    });
+
+    this.activeJobs.set(job.id, active);
+  }
+
+  /**
+   * Claim the highest-priority pending job with a lease, skipping worker types at their concurrency cap
+   */
+  private async claimNextJob(): Promise<IngestionJob | null> {
     try {
-      // Use raw SQL for FOR UPDATE SKIP LOCKED
-      const { data, error } = await this.supabase.rpc('get_next_pending_job');
+      const { data, error } = await this.supabase.rpc('claim_next_job', {
+        p_worker_id: this.workerId,
+        p_lease_seconds: this.leaseSeconds,
+        p_concurrency_limits: this.concurrencyLimits,
+      });
       
       if (error) {
-        logger.warn('RPC function failed, using fallback query', { metadata: { error: error.message } });
-        // Fallback to regular query if RPC doesn't exist
-        const fallbackResult = await this.supabase
-          .from('ingestion_jobs')
-          .select('*')
-          .eq('status', 'pending')
-          .order('created_at', { ascending: true })
-          .limit(1)
-          .maybeSingle();
-        
-        if (fallbackResult.error) {
-          logger.error('Error fetching next job', fallbackResult.error);
-          return null;
-        }
-        
-        return fallbackResult.data;
+        logger.warn('claim_next_job RPC failed, using fallback claim', { metadata: { error: error.message } });
+        return this.claimNextJobFallback();
       }
 
       // RPC function returns an array, get the first job
       const job = data && data.length > 0 ? data[0] : null;
       if (job) {
-        logger.debug('Retrieved job via RPC', { metadata: { jobId: job.id, workerType: job.worker_type } });
+        logger.debug('Claimed job via RPC', { metadata: { jobId: job.id, workerType: job.worker_type } });
       } else {
         logger.debug('No pending jobs found via RPC');
       }
       return job;
     } catch (error) {
-      logger.error('Error in getNextPendingJob', error as Error);
+      logger.error('Error in claimNextJob', error as Error);
       return null;
     }
   }
 
   /**
-   * Process a single job
+   * Claim without the RPC: pick the highest-priority due pending job, then take it only if it's still pending
+   * If another processor got there first the update matches nothing and no job is returned.
+   * Concurrency caps are checked first but, unlike the RPC, not atomically with the claim.
    */
-  private async processJob(job: IngestionJob): Promise<void> {
-    this.currentJobId = job.id;
-    const startTime = Date.now();
+  private async claimNextJobFallback(): Promise<IngestionJob | null> {
+    let query = this.supabase
+      .from('ingestion_jobs')
+      .select('id')
+      .eq('status', 'pending')
+      .or(`next_run.is.null,next_run.lte.${new Date().toISOString()}`);
 
-    try {
-      logger.info(`📋 Processing job ${job.id}: ${job.worker_type}`);
+    const saturated = await this.getSaturatedWorkerTypes();
+    if (saturated.length > 0) {
+      query = query.not('worker_type', 'in', `(${saturated.map(type => `"${type}"`).join(',')})`);
+    }
 
-      // Mark job as running
-      await this.markJobAsRunning(job.id);
+    const { data: candidate, error: fetchError } = await query
+      .order('priority', { ascending: false })
+      .order('created_at', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+    
+    if (fetchError) {
+      logger.error('Error fetching next job', fetchError);
+      return null;
+    }
 
-      // Parse and validate job payload
-      const payload = this.parseJobPayload(job.job_payload);
-      
-      // Log job start
-      await this.logJobEvent(job.id, 'info', 'Job execution started', {
-        worker_type: job.worker_type,
-        payload,
-        attempt: job.attempts + 1
+    if (!candidate) return null;
+
+    const now = new Date();
+    const { data: job, error } = await this.supabase
+      .from('ingestion_jobs')
+      .update({
+        status: 'running',
+        locked_by: this.workerId,
+        lease_expires_at: new Date(now.getTime() + this.leaseSeconds * 1000).toISOString(),
+        heartbeat_at: now.toISOString(),
+        last_run: now.toISOString(),
+        updated_at: now.toISOString()
+      })
+      .eq('id', candidate.id)
+      .eq('status', 'pending')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error claiming job', error);
+      return null;
+    }
+
+    return job;
+  }
+
+  /**
+   * Worker types whose running jobs have reached their concurrency cap
+   */
+  private async getSaturatedWorkerTypes(): Promise<string[]> {
+    const limits = this.concurrencyLimits;
+    const limitedTypes = Object.keys(limits);
+    if (limitedTypes.length === 0) return [];
+
+    const { data, error } = await this.supabase
+      .from('ingestion_jobs')
+      .select('worker_type')
+      .eq('status', 'running')
+      .in('worker_type', limitedTypes);
+
+    if (error) {
+      logger.warn('Could not count running jobs, treating capped worker types as full', { metadata: { error: error.message } });
+      return limitedTypes;
+    }
+
+    const running = new Map<string, number>();
+    for (const row of (data || []) as Array<{ worker_type: string }>) {
+      running.set(row.worker_type, (running.get(row.worker_type) || 0) + 1);
+    }
+
+    return limitedTypes.filter(type => (running.get(type) || 0) >= limits[type]);
+  }
+
+  /**
+   * Extend the lease on a running job
+   */
+  private async sendHeartbeat(active: ActiveJob): Promise<void> {
+    try {
+      const { data: held, error } = await this.supabase.rpc('heartbeat_job', {
+        p_job_id: active.job.id,
+        p_worker_id: this.workerId,
+        p_lease_seconds: this.leaseSeconds,
       });
 
-      // Execute the job
-      const result = await this.executeJob(job, payload);
+      if (error) {
+        logger.warn(`Heartbeat failed for job ${active.job.id}: ${error.message}`);
+        return;
+      }
+
+      if (held === false && !active.leaseLost) {
+        active.leaseLost = true;
+        logger.warn(`Lost lease on job ${active.job.id}, its result won't be recorded`, {
+          metadata: { jobId: active.job.id, workerId: this.workerId }
+        });
+      }
+    } catch (error) {
+      logger.error('Error sending heartbeat', error as Error);
+    }
+  }
+
+  /**
+   * Return running jobs past their lease to pending, counting an attempt
+   */
+  private async reapExpiredJobs(): Promise<void> {
+    try {
+      const { data, error } = await this.supabase.rpc('reap_expired_jobs');
+
+      if (error) {
+        logger.warn('reap_expired_jobs RPC failed, skipping reaper', { metadata: { error: error.message } });
+        return;
+      }
+
+      for (const reaped of (data || []) as Array<{ id: string; locked_by: string | null; attempts: number; status: string }>) {
+        await this.logJobEvent(reaped.id, 'warn', `Job lease expired${reaped.locked_by ? ` on ${reaped.locked_by}` : ''}, returned to ${reaped.status}`, {
+          attempt: reaped.attempts,
+          final_status: reaped.status === 'failed' ? 'failed' : undefined
+        });
+      }
+    } catch (error) {
+      logger.error('Error reaping expired jobs', error as Error);
+    }
+  }
+
+  /**
+   * Materialize ingestion jobs from due job_schedules
+   */
+  private async runDueSchedules(): Promise<void> {
+    try {
+      const { enqueued, skipped } = await jobScheduler.runDueSchedules();
+
+      if (enqueued > 0 || skipped > 0) {
+        logger.info(`⏰ Schedules: ${enqueued} job(s) created, ${skipped} skipped (previous run still active)`);
+      }
+    } catch (error) {
+      logger.error('Error running job schedules', error as Error);
+    }
+  }
+
+  /**
+   * Process a single claimed job
+   */
+  private async processJob(active: ActiveJob): Promise<void> {
+    const { job } = active;
+    const startTime = active.startedAt;
+
+    try {
+      logger.info(`📋 Processing job ${job.id}: ${job.worker_type}`);
+
+      // Parse and validate job payload, then execute the job
+      let result: JobExecutionResult;
+      if (job.worker_type === CANONICALIZATION_JOB) {
+        const payload = this.parseCanonicalizationPayload(job.job_payload);
+        await this.logJobStart(job, payload);
+        result = await this.executeCanonicalizationJob(payload);
+      } else {
+        const payload = this.parseJobPayload(job.job_payload);
+        await this.logJobStart(job, payload);
+        result = await this.executeJob(job, payload);
+      }
 
       // Handle job completion
-      if (result.success) {
+      if (active.leaseLost) {
+        logger.warn(`Job ${job.id} finished after its lease was reaped, not recording the result`);
+      } else if (result.success) {
         await this.handleJobSuccess(job, result);
       } else {
         await this.handleJobFailure(job.id, 'Job execution failed', result.errors);
@@ -238,9 +470,9 @@ export class IngestionJobProcessor {
       
       logger.error(`❌ Job ${job.id} failed after ${duration}ms: ${errorMessage}`);
       
-      await this.handleJobFailure(job.id, errorMessage);
-    } finally {
-      this.currentJobId = null;
+      if (!active.leaseLost) {
+        await this.handleJobFailure(job.id, errorMessage);
+      }
     }
   }
 
@@ -259,7 +491,7 @@ export class IngestionJobProcessor {
       }
     }
 
-    if (!['youtube', 'soundcloud', '1001tracklists', 'artist-discovery'].includes(payload.worker_type)) {
+    if (!workerRegistry.has(payload.worker_type)) {
       throw new Error(`Invalid worker_type: ${payload.worker_type}`);
     }
 
@@ -267,6 +499,10 @@ export class IngestionJobProcessor {
       throw new Error(`Invalid mode: ${payload.mode}`);
     }
 
+    if (!workerRegistry.supportsMode(payload.worker_type, payload.mode)) {
+      throw new Error(`Worker ${payload.worker_type} does not support ${payload.mode} mode`);
+    }
+
     if (typeof payload.batch_size !== 'number' || payload.batch_size <= 0) {
       throw new Error('batch_size must be a positive number');
     }
@@ -274,14 +510,39 @@ export class IngestionJobProcessor {
     return payload as BaseJobPayload;
   }
 
+  /**
+   * Parse and validate a canonicalization job's payload
+   */
+  private parseCanonicalizationPayload(payload: any): CanonicalizationJobPayload {
+    if (!payload) {
+      throw new Error('Job payload is required');
+    }
+
+    if (!Array.isArray(payload.raw_mix_ids) || payload.raw_mix_ids.length === 0) {
+      throw new Error('Missing required field: raw_mix_ids');
+    }
+
+    if (!['backfill', 'rolling'].includes(payload.mode)) {
+      throw new Error(`Invalid mode: ${payload.mode}`);
+    }
+
+    return payload as CanonicalizationJobPayload;
+  }
+
+  private async logJobStart(job: IngestionJob, payload: BaseJobPayload | CanonicalizationJobPayload): Promise<void> {
+    await this.logJobEvent(job.id, 'info', 'Job execution started', {
+      worker_type: job.worker_type,
+      payload,
+      attempt: job.attempts + 1
+    });
+  }
+
   /**
    * Execute the job using the appropriate worker
    */
   private async executeJob(job: IngestionJob, payload: BaseJobPayload): Promise<JobExecutionResult> {
-    const worker = this.workers.get(payload.worker_type);
-    if (!worker) {
-      throw new Error(`Unknown worker type: ${payload.worker_type}`);
-    }
+    const registration = workerRegistry.require(payload.worker_type);
+    const worker = workerRegistry.getWorker(payload.worker_type);
 
     // Convert job payload to worker config
     const config = this.payloadToWorkerConfig(payload);
@@ -294,52 +555,20 @@ export class IngestionJobProcessor {
       // Execute the worker
       const workerResult = await worker.run(config);
 
-      // Handle canonicalization for workers that produce raw mixes
-      let canonicalizedCount = 0;
-      let canonicalizationErrors: StructuredError[] = [];
-
-      if (workerResult.success && workerResult.mixesAdded > 0 && payload.worker_type !== 'artist-discovery') {
-        const canonicalizationOptions: CanonicalizationOptions = {
-          mode: payload.mode,
-          autoVerifyThreshold: payload.mode === 'rolling' ? 0.9 : 0.0,
-          systemUserId: this.SYSTEM_USER_ID
-        };
-
-        // Get raw mixes that need canonicalization
-        const { data: rawMixes, error: fetchError } = await this.supabase
-          .from('raw_mixes')
-          .select('id')
-          .eq('status', 'pending')
-          .order('created_at', { ascending: false })
-          .limit(workerResult.mixesAdded);
-
-        if (!fetchError && rawMixes) {
-          for (const rawMix of rawMixes) {
-            try {
-              const canonResult = await this.canonicalizer.canonicalizeMix(
-                rawMix.id, 
-                canonicalizationOptions
-              );
-              
-              if (canonResult.success) {
-                canonicalizedCount++;
-              } else {
-                canonicalizationErrors.push({
-                  error_type: 'canonicalization_error',
-                  message: `Failed to canonicalize ${rawMix.id}: ${canonResult.errors.join(', ')}`
-                });
-              }
-            } catch (error) {
-              canonicalizationErrors.push({
-                error_type: 'canonicalization_error',
-                message: `Canonicalization exception for ${rawMix.id}: ${error}`
-              });
-            }
-          }
+      // Canonicalize exactly the mixes this run inserted in a child job, even if the run also had errors
+      let childJobId: string | undefined;
+      const enqueueErrors: StructuredError[] = [];
+
+      if (registration.capabilities.producesMixes && workerResult.rawMixIds.length > 0) {
+        try {
+          childJobId = await this.enqueueCanonicalizationJob(job, payload, workerResult.rawMixIds);
+        } catch (error) {
+          // The raw mixes stay pending for `npm run canonicalize`
+          enqueueErrors.push({
+            error_type: 'enqueue_error',
+            message: error instanceof Error ? error.message : String(error)
+          });
         }
-      } else if (payload.worker_type === 'artist-discovery') {
-        // For artist discovery, success is measured by profiles discovered/updated
-        canonicalizedCount = workerResult.mixesFound; // mixesFound tracks profiles processed
       }
 
       // Convert worker result to job execution result
@@ -348,16 +577,18 @@ export class IngestionJobProcessor {
           error_type: 'worker_error' as const,
           message: error
         })),
-        ...canonicalizationErrors
+        ...enqueueErrors
       ];
 
       return {
-        success: workerResult.success && canonicalizationErrors.length === 0,
+        success: workerResult.success && enqueueErrors.length === 0,
         totalItems: workerResult.mixesFound,
-        successfulItems: canonicalizedCount, // Count canonicalized mixes as successful
-        failedItems: workerResult.errors.length + canonicalizationErrors.length,
+        // For workers like artist discovery, success is measured by items discovered/updated
+        successfulItems: registration.capabilities.producesMixes ? workerResult.mixesAdded : workerResult.mixesFound,
+        failedItems: workerResult.errors.length + enqueueErrors.length,
         errors: allErrors,
-        duration: workerResult.duration
+        duration: workerResult.duration,
+        childJobId
       };
     } catch (error) {
       return {
@@ -374,6 +605,106 @@ export class IngestionJobProcessor {
     }
   }
 
+  /**
+   * Enqueue the canonicalization job that follows an ingestion job
+   * @returns The child job's ID
+   */
+  private async enqueueCanonicalizationJob(
+    parent: IngestionJob,
+    payload: BaseJobPayload,
+    rawMixIds: string[]
+  ): Promise<string> {
+    const childPayload: CanonicalizationJobPayload = {
+      worker_type: CANONICALIZATION_JOB,
+      raw_mix_ids: rawMixIds,
+      mode: payload.mode
+    };
+
+    const { data, error } = await this.supabase
+      .from('ingestion_jobs')
+      .insert({
+        worker_type: CANONICALIZATION_JOB,
+        job_payload: childPayload,
+        parent_job_id: parent.id,
+        priority: parent.priority,
+        max_attempts: parent.max_attempts,
+        next_run: new Date().toISOString(),
+        status: 'pending'
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to enqueue canonicalization job for ${rawMixIds.length} raw mix(es): ${error.message}`);
+    }
+
+    await this.logJobEvent(parent.id, 'info', `Enqueued canonicalization job ${data.id} for ${rawMixIds.length} raw mix(es)`, {
+      child_job_id: data.id,
+      raw_mix_ids: rawMixIds
+    });
+
+    return data.id;
+  }
+
+  /**
+   * Canonicalize the raw mixes a parent ingestion job inserted
+   * Mixes no longer pending (canonicalized by an earlier attempt or by `npm run canonicalize`) are skipped
+   */
+  private async executeCanonicalizationJob(payload: CanonicalizationJobPayload): Promise<JobExecutionResult> {
+    const startTime = Date.now();
+
+    const { data: rawMixes, error: fetchError } = await this.supabase
+      .from('raw_mixes')
+      .select('id')
+      .in('id', payload.raw_mix_ids)
+      .eq('status', 'pending');
+
+    if (fetchError) {
+      throw new Error(`Failed to fetch raw mixes for canonicalization: ${fetchError.message}`);
+    }
+
+    const canonicalizationOptions: CanonicalizationOptions = {
+      mode: payload.mode,
+      autoVerifyThreshold: payload.mode === 'rolling' ? 0.9 : 0.0,
+      systemUserId: this.SYSTEM_USER_ID
+    };
+
+    let canonicalizedCount = 0;
+    const errors: StructuredError[] = [];
+
+    for (const rawMix of rawMixes || []) {
+      try {
+        const canonResult = await this.canonicalizer.canonicalizeMix(
+          rawMix.id, 
+          canonicalizationOptions
+        );
+        
+        if (canonResult.success) {
+          canonicalizedCount++;
+        } else {
+          errors.push({
+            error_type: 'canonicalization_error',
+            message: `Failed to canonicalize ${rawMix.id}: ${canonResult.errors.join(', ')}`
+          });
+        }
+      } catch (error) {
+        errors.push({
+          error_type: 'canonicalization_error',
+          message: `Canonicalization exception for ${rawMix.id}: ${error}`
+        });
+      }
+    }
+
+    return {
+      success: errors.length === 0,
+      totalItems: payload.raw_mix_ids.length,
+      successfulItems: canonicalizedCount,
+      failedItems: errors.length,
+      errors,
+      duration: Date.now() - startTime
+    };
+  }
+
   /**
    * Convert job payload to worker configuration
    */
@@ -385,29 +716,9 @@ export class IngestionJobProcessor {
       maxResults,
     };
 
-    // Add source-specific configuration
-    switch (payload.worker_type) {
-      case 'youtube':
-        // source_id should be a channel ID
-        config.channels = [payload.source_id];
-        break;
-      case 'soundcloud':
-        // source_id should be a username
-        config.artists = [payload.source_id];
-        break;
-      case '1001tracklists':
-        // source_id should be a search term or URL
-        if (payload.source_id.startsWith('http')) {
-          config.urls = [payload.source_id];
-        } else {
-          config.searchTerms = [payload.source_id];
-        }
-        break;
-      case 'artist-discovery':
-        // source_id should be an artist name
-        config.artistNames = [payload.source_id];
-        break;
-    }
+    // Add source-specific configuration from the worker's config schema
+    const { configSchema } = workerRegistry.require(payload.worker_type);
+    Object.assign(config, configSchema.toSourceConfig(payload.source_id));
 
     // Add date range for backfill vs rolling
     if (payload.mode === 'rolling') {
@@ -431,42 +742,34 @@ export class IngestionJobProcessor {
     return config;
   }
 
-  /**
-   * Mark job as running
-   */
-  private async markJobAsRunning(jobId: string): Promise<void> {
-    const { error } = await this.supabase
-      .from('ingestion_jobs')
-      .update({
-        status: 'running',
-        last_run: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', jobId);
-
-    if (error) {
-      throw new Error(`Failed to mark job as running: ${error.message}`);
-    }
-  }
-
   /**
    * Handle successful job completion
    */
   private async handleJobSuccess(job: IngestionJob, result: JobExecutionResult): Promise<void> {
     // Mark job as completed
-    const { error } = await this.supabase
+    const { data, error } = await this.supabase
       .from('ingestion_jobs')
       .update({
         status: 'completed',
+        failure_class: null,
+        locked_by: null,
+        lease_expires_at: null,
         updated_at: new Date().toISOString()
       })
-      .eq('id', job.id);
+      .eq('id', job.id)
+      .eq('locked_by', this.workerId)
+      .select('id');
 
     if (error) {
       logger.error(`Failed to mark job as completed: ${error.message}`);
       return;
     }
 
+    if (!data || data.length === 0) {
+      this.warnLeaseLost(job.id, 'completed');
+      return;
+    }
+
     // Log completion with summary
     await this.logJobEvent(job.id, 'info', 'Job completed successfully', {
       ...result,
@@ -475,7 +778,8 @@ export class IngestionJobProcessor {
   }
 
   /**
-   * Handle job failure with retry logic
+   * Handle job failure, retrying with a backoff that depends on the kind of failure
+   * Permanent and config failures aren't retried
    */
   private async handleJobFailure(
     jobId: string, 
@@ -496,50 +800,81 @@ export class IngestionJobProcessor {
       }
 
       const newAttempts = job.attempts + 1;
-      const shouldRetry = newAttempts < job.max_attempts;
+      const classification = classifyFailure(errorMessage, errors);
+      const delaySeconds = getRetryDelaySeconds(classification, newAttempts);
 
-      if (shouldRetry) {
-        // Reset to pending for retry
-        const { error } = await this.supabase
+      if (delaySeconds !== null && newAttempts < job.max_attempts) {
+        // Back to pending, due once the backoff has passed
+        const nextRun = new Date(Date.now() + delaySeconds * 1000);
+        const { data: updated, error } = await this.supabase
           .from('ingestion_jobs')
           .update({
             status: 'pending',
             attempts: newAttempts,
             error_message: errorMessage,
+            failure_class: classification.failureClass,
+            next_run: nextRun.toISOString(),
+            locked_by: null,
+            lease_expires_at: null,
             updated_at: new Date().toISOString()
           })
-          .eq('id', jobId);
+          .eq('id', jobId)
+          .eq('locked_by', this.workerId)
+          .select('id');
 
         if (error) {
           logger.error('Error updating job for retry', error);
           return;
         }
 
-        await this.logJobEvent(jobId, 'warn', `Job failed (attempt ${newAttempts}/${job.max_attempts}), will retry`, {
+        if (!updated || updated.length === 0) {
+          this.warnLeaseLost(jobId, 'pending for retry');
+          return;
+        }
+
+        await this.logJobEvent(jobId, 'warn', `Job failed with a ${classification.failureClass} error (attempt ${newAttempts}/${job.max_attempts}), retrying in ${formatRetryDelay(delaySeconds)}`, {
           error_message: errorMessage,
           errors,
-          attempt: newAttempts
+          attempt: newAttempts,
+          failure_class: classification.failureClass,
+          next_run: nextRun.toISOString()
         });
       } else {
         // Mark as permanently failed
-        const { error } = await this.supabase
+        const { data: updated, error } = await this.supabase
           .from('ingestion_jobs')
           .update({
             status: 'failed',
             attempts: newAttempts,
             error_message: errorMessage,
+            failure_class: classification.failureClass,
+            locked_by: null,
+            lease_expires_at: null,
             updated_at: new Date().toISOString()
           })
-          .eq('id', jobId);
+          .eq('id', jobId)
+          .eq('locked_by', this.workerId)
+          .select('id');
 
         if (error) {
           logger.error('Error marking job as failed', error);
           return;
         }
 
-        await this.logJobEvent(jobId, 'error', `Job permanently failed after ${newAttempts} attempts`, {
+        if (!updated || updated.length === 0) {
+          this.warnLeaseLost(jobId, 'failed');
+          return;
+        }
+
+        const reason = delaySeconds === null
+          ? `with a ${classification.failureClass} error, not retrying`
+          : `after ${newAttempts} attempts`;
+
+        await this.logJobEvent(jobId, 'error', `Job permanently failed ${reason}`, {
           error_message: errorMessage,
           errors,
+          failure_class: classification.failureClass,
+          matched_error: classification.matched,
           final_status: 'failed'
         });
       }
@@ -548,6 +883,15 @@ export class IngestionJobProcessor {
     }
   }
 
+  /**
+   * The job was reaped or claimed by another processor before its outcome could be written
+   */
+  private warnLeaseLost(jobId: string, status: string): void {
+    logger.warn(`Lost lease on job ${jobId} before it could be marked ${status}, its result wasn't recorded`, {
+      metadata: { jobId, workerId: this.workerId }
+    });
+  }
+
   /**
    * Log a job event
    */
@@ -587,7 +931,11 @@ export class IngestionJobProcessor {
           last_polled_at: new Date().toISOString(),
           metadata: {
             status: 'running',
-            current_job: this.currentJobId,
+            worker_id: this.workerId,
+            current_jobs: Array.from(this.activeJobs.keys()),
+            concurrency: this.concurrency,
+            concurrency_limits: this.concurrencyLimits,
+            lease_seconds: this.leaseSeconds,
             poll_interval_ms: this.pollInterval
           },
           updated_at: new Date().toISOString()
@@ -615,9 +963,9 @@ export class IngestionJobProcessor {
  * CLI entry point
  */
 export async function runJobProcessor(): Promise<void> {
-  const processor = new IngestionJobProcessor();
-  
   try {
+    // Inside the try so a malformed JOB_CONCURRENCY_LIMITS is logged rather than left unhandled
+    const processor = new IngestionJobProcessor();
     await processor.start();
   } catch (error) {
     logger.error('Job processor failed', error as Error);
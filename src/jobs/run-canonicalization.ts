@@ -4,9 +4,19 @@ import dotenv from 'dotenv';
 dotenv.config({ path: '.env.local' });
 
 import { getServiceClient } from '../lib/supabase/service';
-import { MixCanonicalizer, type CanonicalizationResult } from '../canonicalizer/canonicalize-mix';
+import {
+  MixCanonicalizer,
+  summarizePlan,
+  CANONICALIZATION_MODES,
+  type CanonicalizationMode,
+  type CanonicalizationResult,
+  type CanonicalizationPlan,
+  type PlannedArtist,
+} from '../canonicalizer/canonicalize-mix';
 import { JobQueue } from '../services/job-queue';
 import { logger } from '../services/logger';
+import type { DuplicateCheckResult } from '../lib/duplicate-detection';
+import type { RawMix } from '../lib/supabase/types';
 
 /**
  * Hourly canonicalization job runner
@@ -56,12 +66,26 @@ export class CanonicalizationJobRunner {
       
       logger.info(`Processing ${pendingMixes.length} pending raw mixes`);
       
+      // Check the whole page for production duplicates in one query
+      const duplicateChecks = await this.prefetchDuplicateChecks(pendingMixes);
+      const externalIdsSeen = new Set<string>();
+      
       // Process each mix
       for (const rawMix of pendingMixes) {
         try {
           await this.markRawMixProcessing(rawMix.id);
           
-          const result = await this.canonicalizer.canonicalizeMix(rawMix.id);
+          // A mix canonicalized earlier in this page may now be this one's duplicate, so only trust the
+          // pre-fetched check if no earlier mix shared its external ID. Only the external ID lookup is
+          // pre-fetched: cross-platform content matching runs per mix against live data, so it already
+          // sees mixes created earlier in the page. A raw mix has a single external ID, and that's the
+          // only one canonicalizing it can add to a production mix, so comparing them covers the gap.
+          const sharesIdWithPage = !!rawMix.external_id && externalIdsSeen.has(rawMix.external_id);
+          if (rawMix.external_id) externalIdsSeen.add(rawMix.external_id);
+          
+          const result = await this.canonicalizer.canonicalizeMix(rawMix.id, {
+            duplicateCheck: sharesIdWithPage ? undefined : duplicateChecks.get(rawMix.id),
+          });
           jobResult.results.push(result);
           jobResult.totalProcessed++;
           
@@ -71,7 +95,7 @@ export class CanonicalizationJobRunner {
           } else {
             jobResult.errors++;
             await this.markRawMixFailed(rawMix.id, result.errors.join('; '));
-            logger.error(`❌ Failed to canonicalize: ${rawMix.raw_title || rawMix.source_url}`);
+            logger.error(`❌ Failed to canonicalize at stage ${result.failedStage || 'unknown'}: ${rawMix.raw_title || rawMix.source_url}`);
             
             // Log individual errors
             for (const error of result.errors) {
@@ -112,6 +136,21 @@ export class CanonicalizationJobRunner {
     return jobResult;
   }
   
+  /**
+   * Pre-fetch duplicate checks for a page of raw mixes
+   * If the batch lookup fails, each mix checks for itself (and fails on its own if the lookup still does)
+   */
+  private async prefetchDuplicateChecks(
+    rawMixes: Array<Pick<RawMix, 'id' | 'provider' | 'external_id'>>
+  ): Promise<Map<string, DuplicateCheckResult>> {
+    try {
+      return await this.canonicalizer.checkDuplicatesForRawMixes(rawMixes);
+    } catch (err) {
+      logger.warn(`Batch duplicate check failed, checking mixes one at a time: ${(err as Error).message}`);
+      return new Map();
+    }
+  }
+  
   /**
    * Get pending raw mixes for processing
    */
@@ -119,12 +158,13 @@ export class CanonicalizationJobRunner {
     id: string;
     raw_title: string | null;
     source_url: string;
-    provider: string;
+    provider: RawMix['provider'];
+    external_id: string | null;
     created_at: string;
   }>> {
     const { data, error } = await this.supabase
       .from('raw_mixes')
-      .select('id, raw_title, source_url, provider, created_at')
+      .select('id, raw_title, source_url, provider, external_id, created_at')
       .eq('status', 'pending')
       .order('created_at', { ascending: true })
       .limit(limit);
@@ -314,6 +354,141 @@ export async function retryFailedCanonicalization(): Promise<void> {
   }
 }
 
+/**
+ * CLI entry point for plan (dry run of a single raw mix)
+ * Defaults to rolling mode, the one that auto-verifies
+ */
+export async function showCanonicalizationPlan(
+  rawMixId: string,
+  options: { json?: boolean; mode?: CanonicalizationMode } = {}
+): Promise<void> {
+  const mode = options.mode || 'rolling';
+  
+  if (options.json) {
+    // Keep stdout parseable - info logs would otherwise be interleaved with the JSON
+    logger.setLevel('warn');
+  }
+  
+  const canonicalizer = new MixCanonicalizer();
+  
+  try {
+    const result = await canonicalizer.canonicalizeMix(rawMixId, {
+      mode,
+      dryRun: true,
+    });
+    
+    if (!result.success || !result.plan) {
+      throw new Error(result.errors.join('; ') || 'Failed to build plan');
+    }
+    
+    if (options.json) {
+      console.log(JSON.stringify({ mode, plan: result.plan, summary: summarizePlan(result.plan) }, null, 2));
+    } else {
+      printPlan(result.plan, mode);
+    }
+    
+    process.exit(0);
+  } catch (err) {
+    logger.error('Plan command failed', err as Error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Print a canonicalization plan in a readable format
+ */
+function printPlan(plan: CanonicalizationPlan, mode: CanonicalizationMode): void {
+  const summary = summarizePlan(plan);
+  const describeArtist = (artist: PlannedArtist) =>
+    artist.artistId ? `${artist.name} (existing ${artist.artistId})` : `${artist.name} (new)`;
+  
+  console.log(`\n🧪 Canonicalization plan for raw mix ${plan.rawMixId} (${mode} mode, dry run, nothing written)`);
+  console.log(`\nMix: ${plan.mix.title}`);
+  
+  if (plan.action === 'merge') {
+    const matchedBy = plan.duplicateMatch === 'content' ? 'content match' : 'external ID';
+    console.log(`  Action:       merge into existing mix ${plan.existingMixId} (${matchedBy})`);
+  } else {
+    console.log('  Action:       create new mix');
+  }
+  console.log(`  Source:       ${plan.mix.ingestionSource}`);
+  console.log(`  External IDs: ${JSON.stringify(plan.mix.externalIds)}`);
+  console.log(`  Verified:     ${plan.mix.isVerified ? 'yes (auto)' : 'no (manual review)'}`);
+  
+  if (plan.mixArtist) {
+    console.log(`  DJ:           ${describeArtist(plan.mixArtist)}`);
+  }
+  
+  if (plan.event) {
+    const when = [
+      plan.event.weekend ? `weekend ${plan.event.weekend}` : null,
+      plan.event.day ? `day ${plan.event.day}` : null,
+      plan.event.setTime,
+    ].filter(Boolean).join(', ');
+    console.log(`  Festival:     ${plan.event.festival}${plan.event.stage ? `, ${plan.event.stage}` : ''}${when ? ` (${when})` : ''}`);
+  }
+  if (plan.venue) {
+    const location = [plan.venue.city, plan.venue.country].filter(Boolean).join(', ');
+    const status = plan.venue.requires_verification ? 'proposed for verification' : 'linked';
+    console.log(`  Venue:        ${plan.venue.name}${location ? ` (${location})` : ''}, ${status}`);
+  }
+  if (plan.mix.eventDate) {
+    console.log(`  Event date:   ${plan.mix.eventDate} (${plan.mix.eventDatePrecision})`);
+  }
+  
+  if (plan.tracks.length > 0) {
+    console.log(`\nTracks (${plan.tracks.length}):`);
+    for (const track of plan.tracks) {
+      const status = track.trackId ? `match ${track.trackId}` : track.isUnidentified ? 'unidentified' : 'create';
+      console.log(`  ${String(track.position ?? '-').padStart(3)}. [${status}, ${track.confidence}] ${track.lineText}`);
+      
+      if (track.isUnidentified) {
+        for (const artist of track.artists) {
+          console.log(`       artist:  ${describeArtist(artist)}`);
+        }
+      } else if (!track.trackId) {
+        console.log(`       title:   ${track.title}${track.isVerified ? ' (auto-verified)' : ''}`);
+        for (const artist of track.artists) {
+          console.log(`       artist:  ${describeArtist(artist)} as ${artist.role}`);
+        }
+      }
+      if (track.aliases.length > 0) {
+        console.log(`       aliases: ${track.aliases.join(' | ')}`);
+      }
+    }
+  }
+  
+  if (plan.duplicateCandidates.length > 0) {
+    console.log(`\nPossible duplicates (${plan.duplicateCandidates.length}, queued for review):`);
+    for (const candidate of plan.duplicateCandidates) {
+      const signals = Object.entries(candidate.signals)
+        .map(([signal, score]) => `${signal} ${score.toFixed(2)}`)
+        .join(', ');
+      console.log(`  ${candidate.score.toFixed(2)}  ${candidate.provider} mix ${candidate.mixId}: ${candidate.title || 'Untitled'}`);
+      console.log(`        ${signals}`);
+    }
+  }
+  
+  if (plan.similarTracklists.length > 0) {
+    console.log(`\nNear-identical tracklists (${plan.similarTracklists.length}, queued for review):`);
+    for (const match of plan.similarTracklists) {
+      console.log(`  ${match.jaccard.toFixed(2)}  mix ${match.mixId}: ${match.title} (${match.sharedTracks} shared, ordered ${match.orderedOverlap.toFixed(2)})`);
+    }
+  }
+  
+  for (const note of plan.notes) {
+    console.log(`\nℹ️  ${note}`);
+  }
+  
+  console.log('\n📊 Summary:');
+  console.log(`  Tracks matched:  ${summary.tracksMatched}`);
+  console.log(`  Tracks created:  ${summary.tracksCreated}`);
+  console.log(`  Unidentified:    ${summary.tracksUnidentified}`);
+  console.log(`  Artists reused:  ${summary.artistsReused}`);
+  console.log(`  Artists created: ${summary.artistsCreated}`);
+  console.log(`  Aliases added:   ${summary.aliases}`);
+}
+
 /**
  * CLI entry point for stats
  */
@@ -342,6 +517,10 @@ export async function showCanonicalizationStats(): Promise<void> {
   }
 }
 
+function isCanonicalizationMode(value: string): value is CanonicalizationMode {
+  return (CANONICALIZATION_MODES as readonly string[]).includes(value);
+}
+
 // Run if called directly
 if (require.main === module) {
   const command = process.argv[2] || 'run';
@@ -356,8 +535,19 @@ if (require.main === module) {
     case 'stats':
       showCanonicalizationStats();
       break;
+    case 'plan': {
+      const rawMixId = process.argv[3];
+      const modeIndex = process.argv.indexOf('--mode');
+      const mode = modeIndex === -1 ? undefined : process.argv[modeIndex + 1];
+      if (!rawMixId || rawMixId.startsWith('--') || (mode !== undefined && !isCanonicalizationMode(mode))) {
+        console.log(`Usage: npm run canonicalize -- plan <rawMixId> [--json] [--mode ${CANONICALIZATION_MODES.join('|')}]`);
+        process.exit(1);
+      }
+      showCanonicalizationPlan(rawMixId, { json: process.argv.includes('--json'), mode });
+      break;
+    }
     default:
-      console.log('Usage: npm run canonicalize [run|retry|stats]');
+      console.log('Usage: npm run canonicalize [run|retry|stats|plan <rawMixId>]');
       process.exit(1);
   }
 }
\ No newline at end of file
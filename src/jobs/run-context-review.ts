@@ -0,0 +1,197 @@
+import dotenv from 'dotenv';
+
+// Load environment variables from .env.local
+dotenv.config({ path: '.env.local' });
+
+import * as readline from 'readline';
+import {
+  contextReviewService,
+  type PendingContextReview,
+  type ReviewVerdict,
+} from '../lib/context-review-service';
+import { logger } from '../services/logger';
+
+/**
+ * Moderator review queue for context rule applications
+ * Pages through pending_context_reviews and records correct/incorrect/partial/spam verdicts
+ */
+
+const VERDICTS: Record<string, ReviewVerdict> = {
+  c: 'correct',
+  correct: 'correct',
+  i: 'incorrect',
+  incorrect: 'incorrect',
+  p: 'partially_correct',
+  partial: 'partially_correct',
+  partially_correct: 'partially_correct',
+  s: 'spam',
+  spam: 'spam',
+};
+
+/**
+ * Parse a verdict name or shortcut (c/i/p/s)
+ */
+export function parseVerdict(input: string): ReviewVerdict | null {
+  return VERDICTS[input.trim().toLowerCase()] || null;
+}
+
+/**
+ * CLI entry point for interactive review
+ */
+export async function reviewPendingContexts(
+  options: { limit?: number; reviewerId?: string } = {}
+): Promise<void> {
+  const pageSize = options.limit || 20;
+  const reviewerId = options.reviewerId || process.env.MODERATOR_USER_ID;
+
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  const ask = (question: string) => new Promise<string>(resolve => rl.question(question, resolve));
+
+  const counts: Record<ReviewVerdict | 'skipped', number> = {
+    correct: 0,
+    incorrect: 0,
+    partially_correct: 0,
+    spam: 0,
+    skipped: 0,
+  };
+
+  try {
+    const total = await contextReviewService.countPendingReviews();
+    console.log(`\n🗂️  ${total} context suggestion(s) pending review`);
+
+    if (!reviewerId) {
+      console.log('⚠️  No reviewer set (--reviewer or MODERATOR_USER_ID), reviews will be recorded without reviewed_by');
+    }
+
+    // Reviewed rows drop out of the view, so only skipped rows push the offset forward
+    let offset = 0;
+    let quit = false;
+
+    while (!quit) {
+      const page = await contextReviewService.getPendingReviews(pageSize, offset);
+      if (page.length === 0) break;
+
+      for (const review of page) {
+        printReview(review);
+
+        const answer = (await ask('Verdict [c]orrect [i]ncorrect [p]artial [s]pam, [n]ext, [q]uit (optionally followed by a note): ')).trim();
+        const [choice, ...noteParts] = answer.split(/\s+/);
+        const key = (choice || '').toLowerCase();
+
+        if (key === 'q') {
+          quit = true;
+          break;
+        }
+
+        const verdict = parseVerdict(key);
+        if (!verdict) {
+          counts.skipped++;
+          offset++;
+          continue;
+        }
+
+        try {
+          const result = await contextReviewService.submitReview(review, verdict, {
+            reviewerId,
+            notes: noteParts.join(' ') || undefined,
+          });
+          counts[verdict]++;
+
+          if (result.linked) {
+            console.log(`  ✅ Linked ${result.contextCreated ? 'new' : 'existing'} context ${result.contextId} to mix ${result.mixId}`);
+          } else if (result.note) {
+            console.log(`  ⚠️  ${result.note}`);
+          } else {
+            console.log(`  📝 Recorded as ${verdict}`);
+          }
+        } catch (err) {
+          // Leave it pending and move past it
+          console.log(`  ❌ ${(err as Error).message}`);
+          counts.skipped++;
+          offset++;
+        }
+      }
+    }
+
+    console.log('\n📊 Review Summary:');
+    console.log(`  Correct:   ${counts.correct}`);
+    console.log(`  Partial:   ${counts.partially_correct}`);
+    console.log(`  Incorrect: ${counts.incorrect}`);
+    console.log(`  Spam:      ${counts.spam}`);
+    console.log(`  Skipped:   ${counts.skipped}`);
+
+    rl.close();
+    process.exit(0);
+  } catch (err) {
+    rl.close();
+    logger.error('Context review failed', err as Error);
+    process.exit(1);
+  }
+}
+
+/**
+ * CLI entry point for reviewing a single application non-interactively
+ */
+export async function submitContextReview(
+  applicationId: string,
+  verdictInput: string,
+  options: { reviewerId?: string; notes?: string } = {}
+): Promise<void> {
+  try {
+    const verdict = parseVerdict(verdictInput);
+    if (!verdict) {
+      throw new Error(`Unknown verdict "${verdictInput}" (expected correct, incorrect, partial or spam)`);
+    }
+
+    const review = await contextReviewService.getPendingReview(applicationId);
+    if (!review) {
+      throw new Error(`No pending review found for application ${applicationId}`);
+    }
+
+    const result = await contextReviewService.submitReview(review, verdict, {
+      reviewerId: options.reviewerId || process.env.MODERATOR_USER_ID,
+      notes: options.notes,
+    });
+
+    console.log(`✅ Recorded ${verdict} for ${applicationId}${result.linked ? `, linked context to mix ${result.mixId}` : ''}`);
+    if (result.note) {
+      console.log(`⚠️  ${result.note}`);
+    }
+
+    process.exit(0);
+  } catch (err) {
+    logger.error('Context review failed', err as Error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Print a pending review for the moderator
+ */
+function printReview(review: PendingContextReview): void {
+  console.log('\n' + '─'.repeat(60));
+  console.log(`🎧 ${review.mix_title}${review.artist_name ? ` — ${review.artist_name}` : ''}${review.platform ? ` (${review.platform})` : ''}`);
+  console.log(`   Suggested:  ${review.suggested_context_name} (${review.suggested_context_type})`);
+  console.log(`   Confidence: ${Number(review.confidence_score).toFixed(2)} via rule "${review.rule_name}"`);
+  if (review.matched_text) {
+    console.log(`   Matched:    "${review.matched_text}"`);
+  }
+  if (review.reasoning) {
+    console.log(`   Reasoning:  ${review.reasoning}`);
+  }
+  console.log(`   Application ${review.application_id}`);
+}
+
+// CLI handling
+if (require.main === module) {
+  const [applicationId, verdict] = process.argv.slice(2);
+
+  if (applicationId && verdict) {
+    submitContextReview(applicationId, verdict);
+  } else {
+    reviewPendingContexts();
+  }
+}
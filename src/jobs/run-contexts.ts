@@ -0,0 +1,213 @@
+import dotenv from 'dotenv';
+
+// Load environment variables from .env.local
+dotenv.config({ path: '.env.local' });
+
+import { contextVenueService, type ContextNode } from '../lib/contextVenueService';
+import { logger } from '../services/logger';
+import type { Context } from '../lib/supabase/types';
+
+/**
+ * Context hierarchy tools
+ */
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Find a context by ID or exact name
+ * A name shared by several contexts (e.g. "Mainstage") must be given as an ID
+ */
+async function resolveContext(nameOrId: string): Promise<Context> {
+  if (UUID_PATTERN.test(nameOrId)) {
+    const context = await contextVenueService.getContext(nameOrId);
+    if (!context) {
+      throw new Error(`Context not found: ${nameOrId}`);
+    }
+    return context;
+  }
+
+  const matches = await contextVenueService.findContextsByName(nameOrId);
+  if (matches.length === 0) {
+    throw new Error(`No context named "${nameOrId}"`);
+  }
+  if (matches.length > 1) {
+    const options = matches.map(context => `${context.id} (${context.type})`).join(', ');
+    throw new Error(`Several contexts are named "${nameOrId}", use an ID: ${options}`);
+  }
+
+  return matches[0];
+}
+
+/**
+ * CLI entry point for tree (a context's parents and everything under it)
+ */
+export async function showContextTree(nameOrId: string): Promise<void> {
+  try {
+    const context = await resolveContext(nameOrId);
+    const [ancestors, descendants] = await Promise.all([
+      contextVenueService.getContextAncestors(context.id),
+      contextVenueService.getContextDescendants(context.id),
+    ]);
+
+    console.log('');
+
+    // Parents from the root down, then the context's own subtree
+    const parents = ancestors.filter(node => node.depth > 0).reverse();
+    parents.forEach((node, index) => console.log(`${'  '.repeat(index)}${describeNode(node)}`));
+
+    const indent = parents.length;
+    for (const node of orderTree(descendants)) {
+      const marker = node.depth === 0 ? '  ◀' : '';
+      console.log(`${'  '.repeat(indent + node.depth)}${describeNode(node)}${marker}`);
+    }
+
+    process.exit(0);
+  } catch (err) {
+    logger.error('Context tree command failed', err as Error);
+    process.exit(1);
+  }
+}
+
+/**
+ * CLI entry point for mixes (every mix linked to a context or anything under it)
+ */
+export async function showContextMixes(
+  nameOrId: string,
+  options: { limit?: number; offset?: number; json?: boolean } = {}
+): Promise<void> {
+  if (options.json) {
+    // Keep stdout parseable
+    logger.setLevel('warn');
+  }
+
+  try {
+    const context = await resolveContext(nameOrId);
+    const { mixes, total } = await contextVenueService.getMixesUnderContext(context.id, options);
+
+    if (options.json) {
+      console.log(JSON.stringify({ context, total, mixes }, null, 2));
+      process.exit(0);
+    }
+
+    if (mixes.length === 0) {
+      console.log(`No mixes under ${context.name} (${context.type})`);
+      process.exit(0);
+    }
+
+    console.log(`\n🎧 ${total} mix(es) under ${context.name} (${context.type})\n`);
+    for (const mix of mixes) {
+      const date = (mix.event_date || mix.published_date || '').slice(0, 10) || '—'.padEnd(10);
+      const via = mix.depth > 0 ? ` via ${mix.context_name}` : '';
+      console.log(`  ${date}  ${mix.title}${via} (${mix.mix_id})`);
+    }
+
+    if (total > mixes.length) {
+      console.log(`\n  Showing ${(options.offset || 0) + 1}-${(options.offset || 0) + mixes.length} of ${total}`);
+    }
+
+    process.exit(0);
+  } catch (err) {
+    logger.error('Context mixes command failed', err as Error);
+    process.exit(1);
+  }
+}
+
+/**
+ * CLI entry point for dates (a festival edition's first and last day)
+ * Without an end date the edition is a single day
+ */
+export async function setContextDates(nameOrId: string, startDate: string, endDate?: string): Promise<void> {
+  try {
+    const end = endDate || startDate;
+    for (const date of [startDate, end]) {
+      if (!isIsoDate(date)) {
+        throw new Error(`Invalid date "${date}", use YYYY-MM-DD`);
+      }
+    }
+    if (end < startDate) {
+      throw new Error(`End date ${end} is before start date ${startDate}`);
+    }
+
+    const context = await resolveContext(nameOrId);
+    if (context.type !== 'festival') {
+      throw new Error(`${context.name} is a ${context.type}, edition dates are only used for festivals`);
+    }
+
+    await contextVenueService.setEditionDates(context, startDate, end);
+
+    const days = Math.round((Date.parse(end) - Date.parse(startDate)) / 86400000) + 1;
+    console.log(`✅ ${context.name}: ${startDate} to ${end} (${days} day${days === 1 ? '' : 's'})`);
+    console.log('   Mixes canonicalized from now on resolve "Day N" against these dates');
+
+    process.exit(0);
+  } catch (err) {
+    logger.error('Context dates command failed', err as Error);
+    process.exit(1);
+  }
+}
+
+function isIsoDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+
+  // Rejects days that roll over into the next month, like 2024-02-30
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Depth-first order, so children print under their parent
+ */
+function orderTree(nodes: ContextNode[]): ContextNode[] {
+  const children = new Map<string | null, ContextNode[]>();
+  for (const node of nodes) {
+    children.set(node.parent_id, [...(children.get(node.parent_id) || []), node]);
+  }
+
+  const ordered: ContextNode[] = [];
+  const visit = (node: ContextNode) => {
+    ordered.push(node);
+    for (const child of children.get(node.id) || []) {
+      visit(child);
+    }
+  };
+
+  const root = nodes.find(node => node.depth === 0);
+  if (root) visit(root);
+
+  return ordered;
+}
+
+function describeNode(node: ContextNode): string {
+  return `${node.name} (${node.type})`;
+}
+
+// CLI handling
+if (require.main === module) {
+  const [command, nameOrId, ...rest] = process.argv.slice(2);
+  const usage = 'Usage: npm run contexts tree|mixes <context name or ID> [--json]\n' +
+    '       npm run contexts dates <festival name or ID> <start YYYY-MM-DD> [end YYYY-MM-DD]';
+
+  if (!nameOrId) {
+    console.log(usage);
+    process.exit(1);
+  }
+
+  switch (command) {
+    case 'tree':
+      showContextTree(nameOrId);
+      break;
+    case 'mixes':
+      showContextMixes(nameOrId, { json: process.argv.includes('--json') });
+      break;
+    case 'dates':
+      if (!rest[0]) {
+        console.log(usage);
+        process.exit(1);
+      }
+      setContextDates(nameOrId, rest[0], rest[1]);
+      break;
+    default:
+      console.log(usage);
+      process.exit(1);
+  }
+}
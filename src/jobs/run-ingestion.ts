@@ -5,9 +5,7 @@ dotenv.config({ path: '.env.local' });
 
 import { readFileSync } from 'fs';
 import { join } from 'path';
-import { SoundCloudWorker } from '../workers/soundcloud-worker';
-import { YouTubeWorker } from '../workers/youtube-worker';
-import { OneTracklistWorker } from '../workers/1001tracklists-worker';
+import { workerRegistry } from '../workers';
 import { JobQueue } from '../services/job-queue';
 import { logger } from '../services/logger';
 import { BaseIngestionWorker, type SourceConfig, type WorkerResult } from '../lib/worker-interface';
@@ -17,24 +15,14 @@ import { BaseIngestionWorker, type SourceConfig, type WorkerResult } from '../li
  * Orchestrates all ingestion workers based on configuration
  */
 
+/**
+ * Per-worker section of sources.json, keyed by worker type
+ * Fields other than `enabled` are passed straight through as the worker's SourceConfig
+ */
+type WorkerSourceSection = SourceConfig & { enabled: boolean };
+
 interface IngestionConfig {
-  soundcloud?: {
-    enabled: boolean;
-    artists: string[];
-    labels: string[];
-    maxResults: number;
-  };
-  youtube?: {
-    enabled: boolean;
-    channels: string[];
-    maxResults: number;
-  };
-  '1001tracklists'?: {
-    enabled: boolean;
-    searchTerms: string[];
-    urls: string[];
-    maxResults: number;
-  };
+  [workerType: string]: WorkerSourceSection | { daysBack: number } | undefined;
   dateRange?: {
     daysBack: number; // How many days back to search
   };
@@ -42,11 +30,6 @@ interface IngestionConfig {
 
 export class IngestionJobRunner {
   private jobQueue = new JobQueue();
-  private workers = new Map<string, BaseIngestionWorker>([
-    ['soundcloud', new SoundCloudWorker()],
-    ['youtube', new YouTubeWorker()],
-    ['1001tracklists', new OneTracklistWorker()],
-  ]);
   
   /**
    * Run all enabled ingestion workers
@@ -64,22 +47,12 @@ export class IngestionJobRunner {
       
       const results: { [key: string]: WorkerResult } = {};
       
-      // Run SoundCloud ingestion
-      if (config.soundcloud?.enabled) {
-        results.soundcloud = await this.runSoundCloudIngestion(config.soundcloud, dateRange);
-      }
-      
-      // Run YouTube ingestion
-      if (config.youtube?.enabled) {
-        results.youtube = await this.runYouTubeIngestion(config.youtube, dateRange);
-      }
-      
-      // Run 1001Tracklists ingestion
-      if (config['1001tracklists']?.enabled) {
-        results['1001tracklists'] = await this.run1001TracklistsIngestion(
-          config['1001tracklists'],
-          dateRange
-        );
+      // Run every registered worker that has an enabled config section
+      for (const registration of workerRegistry.list()) {
+        const section = config[registration.type] as WorkerSourceSection | undefined;
+        if (!section?.enabled) continue;
+        
+        results[registration.type] = await this.runWorkerIngestion(registration.type, section, dateRange);
       }
       
       // Log summary
@@ -92,68 +65,22 @@ export class IngestionJobRunner {
   }
   
   /**
-   * Run SoundCloud ingestion
+   * Run ingestion for a single registered worker
    */
-  private async runSoundCloudIngestion(
-    config: NonNullable<IngestionConfig['soundcloud']>,
+  private async runWorkerIngestion(
+    workerType: string,
+    section: WorkerSourceSection,
     dateRange: { from: Date; to: Date }
   ): Promise<WorkerResult> {
-    const worker = this.workers.get('soundcloud');
-    if (!worker) throw new Error('SoundCloud worker not found');
-    
-    const sourceConfig: SourceConfig = {
-      artists: config.artists,
-      labels: config.labels,
-      maxResults: config.maxResults,
-      dateRange,
-    };
+    const worker = workerRegistry.getWorker(workerType);
+    const { enabled, ...sourceConfig } = section;
     
-    logger.info(`Running SoundCloud ingestion for ${config.artists.length + config.labels.length} sources`);
+    logger.info(`Running ${worker.name} ingestion`);
     
-    return await worker.run(sourceConfig);
-  }
-  
-  /**
-   * Run YouTube ingestion
-   */
-  private async runYouTubeIngestion(
-    config: NonNullable<IngestionConfig['youtube']>,
-    dateRange: { from: Date; to: Date }
-  ): Promise<WorkerResult> {
-    const worker = this.workers.get('youtube');
-    if (!worker) throw new Error('YouTube worker not found');
-    
-    const sourceConfig: SourceConfig = {
-      channels: config.channels,
-      maxResults: config.maxResults,
+    return await worker.run({
+      ...sourceConfig,
       dateRange,
-    };
-    
-    logger.info(`Running YouTube ingestion for ${config.channels.length} channels`);
-    
-    return await worker.run(sourceConfig);
-  }
-  
-  /**
-   * Run 1001Tracklists ingestion
-   */
-  private async run1001TracklistsIngestion(
-    config: NonNullable<IngestionConfig['1001tracklists']>,
-    dateRange: { from: Date; to: Date }
-  ): Promise<WorkerResult> {
-    const worker = this.workers.get('1001tracklists');
-    if (!worker) throw new Error('1001Tracklists worker not found');
-    
-    const sourceConfig: SourceConfig = {
-      searchTerms: config.searchTerms,
-      urls: config.urls,
-      maxResults: config.maxResults,
-      dateRange,
-    };
-    
-    logger.info(`Running 1001Tracklists ingestion for ${config.searchTerms.length} search terms and ${config.urls.length} URLs`);
-    
-    return await worker.run(sourceConfig);
+    });
   }
   
   /**
@@ -182,28 +109,21 @@ export class IngestionJobRunner {
    * Get default configuration
    */
   private getDefaultConfig(): IngestionConfig {
-    return {
-      soundcloud: {
-        enabled: false,
-        artists: [],
-        labels: [],
-        maxResults: 50,
-      },
-      youtube: {
-        enabled: false,
-        channels: [],
-        maxResults: 50,
-      },
-      '1001tracklists': {
-        enabled: false,
-        searchTerms: [],
-        urls: [],
-        maxResults: 50,
-      },
+    const config: IngestionConfig = {
       dateRange: {
         daysBack: 7,
       },
     };
+    
+    // Every registered worker gets a disabled section
+    for (const registration of workerRegistry.list()) {
+      config[registration.type] = {
+        enabled: false,
+        maxResults: 50,
+      };
+    }
+    
+    return config;
   }
   
   /**
@@ -223,6 +143,7 @@ export class IngestionJobRunner {
     const totalMixesFound = Object.values(results).reduce((sum, r) => sum + r.mixesFound, 0);
     const totalMixesAdded = Object.values(results).reduce((sum, r) => sum + r.mixesAdded, 0);
     const totalMixesSkipped = Object.values(results).reduce((sum, r) => sum + r.mixesSkipped, 0);
+    const totalTracksParsed = Object.values(results).reduce((sum, r) => sum + r.tracksParsed, 0);
     const totalErrors = Object.values(results).reduce((sum, r) => sum + r.errors.length, 0);
     
     logger.info('📊 Ingestion Summary:', {
@@ -231,6 +152,7 @@ export class IngestionJobRunner {
         totalMixesFound,
         totalMixesAdded,
         totalMixesSkipped,
+        totalTracksParsed,
         totalErrors,
         results,
       },
@@ -239,7 +161,7 @@ export class IngestionJobRunner {
     // Log individual worker results
     for (const [workerType, result] of Object.entries(results)) {
       const status = result.success ? '✅' : '❌';
-      logger.info(`${status} ${workerType}: ${result.mixesAdded} added, ${result.mixesSkipped} skipped, ${result.errors.length} errors`);
+      logger.info(`${status} ${workerType}: ${result.mixesAdded} added, ${result.mixesSkipped} skipped, ${result.tracksParsed} tracks, ${result.errors.length} errors`);
       
       // Log errors
       for (const error of result.errors) {
@@ -268,13 +190,11 @@ export async function runIngestionJob(): Promise<void> {
  * CLI entry point for single URL ingestion
  */
 export async function runSingleUrlIngestion(workerType: string, url: string): Promise<void> {
-  const runner = new IngestionJobRunner();
-  
   try {
-    const worker = runner['workers'].get(workerType);
-    if (!worker) {
+    if (!workerRegistry.has(workerType)) {
       throw new Error(`Unknown worker type: ${workerType}`);
     }
+    const worker = workerRegistry.getWorker(workerType);
     
     logger.info(`🔄 Ingesting single URL: ${url}`);
     
@@ -299,7 +219,7 @@ export async function runSingleUrlIngestion(workerType: string, url: string): Pr
       await processSingleYouTubeUrl(worker, url);
     } else if (workerType === 'soundcloud') {
       await processSingleSoundCloudUrl(worker, url);
-    } else if (workerType === '1001tracklists') {
+    } else if (workerRegistry.require(workerType).capabilities.producesMixes) {
       config.urls = [url];
       await worker.run(config);
     } else {
@@ -436,6 +356,7 @@ if (require.main === module) {
     console.log('  npm run ingest youtube "https://..."    # Single YouTube video');
     console.log('  npm run ingest soundcloud "https://..." # Single SoundCloud track');
     console.log('  npm run ingest 1001tracklists "https://..." # Single 1001Tracklists mix');
+    console.log('  npm run ingest mixcloud "https://..."   # Single Mixcloud cloudcast');
     process.exit(1);
   }
 }
\ No newline at end of file
@@ -0,0 +1,205 @@
+import dotenv from 'dotenv';
+
+// Load environment variables from .env.local
+dotenv.config({ path: '.env.local' });
+
+import * as readline from 'readline';
+import {
+  contextVenueMergeService,
+  type MergeCandidate,
+  type MergeKind,
+  type MergeResult,
+} from '../lib/context-venue-merge';
+import { logger } from '../services/logger';
+import type { Context, Venue } from '../lib/supabase/types';
+
+/**
+ * Duplicate venue and context merging
+ * Lists likely duplicates and merges the ones an operator confirms
+ */
+
+/**
+ * Parse a merge kind, accepting plurals ("venues", "contexts")
+ */
+export function parseMergeKind(input: string): MergeKind | null {
+  const kind = input.trim().toLowerCase().replace(/s$/, '');
+  return kind === 'venue' || kind === 'context' ? kind : null;
+}
+
+/**
+ * Likely duplicates of one kind, best first
+ */
+async function findCandidates(kind: MergeKind, limit?: number): Promise<MergeCandidate<Venue | Context>[]> {
+  return kind === 'venue'
+    ? contextVenueMergeService.findDuplicateVenues({ limit })
+    : contextVenueMergeService.findDuplicateContexts({ limit });
+}
+
+/**
+ * CLI entry point for duplicates (list likely duplicates without merging)
+ */
+export async function showMergeCandidates(
+  kind: MergeKind,
+  options: { limit?: number; json?: boolean } = {}
+): Promise<void> {
+  if (options.json) {
+    // Keep stdout parseable
+    logger.setLevel('warn');
+  }
+
+  try {
+    const candidates = await findCandidates(kind, options.limit || 50);
+
+    if (options.json) {
+      console.log(JSON.stringify(candidates, null, 2));
+      process.exit(0);
+    }
+
+    if (candidates.length === 0) {
+      console.log(`No likely duplicate ${kind}s found`);
+      process.exit(0);
+    }
+
+    console.log(`\n🔀 Likely duplicate ${kind}s (keep ← merge)\n`);
+    for (const candidate of candidates) {
+      console.log(`  ${candidate.score.toFixed(2)}  ${describeRow(candidate.survivor)} ← ${describeRow(candidate.duplicate)}  [${candidate.reason}]`);
+    }
+
+    process.exit(0);
+  } catch (err) {
+    logger.error('Merge candidates command failed', err as Error);
+    process.exit(1);
+  }
+}
+
+/**
+ * CLI entry point for interactive merging of likely duplicates
+ */
+export async function reviewMergeCandidates(
+  kind: MergeKind,
+  options: { limit?: number } = {}
+): Promise<void> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  const ask = (question: string) => new Promise<string>(resolve => rl.question(question, resolve));
+
+  const counts = { merged: 0, skipped: 0 };
+
+  try {
+    const candidates = await findCandidates(kind, options.limit || 50);
+    console.log(`\n🔀 ${candidates.length} likely duplicate ${kind} pair(s)`);
+
+    // Rows merged away earlier in the session can't be merged again
+    const merged = new Set<string>();
+
+    for (const candidate of candidates) {
+      if (merged.has(candidate.survivor.id) || merged.has(candidate.duplicate.id)) continue;
+
+      printCandidate(candidate);
+
+      const answer = (await ask('[m]erge, [s]wap and merge, [n]ext, [q]uit: ')).trim().toLowerCase();
+
+      if (answer === 'q') break;
+
+      if (answer !== 'm' && answer !== 's') {
+        counts.skipped++;
+        continue;
+      }
+
+      const [survivor, duplicate] = answer === 's'
+        ? [candidate.duplicate, candidate.survivor]
+        : [candidate.survivor, candidate.duplicate];
+
+      try {
+        const result = await contextVenueMergeService.merge(kind, survivor.id, duplicate.id);
+        merged.add(duplicate.id);
+        counts.merged++;
+        console.log(`  ✅ ${describeResult(result, survivor.name)}`);
+      } catch (err) {
+        console.log(`  ❌ ${(err as Error).message}`);
+        counts.skipped++;
+      }
+    }
+
+    console.log('\n📊 Merge Summary:');
+    console.log(`  Merged:  ${counts.merged}`);
+    console.log(`  Skipped: ${counts.skipped}`);
+
+    rl.close();
+    process.exit(0);
+  } catch (err) {
+    rl.close();
+    logger.error('Merge review failed', err as Error);
+    process.exit(1);
+  }
+}
+
+/**
+ * CLI entry point for merging one pair by ID
+ */
+export async function mergeRows(kind: MergeKind, survivorId: string, duplicateId: string): Promise<void> {
+  try {
+    const result = await contextVenueMergeService.merge(kind, survivorId, duplicateId);
+    console.log(`✅ ${describeResult(result, survivorId)}`);
+    process.exit(0);
+  } catch (err) {
+    logger.error('Merge failed', err as Error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Print a duplicate pair for the operator
+ */
+function printCandidate(candidate: MergeCandidate<Venue | Context>): void {
+  console.log('\n' + '─'.repeat(60));
+  console.log(`   Keep:   ${describeRow(candidate.survivor)} (${candidate.survivor.id})`);
+  console.log(`   Merge:  ${describeRow(candidate.duplicate)} (${candidate.duplicate.id})`);
+  console.log(`   Score:  ${candidate.score.toFixed(2)} via ${candidate.reason}`);
+}
+
+function describeRow(row: Venue | Context): string {
+  const detail = 'type' in row ? row.type : row.city;
+  const verified = row.is_verified ? ' ✓' : '';
+  return `${row.name}${detail ? ` (${detail})` : ''}${verified}`;
+}
+
+function describeResult(result: MergeResult, survivor: string): string {
+  const related = result.kind === 'venue' ? 'contexts' : 'child contexts';
+  return `Merged "${result.alias}" into ${survivor}: ${result.mixesRelinked} mix(es), ${result.contextsRelinked} ${related} repointed`;
+}
+
+// CLI handling
+if (require.main === module) {
+  const [command, kindInput, ...rest] = process.argv.slice(2);
+  const kind = kindInput ? parseMergeKind(kindInput) : null;
+  const usage = 'Usage: npm run merge candidates|review venues|contexts [--json] | merge venues|contexts <survivorId> <duplicateId>';
+
+  if (!kind) {
+    console.log(usage);
+    process.exit(1);
+  }
+
+  switch (command) {
+    case 'candidates':
+      showMergeCandidates(kind, { json: rest.includes('--json') });
+      break;
+    case 'review':
+      reviewMergeCandidates(kind);
+      break;
+    case 'merge': {
+      const [survivorId, duplicateId] = rest;
+      if (!survivorId || !duplicateId) {
+        console.log(usage);
+        process.exit(1);
+      }
+      mergeRows(kind, survivorId, duplicateId);
+      break;
+    }
+    default:
+      console.log(usage);
+      process.exit(1);
+  }
+}
@@ -0,0 +1,77 @@
+import dotenv from 'dotenv';
+
+// Load environment variables from .env.local
+dotenv.config({ path: '.env.local' });
+
+import { findSimilarMixes } from '../lib/tracklist-similarity';
+import { logger } from '../services/logger';
+
+/**
+ * Production mix tools
+ */
+
+/**
+ * CLI entry point for similar (mixes sharing tracks with a mix)
+ */
+export async function showSimilarMixes(
+  mixId: string,
+  options: { limit?: number; minShared?: number; json?: boolean } = {}
+): Promise<void> {
+  if (options.json) {
+    // Keep stdout parseable
+    logger.setLevel('warn');
+  }
+  
+  try {
+    const matches = await findSimilarMixes(mixId, {
+      limit: options.limit,
+      minSharedTracks: options.minShared,
+    });
+    
+    if (options.json) {
+      console.log(JSON.stringify(matches, null, 2));
+      process.exit(0);
+    }
+    
+    if (matches.length === 0) {
+      console.log(`No mixes share tracks with ${mixId}`);
+      process.exit(0);
+    }
+    
+    console.log(`\n🔁 Mixes sharing tracks with ${mixId}\n`);
+    console.log('  Jaccard  Ordered  Shared  Mix');
+    
+    for (const match of matches) {
+      const flag = match.nearIdentical ? '  ⚠️ probable duplicate' : '';
+      console.log(
+        `  ${match.jaccard.toFixed(2).padStart(7)}  ${match.orderedOverlap.toFixed(2).padStart(7)}  ` +
+        `${`${match.sharedTracks}/${match.trackCount}`.padStart(6)}  ${match.title} (${match.mixId})${flag}`
+      );
+    }
+    
+    process.exit(0);
+  } catch (err) {
+    logger.error('Similar mixes command failed', err as Error);
+    process.exit(1);
+  }
+}
+
+// CLI handling
+if (require.main === module) {
+  const command = process.argv[2];
+  
+  switch (command) {
+    case 'similar': {
+      const mixId = process.argv[3];
+      if (!mixId) {
+        console.log('Usage: npm run mixes similar <mixId> [--json]');
+        process.exit(1);
+      }
+      showSimilarMixes(mixId, { json: process.argv.includes('--json') });
+      break;
+    }
+    default:
+      console.log('Usage: npm run mixes similar <mixId> [--json]');
+      process.exit(1);
+  }
+}
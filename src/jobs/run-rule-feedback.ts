@@ -0,0 +1,318 @@
+import dotenv from 'dotenv';
+
+// Load environment variables from .env.local
+dotenv.config({ path: '.env.local' });
+
+import { getServiceClient } from '../lib/supabase/service';
+import { logger } from '../services/logger';
+import type { ContextRule } from '../lib/supabase/types';
+
+/**
+ * Context rule feedback job
+ * Aggregates moderator verdicts per rule and version, recomputes accuracy, and lowers confidence
+ * or deactivates rules whose precision falls below the configured thresholds
+ */
+
+export interface RuleFeedbackOptions {
+  minPrecision?: number;     // Rules below this precision have confidence_weight capped at their precision
+  deactivateBelow?: number;  // Rules below this precision are deactivated
+  minReviewed?: number;      // Verdicts needed on the current version before acting on a rule
+  dryRun?: boolean;          // Report what would change without updating rules
+}
+
+export type RuleFeedbackAction = 'ok' | 'lowered' | 'deactivated' | 'insufficient_data' | 'inactive';
+
+export interface RuleVersionStats {
+  version: number;
+  total: number;
+  reviewed: number;
+  correct: number;
+  partiallyCorrect: number;
+  incorrect: number;
+  spam: number;
+  precision: number | null; // (correct + partially correct) / reviewed, same as the accuracy trigger
+}
+
+export interface RuleFeedbackReport {
+  ruleId: string;
+  ruleName: string;
+  currentVersion: number;
+  versions: RuleVersionStats[];
+  previousAccuracy: number | null;
+  accuracy: number | null;
+  previousConfidence: number;
+  confidence: number;
+  isActive: boolean;
+  action: RuleFeedbackAction;
+}
+
+export interface RuleFeedbackJobResult {
+  success: boolean;
+  rulesEvaluated: number;
+  rulesLowered: number;
+  rulesDeactivated: number;
+  dryRun: boolean;
+  reports: RuleFeedbackReport[];
+  errors: string[];
+}
+
+const DEFAULT_OPTIONS: Required<RuleFeedbackOptions> = {
+  minPrecision: 0.7,
+  deactivateBelow: 0.4,
+  minReviewed: 10,
+  dryRun: false,
+};
+
+export class RuleFeedbackJobRunner {
+  private supabase = getServiceClient();
+
+  /**
+   * Recompute accuracy for every rule with feedback and apply the precision thresholds
+   */
+  async run(options: RuleFeedbackOptions = {}): Promise<RuleFeedbackJobResult> {
+    const config = { ...DEFAULT_OPTIONS, ...options };
+    logger.info('🔄 Starting rule feedback job', { metadata: config });
+
+    const result: RuleFeedbackJobResult = {
+      success: false,
+      rulesEvaluated: 0,
+      rulesLowered: 0,
+      rulesDeactivated: 0,
+      dryRun: config.dryRun,
+      reports: [],
+      errors: [],
+    };
+
+    try {
+      const [rules, feedback] = await Promise.all([this.getRules(), this.getFeedbackByVersion()]);
+
+      for (const rule of rules) {
+        const versions = feedback.get(rule.id) || [];
+        if (versions.length === 0) continue;
+
+        const report = this.evaluateRule(rule, versions, config);
+        result.reports.push(report);
+        result.rulesEvaluated++;
+
+        if (report.action === 'lowered') result.rulesLowered++;
+        if (report.action === 'deactivated') result.rulesDeactivated++;
+
+        if (config.dryRun) continue;
+
+        try {
+          await this.applyReport(report);
+        } catch (err) {
+          const error = `Failed to update rule ${rule.rule_name}: ${(err as Error).message}`;
+          result.errors.push(error);
+          logger.error(error, err as Error);
+        }
+      }
+
+      result.success = result.errors.length === 0;
+      logger.info(`✅ Rule feedback job complete: ${result.rulesEvaluated} evaluated, ${result.rulesLowered} lowered, ${result.rulesDeactivated} deactivated`);
+    } catch (err) {
+      result.errors.push((err as Error).message);
+      logger.error('Rule feedback job failed', err as Error);
+    }
+
+    return result;
+  }
+
+  /**
+   * Decide what to do with a rule based on feedback for its current version
+   */
+  private evaluateRule(
+    rule: ContextRule,
+    versions: RuleVersionStats[],
+    config: Required<RuleFeedbackOptions>
+  ): RuleFeedbackReport {
+    const current = versions.find(stats => stats.version === (rule.version || 1));
+    const precision = current?.precision ?? null;
+
+    const report: RuleFeedbackReport = {
+      ruleId: rule.id,
+      ruleName: rule.rule_name,
+      currentVersion: rule.version || 1,
+      versions,
+      previousAccuracy: rule.accuracy_score !== null ? Number(rule.accuracy_score) : null,
+      accuracy: precision,
+      previousConfidence: Number(rule.confidence_weight),
+      confidence: Number(rule.confidence_weight),
+      isActive: rule.is_active,
+      action: 'ok',
+    };
+
+    if (!rule.is_active) {
+      report.action = 'inactive';
+    } else if (!current || precision === null || current.reviewed < config.minReviewed) {
+      report.action = 'insufficient_data';
+    } else if (precision < config.deactivateBelow) {
+      report.action = 'deactivated';
+      report.isActive = false;
+    } else if (precision < config.minPrecision) {
+      // Cap confidence at observed precision - idempotent, so re-running doesn't keep lowering it
+      const capped = Math.round(precision * 100) / 100;
+      if (capped < report.confidence) {
+        report.action = 'lowered';
+        report.confidence = capped;
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * Write recomputed stats and any confidence/activation change back to the rule
+   */
+  private async applyReport(report: RuleFeedbackReport): Promise<void> {
+    const current = report.versions.find(stats => stats.version === report.currentVersion);
+
+    const { error } = await this.supabase
+      .from('context_rules')
+      .update({
+        accuracy_score: report.accuracy,
+        application_count: current?.reviewed ?? 0,
+        correct_applications: current ? current.correct + current.partiallyCorrect : 0,
+        confidence_weight: report.confidence,
+        is_active: report.isActive,
+      })
+      .eq('id', report.ruleId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    if (report.action === 'lowered' || report.action === 'deactivated') {
+      logger.warn(`Rule ${report.ruleName} ${report.action}: precision ${report.accuracy?.toFixed(3)}`, {
+        metadata: { ruleId: report.ruleId, confidence: report.confidence, isActive: report.isActive },
+      });
+    }
+  }
+
+  /**
+   * Get all context rules
+   */
+  private async getRules(): Promise<ContextRule[]> {
+    const { data, error } = await this.supabase
+      .from('context_rules')
+      .select('*')
+      .order('rule_name', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch context rules: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Get verdict counts per rule and version from rule_feedback_by_version
+   */
+  private async getFeedbackByVersion(): Promise<Map<string, RuleVersionStats[]>> {
+    const { data, error } = await this.supabase
+      .from('rule_feedback_by_version')
+      .select('*');
+
+    if (error) {
+      throw new Error(`Failed to fetch rule feedback: ${error.message}`);
+    }
+
+    const byRule = new Map<string, RuleVersionStats[]>();
+
+    for (const row of data || []) {
+      const reviewed = Number(row.reviewed_applications);
+      const correct = Number(row.correct_applications);
+      const partiallyCorrect = Number(row.partially_correct_applications);
+
+      const stats: RuleVersionStats = {
+        version: row.rule_version || 1,
+        total: Number(row.total_applications),
+        reviewed,
+        correct,
+        partiallyCorrect,
+        incorrect: Number(row.incorrect_applications),
+        spam: Number(row.spam_applications),
+        precision: reviewed > 0 ? Math.round(((correct + partiallyCorrect) / reviewed) * 1000) / 1000 : null,
+      };
+
+      const versions = byRule.get(row.rule_id) || [];
+      versions.push(stats);
+      byRule.set(row.rule_id, versions.sort((a, b) => b.version - a.version));
+    }
+
+    return byRule;
+  }
+}
+
+/**
+ * CLI entry point for the rule feedback job
+ */
+export async function runRuleFeedbackJob(options: RuleFeedbackOptions = {}): Promise<void> {
+  const runner = new RuleFeedbackJobRunner();
+
+  try {
+    const result = await runner.run(options);
+    printReport(result);
+    process.exit(result.success ? 0 : 1);
+  } catch (err) {
+    logger.error('Rule feedback job failed', err as Error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Print the per-rule report
+ */
+function printReport(result: RuleFeedbackJobResult): void {
+  const actionLabels: Record<RuleFeedbackAction, string> = {
+    ok: '✅ ok',
+    lowered: '⬇️  lowered',
+    deactivated: '⛔ deactivated',
+    insufficient_data: '⏳ needs more reviews',
+    inactive: '💤 inactive',
+  };
+
+  console.log(`\n📐 Context Rule Feedback Report${result.dryRun ? ' (dry run, nothing written)' : ''}\n`);
+
+  if (result.reports.length === 0) {
+    console.log('No moderator feedback recorded yet.');
+    return;
+  }
+
+  for (const report of result.reports) {
+    const accuracy = report.accuracy !== null ? report.accuracy.toFixed(3) : 'n/a';
+    const previous = report.previousAccuracy !== null ? report.previousAccuracy.toFixed(3) : 'n/a';
+
+    console.log(`${report.ruleName} (v${report.currentVersion})  ${actionLabels[report.action]}`);
+    console.log(`  Accuracy:   ${previous} → ${accuracy}`);
+    if (report.confidence !== report.previousConfidence) {
+      console.log(`  Confidence: ${report.previousConfidence.toFixed(2)} → ${report.confidence.toFixed(2)}`);
+    }
+
+    for (const stats of report.versions) {
+      const precision = stats.precision !== null ? stats.precision.toFixed(3) : 'n/a';
+      const marker = stats.version === report.currentVersion ? '*' : ' ';
+      console.log(
+        `  ${marker}v${stats.version}: ${stats.reviewed}/${stats.total} reviewed, ` +
+        `${stats.correct} correct, ${stats.partiallyCorrect} partial, ${stats.incorrect} incorrect, ${stats.spam} spam ` +
+        `(precision ${precision})`
+      );
+    }
+    console.log('');
+  }
+
+  console.log('📊 Summary:');
+  console.log(`  Rules evaluated:    ${result.rulesEvaluated}`);
+  console.log(`  Confidence lowered: ${result.rulesLowered}`);
+  console.log(`  Deactivated:        ${result.rulesDeactivated}`);
+
+  if (result.errors.length > 0) {
+    console.log(`\n❌ Errors (${result.errors.length}):`);
+    result.errors.forEach(error => console.log(`  ${error}`));
+  }
+}
+
+// CLI handling
+if (require.main === module) {
+  runRuleFeedbackJob({ dryRun: process.argv.includes('--dry-run') });
+}
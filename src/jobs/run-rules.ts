@@ -0,0 +1,558 @@
+import dotenv from 'dotenv';
+
+// Load environment variables from .env.local
+dotenv.config({ path: '.env.local' });
+
+import * as fs from 'fs';
+import { getServiceClient } from '../lib/supabase/service';
+import {
+  BasicContextRulesEngine,
+  RULE_TARGET_TYPES,
+  RULE_TYPES,
+  validateRuleConfig,
+  type MixContent,
+  type RuleConfig,
+  type RuleDefinition,
+  type RuleMatch,
+  type RuleTargetType,
+  type RuleType,
+} from '../lib/context-rules-engine';
+import { logger } from '../services/logger';
+import type { ContextRule, RawMix } from '../lib/supabase/types';
+
+/**
+ * Rule authoring harness for the context rules engine
+ * Validates candidate rules, runs them against sample text or existing raw_mixes without
+ * writing rule_applications, and saves them as new versions of a rule
+ */
+
+// Candidate rule as written by a rule author (JSON file or inline JSON)
+export interface RuleDraft {
+  rule_name: string;
+  description?: string;
+  rule_type: RuleType;
+  target_context_type: RuleTargetType;
+  target_context_name: string;
+  pattern_config: RuleConfig;
+  confidence_weight?: number;
+  requires_approval?: boolean;
+  priority?: number;
+}
+
+// Raw mix fields the rules engine looks at
+type RuleInputRawMix = Pick<RawMix, 'id' | 'provider' | 'raw_title' | 'raw_description' | 'raw_artist' | 'raw_metadata'>;
+
+export interface BacktestOptions {
+  sample?: number;     // Most recent raw mixes to run against
+  provider?: string;   // Only sample raw mixes from this provider
+}
+
+export interface BacktestMatch {
+  rawMixId: string;
+  title: string;
+  provider: string;
+  suggestion?: RuleMatch;  // Candidate's suggestion (hits only)
+  existingRules: string[];         // Active rules that also fired on this mix
+}
+
+export interface RuleOverlap {
+  ruleName: string;
+  contextType: RuleTargetType;
+  contextName: string;
+  sameContext: boolean; // Suggests the same context as the candidate, otherwise a competing one
+  mixes: number;
+}
+
+export interface BacktestResult {
+  draft: RuleDraft;
+  sampled: number;
+  hits: BacktestMatch[];
+  misses: BacktestMatch[];   // Mixes existing rules attribute to the candidate's context that it doesn't match
+  overlaps: RuleOverlap[];
+}
+
+/**
+ * Parse and validate a rule draft from a JSON file path or an inline JSON string
+ */
+export function loadRuleDraft(source: string): RuleDraft {
+  let raw: string;
+  try {
+    raw = fs.existsSync(source) ? fs.readFileSync(source, 'utf8') : source;
+  } catch (err) {
+    throw new Error(`Failed to read rule draft: ${(err as Error).message}`);
+  }
+
+  let draft: RuleDraft;
+  try {
+    draft = JSON.parse(raw);
+  } catch (err) {
+    throw new Error(`Rule draft is not valid JSON: ${(err as Error).message}`);
+  }
+
+  const errors = validateRuleDraft(draft);
+  if (errors.length > 0) {
+    throw new Error(`Invalid rule draft:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  return draft;
+}
+
+/**
+ * Check the fields of a rule draft, including its pattern_config shape
+ */
+export function validateRuleDraft(draft: RuleDraft): string[] {
+  const errors: string[] = [];
+
+  if (!draft || typeof draft !== 'object') {
+    return ['Rule draft must be a JSON object'];
+  }
+  if (typeof draft.rule_name !== 'string' || draft.rule_name.trim().length === 0) {
+    errors.push('rule_name is required');
+  }
+  if (!RULE_TYPES.includes(draft.rule_type)) {
+    errors.push(`rule_type must be one of ${RULE_TYPES.join(', ')}`);
+  }
+  if (!RULE_TARGET_TYPES.includes(draft.target_context_type)) {
+    errors.push(`target_context_type must be one of ${RULE_TARGET_TYPES.join(', ')}`);
+  }
+  if (typeof draft.target_context_name !== 'string' || draft.target_context_name.trim().length === 0) {
+    errors.push('target_context_name is required');
+  }
+  if (draft.confidence_weight !== undefined
+    && (typeof draft.confidence_weight !== 'number' || draft.confidence_weight < 0 || draft.confidence_weight > 1)) {
+    errors.push('confidence_weight must be a number between 0 and 1');
+  }
+  if (draft.requires_approval !== undefined && typeof draft.requires_approval !== 'boolean') {
+    errors.push('requires_approval must be a boolean');
+  }
+  if (draft.priority !== undefined && !Number.isInteger(draft.priority)) {
+    errors.push('priority must be an integer');
+  }
+
+  if (RULE_TYPES.includes(draft.rule_type)) {
+    errors.push(...validateRuleConfig(draft.rule_type, draft.pattern_config).map(error => `pattern_config: ${error}`));
+  }
+
+  return errors;
+}
+
+/**
+ * Build mix content for the rules engine from a stored raw mix
+ * Mirrors what each worker passes to suggestContexts at ingestion time
+ */
+export function rawMixToContent(rawMix: RuleInputRawMix): MixContent {
+  const metadata = (rawMix.raw_metadata || {}) as any;
+
+  return {
+    title: rawMix.raw_title || '',
+    description: rawMix.raw_description || '',
+    artist_name: rawMix.raw_artist || undefined,
+    platform: rawMix.provider,
+    channel_name: metadata.channelTitle || metadata.user?.display_name || metadata.user?.name || metadata.user?.username || metadata.username || undefined,
+    channel_id: metadata.channelId || metadata.user?.id?.toString() || metadata.user?.username || undefined,
+  };
+}
+
+export class RuleAuthoringRunner {
+  private supabase = getServiceClient();
+  private engine = new BasicContextRulesEngine();
+
+  /**
+   * Run a draft against a single piece of content
+   */
+  test(draft: RuleDraft, content: MixContent): RuleMatch[] {
+    return this.engine.evaluateRule(this.toDefinition(draft), content);
+  }
+
+  /**
+   * Run a draft and all active rules against a sample of raw mixes, without recording applications
+   */
+  async backtest(draft: RuleDraft, options: BacktestOptions = {}): Promise<BacktestResult> {
+    const candidate = this.toDefinition(draft);
+
+    const [rawMixes, activeRules] = await Promise.all([
+      this.getSampleRawMixes(options.sample || 500, options.provider),
+      this.getActiveRules(),
+    ]);
+
+    const result: BacktestResult = {
+      draft,
+      sampled: rawMixes.length,
+      hits: [],
+      misses: [],
+      overlaps: [],
+    };
+    const overlaps = new Map<string, RuleOverlap>();
+    const targetKey = this.contextKey(draft.target_context_type, draft.target_context_name);
+
+    for (const rawMix of rawMixes) {
+      const content = rawMixToContent(rawMix);
+      const [suggestion] = this.engine.evaluateRule(candidate, content);
+
+      const existing = activeRules
+        .map(rule => ({ rule, matches: this.engine.evaluateRule(rule, content) }))
+        .filter(({ matches }) => matches.length > 0);
+
+      const match: BacktestMatch = {
+        rawMixId: rawMix.id,
+        title: rawMix.raw_title || '(untitled)',
+        provider: rawMix.provider,
+        suggestion,
+        existingRules: existing.map(({ rule }) => rule.rule_name),
+      };
+
+      if (suggestion) {
+        result.hits.push(match);
+
+        for (const { rule, matches } of existing) {
+          // Earlier versions of the rule being revised count towards misses, not overlaps
+          if (rule.rule_name === draft.rule_name) continue;
+
+          const sameContext = matches.some(m => this.contextKey(m.context_type, m.context_name) === targetKey);
+          const overlap = overlaps.get(rule.id) || {
+            ruleName: rule.rule_name,
+            contextType: rule.target_context_type,
+            contextName: rule.target_context_name,
+            sameContext,
+            mixes: 0,
+          };
+          overlap.mixes++;
+          overlaps.set(rule.id, overlap);
+        }
+      } else if (existing.some(({ matches }) =>
+        matches.some(m => this.contextKey(m.context_type, m.context_name) === targetKey))) {
+        result.misses.push(match);
+      }
+    }
+
+    result.overlaps = Array.from(overlaps.values()).sort((a, b) => b.mixes - a.mixes);
+
+    logger.info(`Backtested rule ${draft.rule_name}: ${result.hits.length} hits, ${result.misses.length} misses over ${result.sampled} raw mixes`);
+
+    return result;
+  }
+
+  /**
+   * Save a draft as the next version of its rule
+   * New versions start inactive unless activate is set, in which case older versions are deactivated
+   */
+  async create(draft: RuleDraft, options: { activate?: boolean } = {}): Promise<ContextRule> {
+    const previous = await this.getLatestVersion(draft.rule_name);
+
+    const { data, error } = await this.supabase
+      .from('context_rules')
+      .insert({
+        rule_name: draft.rule_name,
+        description: draft.description || null,
+        rule_type: draft.rule_type,
+        scope: 'global',
+        target_context_type: draft.target_context_type,
+        target_context_name: draft.target_context_name,
+        confidence_weight: draft.confidence_weight ?? 0.75,
+        pattern_config: draft.pattern_config,
+        requires_approval: draft.requires_approval ?? true,
+        priority: draft.priority ?? 100,
+        created_by: process.env.MODERATOR_USER_ID || null,
+        is_active: false,
+        version: previous ? (previous.version || 1) + 1 : 1,
+        parent_rule_id: previous?.id || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create rule: ${error.message}`);
+    }
+
+    logger.info(`Created rule ${data.rule_name} v${data.version}`, {
+      metadata: { ruleId: data.id, parentRuleId: data.parent_rule_id },
+    });
+
+    return options.activate ? this.activate(data.id) : data;
+  }
+
+  /**
+   * Activate a rule version and deactivate the other versions of the same rule
+   */
+  async activate(ruleId: string): Promise<ContextRule> {
+    const { data: rule, error } = await this.supabase
+      .from('context_rules')
+      .update({ is_active: true })
+      .eq('id', ruleId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to activate rule: ${error.message}`);
+    }
+
+    const { error: deactivateError } = await this.supabase
+      .from('context_rules')
+      .update({ is_active: false })
+      .eq('rule_name', rule.rule_name)
+      .neq('id', rule.id)
+      .eq('is_active', true);
+
+    if (deactivateError) {
+      throw new Error(`Failed to deactivate previous versions: ${deactivateError.message}`);
+    }
+
+    logger.info(`Activated rule ${rule.rule_name} v${rule.version}`, { metadata: { ruleId: rule.id } });
+
+    return rule;
+  }
+
+  /**
+   * Turn a draft into the shape the engine evaluates
+   */
+  private toDefinition(draft: RuleDraft): RuleDefinition {
+    return {
+      id: 'candidate',
+      rule_name: draft.rule_name,
+      rule_type: draft.rule_type,
+      target_context_type: draft.target_context_type,
+      target_context_name: draft.target_context_name,
+      pattern_config: draft.pattern_config,
+      confidence_weight: draft.confidence_weight ?? 0.75,
+      requires_approval: draft.requires_approval ?? true,
+      priority: draft.priority ?? 100,
+      version: 0,
+    };
+  }
+
+  /**
+   * Key a context by type and name, ignoring the year append_year rules add to festival editions
+   */
+  private contextKey(type: RuleTargetType, name: string): string {
+    return `${type}:${name.replace(/\s+20\d{2}$/, '').toLowerCase()}`;
+  }
+
+  /**
+   * Get the most recent raw mixes to backtest against
+   */
+  private async getSampleRawMixes(limit: number, provider?: string): Promise<RuleInputRawMix[]> {
+    let query = this.supabase
+      .from('raw_mixes')
+      .select('id, provider, raw_title, raw_description, raw_artist, raw_metadata')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (provider) {
+      query = query.eq('provider', provider);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to fetch raw mixes: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Get active rules, skipping any whose stored config no longer validates
+   */
+  private async getActiveRules(): Promise<RuleDefinition[]> {
+    const { data, error } = await this.supabase
+      .from('context_rules')
+      .select('id, rule_name, rule_type, target_context_type, target_context_name, pattern_config, confidence_weight, requires_approval, priority, version')
+      .eq('is_active', true)
+      .order('priority', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch context rules: ${error.message}`);
+    }
+
+    return (data || []).filter((rule: RuleDefinition) => {
+      const errors = validateRuleConfig(rule.rule_type, rule.pattern_config);
+      if (errors.length > 0) {
+        logger.warn(`Skipping active rule ${rule.rule_name} with invalid config: ${errors.join('; ')}`);
+      }
+      return errors.length === 0;
+    });
+  }
+
+  /**
+   * Get the highest existing version of a rule, if any
+   */
+  private async getLatestVersion(ruleName: string): Promise<ContextRule | null> {
+    const { data, error } = await this.supabase
+      .from('context_rules')
+      .select('*')
+      .eq('rule_name', ruleName)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch existing rule versions: ${error.message}`);
+    }
+
+    return data;
+  }
+}
+
+/**
+ * CLI entry point for testing a draft against sample text
+ */
+export async function testRule(
+  source: string,
+  content: { title: string; description?: string; platform?: string; channelName?: string; channelId?: string }
+): Promise<void> {
+  try {
+    const draft = loadRuleDraft(source);
+    const runner = new RuleAuthoringRunner();
+
+    const suggestions = runner.test(draft, {
+      title: content.title,
+      description: content.description,
+      platform: content.platform,
+      channel_name: content.channelName,
+      channel_id: content.channelId,
+    });
+
+    console.log(`\n🧪 Rule ${draft.rule_name} (${draft.rule_type}) is valid`);
+
+    if (suggestions.length === 0) {
+      console.log('   No match');
+    }
+    for (const suggestion of suggestions) {
+      console.log(`   ✅ ${suggestion.context_name} (${suggestion.context_type}) @ ${suggestion.confidence.toFixed(2)}`);
+      console.log(`      ${suggestion.reasoning}`);
+    }
+
+    process.exit(0);
+  } catch (err) {
+    logger.error('Rule test failed', err as Error);
+    process.exit(1);
+  }
+}
+
+/**
+ * CLI entry point for backtesting a draft against existing raw mixes
+ */
+export async function backtestRule(
+  source: string,
+  options: BacktestOptions & { json?: boolean; show?: number } = {}
+): Promise<void> {
+  try {
+    const draft = loadRuleDraft(source);
+    const runner = new RuleAuthoringRunner();
+    const result = await runner.backtest(draft, options);
+
+    if (options.json) {
+      console.log(JSON.stringify(result, null, 2));
+    } else {
+      printBacktest(result, options.show ?? 10);
+    }
+
+    process.exit(0);
+  } catch (err) {
+    logger.error('Rule backtest failed', err as Error);
+    process.exit(1);
+  }
+}
+
+/**
+ * CLI entry point for saving a draft as a new rule version
+ */
+export async function createRule(source: string, options: { activate?: boolean } = {}): Promise<void> {
+  try {
+    const draft = loadRuleDraft(source);
+    const runner = new RuleAuthoringRunner();
+    const rule = await runner.create(draft, options);
+
+    console.log(`✅ Created ${rule.rule_name} v${rule.version} (${rule.id})${rule.parent_rule_id ? `, revising ${rule.parent_rule_id}` : ''}`);
+    console.log(rule.is_active
+      ? '   Active, previous versions deactivated'
+      : `   Inactive, run "rules activate ${rule.id}" once it's ready`);
+
+    process.exit(0);
+  } catch (err) {
+    logger.error('Rule creation failed', err as Error);
+    process.exit(1);
+  }
+}
+
+/**
+ * CLI entry point for activating a saved rule version
+ */
+export async function activateRule(ruleId: string): Promise<void> {
+  try {
+    const runner = new RuleAuthoringRunner();
+    const rule = await runner.activate(ruleId);
+
+    console.log(`✅ Activated ${rule.rule_name} v${rule.version}, previous versions deactivated`);
+    process.exit(0);
+  } catch (err) {
+    logger.error('Rule activation failed', err as Error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Print backtest hits, misses and overlaps with existing rules
+ */
+function printBacktest(result: BacktestResult, show: number): void {
+  const { draft } = result;
+  const hitRate = result.sampled > 0 ? ((result.hits.length / result.sampled) * 100).toFixed(1) : '0.0';
+
+  console.log(`\n🧪 Backtest: ${draft.rule_name} → ${draft.target_context_name} (${draft.target_context_type})`);
+  console.log(`   ${result.sampled} raw mixes sampled, ${result.hits.length} hits (${hitRate}%), ${result.misses.length} misses\n`);
+
+  if (result.hits.length > 0) {
+    console.log(`✅ Hits${result.hits.length > show ? ` (first ${show})` : ''}:`);
+    for (const hit of result.hits.slice(0, show)) {
+      const context = hit.suggestion && hit.suggestion.context_name !== draft.target_context_name
+        ? ` → ${hit.suggestion.context_name}`
+        : '';
+      console.log(`   [${hit.provider}] ${hit.title}${context}`);
+      if (hit.suggestion?.matched_text) {
+        console.log(`      matched "${hit.suggestion.matched_text}"`);
+      }
+    }
+    console.log('');
+  }
+
+  if (result.misses.length > 0) {
+    console.log(`❌ Misses, attributed to ${draft.target_context_name} by existing rules${result.misses.length > show ? ` (first ${show})` : ''}:`);
+    for (const miss of result.misses.slice(0, show)) {
+      console.log(`   [${miss.provider}] ${miss.title}  (${miss.existingRules.join(', ')})`);
+    }
+    console.log('');
+  }
+
+  if (result.overlaps.length > 0) {
+    console.log('🔀 Overlaps with active rules:');
+    for (const overlap of result.overlaps) {
+      const label = overlap.sameContext ? 'same context' : `competing: ${overlap.contextName} (${overlap.contextType})`;
+      console.log(`   ${overlap.ruleName}: ${overlap.mixes} mix(es), ${label}`);
+    }
+  } else if (result.hits.length > 0) {
+    console.log('🔀 No overlaps with active rules');
+  }
+}
+
+// CLI handling
+if (require.main === module) {
+  const [command, source, ...rest] = process.argv.slice(2);
+
+  switch (command) {
+    case 'test':
+      testRule(source, { title: rest.join(' ') });
+      break;
+    case 'backtest':
+      backtestRule(source, { sample: rest[0] ? parseInt(rest[0]) : undefined });
+      break;
+    case 'create':
+      createRule(source, { activate: rest.includes('--activate') });
+      break;
+    case 'activate':
+      activateRule(source);
+      break;
+    default:
+      console.log('Usage: npm run rules -- <test|backtest|create|activate> <rule.json|ruleId> [args]');
+      process.exit(1);
+  }
+}
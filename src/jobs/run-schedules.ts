@@ -0,0 +1,125 @@
+import dotenv from 'dotenv';
+
+// Load environment variables from .env.local
+dotenv.config({ path: '.env.local' });
+
+import { jobScheduler, type CreateScheduleOptions } from '../services/job-scheduler';
+import { logger } from '../services/logger';
+import type { JobSchedule } from '../lib/supabase/types';
+
+/**
+ * Job schedule tools
+ * The job processor creates the jobs; these commands only manage the schedules
+ */
+
+/**
+ * CLI entry point for list
+ */
+export async function showSchedules(options: { json?: boolean } = {}): Promise<void> {
+  if (options.json) {
+    // Keep stdout parseable
+    logger.setLevel('warn');
+  }
+
+  try {
+    const schedules = await jobScheduler.listSchedules();
+
+    if (options.json) {
+      console.log(JSON.stringify(schedules, null, 2));
+      process.exit(0);
+    }
+
+    if (schedules.length === 0) {
+      console.log('No job schedules. Add one with: schedules add <workerType> <sourceId> "<cron>"');
+      process.exit(0);
+    }
+
+    console.log(`\n⏰ ${schedules.length} job schedule(s)\n`);
+    for (const schedule of schedules) {
+      printSchedule(schedule);
+    }
+
+    process.exit(0);
+  } catch (err) {
+    logger.error('Schedule list command failed', err as Error);
+    process.exit(1);
+  }
+}
+
+/**
+ * CLI entry point for add
+ */
+export async function addSchedule(options: CreateScheduleOptions): Promise<void> {
+  try {
+    const schedule = await jobScheduler.addSchedule(options);
+    console.log(`✅ Added schedule ${schedule.name}, first run ${formatTime(schedule.next_run_at)}`);
+    process.exit(0);
+  } catch (err) {
+    logger.error('Schedule add command failed', err as Error);
+    process.exit(1);
+  }
+}
+
+/**
+ * CLI entry point for pause and resume
+ */
+export async function setScheduleActive(nameOrId: string, active: boolean): Promise<void> {
+  try {
+    const schedule = await jobScheduler.setScheduleActive(nameOrId, active);
+    console.log(active
+      ? `▶️ Resumed ${schedule.name}, next run ${formatTime(schedule.next_run_at)}`
+      : `⏸️ Paused ${schedule.name}`);
+    process.exit(0);
+  } catch (err) {
+    logger.error(`Schedule ${active ? 'resume' : 'pause'} command failed`, err as Error);
+    process.exit(1);
+  }
+}
+
+function printSchedule(schedule: JobSchedule): void {
+  const state = schedule.is_active ? `next ${formatTime(schedule.next_run_at)}` : 'paused';
+  console.log(`  ${schedule.is_active ? '●' : '○'} ${schedule.name}  [${schedule.cron}]  ${state}`);
+  console.log(`      ${schedule.worker_type} ${schedule.source_id} (${schedule.mode}, batch ${schedule.batch_size})`);
+
+  const history = [
+    schedule.last_enqueued_at ? `last job ${formatTime(schedule.last_enqueued_at)}` : 'never run',
+    schedule.last_skipped_at ? `last skipped ${formatTime(schedule.last_skipped_at)}` : null,
+  ].filter(Boolean).join(', ');
+  console.log(`      ${history}`);
+}
+
+function formatTime(timestamp: string): string {
+  return timestamp.slice(0, 16).replace('T', ' ') + ' UTC';
+}
+
+// CLI handling
+if (require.main === module) {
+  const [command, ...args] = process.argv.slice(2);
+  const usage = 'Usage: npm run schedules list [--json] | add <workerType> <sourceId> "<cron>" | pause|resume <name or ID>';
+
+  switch (command) {
+    case 'list':
+      showSchedules({ json: args.includes('--json') });
+      break;
+    case 'add': {
+      const [workerType, sourceId, cron] = args;
+      if (!workerType || !sourceId || !cron) {
+        console.log(usage);
+        process.exit(1);
+      }
+      addSchedule({ workerType, sourceId, cron });
+      break;
+    }
+    case 'pause':
+    case 'resume':
+      if (!args[0]) {
+        console.log(usage);
+        process.exit(1);
+      }
+      setScheduleActive(args[0], command === 'resume');
+      break;
+    default:
+      console.log(usage);
+      process.exit(1);
+  }
+}
@@ -0,0 +1,299 @@
+import dotenv from 'dotenv';
+
+// Load environment variables from .env.local
+dotenv.config({ path: '.env.local' });
+
+import * as readline from 'readline';
+import { getServiceClient } from '../lib/supabase/service';
+import { contextVenueService } from '../lib/contextVenueService';
+import { venueReviewService, type VenueVerdict } from '../lib/venue-review-service';
+import { logger } from '../services/logger';
+import type { Venue, VenueProposal } from '../lib/supabase/types';
+
+/**
+ * Venue tools: geocoding and the venue proposal review queue
+ */
+
+export interface VenueGeocodingOptions {
+  limit?: number;   // Maximum venues to check
+  dryRun?: boolean; // Report what would be filled in without updating venues
+}
+
+export interface VenueGeocodingChange {
+  venueId: string;
+  name: string;
+  fields: Partial<Venue>;
+}
+
+export interface VenueGeocodingResult {
+  checked: number;
+  updated: VenueGeocodingChange[];
+  unresolved: Array<{ venueId: string; name: string }>;
+  dryRun: boolean;
+}
+
+const DEFAULT_LIMIT = 500;
+
+/**
+ * Fill in coordinates and country codes on venues that are missing them
+ */
+export async function geocodeVenues(options: VenueGeocodingOptions = {}): Promise<VenueGeocodingResult> {
+  const supabase = getServiceClient();
+
+  const { data: venues, error } = await supabase
+    .from('venues')
+    .select('*')
+    .or('lat.is.null,country_code.is.null')
+    .order('created_at', { ascending: true })
+    .limit(options.limit || DEFAULT_LIMIT);
+
+  if (error) {
+    throw new Error(`Failed to fetch venues: ${error.message}`);
+  }
+
+  const result: VenueGeocodingResult = {
+    checked: 0,
+    updated: [],
+    unresolved: [],
+    dryRun: !!options.dryRun,
+  };
+
+  for (const venue of (venues || []) as Venue[]) {
+    result.checked++;
+
+    const located = await contextVenueService.geocodeVenue({
+      name: venue.name,
+      city: venue.city || undefined,
+      country: venue.country || undefined,
+      confidence: 1,
+      reason_codes: [],
+    });
+
+    const fields = contextVenueService.getMissingVenueFields(venue, located);
+    if (Object.keys(fields).length === 0) {
+      result.unresolved.push({ venueId: venue.id, name: venue.name });
+      continue;
+    }
+
+    if (!options.dryRun) {
+      await contextVenueService.fillMissingVenueFields(venue, located);
+    }
+    result.updated.push({ venueId: venue.id, name: venue.name, fields });
+  }
+
+  return result;
+}
+
+/**
+ * CLI entry point for geocode (fill in missing venue locations)
+ */
+export async function runVenueGeocoding(options: VenueGeocodingOptions = {}): Promise<void> {
+  try {
+    const result = await geocodeVenues(options);
+
+    console.log(`\n🗺️  Venue geocoding${result.dryRun ? ' (dry run, nothing written)' : ''}\n`);
+
+    for (const change of result.updated) {
+      const fields = Object.entries(change.fields)
+        .map(([field, value]) => `${field}=${value}`)
+        .join(', ');
+      console.log(`  ✅ ${change.name}: ${fields}`);
+    }
+
+    for (const venue of result.unresolved) {
+      console.log(`  ❓ ${venue.name} (${venue.venueId}): no geocoding result`);
+    }
+
+    console.log('\n📊 Summary:');
+    console.log(`  Venues checked: ${result.checked}`);
+    console.log(`  ${result.dryRun ? 'Would update' : 'Updated'}:    ${result.updated.length}`);
+    console.log(`  Unresolved:     ${result.unresolved.length}`);
+
+    process.exit(0);
+  } catch (err) {
+    logger.error('Venue geocoding failed', err as Error);
+    process.exit(1);
+  }
+}
+
+const VERDICTS: Record<string, VenueVerdict> = {
+  a: 'approve',
+  approve: 'approve',
+  r: 'reject',
+  reject: 'reject',
+};
+
+/**
+ * Parse a venue verdict name or shortcut (a/r)
+ */
+export function parseVenueVerdict(input: string): VenueVerdict | null {
+  return VERDICTS[input.trim().toLowerCase()] || null;
+}
+
+/**
+ * CLI entry point for interactive venue proposal review
+ */
+export async function reviewVenueProposals(
+  options: { limit?: number; reviewerId?: string } = {}
+): Promise<void> {
+  const pageSize = options.limit || 20;
+  const reviewerId = options.reviewerId || process.env.MODERATOR_USER_ID;
+
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  const ask = (question: string) => new Promise<string>(resolve => rl.question(question, resolve));
+
+  const counts: Record<VenueVerdict | 'skipped', number> = {
+    approve: 0,
+    reject: 0,
+    skipped: 0,
+  };
+
+  try {
+    const total = await venueReviewService.countPendingProposals();
+    console.log(`\n🏟️  ${total} venue proposal(s) pending review`);
+
+    if (!reviewerId) {
+      console.log('⚠️  No reviewer set (--reviewer or MODERATOR_USER_ID), venues will be verified without verified_by');
+    }
+
+    // Reviewed proposals drop out of the pending list, so only skipped ones push the offset forward
+    let offset = 0;
+    let quit = false;
+
+    while (!quit) {
+      const page = await venueReviewService.getPendingProposals(pageSize, offset);
+      if (page.length === 0) break;
+
+      for (const proposal of page) {
+        printProposal(proposal);
+
+        const answer = (await ask('Verdict [a]pprove [r]eject, [n]ext, [q]uit (optionally followed by a note): ')).trim();
+        const [choice, ...noteParts] = answer.split(/\s+/);
+        const key = (choice || '').toLowerCase();
+
+        if (key === 'q') {
+          quit = true;
+          break;
+        }
+
+        const verdict = parseVenueVerdict(key);
+        if (!verdict) {
+          counts.skipped++;
+          offset++;
+          continue;
+        }
+
+        try {
+          const result = await venueReviewService.submitReview(proposal, verdict, {
+            reviewerId,
+            notes: noteParts.join(' ') || undefined,
+          });
+          counts[verdict]++;
+
+          if (result.linked) {
+            console.log(`  ✅ Verified ${result.venueCreated ? 'new' : 'existing'} venue ${result.venueId}, linked to mix ${result.mixId}`);
+          } else if (result.note) {
+            console.log(`  ⚠️  ${result.note}`);
+          } else {
+            console.log(`  📝 Rejected`);
+          }
+        } catch (err) {
+          // Leave it pending and move past it
+          console.log(`  ❌ ${(err as Error).message}`);
+          counts.skipped++;
+          offset++;
+        }
+      }
+    }
+
+    console.log('\n📊 Review Summary:');
+    console.log(`  Approved: ${counts.approve}`);
+    console.log(`  Rejected: ${counts.reject}`);
+    console.log(`  Skipped:  ${counts.skipped}`);
+
+    rl.close();
+    process.exit(0);
+  } catch (err) {
+    rl.close();
+    logger.error('Venue review failed', err as Error);
+    process.exit(1);
+  }
+}
+
+/**
+ * CLI entry point for reviewing a single proposal non-interactively
+ */
+export async function submitVenueReview(
+  proposalId: string,
+  verdictInput: string,
+  options: { reviewerId?: string; notes?: string } = {}
+): Promise<void> {
+  try {
+    const verdict = parseVenueVerdict(verdictInput);
+    if (!verdict) {
+      throw new Error(`Unknown verdict "${verdictInput}" (expected approve or reject)`);
+    }
+
+    const proposal = await venueReviewService.getPendingProposal(proposalId);
+    if (!proposal) {
+      throw new Error(`No pending venue proposal found with ID ${proposalId}`);
+    }
+
+    const result = await venueReviewService.submitReview(proposal, verdict, {
+      reviewerId: options.reviewerId || process.env.MODERATOR_USER_ID,
+      notes: options.notes,
+    });
+
+    console.log(`✅ Recorded ${verdict} for ${proposalId}${result.linked ? `, linked venue to mix ${result.mixId}` : ''}`);
+    if (result.note) {
+      console.log(`⚠️  ${result.note}`);
+    }
+
+    process.exit(0);
+  } catch (err) {
+    logger.error('Venue review failed', err as Error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Print a venue proposal for the moderator
+ */
+function printProposal(proposal: VenueProposal): void {
+  const location = [proposal.city, proposal.country].filter(Boolean).join(', ');
+
+  console.log('\n' + '─'.repeat(60));
+  console.log(`🏟️  ${proposal.name}${location ? ` (${location})` : ''}`);
+  console.log(`   Confidence: ${Number(proposal.confidence).toFixed(2)} via ${proposal.reason_codes.join(', ')}`);
+  if (proposal.matched_text) {
+    console.log(`   Matched:    "${proposal.matched_text}"`);
+  }
+  console.log(`   Raw mix:    ${proposal.raw_mix_id}`);
+  console.log(`   Proposal ${proposal.id}`);
+}
+
+// CLI handling
+if (require.main === module) {
+  const command = process.argv[2];
+
+  switch (command) {
+    case 'geocode':
+      runVenueGeocoding({ dryRun: process.argv.includes('--dry-run') });
+      break;
+    case 'review': {
+      const [proposalId, verdict] = process.argv.slice(3);
+      if (proposalId && verdict) {
+        submitVenueReview(proposalId, verdict);
+      } else {
+        reviewVenueProposals();
+      }
+      break;
+    }
+    default:
+      console.log('Usage: npm run venues geocode [--dry-run] | review [proposal-id approve|reject]');
+      process.exit(1);
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { DetectedVenue } from '../../utils/contextVenueDetector';
+
+vi.mock('../supabase/service', () => ({
+  getServiceClient: () => ({}),
+}));
+
+import { contextVenueService } from '../contextVenueService';
+
+function venue(name: string, location: Partial<DetectedVenue> = {}): DetectedVenue {
+  return { name, confidence: 0.9, reason_codes: ['rule'], ...location };
+}
+
+describe('contextVenueService.geocodeVenue', () => {
+  it('locates a venue in its detected city', async () => {
+    expect(await contextVenueService.geocodeVenue(venue('Printworks', { city: 'London', country: 'UK' }))).toMatchObject({
+      city: 'London',
+      country: 'United Kingdom',
+      country_code: 'GB',
+      lat: 51.50853,
+      reason_codes: ['rule', 'geocoded:gazetteer'],
+    });
+  });
+
+  it('takes the city from the end of the venue name when the country confirms it', async () => {
+    expect(await contextVenueService.geocodeVenue(venue('Printworks London', { country: 'England' }))).toMatchObject({
+      city: 'London',
+      country_code: 'GB',
+    });
+  });
+
+  it.each(['Sonic Boom', 'Club Nice', 'Printworks London'])(
+    'does not guess a city from the name "%s" without a country',
+    async name => {
+      const located = await contextVenueService.geocodeVenue(venue(name));
+
+      expect(located).toEqual(venue(name));
+    }
+  );
+
+  it('does not look for a city in the name when the venue has one', async () => {
+    const located = await contextVenueService.geocodeVenue(venue('Club Nice', { city: 'Atlantis', country: 'Belgium' }));
+
+    expect(located).toMatchObject({ city: 'Atlantis', country: 'Belgium', country_code: 'BE' });
+    expect(located.lat).toBeUndefined();
+  });
+
+  it('still normalizes the country when the city is unknown', async () => {
+    expect(await contextVenueService.geocodeVenue(venue('De School', { country: 'NL' }))).toMatchObject({
+      country: 'Netherlands',
+      country_code: 'NL',
+      lat: undefined,
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { isValidCron, nextCronTime, parseCron } from '../cron';
+
+// A Tuesday
+const after = new Date('2025-08-05T07:30:00Z');
+
+describe('parseCron', () => {
+  it('expands lists, ranges and steps', () => {
+    const cron = parseCron('0-30/10 */6 1,15 6-8 1-5');
+
+    expect([...cron.minutes]).toEqual([0, 10, 20, 30]);
+    expect([...cron.hours]).toEqual([0, 6, 12, 18]);
+    expect([...cron.daysOfMonth]).toEqual([1, 15]);
+    expect([...cron.months]).toEqual([6, 7, 8]);
+    expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('runs a step from a single value to the end of the field', () => {
+    expect([...parseCron('5/15 * * * *').minutes]).toEqual([5, 20, 35, 50]);
+  });
+
+  it('accepts 7 for Sunday', () => {
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  it('expands shorthands', () => {
+    expect(parseCron('@daily')).toMatchObject({ minutes: new Set([0]), hours: new Set([0]), restrictsDayOfMonth: false });
+    expect(parseCron(' @Weekly ').daysOfWeek).toEqual(new Set([0]));
+  });
+
+  it.each([
+    ['* * * *', 'expected 5 fields, got 4'],
+    ['60 * * * *', 'minute "60" is outside 0-59'],
+    ['0 0 0 * *', 'day of month "0" is outside 1-31'],
+    ['0 0 * * 8', 'day of week "8" is outside 0-7'],
+    ['5-1 * * * *', 'minute "5-1" is a backwards range'],
+    ['*/0 * * * *', 'minute "*/0" has a zero step'],
+    ['*-5 * * * *', `minute "*-5" can't combine * with a range`],
+    ['0 0 * JAN *', 'month "JAN" is not a number, range or step'],
+    ['@yearly', 'expected 5 fields, got 1'],
+  ])('rejects "%s"', (expression, reason) => {
+    expect(() => parseCron(expression)).toThrow(`Invalid cron expression "${expression}": ${reason}`);
+    expect(isValidCron(expression)).toBe(false);
+  });
+});
+
+describe('isValidCron', () => {
+  it.each(['0 */6 * * *', '*/15 * * * *', '0 3 * * 1-5', '@hourly', '@monthly'])('accepts "%s"', expression => {
+    expect(isValidCron(expression)).toBe(true);
+  });
+});
+
+describe('nextCronTime', () => {
+  it.each([
+    ['0 */6 * * *', '2025-08-05T12:00:00.000Z'],
+    ['*/15 * * * *', '2025-08-05T07:45:00.000Z'],
+    ['@hourly', '2025-08-05T08:00:00.000Z'],
+    ['@daily', '2025-08-06T00:00:00.000Z'],
+    ['@weekly', '2025-08-10T00:00:00.000Z'],
+    ['@monthly', '2025-09-01T00:00:00.000Z'],
+    ['30 2 1 1 *', '2026-01-01T02:30:00.000Z'],
+    ['0 0 29 2 *', '2028-02-29T00:00:00.000Z'],
+  ])('schedules "%s" at %s', (expression, expected) => {
+    expect(nextCronTime(expression, after).toISOString()).toBe(expected);
+  });
+
+  it('returns a time strictly after the given one', () => {
+    expect(nextCronTime('0 * * * *', new Date('2025-08-05T12:00:00Z')).toISOString()).toBe('2025-08-05T13:00:00.000Z');
+    expect(nextCronTime('0 * * * *', new Date('2025-08-05T11:59:59.999Z')).toISOString()).toBe('2025-08-05T12:00:00.000Z');
+  });
+
+  it('matches either the day of month or the day of week when both are restricted', () => {
+    // The 13th, or any Friday
+    expect(nextCronTime('0 0 13 * 5', after).toISOString()).toBe('2025-08-08T00:00:00.000Z');
+    expect(nextCronTime('0 0 13 * 5', new Date('2025-08-09T00:00:00Z')).toISOString()).toBe('2025-08-13T00:00:00.000Z');
+  });
+
+  it('matches only the restricted day field when the other is *', () => {
+    expect(nextCronTime('0 9 * * 1', after).toISOString()).toBe('2025-08-11T09:00:00.000Z');
+    expect(nextCronTime('0 9 20 * *', after).toISOString()).toBe('2025-08-20T09:00:00.000Z');
+  });
+
+  it('accepts an already parsed expression', () => {
+    expect(nextCronTime(parseCron('0 */6 * * *'), after).toISOString()).toBe('2025-08-05T12:00:00.000Z');
+  });
+
+  it('throws for expressions that never match', () => {
+    expect(() => nextCronTime('0 0 31 2 *', after)).toThrow('Cron expression "0 0 31 2 *" never matches');
+  });
+});
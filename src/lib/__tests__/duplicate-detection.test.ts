@@ -0,0 +1,44 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { rpc } = vi.hoisted(() => ({ rpc: vi.fn() }));
+
+vi.mock('../supabase/service', () => ({
+  getServiceClient: () => ({ rpc }),
+}));
+
+import { checkForDuplicateMix, checkForDuplicateMixes } from '../duplicate-detection';
+
+describe('checkForDuplicateMixes', () => {
+  beforeEach(() => {
+    rpc.mockReset();
+  });
+
+  it('maps matches back to their lookup keys', async () => {
+    rpc.mockResolvedValue({
+      data: [{ lookup_key: 'raw-1', mix_id: 'mix-1', matched_on: 'yt:abc123' }],
+      error: null,
+    });
+
+    const results = await checkForDuplicateMixes({
+      'raw-1': { youtube: 'yt:abc123' },
+      'raw-2': { soundcloud: 'sc:456' },
+    });
+
+    expect(results.get('raw-1')).toEqual({ isDuplicate: true, existingMixId: 'mix-1', matchedOn: 'yt:abc123' });
+    expect(results.get('raw-2')).toEqual({ isDuplicate: false });
+  });
+
+  it('skips the lookup when there are no external IDs', async () => {
+    const results = await checkForDuplicateMixes({ 'raw-1': {} });
+
+    expect(rpc).not.toHaveBeenCalled();
+    expect(results.get('raw-1')).toEqual({ isDuplicate: false });
+  });
+
+  it('throws when the lookup fails instead of reporting "not a duplicate"', async () => {
+    rpc.mockResolvedValue({ data: null, error: { message: 'canceling statement due to statement timeout' } });
+
+    await expect(checkForDuplicateMix({ youtube: 'yt:abc123' }))
+      .rejects.toThrow('Failed to check for duplicate mixes: canceling statement due to statement timeout');
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { MIN_EVENT_DATE_CONFIDENCE, extractEventDate, findEventDateCandidates } from '../event-date-extraction';
+
+describe('extractEventDate', () => {
+  describe('1001Tracklists', () => {
+    it('uses the date the tracklist page lists for the set', () => {
+      expect(extractEventDate({
+        title: 'Adam Beyer @ Awakenings Festival',
+        provider: '1001tracklists',
+        rawMetadata: { date: '2019-06-29' },
+        uploadedAt: '2019-07-02T10:00:00Z',
+      })).toMatchObject({ date: '2019-06-29', precision: 'day', source: 'tracklist_metadata', confidence: 0.95 });
+    });
+
+    it('does not treat the listing date of a search result as the event date', () => {
+      expect(findEventDateCandidates({
+        title: 'Adam Beyer @ Awakenings Festival',
+        provider: '1001tracklists',
+        rawMetadata: {},
+        uploadedAt: '2019-07-02T10:00:00Z',
+      })).toEqual([]);
+    });
+
+    it('still dates search results from the title', () => {
+      expect(extractEventDate({
+        title: 'Adam Beyer @ Awakenings Festival 2019',
+        provider: '1001tracklists',
+        rawMetadata: {},
+        uploadedAt: '2019-07-02T10:00:00Z',
+      })).toMatchObject({ date: '2019-01-01', precision: 'year', source: 'title' });
+    });
+  });
+
+  it('dates "Live @ Awakenings 2018" from the festival name and the live title year', () => {
+    const candidates = findEventDateCandidates({
+      title: 'Amelie Lens Live @ Awakenings 2018',
+      festival: 'Awakenings 2018',
+      uploadedAt: '2018-07-03T09:00:00Z',
+    });
+
+    expect(candidates.map(({ source, date, confidence }) => ({ source, date, confidence }))).toEqual([
+      { source: 'festival_name', date: '2018-01-01', confidence: 0.75 },
+      { source: 'title', date: '2018-01-01', confidence: 0.7 },
+    ]);
+    expect(candidates[1].reason).toBe('year 2018 in live set title');
+  });
+
+  it('reads the date on a "recorded" line in the description', () => {
+    expect(extractEventDate({
+      title: 'Fabric Promo Mix',
+      description: 'Thanks for listening!\nRecorded 14.07.2022 at Fabric, London\nOut now on all platforms',
+      uploadedAt: '2022-08-01T12:00:00Z',
+    })).toMatchObject({ date: '2022-07-14', precision: 'day', source: 'description', confidence: 0.85 });
+  });
+
+  it('dates a Tomorrowland 2019 set uploaded in 2023 to 2019', () => {
+    const eventDate = extractEventDate({
+      title: 'Martin Garrix - Tomorrowland 2019 (Full Set)',
+      festival: 'Tomorrowland 2019',
+      uploadedAt: '2023-03-01T18:00:00Z',
+    });
+
+    expect(eventDate).toMatchObject({ date: '2019-01-01', precision: 'year', source: 'festival_name' });
+    expect(eventDate!.confidence).toBeGreaterThanOrEqual(MIN_EVENT_DATE_CONFIDENCE);
+  });
+
+  it('boosts sources that agree on the year', () => {
+    const candidates = findEventDateCandidates({
+      title: 'Live at Printworks 2019',
+      description: 'Recorded at Printworks, London in 2019',
+      uploadedAt: '2020-01-10T00:00:00Z',
+    });
+
+    expect(candidates).toEqual([
+      expect.objectContaining({ source: 'title', confidence: 0.75, reason: 'year 2019 in live set title, confirmed by another source' }),
+      expect.objectContaining({ source: 'description', confidence: 0.7 }),
+    ]);
+  });
+
+  it('prefers a full date in the title over a year from the festival, which does not confirm it', () => {
+    expect(extractEventDate({
+      title: 'Charlotte de Witte @ Tomorrowland 2024-07-20',
+      festival: 'Tomorrowland 2024',
+      uploadedAt: '2024-08-01T00:00:00Z',
+    })).toMatchObject({ date: '2024-07-20', precision: 'day', source: 'title', confidence: 0.9 });
+  });
+
+  it('keeps bare title years and unlabelled description dates below the write threshold', () => {
+    const titleYear = extractEventDate({ title: 'Tomorrowland 2019 full set', uploadedAt: '2023-03-01T00:00:00Z' });
+    const releaseDate = extractEventDate({ title: 'Summer Mix', description: 'Released 01.02.2020', uploadedAt: '2020-03-01T00:00:00Z' });
+
+    expect(titleYear).toMatchObject({ date: '2019-01-01', confidence: 0.45 });
+    expect(releaseDate).toMatchObject({ date: '2020-02-01', confidence: 0.55 });
+    for (const candidate of [titleYear, releaseDate]) {
+      expect(candidate!.confidence).toBeLessThan(MIN_EVENT_DATE_CONFIDENCE);
+    }
+  });
+
+  it('drops dates after the upload', () => {
+    expect(extractEventDate({
+      title: 'Live at Printworks 14.07.2022',
+      uploadedAt: '2021-01-01T00:00:00Z',
+    })).toBeNull();
+  });
+});
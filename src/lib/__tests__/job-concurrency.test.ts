@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_CONCURRENCY_LIMITS, getConcurrencyLimits, parseConcurrencyLimits } from '../job-concurrency';
+
+describe('parseConcurrencyLimits', () => {
+  it('reads a comma-separated list of caps', () => {
+    expect(parseConcurrencyLimits('1001tracklists=2, youtube = 3,')).toEqual({ '1001tracklists': 2, youtube: 3 });
+    expect(parseConcurrencyLimits('')).toEqual({});
+  });
+
+  it.each(['youtube', 'youtube=', 'youtube=0', 'youtube=-1', 'youtube=two', '=2'])('rejects "%s"', value => {
+    expect(() => parseConcurrencyLimits(value)).toThrow(`Invalid JOB_CONCURRENCY_LIMITS entry "${value}"`);
+  });
+});
+
+describe('getConcurrencyLimits', () => {
+  it('caps 1001Tracklists at one job by default', () => {
+    expect(getConcurrencyLimits({})).toEqual({ '1001tracklists': 1 });
+    expect(DEFAULT_CONCURRENCY_LIMITS['1001tracklists']).toBe(1);
+  });
+
+  it('lets JOB_CONCURRENCY_LIMITS override and add caps', () => {
+    expect(getConcurrencyLimits({ JOB_CONCURRENCY_LIMITS: '1001tracklists=2,youtube=3' })).toEqual({
+      '1001tracklists': 2,
+      youtube: 3,
+    });
+    expect(getConcurrencyLimits({ JOB_CONCURRENCY_LIMITS: 'soundcloud=1' })).toEqual({
+      '1001tracklists': 1,
+      soundcloud: 1,
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  classifyFailure,
+  describeError,
+  formatRetryDelay,
+  getRetryDelaySeconds,
+  parseRetryAfter,
+  type FailureClassification,
+} from '../job-failures';
+
+describe('classifyFailure', () => {
+  it.each([
+    ['Request failed with status code 503', 'transient'],
+    ['timeout of 30000ms exceeded', 'transient'],
+    ['TypeError: fetch failed', 'transient'],
+    ['read ECONNRESET', 'transient'],
+    ['getaddrinfo EAI_AGAIN api.soundcloud.com', 'transient'],
+    ['socket hang up', 'transient'],
+    ['Job processor shutdown during execution', 'transient'],
+    ['Request failed with status code 429', 'rate_limited'],
+    ['Request failed with status code 403 (quotaExceeded)', 'rate_limited'],
+    ['1001Tracklists served a captcha instead of https://www.1001tracklists.com/tracklist/1abc', 'rate_limited'],
+    ['YOUTUBE_API_KEY environment variable is required', 'config'],
+    ['Request failed with status code 400 (keyInvalid)', 'config'],
+    ['Request failed with status code 401', 'config'],
+    ['Request failed with status code 404', 'permanent'],
+    ['Missing required field: source_id', 'permanent'],
+    ['Channel not found: UC123', 'permanent'],
+  ])('classifies "%s" as %s', (message, failureClass) => {
+    expect(classifyFailure(message)).toMatchObject({ failureClass, matched: message });
+  });
+
+  it('treats errors nobody recognizes as transient', () => {
+    expect(classifyFailure('Something odd happened')).toEqual({ failureClass: 'transient', matched: null, retryAfterSeconds: null });
+  });
+
+  it('classifies from the structured errors when the job message is generic', () => {
+    const classification = classifyFailure('Job execution failed', [
+      { error_type: 'worker_error', message: 'Failed to fetch videos from channel UC123: Request failed with status code 429' },
+    ]);
+
+    expect(classification.failureClass).toBe('rate_limited');
+  });
+
+  it('picks the class most likely to succeed on retry when errors disagree', () => {
+    const classification = classifyFailure('Job execution failed', [
+      { error_type: 'worker_error', message: 'Channel not found: UC123' },
+      { error_type: 'worker_error', message: 'read ECONNRESET' },
+    ]);
+
+    expect(classification).toMatchObject({ failureClass: 'transient', matched: 'read ECONNRESET' });
+  });
+
+  it('lets config errors win, since nothing succeeds until they are fixed', () => {
+    const classification = classifyFailure('Job execution failed', [
+      { error_type: 'worker_error', message: 'Request failed with status code 429' },
+      { error_type: 'worker_error', message: 'Spotify credentials not configured' },
+    ]);
+
+    expect(classification.failureClass).toBe('config');
+  });
+
+  it('does not treat every canonicalization error as permanent', () => {
+    const classification = classifyFailure('Job execution failed', [
+      { error_type: 'canonicalization_error', message: 'Failed to canonicalize raw-1: Failed to apply canonicalization plan: fetch failed' },
+    ]);
+
+    expect(classification.failureClass).toBe('transient');
+  });
+
+  it('reads the longest Retry-After from the messages', () => {
+    const classification = classifyFailure('Job execution failed', [
+      { error_type: 'worker_error', message: 'Request failed with status code 429 (retry after 120s)' },
+      { error_type: 'worker_error', message: 'Request failed with status code 429 (retry after 900s)' },
+    ]);
+
+    expect(classification.retryAfterSeconds).toBe(900);
+  });
+});
+
+describe('getRetryDelaySeconds', () => {
+  const classified = (failureClass: FailureClassification['failureClass'], retryAfterSeconds: number | null = null) =>
+    ({ failureClass, retryAfterSeconds, matched: null });
+
+  it('backs off exponentially up to a cap per class', () => {
+    expect([1, 2, 3, 10].map(attempt => getRetryDelaySeconds(classified('transient'), attempt))).toEqual([60, 120, 240, 1800]);
+    expect([1, 2, 10].map(attempt => getRetryDelaySeconds(classified('rate_limited'), attempt))).toEqual([900, 1800, 21600]);
+  });
+
+  it('does not retry permanent or config failures', () => {
+    expect(getRetryDelaySeconds(classified('permanent'), 1)).toBeNull();
+    expect(getRetryDelaySeconds(classified('config'), 1)).toBeNull();
+  });
+
+  it('waits as long as Retry-After says, up to a day', () => {
+    expect(getRetryDelaySeconds(classified('rate_limited', 90), 3)).toBe(90);
+    expect(getRetryDelaySeconds(classified('rate_limited', 7 * 24 * 3600), 1)).toBe(24 * 3600);
+    expect(getRetryDelaySeconds(classified('permanent', 90), 1)).toBeNull();
+  });
+});
+
+describe('parseRetryAfter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reads seconds and HTTP dates', () => {
+    vi.useFakeTimers({ now: new Date('2025-08-05T12:00:00Z') });
+
+    expect(parseRetryAfter('120')).toBe(120);
+    expect(parseRetryAfter(60)).toBe(60);
+    expect(parseRetryAfter('Tue, 05 Aug 2025 12:05:00 GMT')).toBe(300);
+    expect(parseRetryAfter('Tue, 05 Aug 2025 11:00:00 GMT')).toBe(0);
+    expect(parseRetryAfter('soon')).toBeNull();
+    expect(parseRetryAfter(undefined)).toBeNull();
+  });
+});
+
+describe('describeError', () => {
+  it('keeps the API reason and Retry-After of HTTP errors', () => {
+    const err = Object.assign(new Error('Request failed with status code 403'), {
+      response: {
+        data: { error: { errors: [{ reason: 'quotaExceeded' }] } },
+        headers: { 'retry-after': '3600' },
+      },
+    });
+
+    expect(describeError(err)).toBe('Request failed with status code 403 (quotaExceeded, retry after 3600s)');
+    expect(classifyFailure(describeError(err))).toMatchObject({ failureClass: 'rate_limited', retryAfterSeconds: 3600 });
+  });
+
+  it('passes other errors through', () => {
+    expect(describeError(new Error('fetch failed'))).toBe('fetch failed');
+    expect(describeError('boom')).toBe('boom');
+  });
+});
+
+describe('formatRetryDelay', () => {
+  it('shortens delays for logs', () => {
+    expect([90, 900, 21600].map(formatRetryDelay)).toEqual(['90s', '15m', '6h']);
+  });
+});
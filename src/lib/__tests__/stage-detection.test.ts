@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { extractStageInfo, resolveFestivalDay, type StageInfo } from '../stage-detection';
+
+describe('extractStageInfo', () => {
+  it('reads Mainstage, weekend and day from a Tomorrowland title', () => {
+    expect(extractStageInfo('Martin Garrix | Mainstage, Tomorrowland 2024 W2 Day 3', '', 'Tomorrowland')).toEqual({
+      stage: 'Mainstage',
+      day: 3,
+      weekend: 2,
+      setTime: null,
+      matchedText: ['Mainstage', 'Day 3', 'W2'],
+    });
+  });
+
+  it('reads a named stage without the festival or filler words in front of it', () => {
+    expect(extractStageInfo('Live at Tomorrowland Freedom Stage 2023', '', 'Tomorrowland').stage).toBe('Freedom Stage');
+    expect(extractStageInfo('ARTBAT live on the FREEDOM STAGE').stage).toBe('Freedom Stage');
+  });
+
+  it('recognizes well-known stages named without "Stage" in titles', () => {
+    expect(extractStageInfo('Carl Cox at Arcadia, Glastonbury 2019', '', 'Glastonbury').stage).toBe('Arcadia');
+    expect(extractStageInfo('Glastonbury 2019 set', 'Tracklist:\n01. Pendulum - Arcadia').stage).toBeNull();
+  });
+
+  it('reads the festival day from words and numbers', () => {
+    expect(extractStageInfo('Ultra Miami 2024 - Day 2').day).toBe(2);
+    expect(extractStageInfo('Awakenings Festival Day Two').day).toBe(2);
+    expect(extractStageInfo('Awakenings Festival Day 20').day).toBeNull();
+  });
+
+  it('reads weekend 2 written out', () => {
+    expect(extractStageInfo('Tomorrowland Weekend 2 - Mainstage').weekend).toBe(2);
+  });
+
+  it('reads a set time range from the title', () => {
+    expect(extractStageInfo('Boris Brejcha @ Mainstage 23:00-00.30').setTime).toBe('23:00-00:30');
+  });
+
+  it('reads a set time from a description line about the set, not tracklist timestamps', () => {
+    expect(extractStageInfo('Anyma - Mainstage', 'Set time: 22h30\nTracklist:\n00:00 Anyma - Eternity').setTime).toBe('22:30');
+    expect(extractStageInfo('Anyma - Mainstage', 'Tracklist:\n00:00 Anyma - Eternity\n03:45 Anyma - Syren').setTime).toBeNull();
+  });
+});
+
+describe('resolveFestivalDay', () => {
+  const info = (day: number | null, weekend: number | null = null): StageInfo =>
+    ({ stage: 'Mainstage', day, weekend, setTime: null, matchedText: [] });
+  const tomorrowland2024 = { startDate: '2024-07-19', endDate: '2024-07-28' };
+
+  it('counts the day from the edition start', () => {
+    expect(resolveFestivalDay(info(2), tomorrowland2024)).toEqual({
+      date: '2024-07-20',
+      reason: 'day 2 of edition starting 2024-07-19',
+    });
+  });
+
+  it('moves weekend 2 days a week later', () => {
+    expect(resolveFestivalDay(info(3, 2), tomorrowland2024)).toEqual({
+      date: '2024-07-28',
+      reason: 'weekend 2 day 3 of edition starting 2024-07-19',
+    });
+  });
+
+  it('gives up on days past the edition end date', () => {
+    expect(resolveFestivalDay(info(4, 2), tomorrowland2024)).toBeNull();
+    expect(resolveFestivalDay(info(3), { startDate: '2024-07-19', endDate: '2024-07-20' })).toBeNull();
+  });
+
+  it('needs a day and the edition start date', () => {
+    expect(resolveFestivalDay(info(null), tomorrowland2024)).toBeNull();
+    expect(resolveFestivalDay(info(2), { startDate: null, endDate: null })).toBeNull();
+    expect(resolveFestivalDay(info(2), null)).toBeNull();
+  });
+});
@@ -0,0 +1,202 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseTracklistText,
+  parseTrackLine,
+  isTrackLine,
+  isPlaceholder,
+  isUnidentifiedTrack,
+  DEFAULT_MIN_CONFIDENCE,
+} from '../tracklist-parser';
+
+function parse(text: string, minConfidence?: number) {
+  return parseTracklistText(text, 'raw-mix-1', 'description', { minConfidence })
+    .map(({ track, confidence }) => ({
+      line: track.line_text,
+      position: track.position,
+      timestamp: track.timestamp_seconds,
+      artist: track.raw_artist,
+      title: track.raw_title,
+      confidence,
+    }));
+}
+
+describe('parseTrackLine', () => {
+  it.each([
+    ['00:00 Lane 8 - Brightest Lights', 0, null],
+    ['[1:02:03] Lane 8 - Brightest Lights', 3723, null],
+    ['(75:30) Lane 8 - Brightest Lights', 4530, null],
+    ['01. Lane 8 - Brightest Lights', null, 1],
+    ['#12 Lane 8 - Brightest Lights', null, 12],
+    ['01. 12:34 Lane 8 - Brightest Lights', 754, 1],
+    ['12:34 01. Lane 8 - Brightest Lights', 754, 1],
+    ['Lane 8 - Brightest Lights 12:34', 754, null],
+  ])('reads the timestamp and numbering in "%s"', (line, timestamp, number) => {
+    expect(parseTrackLine(line)).toMatchObject({ artist: 'Lane 8', title: 'Brightest Lights', timestamp, number });
+  });
+
+  it.each(['Lane 8 - Brightest Lights', 'Lane 8 – Brightest Lights', 'Lane 8 — Brightest Lights'])(
+    'splits on hyphens and dashes: "%s"',
+    line => {
+      expect(parseTrackLine(line)).toMatchObject({ artist: 'Lane 8', title: 'Brightest Lights' });
+    }
+  );
+
+  it('splits on the first separator so titles keep their own dashes', () => {
+    expect(parseTrackLine('Bicep - Glue - Original Mix')).toMatchObject({ artist: 'Bicep', title: 'Glue - Original Mix' });
+  });
+
+  it('reads "Title by Artist"', () => {
+    expect(parseTrackLine('Brightest Lights by Lane 8')).toMatchObject({ artist: 'Lane 8', title: 'Brightest Lights' });
+  });
+
+  it('pulls out version and label suffixes', () => {
+    expect(parseTrackLine('Yotto - The Owls Are Not (Ben Böhmer Remix) [Anjunadeep]')).toMatchObject({
+      title: 'The Owls Are Not (Ben Böhmer Remix)',
+      version: 'Ben Böhmer Remix',
+      label: 'Anjunadeep',
+    });
+  });
+
+  it('splits mashup artists', () => {
+    expect(parseTrackLine('Bicep - Glue vs. Lane 8 - Road')).toMatchObject({
+      artist: 'Bicep vs. Lane 8',
+      title: 'Glue vs. Road',
+      artists: ['Bicep', 'Lane 8'],
+      isMashup: true,
+    });
+  });
+
+  it('marks "w/" overlaps as played with the previous track', () => {
+    expect(parseTrackLine('w/ Lane 8 - Road')).toMatchObject({ artist: 'Lane 8', title: 'Road', playedWithPrevious: true });
+  });
+
+  it.each([
+    ['ID - ID', true, 'ID'],
+    ['Lane 8 - ID', true, 'Lane 8'],
+    ['Lane 8 - ID (Extended Mix)', true, 'Lane 8'],
+    ['??? - ???', true, '???'],
+    ['Unknown Artist - Unknown Track', true, 'Unknown Artist'],
+    ['Lane 8 - Idaho', false, 'Lane 8'],
+  ])('flags unidentified tracks: "%s"', (line, isUnidentified, artist) => {
+    expect(parseTrackLine(`00:00 ${line}`)).toMatchObject({ isUnidentified, artist });
+  });
+
+  it('returns null when only a timestamp is left', () => {
+    expect(parseTrackLine('12:34 -')).toBeNull();
+  });
+});
+
+describe('isPlaceholder / isUnidentifiedTrack', () => {
+  it('treats ID, ??? and Unknown as placeholders', () => {
+    for (const value of ['ID', 'I.D.', '???', 'Unknown', 'unknown artist', 'TBA', 'ID (Edit)']) {
+      expect(isPlaceholder(value)).toBe(true);
+    }
+    for (const value of ['Idaho', 'Identity', 'Unknown Pleasures', null, undefined, '']) {
+      expect(isPlaceholder(value)).toBe(false);
+    }
+  });
+
+  it('keys off the title when there is one', () => {
+    expect(isUnidentifiedTrack('ID', 'Brightest Lights')).toBe(false);
+    expect(isUnidentifiedTrack('Lane 8', 'ID')).toBe(true);
+    expect(isUnidentifiedTrack('ID', null)).toBe(true);
+  });
+});
+
+describe('isTrackLine', () => {
+  it('rejects promo lines, short lines and lines without a track pattern', () => {
+    expect(isTrackLine('Follow us on Instagram - @anjunadeep')).toBe(false);
+    expect(isTrackLine('Tickets - https://anjunadeep.com/events')).toBe(false);
+    expect(isTrackLine('A - B')).toBe(true);
+    expect(isTrackLine('1. A')).toBe(false);
+    expect(isTrackLine('Thanks for listening')).toBe(false);
+  });
+});
+
+describe('parseTracklistText', () => {
+  it('assigns positions in order and gives "w/" overlaps their own position', () => {
+    const tracks = parse([
+      'Tracklist:',
+      '00:00 Simon Doty - In The Dark',
+      '06:52 Yotto - The Owls Are Not w/ Lane 8 - Road',
+      '',
+      '12:10 ID - ID',
+    ].join('\n'));
+
+    expect(tracks.map(({ position, line, timestamp }) => ({ position, line, timestamp }))).toEqual([
+      { position: 1, line: '00:00 Simon Doty - In The Dark', timestamp: 0 },
+      { position: 2, line: '06:52 Yotto - The Owls Are Not', timestamp: 412 },
+      { position: 3, line: 'Lane 8 - Road', timestamp: null },
+      { position: 4, line: '12:10 ID - ID', timestamp: 730 },
+    ]);
+  });
+
+  it('scores timestamped and numbered lines above bare dash lines', () => {
+    const [timestamped, numbered, bare] = parse([
+      '00:00 Lane 8 - Brightest Lights',
+      '2. Lane 8 - Road',
+      'Lane 8 - No Captain',
+    ].join('\n'));
+
+    expect(timestamped.confidence).toBeGreaterThan(numbered.confidence);
+    expect(numbered.confidence).toBeGreaterThan(bare.confidence);
+    expect(bare.confidence).toBeGreaterThanOrEqual(DEFAULT_MIN_CONFIDENCE);
+  });
+
+  describe('description prose', () => {
+    const description = [
+      'Recorded live at Printworks - thanks to everyone who came!',
+      'Lane 8 b2b Yotto - the full 4 hour set from the warehouse.',
+      'Huge thanks to the Printworks crew - what a night that was.',
+      'Out now on Anjunadeep - grab it wherever you listen',
+      'Tickets for the next one - link in bio',
+      '',
+      '01. Lane 8 - Brightest Lights',
+      '02. Yotto - Nova',
+      '03. Untitled',
+    ].join('\n');
+
+    it('drops sentences that contain a dash', () => {
+      expect(parse(description).map(track => track.line)).toEqual([
+        '01. Lane 8 - Brightest Lights',
+        '02. Yotto - Nova',
+        '03. Untitled',
+      ]);
+    });
+
+    it('scores them below the default threshold', () => {
+      const prose = parse(description, 0).filter(track => !/^\d/.test(track.line));
+
+      expect(prose.map(track => track.line)).toContain('Recorded live at Printworks - thanks to everyone who came!');
+      for (const track of prose) {
+        expect(track.confidence).toBeLessThan(DEFAULT_MIN_CONFIDENCE);
+      }
+    });
+
+    it('keeps unnumbered tracklists written as plain "Artist - Title" lines', () => {
+      expect(parse([
+        'Lane 8 - Brightest Lights (feat. POLIÇA)',
+        'Bicep - Glue',
+        'Tale Of Us - Nova',
+        'deadmau5 - the veldt',
+        'OutKast - Hey Ya!',
+      ].join('\n')).map(track => track.title)).toEqual([
+        'Brightest Lights (feat. POLIÇA)',
+        'Glue',
+        'Nova',
+        'the veldt',
+        'Hey Ya!',
+      ]);
+    });
+
+    it('keeps timestamped lines even when they read like prose', () => {
+      expect(parse('00:00 Intro - thanks for tuning in!').map(track => track.title)).toEqual(['thanks for tuning in!']);
+    });
+  });
+
+  it('drops very long lines that happen to contain a dash', () => {
+    const line = `Lane 8 - ${'an hour of melodic house and techno recorded on the last night of the tour '.repeat(2)}`;
+
+    expect(parse(line)).toEqual([]);
+  });
+});
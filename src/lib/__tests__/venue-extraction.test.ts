@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { extractVenueMention } from '../venue-extraction';
+
+describe('extractVenueMention', () => {
+  it('reads the venue and country from "live at <place>, <country>"', () => {
+    expect(extractVenueMention('Cercle: Artist live at Château de Fontainebleau, France')).toEqual({
+      name: 'Château de Fontainebleau',
+      country: 'France',
+      confidence: 0.6,
+      source: 'title',
+      matchedText: 'live at Château de Fontainebleau, France',
+    });
+  });
+
+  it('falls back to the description, at lower confidence', () => {
+    expect(extractVenueMention('Boiler Room', 'Full set\nRecorded at Printworks, London, UK')).toMatchObject({
+      name: 'Printworks',
+      city: 'London',
+      country: 'UK',
+      confidence: 0.55,
+      source: 'description',
+    });
+  });
+
+  it('splits a known city off "<place> in <city>"', () => {
+    expect(extractVenueMention('Artist live at Grand Palais in Paris')).toMatchObject({ name: 'Grand Palais', city: 'Paris' });
+  });
+
+  it('does not treat a city as a venue', () => {
+    expect(extractVenueMention('Artist live from Berlin')).toBeNull();
+  });
+
+  it('skips excluded names such as detected festivals', () => {
+    expect(extractVenueMention('Anyma live at Tomorrowland 2024')).toMatchObject({ name: 'Tomorrowland' });
+    expect(extractVenueMention('Anyma live at Tomorrowland 2024', '', { exclude: ['Tomorrowland'] })).toBeNull();
+  });
+
+  it('does not take a city from the venue name without a country to confirm it', () => {
+    const mention = extractVenueMention('Boris Brejcha live at Club Nice');
+
+    expect(mention).toMatchObject({ name: 'Club Nice', confidence: 0.5 });
+    expect(mention!.city).toBeUndefined();
+  });
+
+  it('takes a city from the venue name when the country confirms it', () => {
+    expect(extractVenueMention('Solomun @ Hï Ibiza, Spain')).toMatchObject({
+      name: 'Hï Ibiza',
+      city: 'Ibiza',
+      country: 'Spain',
+      confidence: 0.6,
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { getServiceClient } from './supabase/service';
+import { contextVenueService } from './contextVenueService';
+import { getRoleForContextType } from '../utils/contextVenueDetector';
+import { logger } from '../services/logger';
+import type { ContextType } from './supabase/types';
+
+/**
+ * Moderator review of context rule applications (pending_context_reviews)
+ * Verdicts feed rule accuracy via the update_rule_accuracy_on_feedback trigger
+ */
+
+export type ReviewVerdict = 'correct' | 'incorrect' | 'partially_correct' | 'spam';
+
+export interface PendingContextReview {
+  application_id: string;
+  rule_id: string;
+  rule_name: string;
+  raw_mix_id: string;
+  suggested_context_type: ContextType;
+  suggested_context_name: string;
+  confidence_score: number;
+  matched_text: string | null;
+  reasoning: string | null;
+  mix_title: string;
+  mix_description: string | null;
+  artist_name: string | null;
+  platform: string | null;
+  suggested_at: string;
+  requires_approval: boolean;
+}
+
+export interface ReviewResult {
+  applicationId: string;
+  verdict: ReviewVerdict;
+  contextId?: string;
+  contextCreated?: boolean;
+  mixId?: string;
+  linked: boolean; // Whether the context was linked to the canonical mix
+  note?: string;
+}
+
+export class ContextReviewService {
+  private supabase = getServiceClient();
+
+  /**
+   * Get a page of pending reviews, highest confidence first
+   */
+  async getPendingReviews(limit: number = 20, offset: number = 0): Promise<PendingContextReview[]> {
+    const { data, error } = await this.supabase
+      .from('pending_context_reviews')
+      .select('*')
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch pending context reviews: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Count reviews still waiting for a moderator
+   */
+  async countPendingReviews(): Promise<number> {
+    const { count, error } = await this.supabase
+      .from('pending_context_reviews')
+      .select('*', { count: 'exact', head: true });
+
+    if (error) {
+      throw new Error(`Failed to count pending context reviews: ${error.message}`);
+    }
+
+    return count || 0;
+  }
+
+  /**
+   * Record a moderator verdict on a rule application
+   * On "correct", the suggested context is created (or reused) and linked to the canonical mix
+   */
+  async submitReview(
+    review: PendingContextReview,
+    verdict: ReviewVerdict,
+    options: { reviewerId?: string; notes?: string } = {}
+  ): Promise<ReviewResult> {
+    const result: ReviewResult = {
+      applicationId: review.application_id,
+      verdict,
+      linked: false,
+    };
+
+    // Apply the verdict to production first so a failure leaves the review pending
+    if (verdict === 'correct') {
+      const { context, created } = await contextVenueService.ensureContext({
+        name: review.suggested_context_name,
+        type: review.suggested_context_type,
+        role: getRoleForContextType(review.suggested_context_type),
+        confidence: review.confidence_score,
+        reason_codes: ['moderator_review', `rule:${review.rule_name}`],
+      });
+
+      result.contextId = context.id;
+      result.contextCreated = created;
+
+      const mixId = await this.getCanonicalMixId(review.raw_mix_id);
+      if (mixId) {
+        await contextVenueService.ensureMixContext(
+          mixId,
+          context.id,
+          getRoleForContextType(review.suggested_context_type)
+        );
+        result.mixId = mixId;
+        result.linked = true;
+      } else {
+        result.note = 'Raw mix has not been canonicalized yet, context was not linked to a mix';
+        logger.warn(`Raw mix ${review.raw_mix_id} not canonicalized, skipping mix-context link`, {
+          rawMixId: review.raw_mix_id,
+        });
+      }
+    }
+
+    const { error } = await this.supabase
+      .from('rule_applications')
+      .update({
+        moderator_feedback: verdict,
+        feedback_notes: options.notes || result.note || null,
+        reviewed_by: options.reviewerId || null,
+        reviewed_at: new Date().toISOString(),
+      })
+      .eq('id', review.application_id);
+
+    if (error) {
+      throw new Error(`Failed to record review: ${error.message}`);
+    }
+
+    logger.info(`Reviewed rule application ${review.application_id}: ${verdict}`, {
+      rawMixId: review.raw_mix_id,
+      metadata: { ruleId: review.rule_id, contextId: result.contextId, mixId: result.mixId },
+    });
+
+    return result;
+  }
+
+  /**
+   * Look up a pending review by application ID
+   */
+  async getPendingReview(applicationId: string): Promise<PendingContextReview | null> {
+    const { data, error } = await this.supabase
+      .from('pending_context_reviews')
+      .select('*')
+      .eq('application_id', applicationId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch context review: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Get the production mix a raw mix was canonicalized into
+   */
+  private async getCanonicalMixId(rawMixId: string): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .from('raw_mixes')
+      .select('canonicalized_mix_id')
+      .eq('id', rawMixId)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to fetch raw mix: ${error.message}`);
+    }
+
+    return data?.canonicalized_mix_id || null;
+  }
+}
+
+// Export singleton instance
+export const contextReviewService = new ContextReviewService();
@@ -1,6 +1,6 @@
 import { getServiceClient } from './supabase/service';
 import { logger } from '../services/logger';
-import type { ContextType } from './supabase/types';
+import type { ContextType, ExternalIds } from './supabase/types';
 
 // Context suggestion from rules engine
 export interface ContextSuggestion {
@@ -12,6 +12,29 @@ export interface ContextSuggestion {
   requires_approval: boolean;
   matched_text?: string;
   rule_name: string;
+  rule_version?: number; // Version of the rule that produced the suggestion, for per-version accuracy
+  rule_type?: RuleType;
+  external_ids?: ExternalIds; // From the rule config, e.g. a publisher's channel IDs
+  parent_of?: string;         // Set when this is the parent context of another match (e.g. a radio show's station)
+}
+
+// Venue suggestion from rules targeting 'venue'
+export interface VenueSuggestion {
+  rule_id: string;
+  rule_name: string;
+  rule_version?: number;
+  name: string;
+  city?: string;
+  country?: string;
+  confidence: number;
+  reasoning: string;
+  matched_text?: string;
+}
+
+// Everything the active rules found in a piece of content
+export interface RuleDetection {
+  contexts: ContextSuggestion[];
+  venues: VenueSuggestion[];
 }
 
 // Mix content for analysis
@@ -24,41 +47,176 @@ export interface MixContent {
   channel_id?: string;
 }
 
+// Options shared by every rule type
+export interface RuleConfigOptions {
+  parent?: { name: string; type: ContextType }; // Also suggest this parent context, at slightly lower confidence
+  append_year?: boolean;                        // Append a year found in the content to the name (festival editions)
+  external_ids?: ExternalIds;                   // Attached to the suggested context
+  venue?: { city?: string; country?: string };  // Location of the venue, for rules targeting 'venue'
+}
+
+export type RuleSearchField = 'title' | 'description' | 'channel';
+
 // Rule configuration interfaces
-interface PatternRuleConfig {
+export interface PatternRuleConfig extends RuleConfigOptions {
   regex: string;
   flags?: string;
+  fields?: RuleSearchField[]; // Defaults to title (pattern) or description (description_pattern)
 }
 
-interface KeywordRuleConfig {
+export interface KeywordRuleConfig extends RuleConfigOptions {
   keywords: string[];
   require_all?: boolean;
 }
 
-interface ChannelMappingConfig {
+export interface ChannelMappingConfig extends RuleConfigOptions {
   youtube_channel_ids?: string[];
   soundcloud_usernames?: string[];
 }
 
-interface TitlePatternConfig {
+export interface TitlePatternConfig extends RuleConfigOptions {
   contains: string[];
   followed_by?: string[];
   extract_venue?: boolean;
 }
 
-type RuleConfig = PatternRuleConfig | KeywordRuleConfig | ChannelMappingConfig | TitlePatternConfig;
+export type RuleConfig = PatternRuleConfig | KeywordRuleConfig | ChannelMappingConfig | TitlePatternConfig;
+
+export type RuleType = 'pattern' | 'keyword' | 'channel_mapping' | 'title_pattern' | 'description_pattern';
 
-// Database rule representation
-interface ContextRule {
+export const RULE_TYPES: RuleType[] = ['pattern', 'keyword', 'channel_mapping', 'title_pattern', 'description_pattern'];
+
+// Rules can target a context or a venue
+export type RuleTargetType = ContextType | 'venue';
+
+export const RULE_TARGET_TYPES: RuleTargetType[] = ['festival', 'radio_show', 'publisher', 'series', 'label', 'promoter', 'stage', 'venue'];
+
+const SEARCH_FIELDS: RuleSearchField[] = ['title', 'description', 'channel'];
+
+// Rule as evaluated by the engine (subset of the context_rules row)
+export interface RuleDefinition {
   id: string;
   rule_name: string;
-  rule_type: 'pattern' | 'keyword' | 'channel_mapping' | 'title_pattern' | 'description_pattern';
-  target_context_type: ContextType;
+  rule_type: RuleType;
+  target_context_type: RuleTargetType;
   target_context_name: string;
   pattern_config: RuleConfig;
   confidence_weight: number;
   requires_approval: boolean;
   priority: number;
+  version: number;
+}
+
+// Match produced by a single rule, before venue matches are split from context suggestions
+export interface RuleMatch extends Omit<ContextSuggestion, 'context_type'> {
+  context_type: RuleTargetType;
+}
+
+/**
+ * Check a pattern_config against the shape its rule type expects
+ * Returns a list of problems, empty when the config is usable
+ */
+export function validateRuleConfig(ruleType: RuleType, config: unknown): string[] {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return ['pattern_config must be an object'];
+  }
+
+  const value = config as Record<string, unknown>;
+  const errors: string[] = [];
+  const isStringList = (list: unknown) =>
+    Array.isArray(list) && list.every(item => typeof item === 'string' && item.trim().length > 0);
+
+  switch (ruleType) {
+    case 'pattern':
+    case 'description_pattern':
+      if (typeof value.regex !== 'string' || value.regex.length === 0) {
+        errors.push('regex must be a non-empty string');
+        break;
+      }
+      if (value.flags !== undefined && typeof value.flags !== 'string') {
+        errors.push('flags must be a string');
+        break;
+      }
+      if (value.fields !== undefined
+        && (!Array.isArray(value.fields) || value.fields.some(field => !SEARCH_FIELDS.includes(field)))) {
+        errors.push(`fields must be an array of ${SEARCH_FIELDS.join(', ')}`);
+      }
+      try {
+        new RegExp(value.regex, (value.flags as string | undefined) || 'i');
+      } catch (error) {
+        errors.push(`regex does not compile: ${(error as Error).message}`);
+      }
+      break;
+
+    case 'keyword':
+      if (!isStringList(value.keywords) || (value.keywords as string[]).length === 0) {
+        errors.push('keywords must be a non-empty array of strings');
+      }
+      if (value.require_all !== undefined && typeof value.require_all !== 'boolean') {
+        errors.push('require_all must be a boolean');
+      }
+      break;
+
+    case 'channel_mapping':
+      if (value.youtube_channel_ids === undefined && value.soundcloud_usernames === undefined) {
+        errors.push('youtube_channel_ids or soundcloud_usernames is required');
+      }
+      if (value.youtube_channel_ids !== undefined && !isStringList(value.youtube_channel_ids)) {
+        errors.push('youtube_channel_ids must be an array of strings');
+      }
+      if (value.soundcloud_usernames !== undefined && !isStringList(value.soundcloud_usernames)) {
+        errors.push('soundcloud_usernames must be an array of strings');
+      }
+      break;
+
+    case 'title_pattern':
+      if (!isStringList(value.contains) || (value.contains as string[]).length === 0) {
+        errors.push('contains must be a non-empty array of strings');
+      }
+      if (value.followed_by !== undefined && !isStringList(value.followed_by)) {
+        errors.push('followed_by must be an array of strings');
+      }
+      if (value.extract_venue !== undefined && typeof value.extract_venue !== 'boolean') {
+        errors.push('extract_venue must be a boolean');
+      }
+      break;
+
+    default:
+      errors.push(`Unknown rule type: ${ruleType}`);
+  }
+
+  // Shared options
+  if (value.append_year !== undefined && typeof value.append_year !== 'boolean') {
+    errors.push('append_year must be a boolean');
+  }
+  if (value.parent !== undefined) {
+    const parent = value.parent as Record<string, unknown> | null;
+    if (!parent || typeof parent.name !== 'string' || parent.name.trim().length === 0
+      || !RULE_TARGET_TYPES.includes(parent.type as RuleTargetType) || parent.type === 'venue') {
+      errors.push('parent must be { name, type } with a context type');
+    }
+  }
+  if (value.venue !== undefined) {
+    const venue = value.venue as Record<string, unknown> | null;
+    if (!venue || typeof venue !== 'object'
+      || (venue.city !== undefined && typeof venue.city !== 'string')
+      || (venue.country !== undefined && typeof venue.country !== 'string')) {
+      errors.push('venue must be { city?, country? }');
+    }
+  }
+  if (value.external_ids !== undefined && (typeof value.external_ids !== 'object' || value.external_ids === null)) {
+    errors.push('external_ids must be an object');
+  }
+
+  return errors;
+}
+
+/**
+ * Find a four-digit year (2000s) in text
+ */
+function extractYear(text: string): number | undefined {
+  const yearMatch = text.match(/\b(20\d{2})\b/);
+  return yearMatch ? parseInt(yearMatch[1]) : undefined;
 }
 
 /**
@@ -67,7 +225,7 @@ interface ContextRule {
  */
 export class BasicContextRulesEngine {
   private supabase = getServiceClient();
-  private rulesCache: ContextRule[] = [];
+  private rulesCache: RuleDefinition[] = [];
   private cacheExpiry: Date = new Date(0);
   private readonly CACHE_DURATION_MS = 5 * 60 * 1000; // 5 minutes
   
@@ -79,62 +237,61 @@ export class BasicContextRulesEngine {
     artistId?: string,
     platform?: string
   ): Promise<ContextSuggestion[]> {
+    const detection = await this.detect(content, artistId, platform);
+    return detection.contexts;
+  }
+  
+  /**
+   * Analyze mix content and return context and venue suggestions from one pass over the active rules
+   */
+  async detect(
+    content: MixContent,
+    artistId?: string,
+    platform?: string
+  ): Promise<RuleDetection> {
     try {
       // Load active rules (with caching)
       const rules = await this.getActiveRules(artistId, platform);
       const suggestions: ContextSuggestion[] = [];
+      const venues: VenueSuggestion[] = [];
       
       // Apply each rule to the content
       for (const rule of rules) {
         const matches = await this.applyRule(rule, content);
-        suggestions.push(...matches);
+        
+        for (const match of matches) {
+          if (match.context_type === 'venue') {
+            venues.push(this.toVenueSuggestion(rule, match));
+          } else {
+            suggestions.push({ ...match, context_type: match.context_type, rule_version: rule.version });
+          }
+        }
       }
       
       // Sort by confidence and remove duplicates
       const deduplicatedSuggestions = this.deduplicateSuggestions(suggestions);
+      venues.sort((a, b) => b.confidence - a.confidence);
       
-      logger.info(`Context analysis complete: ${suggestions.length} raw matches, ${deduplicatedSuggestions.length} final suggestions`, {
+      logger.info(`Context analysis complete: ${suggestions.length} raw matches, ${deduplicatedSuggestions.length} final suggestions, ${venues.length} venue matches`, {
         title: content.title,
         totalRules: rules.length,
-        matchingRules: suggestions.length
+        matchingRules: suggestions.length + venues.length
       });
       
-      return deduplicatedSuggestions;
+      return { contexts: deduplicatedSuggestions, venues };
       
     } catch (error) {
       logger.error('Context rules engine failed', error as Error, { content });
-      return [];
+      return { contexts: [], venues: [] };
     }
   }
   
   /**
    * Apply a single rule to mix content
    */
-  private async applyRule(rule: ContextRule, content: MixContent): Promise<ContextSuggestion[]> {
+  private async applyRule(rule: RuleDefinition, content: MixContent): Promise<RuleMatch[]> {
     try {
-      let matches: ContextSuggestion[] = [];
-      
-      switch (rule.rule_type) {
-        case 'pattern':
-        case 'description_pattern':
-          matches = this.applyPatternRule(rule, content);
-          break;
-          
-        case 'keyword':
-          matches = this.applyKeywordRule(rule, content);
-          break;
-          
-        case 'channel_mapping':
-          matches = this.applyChannelMappingRule(rule, content);
-          break;
-          
-        case 'title_pattern':
-          matches = this.applyTitlePatternRule(rule, content);
-          break;
-          
-        default:
-          logger.warn(`Unknown rule type: ${rule.rule_type}`, { ruleId: rule.id });
-      }
+      const matches = this.evaluateRule(rule, content);
       
       // Log rule application for learning
       if (matches.length > 0) {
@@ -152,17 +309,109 @@ export class BasicContextRulesEngine {
     }
   }
   
+  /**
+   * Match a single rule against mix content without recording anything
+   * Used directly by the rule testing harness to try out rules that aren't saved yet
+   */
+  evaluateRule(rule: RuleDefinition, content: MixContent): RuleMatch[] {
+    let matches: RuleMatch[];
+    
+    switch (rule.rule_type) {
+      case 'pattern':
+      case 'description_pattern':
+        matches = this.applyPatternRule(rule, content);
+        break;
+        
+      case 'keyword':
+        matches = this.applyKeywordRule(rule, content);
+        break;
+        
+      case 'channel_mapping':
+        matches = this.applyChannelMappingRule(rule, content);
+        break;
+        
+      case 'title_pattern':
+        matches = this.applyTitlePatternRule(rule, content);
+        break;
+        
+      default:
+        logger.warn(`Unknown rule type: ${rule.rule_type}`, { ruleId: rule.id });
+        return [];
+    }
+    
+    return this.applyRuleOptions(rule, content, matches);
+  }
+  
+  /**
+   * Apply the options shared by every rule type (year suffix, external IDs, parent context)
+   */
+  private applyRuleOptions(rule: RuleDefinition, content: MixContent, matches: RuleMatch[]): RuleMatch[] {
+    if (matches.length === 0) return matches;
+    
+    const config = rule.pattern_config as RuleConfigOptions;
+    const results = matches.map(match => ({
+      ...match,
+      rule_type: rule.rule_type,
+      external_ids: config.external_ids,
+    }));
+    
+    if (config.append_year) {
+      // Prefer the title's year, descriptions often mention unrelated ones
+      const year = extractYear(content.title) || extractYear(content.description || '');
+      if (year) {
+        for (const result of results) {
+          if (!result.context_name.includes(String(year))) {
+            result.context_name = `${result.context_name} ${year}`;
+          }
+        }
+      }
+    }
+    
+    if (config.parent) {
+      const [primary] = results;
+      results.push({
+        ...primary,
+        context_type: config.parent.type,
+        context_name: config.parent.name,
+        confidence: Math.max(0, Math.round((primary.confidence - 0.1) * 100) / 100),
+        reasoning: `Parent of ${primary.context_name}`,
+        external_ids: undefined,
+        parent_of: primary.context_name,
+      });
+    }
+    
+    return results;
+  }
+  
+  /**
+   * Convert a match from a venue rule into a venue suggestion
+   */
+  private toVenueSuggestion(rule: RuleDefinition, match: RuleMatch): VenueSuggestion {
+    const config = rule.pattern_config as RuleConfigOptions;
+    
+    return {
+      rule_id: rule.id,
+      rule_name: rule.rule_name,
+      rule_version: rule.version,
+      name: match.context_name,
+      city: config.venue?.city,
+      country: config.venue?.country,
+      confidence: match.confidence,
+      reasoning: match.reasoning,
+      matched_text: match.matched_text,
+    };
+  }
+  
   /**
    * Apply pattern/regex rule
    */
-  private applyPatternRule(rule: ContextRule, content: MixContent): ContextSuggestion[] {
+  private applyPatternRule(rule: RuleDefinition, content: MixContent): RuleMatch[] {
     const config = rule.pattern_config as PatternRuleConfig;
     
     try {
       const regex = new RegExp(config.regex, config.flags || 'i');
-      const searchText = rule.rule_type === 'description_pattern' 
-        ? (content.description || '') 
-        : content.title;
+      const fields = config.fields || [rule.rule_type === 'description_pattern' ? 'description' : 'title'];
+      const searchText = fields.map(field => this.getSearchField(content, field)).join('\n');
       
       const match = regex.exec(searchText);
       
@@ -174,7 +423,7 @@ export class BasicContextRulesEngine {
           context_name: rule.target_context_name,
           confidence: rule.confidence_weight,
           requires_approval: rule.requires_approval,
-          reasoning: `Pattern match: "${match[0]}" in ${rule.rule_type === 'description_pattern' ? 'description' : 'title'}`,
+          reasoning: `Pattern match: "${match[0]}" in ${fields.join('/')}`,
           matched_text: match[0]
         }];
       }
@@ -187,10 +436,24 @@ export class BasicContextRulesEngine {
     }
   }
   
+  /**
+   * Get the text of a content field a pattern rule searches
+   */
+  private getSearchField(content: MixContent, field: RuleSearchField): string {
+    switch (field) {
+      case 'title':
+        return content.title;
+      case 'description':
+        return content.description || '';
+      case 'channel':
+        return content.channel_name || '';
+    }
+  }
+  
   /**
    * Apply keyword rule
    */
-  private applyKeywordRule(rule: ContextRule, content: MixContent): ContextSuggestion[] {
+  private applyKeywordRule(rule: RuleDefinition, content: MixContent): RuleMatch[] {
     const config = rule.pattern_config as KeywordRuleConfig;
     const searchText = `${content.title} ${content.description || ''}`.toLowerCase();
     
@@ -221,7 +484,7 @@ export class BasicContextRulesEngine {
   /**
    * Apply channel mapping rule
    */
-  private applyChannelMappingRule(rule: ContextRule, content: MixContent): ContextSuggestion[] {
+  private applyChannelMappingRule(rule: RuleDefinition, content: MixContent): RuleMatch[] {
     const config = rule.pattern_config as ChannelMappingConfig;
     
     // Check YouTube channel IDs
@@ -266,7 +529,7 @@ export class BasicContextRulesEngine {
   /**
    * Apply title pattern rule (for extracting venue names from "Live at X" patterns)
    */
-  private applyTitlePatternRule(rule: ContextRule, content: MixContent): ContextSuggestion[] {
+  private applyTitlePatternRule(rule: RuleDefinition, content: MixContent): RuleMatch[] {
     const config = rule.pattern_config as TitlePatternConfig;
     const title = content.title.toLowerCase();
     
@@ -332,7 +595,7 @@ export class BasicContextRulesEngine {
   /**
    * Get active rules with caching
    */
-  private async getActiveRules(artistId?: string, platform?: string): Promise<ContextRule[]> {
+  private async getActiveRules(artistId?: string, platform?: string): Promise<RuleDefinition[]> {
     // Check cache validity
     if (this.rulesCache.length > 0 && new Date() < this.cacheExpiry) {
       return this.filterRulesForScope(this.rulesCache, artistId, platform);
@@ -350,7 +613,8 @@ export class BasicContextRulesEngine {
         pattern_config,
         confidence_weight,
         requires_approval,
-        priority
+        priority,
+        version
       `)
       .eq('is_active', true)
       .order('priority', { ascending: true })
@@ -371,7 +635,7 @@ export class BasicContextRulesEngine {
   /**
    * Filter rules based on scope (global, artist-specific, platform-specific)
    */
-  private filterRulesForScope(rules: ContextRule[], artistId?: string, platform?: string): ContextRule[] {
+  private filterRulesForScope(rules: RuleDefinition[], artistId?: string, platform?: string): RuleDefinition[] {
     // For now, return all global rules since we don't have scope filtering in the initial schema
     // This will be enhanced when we add artist/platform specific rules
     return rules;
@@ -383,7 +647,7 @@ export class BasicContextRulesEngine {
   private async logRuleApplication(
     ruleId: string, 
     content: MixContent, 
-    suggestions: ContextSuggestion[]
+    suggestions: RuleMatch[]
   ): Promise<void> {
     try {
       // Update rule application count
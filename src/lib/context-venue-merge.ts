@@ -0,0 +1,294 @@
+import { getServiceClient } from './supabase/service';
+import { normalizeContextName } from '../utils/contextVenueDetector';
+import { loadGazetteer, normalizePlaceName } from './geocoding/gazetteer';
+import { logger } from '../services/logger';
+import type { Context, Venue } from './supabase/types';
+
+/**
+ * Duplicate venue and context detection and merging
+ * Merges run in the merge_venues / merge_contexts functions so a failure leaves both rows untouched
+ */
+
+export type MergeKind = 'venue' | 'context';
+
+export type MergeReason =
+  | 'same_name'       // Names are equal once normalized
+  | 'city_in_name'    // "Printworks London" vs "Printworks" in London
+  | 'parent_in_name'  // "BBC Radio 1 Essential Mix" vs "Essential Mix" under BBC Radio 1
+  | 'name_contains';  // One name ends or starts with the other
+
+export interface MergeCandidate<T extends Venue | Context> {
+  survivor: T;   // Suggested row to keep
+  duplicate: T;  // Suggested row to merge into the survivor
+  score: number; // 0-1 scale
+  reason: MergeReason;
+}
+
+export interface MergeResult {
+  kind: MergeKind;
+  survivorId: string;
+  duplicateId: string;
+  alias: string;           // Duplicate's name, now an alias of the survivor
+  mixesRelinked: number;
+  contextsRelinked: number; // Child contexts (context merge) or contexts at the venue (venue merge)
+}
+
+const SCORES: Record<MergeReason, number> = {
+  same_name: 0.95,
+  city_in_name: 0.9,
+  parent_in_name: 0.85,
+  name_contains: 0.65,
+};
+
+// Missing city on one side makes a same-name venue match less certain
+const UNKNOWN_CITY_PENALTY = 0.1;
+
+// A name that only differs by a year is another edition, not a duplicate ("Awakenings 2023" vs "Awakenings 2024")
+const YEAR = /\b(?:19|20)\d{2}\b/;
+
+// Shortest name that's matched inside a longer one, so "Mix" doesn't match every radio show
+const MIN_CONTAINED_LENGTH = 6;
+
+export class ContextVenueMergeService {
+  private supabase = getServiceClient();
+
+  /**
+   * Find pairs of venues that are probably the same place, best first
+   * Venues match on their name without a trailing city, when their cities agree or one is missing
+   */
+  async findDuplicateVenues(options: { limit?: number } = {}): Promise<MergeCandidate<Venue>[]> {
+    const { data, error } = await this.supabase
+      .from('venues')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch venues: ${error.message}`);
+    }
+
+    const venues = (data || []) as Venue[];
+    const groups = new Map<string, Array<{ venue: Venue; city: string | null; cityInName: boolean }>>();
+
+    for (const venue of venues) {
+      const key = splitVenueCity(venue);
+      const entries = groups.get(key.name) || [];
+      entries.push({ venue, city: key.city, cityInName: key.cityInName });
+      groups.set(key.name, entries);
+    }
+
+    const candidates: MergeCandidate<Venue>[] = [];
+
+    for (const entries of groups.values()) {
+      for (let i = 0; i < entries.length; i++) {
+        for (let j = i + 1; j < entries.length; j++) {
+          const [a, b] = [entries[i], entries[j]];
+          if (a.city && b.city && a.city !== b.city) continue;
+
+          const reason: MergeReason = a.cityInName !== b.cityInName ? 'city_in_name' : 'same_name';
+          const score = a.city && b.city ? SCORES[reason] : SCORES[reason] - UNKNOWN_CITY_PENALTY;
+
+          candidates.push({ ...pickSurvivor(a.venue, b.venue), score, reason });
+        }
+      }
+    }
+
+    return rankCandidates(candidates, options.limit);
+  }
+
+  /**
+   * Find pairs of contexts of the same type that are probably the same thing, best first
+   * Stages only match under the same festival, since every festival has a "Mainstage"
+   */
+  async findDuplicateContexts(options: { limit?: number } = {}): Promise<MergeCandidate<Context>[]> {
+    const { data, error } = await this.supabase
+      .from('contexts')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch contexts: ${error.message}`);
+    }
+
+    const contexts = (data || []) as Context[];
+    const byId = new Map(contexts.map(context => [context.id, context]));
+    const scopeOf = (context: Context) => context.type === 'stage' ? `stage:${context.parent_id}` : context.type;
+
+    // Index every context by scope and normalized name for suffix/prefix lookups
+    const index = new Map<string, Context[]>();
+    for (const context of contexts) {
+      const key = `${scopeOf(context)}|${normalizeContextName(context.name)}`;
+      index.set(key, [...(index.get(key) || []), context]);
+    }
+
+    const seen = new Set<string>();
+    const candidates: MergeCandidate<Context>[] = [];
+
+    const addPair = (a: Context, b: Context, reason: MergeReason) => {
+      const pairKey = [a.id, b.id].sort().join('|');
+      // A context named after its parent ("BBC Radio 1" / "BBC Radio 1 Essential Mix") isn't a duplicate of it
+      if (a.id === b.id || a.parent_id === b.id || b.parent_id === a.id || seen.has(pairKey)) return;
+      seen.add(pairKey);
+      candidates.push({ ...pickSurvivor(a, b), score: SCORES[reason], reason });
+    };
+
+    for (const context of contexts) {
+      const scope = scopeOf(context);
+      const words = normalizeContextName(context.name).split(' ');
+
+      for (const other of index.get(`${scope}|${words.join(' ')}`) || []) {
+        addPair(context, other, 'same_name');
+      }
+
+      // Shorter names this one starts or ends with
+      for (let length = words.length - 1; length >= 1; length--) {
+        const prefix = words.slice(0, length).join(' ');
+        const suffix = words.slice(-length).join(' ');
+
+        for (const [contained, extra] of [[suffix, words.slice(0, -length)], [prefix, words.slice(length)]] as const) {
+          if (contained.length < MIN_CONTAINED_LENGTH || YEAR.test(extra.join(' '))) continue;
+
+          for (const other of index.get(`${scope}|${contained}`) || []) {
+            addPair(context, other, mentionsParent(extra.join(' '), context, other, byId) ? 'parent_in_name' : 'name_contains');
+          }
+        }
+      }
+    }
+
+    return rankCandidates(candidates, options.limit);
+  }
+
+  /**
+   * Merge a duplicate venue into a survivor
+   * Mixes, contexts and venue proposals move to the survivor and the duplicate's name becomes an alias
+   */
+  async mergeVenues(survivorId: string, duplicateId: string): Promise<MergeResult> {
+    const { data, error } = await this.supabase.rpc('merge_venues', {
+      p_survivor_id: survivorId,
+      p_duplicate_id: duplicateId,
+    });
+
+    if (error) {
+      throw new Error(`Failed to merge venues: ${error.message}`);
+    }
+
+    const result: MergeResult = {
+      kind: 'venue',
+      survivorId,
+      duplicateId,
+      alias: data.alias,
+      mixesRelinked: data.mixes_relinked || 0,
+      contextsRelinked: data.contexts_relinked || 0,
+    };
+
+    logger.info(`Merged venue ${duplicateId} into ${survivorId}`, { metadata: { ...result } });
+    return result;
+  }
+
+  /**
+   * Merge a duplicate context into a survivor of the same type
+   * Mix links and child contexts move to the survivor and the duplicate's name becomes an alias
+   */
+  async mergeContexts(survivorId: string, duplicateId: string): Promise<MergeResult> {
+    const { data, error } = await this.supabase.rpc('merge_contexts', {
+      p_survivor_id: survivorId,
+      p_duplicate_id: duplicateId,
+    });
+
+    if (error) {
+      throw new Error(`Failed to merge contexts: ${error.message}`);
+    }
+
+    const result: MergeResult = {
+      kind: 'context',
+      survivorId,
+      duplicateId,
+      alias: data.alias,
+      mixesRelinked: data.mixes_relinked || 0,
+      contextsRelinked: data.children_repointed || 0,
+    };
+
+    logger.info(`Merged context ${duplicateId} into ${survivorId}`, { metadata: { ...result } });
+    return result;
+  }
+
+  /**
+   * Merge either kind of row
+   */
+  async merge(kind: MergeKind, survivorId: string, duplicateId: string): Promise<MergeResult> {
+    return kind === 'venue'
+      ? this.mergeVenues(survivorId, duplicateId)
+      : this.mergeContexts(survivorId, duplicateId);
+  }
+}
+
+/**
+ * A venue's name without a trailing city, and its city from the row or the name
+ * "Printworks London" → printworks (london)
+ */
+function splitVenueCity(venue: Venue): { name: string; city: string | null; cityInName: boolean } {
+  const name = normalizePlaceName(venue.name);
+  const city = venue.city ? normalizePlaceName(venue.city) : null;
+
+  if (city && name.endsWith(` ${city}`)) {
+    return { name: name.slice(0, -city.length - 1), city, cityInName: true };
+  }
+
+  if (!city) {
+    const [found] = loadGazetteer().findCityInName(venue.name);
+    if (found) {
+      const foundName = normalizePlaceName(found.name);
+      const words = name.split(' ');
+
+      // Strip as many words as the matched city name has, e.g. "new york"
+      const stripped = words.slice(0, words.length - foundName.split(' ').length).join(' ');
+      if (stripped) {
+        return { name: stripped, city: foundName, cityInName: true };
+      }
+    }
+  }
+
+  return { name, city, cityInName: false };
+}
+
+/**
+ * Whether the extra words in a longer name are the other context's parent ("BBC Radio 1")
+ */
+function mentionsParent(
+  extra: string,
+  context: Context,
+  other: Context,
+  byId: Map<string, Context>
+): boolean {
+  return [context.parent_id, other.parent_id].some(parentId => {
+    const parent = parentId ? byId.get(parentId) : undefined;
+    return !!parent && normalizeContextName(parent.name) === extra;
+  });
+}
+
+/**
+ * Keep the verified row, then the one with more external IDs, then the older one
+ */
+function pickSurvivor<T extends Venue | Context>(a: T, b: T): { survivor: T; duplicate: T } {
+  const rank = (row: T) => [
+    row.is_verified ? 1 : 0,
+    Object.keys(row.external_ids || {}).length,
+    -new Date(row.created_at).getTime(),
+  ];
+
+  const [rankA, rankB] = [rank(a), rank(b)];
+  for (let i = 0; i < rankA.length; i++) {
+    if (rankA[i] !== rankB[i]) {
+      return rankA[i] > rankB[i] ? { survivor: a, duplicate: b } : { survivor: b, duplicate: a };
+    }
+  }
+
+  return { survivor: a, duplicate: b };
+}
+
+function rankCandidates<T extends Venue | Context>(candidates: MergeCandidate<T>[], limit?: number): MergeCandidate<T>[] {
+  const ranked = candidates.sort((a, b) => b.score - a.score);
+  return limit ? ranked.slice(0, limit) : ranked;
+}
+
+// Export singleton instance
+export const contextVenueMergeService = new ContextVenueMergeService();
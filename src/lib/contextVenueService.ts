@@ -3,13 +3,17 @@ import { logger } from '../services/logger';
 import type { 
   Context, 
   Venue, 
+  VenueProposal,
   MixContext, 
   ContextType, 
   MixContextRole, 
   ExternalIds 
 } from './supabase/types';
 import type { DetectedContext, DetectedVenue } from '../utils/contextVenueDetector';
-import { normalizeContextName, normalizeVenueName } from '../utils/contextVenueDetector';
+import { getRoleForContextType, normalizeContextName, normalizeVenueName } from '../utils/contextVenueDetector';
+import type { FestivalEdition } from './stage-detection';
+import { geocoder, MIN_GEOCODE_CONFIDENCE } from './geocoding/geocoder';
+import { loadGazetteer } from './geocoding/gazetteer';
 
 export interface ContextCreationResult {
   context: Context;
@@ -26,6 +30,26 @@ export interface MixContextCreationResult {
   created: boolean;
 }
 
+// A context in a hierarchy walk; depth counts levels from the context the walk started at
+export interface ContextNode {
+  id: string;
+  name: string;
+  type: ContextType;
+  parent_id: string | null;
+  depth: number;
+}
+
+export interface ContextMix {
+  mix_id: string;
+  title: string;
+  event_date: string | null;
+  published_date: string | null;
+  context_id: string;   // Context in the hierarchy the mix is linked to
+  context_name: string;
+  role: MixContextRole;
+  depth: number;        // 0 when linked to the queried context itself
+}
+
 /**
  * Service for managing contexts, venues, and their relationships
  */
@@ -34,29 +58,41 @@ export class ContextVenueService {
 
   /**
    * Find existing context by normalized name and type
+   * Pass parentId for contexts whose names only make sense under a parent (e.g. a festival's "Mainstage")
    */
-  async findExistingContext(name: string, type: ContextType): Promise<Context | null> {
+  async findExistingContext(name: string, type: ContextType, parentId?: string): Promise<Context | null> {
     const normalizedName = normalizeContextName(name);
     
     try {
       // First try exact name match
-      const { data: exactMatch } = await this.supabase
+      let exactQuery = this.supabase
         .from('contexts')
         .select('*')
         .eq('name', name)
-        .eq('type', type)
-        .single();
+        .eq('type', type);
+
+      if (parentId) {
+        exactQuery = exactQuery.eq('parent_id', parentId);
+      }
+
+      const { data: exactMatch } = await exactQuery.single();
 
       if (exactMatch) {
         return exactMatch;
       }
 
       // Then try normalized name match (fuzzy)
-      const { data: contexts } = await this.supabase
+      let fuzzyQuery = this.supabase
         .from('contexts')
         .select('*')
         .eq('type', type);
 
+      if (parentId) {
+        fuzzyQuery = fuzzyQuery.eq('parent_id', parentId);
+      }
+
+      const { data: contexts } = await fuzzyQuery;
+
       if (contexts) {
         for (const context of contexts) {
           if (normalizeContextName(context.name) === normalizedName) {
@@ -65,10 +101,11 @@ export class ContextVenueService {
         }
       }
 
-      return null;
+      // Finally names of duplicates merged into another context
+      return await this.findContextByAlias(normalizedName, type, parentId);
     } catch (error) {
       logger.error('Failed to find existing context', error as Error, {
-        metadata: { name, type, normalizedName }
+        metadata: { name, type, parentId, normalizedName }
       });
       throw error;
     }
@@ -113,7 +150,8 @@ export class ContextVenueService {
         }
       }
 
-      return null;
+      // Finally names of duplicates merged into another venue
+      return await this.findVenueByAlias(normalizedName, city);
     } catch (error) {
       logger.error('Failed to find existing venue', error as Error, {
         metadata: { name, city, normalizedName }
@@ -122,25 +160,117 @@ export class ContextVenueService {
     }
   }
 
+  /**
+   * Find the context a merged duplicate's name now resolves to
+   */
+  private async findContextByAlias(normalizedName: string, type: ContextType, parentId?: string): Promise<Context | null> {
+    const { data: aliases, error } = await this.supabase
+      .from('context_aliases')
+      .select('context_id, alias')
+      .eq('type', type);
+
+    if (error) {
+      throw new Error(`Failed to fetch context aliases: ${error.message}`);
+    }
+
+    const contextIds = (aliases || [])
+      .filter(alias => normalizeContextName(alias.alias) === normalizedName)
+      .map(alias => alias.context_id);
+
+    if (contextIds.length === 0) return null;
+
+    let query = this.supabase
+      .from('contexts')
+      .select('*')
+      .in('id', contextIds);
+
+    if (parentId) {
+      query = query.eq('parent_id', parentId);
+    }
+
+    const { data: contexts, error: contextError } = await query.limit(1);
+
+    if (contextError) {
+      throw new Error(`Failed to fetch aliased context: ${contextError.message}`);
+    }
+
+    return contexts?.[0] || null;
+  }
+
+  /**
+   * Find the venue a merged duplicate's name now resolves to
+   */
+  private async findVenueByAlias(normalizedName: string, city?: string): Promise<Venue | null> {
+    const { data: aliases, error } = await this.supabase
+      .from('venue_aliases')
+      .select('venue_id, alias, city');
+
+    if (error) {
+      throw new Error(`Failed to fetch venue aliases: ${error.message}`);
+    }
+
+    const match = (aliases || []).find(alias => {
+      const nameMatches = normalizeVenueName(alias.alias) === normalizedName;
+      const cityMatches = !city || !alias.city || alias.city.toLowerCase() === city.toLowerCase();
+      return nameMatches && cityMatches;
+    });
+
+    if (!match) return null;
+
+    const { data: venue, error: venueError } = await this.supabase
+      .from('venues')
+      .select('*')
+      .eq('id', match.venue_id)
+      .maybeSingle();
+
+    if (venueError) {
+      throw new Error(`Failed to fetch aliased venue: ${venueError.message}`);
+    }
+
+    return venue;
+  }
+
   /**
    * Create or get existing context
+   * A detected parent is ensured first and the context is looked up and created under it
    */
   async ensureContext(detectedContext: DetectedContext): Promise<ContextCreationResult> {
     try {
+      let parentId: string | undefined;
+      if (detectedContext.parent) {
+        const { context: parent } = await this.ensureContext({
+          name: detectedContext.parent.name,
+          type: detectedContext.parent.type,
+          role: getRoleForContextType(detectedContext.parent.type),
+          confidence: detectedContext.confidence,
+          reason_codes: ['parent_relationship'],
+          external_ids: {}
+        });
+        parentId = parent.id;
+      }
+
       // Check if context already exists
-      const existing = await this.findExistingContext(detectedContext.name, detectedContext.type);
+      const existing = await this.findExistingContext(detectedContext.name, detectedContext.type, parentId);
       
       if (existing) {
         logger.debug(`Using existing context: ${existing.name} (${existing.type})`);
         return { context: existing, created: false };
       }
 
+      // A context created before its parent was known is linked to the parent rather than duplicated
+      if (parentId) {
+        const orphan = await this.findExistingContext(detectedContext.name, detectedContext.type);
+        if (orphan && !orphan.parent_id) {
+          return { context: await this.setContextParent(orphan, parentId), created: false };
+        }
+      }
+
       // Create new context
       const contextData = {
         name: detectedContext.name,
         type: detectedContext.type,
         external_ids: detectedContext.external_ids || {},
-        parent_id: null, // TODO: Handle hierarchical relationships in future
+        parent_id: parentId || null,
         website: null,
         venue_id: null
       };
@@ -172,17 +302,64 @@ export class ContextVenueService {
     }
   }
 
+  /**
+   * Link a context to its parent
+   */
+  async setContextParent(context: Context, parentId: string): Promise<Context> {
+    const { data, error } = await this.supabase
+      .from('contexts')
+      .update({ parent_id: parentId, updated_at: new Date().toISOString() })
+      .eq('id', context.id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to set context parent: ${error.message}`);
+    }
+
+    logger.info(`Linked context ${context.name} (${context.type}) to parent ${parentId}`, {
+      metadata: { contextId: context.id, parentId }
+    });
+
+    return data;
+  }
+
+  /**
+   * Set a festival edition's first and last day, so "Day N" in set titles resolves to a date
+   */
+  async setEditionDates(context: Context, startDate: string, endDate: string | null): Promise<Context> {
+    const { data, error } = await this.supabase
+      .from('contexts')
+      .update({ start_date: startDate, end_date: endDate, updated_at: new Date().toISOString() })
+      .eq('id', context.id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to set edition dates: ${error.message}`);
+    }
+
+    logger.info(`Set edition dates of ${context.name} to ${startDate} - ${endDate || 'open'}`, {
+      metadata: { contextId: context.id, startDate, endDate }
+    });
+
+    return data;
+  }
+
   /**
    * Create or get existing venue
+   * The venue is geocoded first, and an existing venue gets any fields it's missing
    */
   async ensureVenue(detectedVenue: DetectedVenue): Promise<VenueCreationResult> {
     try {
+      detectedVenue = await this.geocodeVenue(detectedVenue);
+
       // Check if venue already exists
       const existing = await this.findExistingVenue(detectedVenue.name, detectedVenue.city);
       
       if (existing) {
         logger.debug(`Using existing venue: ${existing.name}${existing.city ? ` (${existing.city})` : ''}`);
-        return { venue: existing, created: false };
+        return { venue: await this.fillMissingVenueFields(existing, detectedVenue), created: false };
       }
 
       // Create new venue
@@ -190,6 +367,7 @@ export class ContextVenueService {
         name: detectedVenue.name,
         city: detectedVenue.city || null,
         country: detectedVenue.country || null,
+        country_code: detectedVenue.country_code || null,
         lat: detectedVenue.lat || null,
         lng: detectedVenue.lng || null,
         capacity: null,
@@ -224,6 +402,190 @@ export class ContextVenueService {
     }
   }
 
+  /**
+   * Get a festival's edition dates, used to turn "Day 2" into a date
+   */
+  async getFestivalEdition(name: string): Promise<FestivalEdition | null> {
+    const festival = await this.findExistingContext(name, 'festival');
+    if (!festival) return null;
+
+    return { startDate: festival.start_date, endDate: festival.end_date };
+  }
+
+  /**
+   * Get a context by ID
+   */
+  async getContext(contextId: string): Promise<Context | null> {
+    const { data, error } = await this.supabase
+      .from('contexts')
+      .select('*')
+      .eq('id', contextId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch context: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Find contexts of any type by name, case-insensitively
+   */
+  async findContextsByName(name: string): Promise<Context[]> {
+    const { data, error } = await this.supabase
+      .from('contexts')
+      .select('*')
+      .ilike('name', name.replace(/[%_]/g, '\\$&'))
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to find contexts: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * A context and its parents, nearest first (e.g. Essential Mix → BBC Radio 1)
+   */
+  async getContextAncestors(contextId: string): Promise<ContextNode[]> {
+    const { data, error } = await this.supabase.rpc('get_context_ancestors', { p_context_id: contextId });
+
+    if (error) {
+      throw new Error(`Failed to fetch context ancestors: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * A context and every context under it, shallowest first
+   */
+  async getContextDescendants(contextId: string): Promise<ContextNode[]> {
+    const { data, error } = await this.supabase.rpc('get_context_descendants', { p_context_id: contextId });
+
+    if (error) {
+      throw new Error(`Failed to fetch context descendants: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Mixes linked to a context or anything under it, e.g. every show on BBC Radio 1
+   */
+  async getMixesUnderContext(
+    contextId: string,
+    options: { limit?: number; offset?: number } = {}
+  ): Promise<{ mixes: ContextMix[]; total: number }> {
+    const { data, error } = await this.supabase.rpc('get_mixes_under_context', {
+      p_context_id: contextId,
+      p_limit: options.limit || 50,
+      p_offset: options.offset || 0,
+    });
+
+    if (error) {
+      throw new Error(`Failed to fetch mixes under context: ${error.message}`);
+    }
+
+    const rows = (data || []) as Array<ContextMix & { total_count: number }>;
+    return {
+      mixes: rows.map(({ total_count, ...mix }) => mix),
+      total: rows.length > 0 ? Number(rows[0].total_count) : 0,
+    };
+  }
+
+  /**
+   * Resolve a venue's city, country and coordinates with the geocoder
+   * Fields the detector already had are kept; failures and results below MIN_GEOCODE_CONFIDENCE leave the venue as detected
+   */
+  async geocodeVenue(detectedVenue: DetectedVenue): Promise<DetectedVenue> {
+    if (detectedVenue.lat !== undefined && detectedVenue.lng !== undefined && detectedVenue.country_code) {
+      return detectedVenue;
+    }
+
+    const result = await geocoder.geocode({
+      venue: detectedVenue.name,
+      city: detectedVenue.city,
+      country: detectedVenue.country,
+    });
+
+    if (!result) {
+      logger.debug(`No geocoding result for venue: ${detectedVenue.name}`);
+      return detectedVenue;
+    }
+
+    // A country-only result just normalizes the country the venue already names, so it's kept
+    const countryOnly = result.lat === null && result.lng === null;
+    if (result.confidence < MIN_GEOCODE_CONFIDENCE && !(countryOnly && detectedVenue.country)) {
+      logger.debug(`Ignoring geocoding result for venue ${detectedVenue.name} (confidence ${result.confidence})`);
+      return detectedVenue;
+    }
+
+    return {
+      ...detectedVenue,
+      city: detectedVenue.city || result.city || undefined,
+      country: result.country || detectedVenue.country,
+      country_code: result.countryCode || detectedVenue.country_code,
+      lat: detectedVenue.lat ?? result.lat ?? undefined,
+      lng: detectedVenue.lng ?? result.lng ?? undefined,
+      external_ids: { ...(result.externalIds || {}), ...(detectedVenue.external_ids || {}) },
+      reason_codes: [...detectedVenue.reason_codes, `geocoded:${result.provider}`],
+    };
+  }
+
+  /**
+   * Location fields an existing venue is missing that a geocoded venue can fill in
+   * A country spelled differently ("UK") is normalized when it's the same country
+   */
+  getMissingVenueFields(venue: Venue, located: DetectedVenue): Partial<Venue> {
+    const updates: Partial<Venue> = {};
+
+    if (!venue.city && located.city) updates.city = located.city;
+    if (!venue.country && located.country) updates.country = located.country;
+    if (!venue.country_code && located.country_code) {
+      updates.country_code = located.country_code;
+      if (venue.country && venue.country !== located.country
+        && loadGazetteer().findCountry(venue.country)?.code === located.country_code) {
+        updates.country = located.country;
+      }
+    }
+    if (venue.lat === null && venue.lng === null && located.lat !== undefined && located.lng !== undefined) {
+      updates.lat = located.lat;
+      updates.lng = located.lng;
+    }
+
+    return updates;
+  }
+
+  /**
+   * Fill in location fields an existing venue is missing, never overwriting what's there
+   */
+  async fillMissingVenueFields(venue: Venue, located: DetectedVenue): Promise<Venue> {
+    const updates = this.getMissingVenueFields(venue, located);
+    if (Object.keys(updates).length === 0) return venue;
+
+    const { data, error } = await this.supabase
+      .from('venues')
+      .update(updates)
+      .eq('id', venue.id)
+      .select()
+      .single();
+
+    if (error) {
+      logger.warn(`Failed to fill in venue location: ${error.message}`, {
+        metadata: { venueId: venue.id, updates }
+      });
+      return venue;
+    }
+
+    logger.info(`Filled in venue location: ${venue.name}`, {
+      metadata: { venueId: venue.id, fields: Object.keys(updates) }
+    });
+    return data;
+  }
+
   /**
    * Create mix-context relationship if it doesn't exist
    */
@@ -274,14 +636,21 @@ export class ContextVenueService {
 
   /**
    * Update mix with venue information
+   * With onlyIfEmpty, a venue already on the mix is kept
    */
-  async updateMixVenue(mixId: string, venueId: string): Promise<void> {
+  async updateMixVenue(mixId: string, venueId: string, options: { onlyIfEmpty?: boolean } = {}): Promise<void> {
     try {
-      const { error } = await this.supabase
+      let query = this.supabase
         .from('mixes')
         .update({ venue_id: venueId })
         .eq('id', mixId);
 
+      if (options.onlyIfEmpty) {
+        query = query.is('venue_id', null);
+      }
+
+      const { error } = await query;
+
       if (error) {
         throw new Error(`Failed to update mix venue: ${error.message}`);
       }
@@ -295,6 +664,58 @@ export class ContextVenueService {
     }
   }
 
+  /**
+   * Queue a free-form venue for moderator verification instead of creating it
+   * A raw mix only gets one proposal per venue name
+   */
+  async proposeVenue(rawMixId: string, mixId: string | null, detectedVenue: DetectedVenue): Promise<VenueProposal | null> {
+    const { data, error } = await this.supabase
+      .from('venue_proposals')
+      .upsert({
+        raw_mix_id: rawMixId,
+        mix_id: mixId,
+        name: detectedVenue.name,
+        city: detectedVenue.city || null,
+        country: detectedVenue.country || null,
+        confidence: detectedVenue.confidence,
+        matched_text: detectedVenue.matched_text || null,
+        reason_codes: detectedVenue.reason_codes,
+      }, { onConflict: 'raw_mix_id,name', ignoreDuplicates: true })
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to propose venue: ${error.message}`);
+    }
+
+    if (data) {
+      logger.info(`Proposed venue for verification: ${detectedVenue.name}`, {
+        rawMixId,
+        metadata: { proposalId: data.id, confidence: detectedVenue.confidence }
+      });
+    }
+
+    return data;
+  }
+
+  /**
+   * Mark a venue as verified by a moderator
+   */
+  async verifyVenue(venueId: string, verifiedBy: string | null): Promise<void> {
+    const { error } = await this.supabase
+      .from('venues')
+      .update({
+        is_verified: true,
+        verified_by: verifiedBy,
+        verified_at: new Date().toISOString()
+      })
+      .eq('id', venueId);
+
+    if (error) {
+      throw new Error(`Failed to verify venue: ${error.message}`);
+    }
+  }
+
   /**
    * Process detected contexts and venues for a raw mix
    * This function handles the complete workflow of creating contexts/venues and relationships
@@ -309,6 +730,7 @@ export class ContextVenueService {
     venue?: VenueCreationResult;
     mixContexts: MixContextCreationResult[];
     venueUpdated: boolean;
+    venueProposed: boolean;
   }> {
     try {
       logger.info(`Processing detection results for raw mix: ${rawMixId}`, {
@@ -323,7 +745,8 @@ export class ContextVenueService {
         contexts: [] as ContextCreationResult[],
         venue: undefined as VenueCreationResult | undefined,
         mixContexts: [] as MixContextCreationResult[],
-        venueUpdated: false
+        venueUpdated: false,
+        venueProposed: false
       };
 
       // Process contexts
@@ -342,8 +765,11 @@ export class ContextVenueService {
         }
       }
 
-      // Process venue
-      if (detectedVenue) {
+      // Free-form venues are proposed for verification when the mix is canonicalized
+      if (detectedVenue?.requires_verification) {
+        results.venueProposed = true;
+        logger.debug(`Venue needs verification, not created: ${detectedVenue.name}`);
+      } else if (detectedVenue) {
         try {
           const venueResult = await this.ensureVenue(detectedVenue);
           results.venue = venueResult;
@@ -0,0 +1,164 @@
+/**
+ * Cron expression parsing for job schedules
+ * Standard five fields (minute hour day-of-month month day-of-week), evaluated in UTC, plus the
+ * @hourly/@daily/@weekly/@monthly shorthands. e.g. "0 *\/6 * * *" is every 6 hours on the hour.
+ */
+
+export interface CronExpression {
+  source: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;      // 1-12
+  daysOfWeek: Set<number>;  // 0-6, Sunday is 0 (7 is accepted as Sunday too)
+  restrictsDayOfMonth: boolean;
+  restrictsDayOfWeek: boolean;
+}
+
+const SHORTHANDS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+const FIELDS: Array<{ name: string; min: number; max: number }> = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+// Far enough to find "29 2 *" (Feb 29th) from any date, short enough to fail fast on "0 0 31 2 *"
+const MAX_SEARCH_YEARS = 8;
+
+/**
+ * Parse a cron expression, throwing on anything that isn't valid
+ */
+export function parseCron(expression: string): CronExpression {
+  const source = expression.trim();
+  const fields = (SHORTHANDS[source.toLowerCase()] || source).split(/\s+/);
+
+  if (fields.length !== FIELDS.length) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields, got ${fields.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseField(field, FIELDS[index], expression)
+  );
+
+  // Sunday can be written as 0 or 7
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    source,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    restrictsDayOfMonth: fields[2] !== '*',
+    restrictsDayOfWeek: fields[4] !== '*',
+  };
+}
+
+/**
+ * Whether a string is a valid cron expression
+ */
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The first time strictly after `after` that the expression matches, to the minute
+ */
+export function nextCronTime(expression: string | CronExpression, after: Date = new Date()): Date {
+  const cron = typeof expression === 'string' ? parseCron(expression) : expression;
+
+  const time = new Date(after.getTime());
+  time.setUTCSeconds(0, 0);
+  time.setUTCMinutes(time.getUTCMinutes() + 1);
+
+  const limit = after.getTime() + MAX_SEARCH_YEARS * 366 * 24 * 60 * 60 * 1000;
+
+  // Skip whole months, days and hours that can't match before stepping through minutes
+  while (time.getTime() <= limit) {
+    if (!cron.months.has(time.getUTCMonth() + 1)) {
+      time.setUTCMonth(time.getUTCMonth() + 1, 1);
+      time.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!matchesDay(cron, time)) {
+      time.setUTCDate(time.getUTCDate() + 1);
+      time.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!cron.hours.has(time.getUTCHours())) {
+      time.setUTCHours(time.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+
+    if (!cron.minutes.has(time.getUTCMinutes())) {
+      time.setUTCMinutes(time.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    return time;
+  }
+
+  throw new Error(`Cron expression "${cron.source}" never matches`);
+}
+
+/**
+ * Day-of-month and day-of-week match either-or when both are restricted, as in standard cron
+ */
+function matchesDay(cron: CronExpression, time: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(time.getUTCDate());
+  const dayOfWeek = cron.daysOfWeek.has(time.getUTCDay());
+
+  if (cron.restrictsDayOfMonth && cron.restrictsDayOfWeek) {
+    return dayOfMonth || dayOfWeek;
+  }
+
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Parse one field: "*", "5", "1-5", "*\/15", "0-30/10" or comma-separated lists of those
+ */
+function parseField(field: string, spec: { name: string; min: number; max: number }, expression: string): Set<number> {
+  const values = new Set<number>();
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid cron expression "${expression}": ${spec.name} ${reason}`);
+  };
+
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|\d+)(?:-(\d+))?(?:\/(\d+))?$/);
+    if (!match) fail(`"${part}" is not a number, range or step`);
+
+    const [, start, end, step] = match!;
+    const from = start === '*' ? spec.min : parseInt(start, 10);
+    const to = start === '*' ? spec.max : end !== undefined ? parseInt(end, 10) : step !== undefined ? spec.max : from;
+    const increment = step !== undefined ? parseInt(step, 10) : 1;
+
+    if (start === '*' && end !== undefined) fail(`"${part}" can't combine * with a range`);
+    if (from < spec.min || to > spec.max) fail(`"${part}" is outside ${spec.min}-${spec.max}`);
+    if (from > to) fail(`"${part}" is a backwards range`);
+    if (increment < 1) fail(`"${part}" has a zero step`);
+
+    for (let value = from; value <= to; value += increment) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
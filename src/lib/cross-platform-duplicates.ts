@@ -0,0 +1,300 @@
+import * as fuzz from 'fuzzball';
+import { getServiceClient } from './supabase/service';
+import { normalizeText } from './matching/fuzzy-matcher';
+import { extractArtistsFromVideo } from './artist-extraction/intelligent-parser';
+import { jaccardSimilarity } from './tracklist-similarity';
+import { isUnidentifiedTrack } from './tracklist-parser';
+import type { RawMix, RawTrack } from './supabase/types';
+
+/**
+ * Content-based duplicate detection for the same set uploaded to different platforms
+ * External IDs never match across platforms (yt:… vs sc:…), so this compares what the
+ * uploads actually contain: title, performing artist, duration, upload date and tracklist
+ */
+
+// Scores at or above MERGE are merged automatically, REVIEW and above go to the review queue
+export const CROSS_PLATFORM_THRESHOLDS = {
+  MERGE: 0.85,
+  REVIEW: 0.6,
+} as const;
+
+// Relative weight of each signal - signals that can't be computed are left out and the rest renormalized
+const SIGNAL_WEIGHTS = {
+  title: 0.3,
+  artist: 0.25,
+  duration: 0.2,
+  uploadDate: 0.1,
+  tracklist: 0.15,
+} as const;
+
+const CANDIDATE_WINDOW_DAYS = 30; // Only compare against uploads within this many days
+const MAX_CANDIDATES = 200;
+
+export type DuplicateSignal = keyof typeof SIGNAL_WEIGHTS;
+
+export interface CrossPlatformCandidate {
+  rawMixId: string;            // The candidate's raw mix (on another platform)
+  mixId: string;               // The production mix it was canonicalized into
+  provider: RawMix['provider'];
+  title: string | null;
+  score: number;               // Weighted score 0-1
+  signals: Partial<Record<DuplicateSignal, number>>; // Per-signal scores 0-1
+  decision: 'merge' | 'review' | 'ignore';
+}
+
+type ComparableMix = Pick<
+  RawMix,
+  'id' | 'provider' | 'raw_title' | 'raw_description' | 'raw_artist' | 'uploaded_at' | 'duration_seconds' | 'raw_metadata'
+> & { canonicalized_mix_id?: string | null };
+
+/**
+ * Find canonicalized mixes from other platforms that look like the same set
+ * Returns candidates scoring at least the review threshold, best first
+ */
+export async function findCrossPlatformDuplicates(
+  rawMix: ComparableMix,
+  rawTracks: RawTrack[] = []
+): Promise<CrossPlatformCandidate[]> {
+  const candidates = await fetchCandidateRawMixes(rawMix);
+  if (candidates.length === 0) return [];
+
+  const candidateTracks = rawTracks.length > 0
+    ? await fetchRawTracks(candidates.map(candidate => candidate.id))
+    : new Map<string, RawTrack[]>();
+
+  const results: CrossPlatformCandidate[] = [];
+
+  for (const candidate of candidates) {
+    const { score, signals } = scoreCrossPlatformMatch(
+      rawMix,
+      candidate,
+      rawTracks,
+      candidateTracks.get(candidate.id) || []
+    );
+
+    const decision = getDecision(score);
+    if (decision === 'ignore') continue;
+
+    results.push({
+      rawMixId: candidate.id,
+      mixId: candidate.canonicalized_mix_id!,
+      provider: candidate.provider,
+      title: candidate.raw_title,
+      score,
+      signals,
+      decision,
+    });
+  }
+
+  return results.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Score how likely two raw mixes are the same set (0-1)
+ */
+export function scoreCrossPlatformMatch(
+  a: ComparableMix,
+  b: ComparableMix,
+  tracksA: RawTrack[] = [],
+  tracksB: RawTrack[] = []
+): { score: number; signals: Partial<Record<DuplicateSignal, number>> } {
+  const signals: Partial<Record<DuplicateSignal, number>> = {};
+
+  if (a.raw_title && b.raw_title) {
+    signals.title = compareTitles(a.raw_title, b.raw_title);
+  }
+
+  const artistsA = getPerformingArtists(a);
+  const artistsB = getPerformingArtists(b);
+  if (artistsA.length > 0 && artistsB.length > 0) {
+    signals.artist = compareArtists(artistsA, artistsB);
+  }
+
+  if (a.duration_seconds && b.duration_seconds) {
+    signals.duration = compareDurations(a.duration_seconds, b.duration_seconds);
+  }
+
+  if (a.uploaded_at && b.uploaded_at) {
+    signals.uploadDate = compareUploadDates(a.uploaded_at, b.uploaded_at);
+  }
+
+  if (tracksA.length > 0 && tracksB.length > 0) {
+    signals.tracklist = compareTracklists(tracksA, tracksB);
+  }
+
+  // Weighted average over the signals we could compute
+  let weightedSum = 0;
+  let totalWeight = 0;
+  for (const [signal, value] of Object.entries(signals) as Array<[DuplicateSignal, number]>) {
+    weightedSum += value * SIGNAL_WEIGHTS[signal];
+    totalWeight += SIGNAL_WEIGHTS[signal];
+  }
+
+  // Title and artist alone aren't enough to call two uploads the same set
+  if (totalWeight < SIGNAL_WEIGHTS.title + SIGNAL_WEIGHTS.artist + SIGNAL_WEIGHTS.duration) {
+    return { score: 0, signals };
+  }
+
+  return { score: weightedSum / totalWeight, signals };
+}
+
+/**
+ * Map a score onto a merge/review/ignore decision
+ */
+function getDecision(score: number): CrossPlatformCandidate['decision'] {
+  if (score >= CROSS_PLATFORM_THRESHOLDS.MERGE) return 'merge';
+  if (score >= CROSS_PLATFORM_THRESHOLDS.REVIEW) return 'review';
+  return 'ignore';
+}
+
+/**
+ * Compare titles after stripping platform-specific decoration
+ */
+function compareTitles(titleA: string, titleB: string): number {
+  const a = normalizeMixTitle(titleA);
+  const b = normalizeMixTitle(titleB);
+  if (!a || !b) return 0;
+
+  return fuzz.token_set_ratio(a, b) / 100;
+}
+
+/**
+ * Strip upload cruft that differs between platforms ("Full Set", "Official Video", "| Cercle", etc.)
+ */
+function normalizeMixTitle(title: string): string {
+  return normalizeText(
+    title
+      .replace(/\b(full|complete)\s+(set|mix|show)\b/gi, '')
+      .replace(/\b(official|hd|4k|video|audio|free download)\b/gi, '')
+      .replace(/[|•]/g, ' ')
+  ).replace(/[^\p{L}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Get performing artists for a mix, using the channel-aware extractor
+ */
+function getPerformingArtists(mix: ComparableMix): string[] {
+  const metadata = (mix.raw_metadata || {}) as any;
+  const channelName = metadata.channelTitle || metadata.user?.name || metadata.user?.username || mix.raw_artist || '';
+
+  const artists = new Set<string>();
+
+  if (mix.raw_title) {
+    const extraction = extractArtistsFromVideo(mix.raw_title, channelName, mix.raw_description || '', metadata.channelId);
+    extraction.performingArtists.forEach(artist => artists.add(artist));
+  }
+
+  if (mix.raw_artist) {
+    artists.add(mix.raw_artist);
+  }
+
+  return Array.from(artists).filter(Boolean);
+}
+
+/**
+ * Best fuzzy match between any artist on each side
+ */
+function compareArtists(artistsA: string[], artistsB: string[]): number {
+  let best = 0;
+
+  for (const a of artistsA) {
+    for (const b of artistsB) {
+      const score = fuzz.token_sort_ratio(normalizeText(a), normalizeText(b)) / 100;
+      best = Math.max(best, score);
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Durations within 3% (or a minute) score 1, falling to 0 at a 10% difference
+ * Re-uploads often trim intros/outros, so exact equality isn't expected
+ */
+function compareDurations(durationA: number, durationB: number): number {
+  const diff = Math.abs(durationA - durationB);
+  const longer = Math.max(durationA, durationB);
+  const tolerance = Math.max(60, longer * 0.03);
+  const cutoff = longer * 0.1;
+
+  if (diff <= tolerance) return 1;
+  if (diff >= cutoff) return 0;
+
+  return 1 - (diff - tolerance) / (cutoff - tolerance);
+}
+
+/**
+ * Same-day uploads score 1, falling to 0 at the candidate window
+ */
+function compareUploadDates(dateA: string, dateB: string): number {
+  const days = Math.abs(new Date(dateA).getTime() - new Date(dateB).getTime()) / (24 * 60 * 60 * 1000);
+  return Math.max(0, 1 - days / CANDIDATE_WINDOW_DAYS);
+}
+
+/**
+ * Jaccard overlap of normalized "artist - title" lines
+ */
+function compareTracklists(tracksA: RawTrack[], tracksB: RawTrack[]): number {
+  // "ID - ID" lines would otherwise count as shared tracks
+  const toKeys = (tracks: RawTrack[]) => tracks
+    .filter(track => !isUnidentifiedTrack(track.raw_artist, track.raw_title))
+    .map(track => normalizeText(
+      track.raw_artist && track.raw_title ? `${track.raw_artist} ${track.raw_title}` : track.line_text
+    ))
+    .filter(Boolean);
+
+  return jaccardSimilarity(toKeys(tracksA), toKeys(tracksB));
+}
+
+/**
+ * Fetch canonicalized raw mixes from other platforms uploaded around the same time
+ */
+async function fetchCandidateRawMixes(rawMix: ComparableMix): Promise<ComparableMix[]> {
+  // Without an upload date there's no cheap way to narrow the candidate pool
+  if (!rawMix.uploaded_at) return [];
+
+  const supabase = getServiceClient();
+  const uploadedAt = new Date(rawMix.uploaded_at).getTime();
+  const windowMs = CANDIDATE_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+
+  const { data, error } = await supabase
+    .from('raw_mixes')
+    .select('id, provider, raw_title, raw_description, raw_artist, uploaded_at, duration_seconds, raw_metadata, canonicalized_mix_id')
+    .eq('status', 'canonicalized')
+    .neq('provider', rawMix.provider)
+    .not('canonicalized_mix_id', 'is', null)
+    .gte('uploaded_at', new Date(uploadedAt - windowMs).toISOString())
+    .lte('uploaded_at', new Date(uploadedAt + windowMs).toISOString())
+    .limit(MAX_CANDIDATES);
+
+  if (error) {
+    throw new Error(`Failed to fetch cross-platform candidates: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Fetch raw tracks for several raw mixes in one query
+ */
+async function fetchRawTracks(rawMixIds: string[]): Promise<Map<string, RawTrack[]>> {
+  const supabase = getServiceClient();
+  const tracksByMix = new Map<string, RawTrack[]>();
+
+  const { data, error } = await supabase
+    .from('raw_tracks')
+    .select('*')
+    .in('raw_mix_id', rawMixIds);
+
+  if (error) {
+    throw new Error(`Failed to fetch candidate raw tracks: ${error.message}`);
+  }
+
+  for (const track of (data || []) as RawTrack[]) {
+    const tracks = tracksByMix.get(track.raw_mix_id) || [];
+    tracks.push(track);
+    tracksByMix.set(track.raw_mix_id, tracks);
+  }
+
+  return tracksByMix;
+}
@@ -1,12 +1,12 @@
 import type { ExternalIds } from './supabase/types';
 import { getServiceClient } from './supabase/service';
-import { hasMatchingExternalIds, getAllExternalIds } from './external-ids';
+import { getAllExternalIds } from './external-ids';
 
 /**
  * Duplicate detection utilities for mixes across platforms
  */
 
-interface DuplicateCheckResult {
+export interface DuplicateCheckResult {
   isDuplicate: boolean;
   existingMixId?: string;
   matchedOn?: string; // which external ID matched
@@ -18,62 +18,52 @@ interface DuplicateCheckResult {
 export async function checkForDuplicateMix(
   externalIds: ExternalIds
 ): Promise<DuplicateCheckResult> {
+  const results = await checkForDuplicateMixes({ mix: externalIds });
+  return results.get('mix') || { isDuplicate: false };
+}
+
+/**
+ * Check a batch of external_ids objects for existing mixes in one round-trip
+ * Keys are caller-chosen (typically raw mix IDs) and are used to key the returned map
+ * Throws if the lookup fails - treating a failed lookup as "not a duplicate" would create a second copy of the mix
+ */
+export async function checkForDuplicateMixes(
+  lookups: Record<string, ExternalIds>
+): Promise<Map<string, DuplicateCheckResult>> {
   const supabase = getServiceClient();
+  const results = new Map<string, DuplicateCheckResult>();
   
-  // Get all external ID values to search for
-  const searchIds = getAllExternalIds(externalIds);
+  // Only look up keys that actually have external IDs
+  const searchable: Record<string, ExternalIds> = {};
+  for (const [key, externalIds] of Object.entries(lookups)) {
+    results.set(key, { isDuplicate: false });
+    if (getAllExternalIds(externalIds).length > 0) {
+      searchable[key] = externalIds;
+    }
+  }
   
-  if (searchIds.length === 0) {
-    return { isDuplicate: false };
+  if (Object.keys(searchable).length === 0) {
+    return results;
   }
   
-  try {
-    // Query for mixes that have any matching external IDs
-    // We need to check if any of the external ID values exist in the external_ids JSON
-    const { data: existingMixes, error } = await supabase
-      .from('mixes')
-      .select('id, external_ids')
-      .not('external_ids', 'is', null);
-    
-    if (error) {
-      console.error('Error checking for duplicate mixes:', error);
-      return { isDuplicate: false };
-    }
-    
-    // Check each existing mix for matching external IDs
-    for (const mix of existingMixes) {
-      if (hasMatchingExternalIds(externalIds, mix.external_ids as ExternalIds)) {
-        // Find which external ID matched
-        const matchedId = findMatchingExternalId(externalIds, mix.external_ids as ExternalIds);
-        
-        return {
-          isDuplicate: true,
-          existingMixId: mix.id,
-          matchedOn: matchedId,
-        };
-      }
-    }
-    
-    return { isDuplicate: false };
-  } catch (err) {
-    console.error('Error in duplicate detection:', err);
-    return { isDuplicate: false };
+  // Containment lookup on the GIN-indexed external_ids column
+  const { data: matches, error } = await supabase.rpc('find_mixes_by_external_ids', {
+    p_lookups: searchable,
+  });
+  
+  if (error) {
+    throw new Error(`Failed to check for duplicate mixes: ${error.message}`);
   }
-}
-
-/**
- * Find which specific external ID matched between two external_ids objects
- */
-function findMatchingExternalId(ids1: ExternalIds, ids2: ExternalIds): string | undefined {
-  const providers: (keyof ExternalIds)[] = ['youtube', 'soundcloud', '1001'];
   
-  for (const provider of providers) {
-    if (ids1[provider] && ids2[provider] && ids1[provider] === ids2[provider]) {
-      return ids1[provider];
-    }
+  for (const match of (matches || []) as Array<{ lookup_key: string; mix_id: string; matched_on: string }>) {
+    results.set(match.lookup_key, {
+      isDuplicate: true,
+      existingMixId: match.mix_id,
+      matchedOn: match.matched_on,
+    });
   }
   
-  return undefined;
+  return results;
 }
 
 /**
@@ -134,6 +124,7 @@ export async function checkForDuplicateRawMix(
 const SOURCE_PRIORITY = {
   '1001tracklists': 3, // Highest priority for tracklist data
   'soundcloud': 2,     // Medium priority
+  'mixcloud': 2,       // Medium priority, structured tracklists
   'youtube': 1,        // Lowest priority
 } as const;
 
@@ -0,0 +1,287 @@
+/**
+ * Event date extraction - when a set was played, as opposed to when it was uploaded
+ * e.g. a Tomorrowland 2019 set uploaded in 2023 should be dated 2019, not 2023
+ */
+
+export type EventDatePrecision = 'day' | 'month' | 'year';
+
+export type EventDateSource =
+  | 'tracklist_metadata' // Date 1001Tracklists lists for the set
+  | 'title'
+  | 'description'
+  | 'festival_day'       // "Day 2" counted from the festival's edition dates
+  | 'festival_name';     // Edition year in the detected festival ("Awakenings 2018")
+
+export interface EventDateCandidate {
+  date: string; // YYYY-MM-DD; month and year precision dates use the first day of the period
+  precision: EventDatePrecision;
+  confidence: number; // 0-1 scale
+  source: EventDateSource;
+  reason: string;
+}
+
+export interface EventDateInput {
+  title: string;
+  description?: string | null;
+  provider?: string;
+  rawMetadata?: any;
+  uploadedAt?: string | null;
+  festival?: string | null; // Detected festival context name, may carry the edition year
+  festivalDay?: { date: string; reason: string } | null; // Resolved from stage detection
+}
+
+// Below this an extracted date is only reported, not written to mixes.event_date
+export const MIN_EVENT_DATE_CONFIDENCE = 0.6;
+
+const CONFIDENCE = {
+  tracklistMetadata: 0.95,
+  titleDate: 0.9,
+  recordedDate: 0.85,
+  festivalDay: 0.85,
+  titleMonth: 0.75,
+  festivalName: 0.75,
+  liveYear: 0.7,
+  recordedYear: 0.65,
+  descriptionDate: 0.55,
+  titleYear: 0.45,
+};
+
+// Extra confidence when independent sources agree on the year
+const AGREEMENT_BOOST = 0.05;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH = '(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?';
+const YEAR = '((?:19[89]|20\\d)\\d)';
+
+// Phrases that tie a date or year to the performance rather than the upload or a release
+const LIVE_PHRASE = /\b(?:live\s*(?:@|at|from|in|on)|recorded|filmed|captured|played|performed)\b|@/i;
+const RECORDED_LINE = /\b(?:recorded|filmed|captured|played|performed|live\s+(?:at|from|in|on))\b/i;
+
+/**
+ * Pick the most likely event date for a mix
+ * Returns the best candidate even when it's below MIN_EVENT_DATE_CONFIDENCE so callers can report it
+ */
+export function extractEventDate(input: EventDateInput): EventDateCandidate | null {
+  const candidates = findEventDateCandidates(input);
+  return candidates[0] || null;
+}
+
+/**
+ * All plausible event dates for a mix, best first
+ * Dates after the upload date are dropped, since a set can't be uploaded before it was played
+ */
+export function findEventDateCandidates(input: EventDateInput): EventDateCandidate[] {
+  const title = input.title || '';
+  const description = input.description || '';
+  const candidates: EventDateCandidate[] = [];
+
+  candidates.push(...fromTracklistMetadata(input));
+
+  if (input.festivalDay) {
+    candidates.push({
+      date: input.festivalDay.date,
+      precision: 'day',
+      confidence: CONFIDENCE.festivalDay,
+      source: 'festival_day',
+      reason: input.festivalDay.reason,
+    });
+  }
+
+  const titleDate = findDate(title);
+  if (titleDate) {
+    candidates.push({ ...titleDate, confidence: CONFIDENCE.titleDate, source: 'title', reason: `date "${titleDate.matched}" in title` });
+  } else {
+    const titleMonth = findMonth(title);
+    if (titleMonth) {
+      candidates.push({ ...titleMonth, confidence: CONFIDENCE.titleMonth, source: 'title', reason: `month "${titleMonth.matched}" in title` });
+    }
+  }
+
+  candidates.push(...fromDescription(description));
+
+  const festivalYear = input.festival ? findYear(input.festival) : null;
+  if (festivalYear) {
+    candidates.push({
+      ...festivalYear,
+      confidence: CONFIDENCE.festivalName,
+      source: 'festival_name',
+      reason: `edition year in festival "${input.festival}"`,
+    });
+  }
+
+  const titleYear = findYear(title);
+  if (titleYear && !titleDate) {
+    const live = LIVE_PHRASE.test(title);
+    candidates.push({
+      ...titleYear,
+      confidence: live ? CONFIDENCE.liveYear : CONFIDENCE.titleYear,
+      source: 'title',
+      reason: live ? `year ${titleYear.matched} in live set title` : `year ${titleYear.matched} in title`,
+    });
+  }
+
+  return rankCandidates(candidates.filter(candidate => isPlausible(candidate, input.uploadedAt)));
+}
+
+/**
+ * Format a candidate for ingestion notes
+ */
+export function describeEventDate(candidate: EventDateCandidate): string {
+  const shown = candidate.precision === 'day'
+    ? candidate.date
+    : candidate.precision === 'month' ? candidate.date.slice(0, 7) : candidate.date.slice(0, 4);
+
+  return `Event date ${shown} (${candidate.precision}, confidence ${candidate.confidence.toFixed(2)}): ${candidate.reason}`;
+}
+
+/**
+ * Find a full date in text: 2024-07-20, 20.07.2024, 20/07/2024, 20 July 2024, July 20th 2024
+ * Numeric dates are read day-first unless that's impossible
+ */
+export function findDate(text: string): { date: string; precision: 'day'; matched: string } | null {
+  if (!text) return null;
+
+  const iso = text.match(new RegExp(`\\b${YEAR}[-./](\\d{1,2})[-./](\\d{1,2})\\b`));
+  if (iso) {
+    const date = toDate(parseInt(iso[1]), parseInt(iso[2]), parseInt(iso[3]));
+    if (date) return { date, precision: 'day', matched: iso[0] };
+  }
+
+  const numeric = text.match(new RegExp(`\\b(\\d{1,2})[./-](\\d{1,2})[./-]${YEAR}\\b`));
+  if (numeric) {
+    const [first, second, year] = [parseInt(numeric[1]), parseInt(numeric[2]), parseInt(numeric[3])];
+    const date = toDate(year, second, first) || toDate(year, first, second);
+    if (date) return { date, precision: 'day', matched: numeric[0] };
+  }
+
+  const dayFirst = text.match(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH},?\\s+${YEAR}\\b`, 'i'));
+  if (dayFirst) {
+    const date = toDate(parseInt(dayFirst[3]), monthNumber(dayFirst[2]), parseInt(dayFirst[1]));
+    if (date) return { date, precision: 'day', matched: dayFirst[0] };
+  }
+
+  const monthFirst = text.match(new RegExp(`\\b${MONTH}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+${YEAR}\\b`, 'i'));
+  if (monthFirst) {
+    const date = toDate(parseInt(monthFirst[3]), monthNumber(monthFirst[1]), parseInt(monthFirst[2]));
+    if (date) return { date, precision: 'day', matched: monthFirst[0] };
+  }
+
+  return null;
+}
+
+/**
+ * Find a month and year ("July 2022") in text
+ */
+function findMonth(text: string): { date: string; precision: 'month'; matched: string } | null {
+  const match = text.match(new RegExp(`\\b${MONTH}\\s+${YEAR}\\b`, 'i'));
+  if (!match) return null;
+
+  const date = toDate(parseInt(match[2]), monthNumber(match[1]), 1);
+  return date ? { date, precision: 'month', matched: match[0] } : null;
+}
+
+/**
+ * Find a standalone year in text
+ */
+function findYear(text: string): { date: string; precision: 'year'; matched: string } | null {
+  const match = text.match(new RegExp(`(?<![\\d./-])${YEAR}(?![\\d./-]\\d)`));
+  if (!match) return null;
+
+  return { date: `${match[1]}-01-01`, precision: 'year', matched: match[1] };
+}
+
+/**
+ * Dates 1001Tracklists lists for a set are the performance date, not an upload date
+ */
+function fromTracklistMetadata(input: EventDateInput): EventDateCandidate[] {
+  if (input.provider !== '1001tracklists') return [];
+
+  const metadataDate = typeof input.rawMetadata?.date === 'string' ? findDate(input.rawMetadata.date) : null;
+  if (metadataDate) {
+    return [{
+      date: metadataDate.date,
+      precision: 'day',
+      confidence: CONFIDENCE.tracklistMetadata,
+      source: 'tracklist_metadata',
+      reason: `1001Tracklists date ${metadataDate.date}`,
+    }];
+  }
+
+  // Search results only carry the listing date, which is when the tracklist was posted, not played
+  return [];
+}
+
+/**
+ * Dates on a "recorded at/on" line are trusted; other description dates are often release dates
+ */
+function fromDescription(description: string): EventDateCandidate[] {
+  if (!description) return [];
+
+  const candidates: EventDateCandidate[] = [];
+  const recordedLine = description.split('\n').find(line => RECORDED_LINE.test(line));
+
+  if (recordedLine) {
+    const date = findDate(recordedLine);
+    const year = date ? null : findYear(recordedLine);
+
+    if (date) {
+      candidates.push({ ...date, confidence: CONFIDENCE.recordedDate, source: 'description', reason: `date "${date.matched}" on recording line in description` });
+    } else if (year) {
+      candidates.push({ ...year, confidence: CONFIDENCE.recordedYear, source: 'description', reason: `year ${year.matched} on recording line in description` });
+    }
+  }
+
+  if (candidates.length === 0) {
+    const date = findDate(description);
+    if (date) {
+      candidates.push({ ...date, confidence: CONFIDENCE.descriptionDate, source: 'description', reason: `date "${date.matched}" in description` });
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Boost candidates that agree with another source on the year, then sort best first
+ * Ties go to the more precise date
+ */
+function rankCandidates(candidates: EventDateCandidate[]): EventDateCandidate[] {
+  const precisionOrder: Record<EventDatePrecision, number> = { day: 0, month: 1, year: 2 };
+
+  return candidates
+    .map(candidate => {
+      // The festival's edition year is usually read from the title, so it doesn't count as a second source
+      const agrees = candidate.source !== 'festival_name' && candidates.some(other =>
+        other.source !== candidate.source && other.source !== 'festival_name' && other.date.slice(0, 4) === candidate.date.slice(0, 4)
+      );
+      if (!agrees) return candidate;
+
+      const confidence = Math.min(0.99, Math.round((candidate.confidence + AGREEMENT_BOOST) * 100) / 100);
+      return { ...candidate, confidence, reason: `${candidate.reason}, confirmed by another source` };
+    })
+    .sort((a, b) => b.confidence - a.confidence || precisionOrder[a.precision] - precisionOrder[b.precision]);
+}
+
+/**
+ * A set can't have been played after it was uploaded (allowing a day for time zones)
+ */
+function isPlausible(candidate: EventDateCandidate, uploadedAt?: string | null): boolean {
+  const limit = uploadedAt ? new Date(uploadedAt) : new Date();
+  if (isNaN(limit.getTime())) return true;
+
+  limit.setUTCDate(limit.getUTCDate() + 1);
+  return candidate.date <= limit.toISOString().slice(0, 10);
+}
+
+function monthNumber(name: string): number {
+  return MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+}
+
+function toDate(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12) return null;
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+
+  return date.toISOString().slice(0, 10);
+}
@@ -4,10 +4,10 @@ export type { ExternalIds };
 
 /**
  * Utilities for managing external IDs across platforms
- * Format: {"youtube": "yt:video_id", "soundcloud": "sc:track_id", "1001": "1001:mix_id"}
+ * Format: {"youtube": "yt:video_id", "soundcloud": "sc:track_id", "1001": "1001:mix_id", "mixcloud": "mc:cloudcast_key"}
  */
 
-export type Provider = 'youtube' | 'soundcloud' | '1001tracklists';
+export type Provider = 'youtube' | 'soundcloud' | '1001tracklists' | 'mixcloud';
 
 /**
  * Create a namespaced external ID for a provider
@@ -43,6 +43,8 @@ function getProviderPrefix(provider: Provider): string {
       return 'sc';
     case '1001tracklists':
       return '1001';
+    case 'mixcloud':
+      return 'mc';
     default:
       throw new Error(`Unknown provider: ${provider}`);
   }
@@ -59,6 +61,8 @@ function getPrefixProvider(prefix: string): Provider | null {
       return 'soundcloud';
     case '1001':
       return '1001tracklists';
+    case 'mc':
+      return 'mixcloud';
     default:
       return null;
   }
@@ -98,7 +102,7 @@ export function getExternalId(externalIds: ExternalIds | null, provider: Provide
 export function hasMatchingExternalIds(ids1: ExternalIds | null, ids2: ExternalIds | null): boolean {
   if (!ids1 || !ids2) return false;
   
-  const providers: (keyof ExternalIds)[] = ['youtube', 'soundcloud', '1001'];
+  const providers: (keyof ExternalIds)[] = ['youtube', 'soundcloud', '1001', 'mixcloud'];
   
   for (const provider of providers) {
     if (ids1[provider] && ids2[provider] && ids1[provider] === ids2[provider]) {
@@ -0,0 +1,236 @@
+import fs from 'fs';
+import bundledCities from './data/cities.json';
+import bundledCountries from './data/countries.json';
+import type { GeocodeQuery, GeocodeResult, Geocoder } from './geocoder';
+
+/**
+ * Offline gazetteer of cities and countries
+ * The bundled list only has the ~130 cities mixes are most often recorded in, so venues elsewhere aren't
+ * located unless GEONAMES_CITIES_PATH points to a GeoNames cities file (e.g. cities15000.txt from
+ * download.geonames.org), which is loaded as well.
+ */
+
+export interface GazetteerCity {
+  name: string;
+  country: string; // ISO 3166-1 alpha-2
+  lat: number;
+  lng: number;
+  population: number;
+  alternateNames: string[];
+}
+
+export interface GazetteerCountry {
+  code: string; // ISO 3166-1 alpha-2
+  name: string;
+  alternateNames: string[];
+}
+
+const CONFIDENCE = {
+  cityAndCountry: 0.9,  // City found in the given country
+  uniqueCity: 0.85,     // City name only exists in one country
+  cityInVenueNameAndCountry: 0.8, // "Printworks London" for a venue in the United Kingdom
+  ambiguousCity: 0.7,   // Most populous of several same-named cities
+  cityInVenueName: 0.55, // No country to confirm it, "Sonic Boom" and "Club Nice" aren't in Boom or Nice
+  countryOnly: 0.5,
+};
+
+// Longest run of words at the end of a venue name that is checked for a city
+const MAX_CITY_WORDS = 3;
+
+/**
+ * Normalize a place name for lookups: no accents, case or punctuation
+ */
+export function normalizePlaceName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+export class Gazetteer {
+  private citiesByName = new Map<string, GazetteerCity[]>();
+  private countriesByName = new Map<string, GazetteerCountry>();
+  private countriesByCode = new Map<string, GazetteerCountry>();
+
+  constructor(cities: GazetteerCity[], countries: GazetteerCountry[]) {
+    for (const country of countries) {
+      this.countriesByCode.set(country.code, country);
+      for (const name of [country.name, country.code, ...country.alternateNames]) {
+        this.countriesByName.set(normalizePlaceName(name), country);
+      }
+    }
+
+    this.addCities(cities);
+  }
+
+  /**
+   * Add cities, skipping any already known in the same country
+   */
+  addCities(cities: GazetteerCity[]): void {
+    for (const city of cities) {
+      for (const name of new Set([city.name, ...city.alternateNames].map(normalizePlaceName))) {
+        if (!name) continue;
+
+        const entries = this.citiesByName.get(name) || [];
+        if (entries.some(entry => entry.country === city.country)) continue;
+
+        entries.push(city);
+        this.citiesByName.set(name, entries.sort((a, b) => b.population - a.population));
+      }
+    }
+  }
+
+  /**
+   * Find a country by name, alternate name or ISO code ("UK", "England", "GB" → United Kingdom)
+   */
+  findCountry(value: string): GazetteerCountry | null {
+    return this.countriesByName.get(normalizePlaceName(value)) || null;
+  }
+
+  /**
+   * Get a country by ISO code
+   */
+  getCountry(code: string): GazetteerCountry | null {
+    return this.countriesByCode.get(code.toUpperCase()) || null;
+  }
+
+  /**
+   * Find cities with a name, most populous first, optionally limited to a country
+   */
+  findCities(name: string, countryCode?: string): GazetteerCity[] {
+    const cities = this.citiesByName.get(normalizePlaceName(name)) || [];
+    return countryCode ? cities.filter(city => city.country === countryCode) : cities;
+  }
+
+  /**
+   * Find a city named at the end of a venue name ("Printworks London", "Pacha Ibiza")
+   * Longer names win, so "Fabric New York" finds New York rather than York
+   */
+  findCityInName(name: string, countryCode?: string): GazetteerCity[] {
+    const words = normalizePlaceName(name).split(' ');
+
+    // The whole name being a city is handled by findCities
+    for (let length = Math.min(MAX_CITY_WORDS, words.length - 1); length >= 1; length--) {
+      const cities = this.findCities(words.slice(-length).join(' '), countryCode);
+      if (cities.length > 0) return cities;
+    }
+
+    return [];
+  }
+}
+
+/**
+ * Parse a GeoNames cities file (tab-separated, one city per line)
+ */
+export function parseGeoNamesCities(content: string): GazetteerCity[] {
+  const cities: GazetteerCity[] = [];
+
+  for (const line of content.split('\n')) {
+    const fields = line.split('\t');
+    if (fields.length < 15) continue;
+
+    const lat = parseFloat(fields[4]);
+    const lng = parseFloat(fields[5]);
+    if (isNaN(lat) || isNaN(lng)) continue;
+
+    cities.push({
+      name: fields[1],
+      country: fields[8],
+      lat,
+      lng,
+      population: parseInt(fields[14]) || 0,
+      // asciiname plus the alternate names, which include other languages and codes
+      alternateNames: [fields[2], ...(fields[3] ? fields[3].split(',') : [])],
+    });
+  }
+
+  return cities;
+}
+
+let sharedGazetteer: Gazetteer | null = null;
+
+/**
+ * The bundled gazetteer plus GEONAMES_CITIES_PATH if set, loaded on first use
+ */
+export function loadGazetteer(): Gazetteer {
+  if (sharedGazetteer) return sharedGazetteer;
+
+  const gazetteer = new Gazetteer(bundledCities, bundledCountries);
+
+  const geoNamesPath = process.env.GEONAMES_CITIES_PATH;
+  if (geoNamesPath) {
+    if (!fs.existsSync(geoNamesPath)) {
+      throw new Error(`GeoNames cities file not found: ${geoNamesPath}`);
+    }
+    gazetteer.addCities(parseGeoNamesCities(fs.readFileSync(geoNamesPath, 'utf8')));
+  }
+
+  sharedGazetteer = gazetteer;
+  return gazetteer;
+}
+
+/**
+ * Geocoder backed by the offline gazetteer
+ * Resolves cities (given, or named at the end of the venue) and normalizes countries
+ */
+export class GazetteerGeocoder implements Geocoder {
+  readonly name = 'gazetteer';
+
+  constructor(private gazetteer?: Gazetteer) {}
+
+  async geocode(query: GeocodeQuery): Promise<GeocodeResult | null> {
+    const gazetteer = this.gazetteer = this.gazetteer || loadGazetteer();
+    const country = query.country ? gazetteer.findCountry(query.country) : null;
+
+    let cities: GazetteerCity[] = [];
+    let confidence = 0;
+
+    if (query.city) {
+      cities = gazetteer.findCities(query.city, country?.code);
+    }
+
+    // Only look in the venue name when no city was given, so an unknown city isn't replaced by a guess
+    if (!query.city && query.venue) {
+      cities = gazetteer.findCities(query.venue, country?.code);
+      if (cities.length === 0) {
+        cities = gazetteer.findCityInName(query.venue, country?.code);
+        confidence = country ? CONFIDENCE.cityInVenueNameAndCountry : CONFIDENCE.cityInVenueName;
+      }
+    }
+
+    const [city] = cities;
+    if (city) {
+      if (!confidence) {
+        confidence = country
+          ? CONFIDENCE.cityAndCountry
+          : cities.length === 1 ? CONFIDENCE.uniqueCity : CONFIDENCE.ambiguousCity;
+      }
+
+      return {
+        city: city.name,
+        country: gazetteer.getCountry(city.country)?.name || city.country,
+        countryCode: city.country,
+        lat: city.lat,
+        lng: city.lng,
+        confidence,
+        provider: this.name,
+      };
+    }
+
+    if (country) {
+      return {
+        city: query.city || null,
+        country: country.name,
+        countryCode: country.code,
+        lat: null,
+        lng: null,
+        confidence: CONFIDENCE.countryOnly,
+        provider: this.name,
+      };
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,93 @@
+import { logger } from '../../services/logger';
+import { GazetteerGeocoder } from './gazetteer';
+import type { ExternalIds } from '../supabase/types';
+
+/**
+ * Venue geocoding
+ * Geocoders turn a venue's name, city and country into coordinates and an ISO country code.
+ * The offline gazetteer is always registered; an online geocoder can be registered ahead of it.
+ */
+
+// Results below this are too unsure to save a city or coordinates from
+export const MIN_GEOCODE_CONFIDENCE = 0.7;
+
+export interface GeocodeQuery {
+  venue?: string;   // Venue name, which may end in a city ("Printworks London")
+  city?: string;
+  country?: string; // Any spelling or code ("UK", "England", "GB")
+}
+
+export interface GeocodeResult {
+  city: string | null;
+  country: string | null;     // Normalized country name
+  countryCode: string | null; // ISO 3166-1 alpha-2
+  lat: number | null;
+  lng: number | null;
+  confidence: number;         // 0-1 scale
+  provider: string;
+  externalIds?: ExternalIds;  // e.g. maps place ID from an online geocoder
+}
+
+export interface Geocoder {
+  readonly name: string;
+  geocode(query: GeocodeQuery): Promise<GeocodeResult | null>;
+}
+
+/**
+ * Tries geocoders in order and returns the first result with coordinates
+ * A geocoder that throws is logged and skipped, so an online outage falls back to the gazetteer
+ */
+export class GeocoderChain implements Geocoder {
+  readonly name = 'chain';
+  private geocoders: Geocoder[] = [];
+
+  /**
+   * Add a geocoder, at the end of the chain or ahead of the others with first: true
+   */
+  register(geocoder: Geocoder, options: { first?: boolean } = {}): void {
+    if (this.geocoders.some(existing => existing.name === geocoder.name)) {
+      throw new Error(`Geocoder already registered: ${geocoder.name}`);
+    }
+
+    if (options.first) {
+      this.geocoders.unshift(geocoder);
+    } else {
+      this.geocoders.push(geocoder);
+    }
+  }
+
+  /**
+   * Registered geocoder names in the order they're tried
+   */
+  list(): string[] {
+    return this.geocoders.map(geocoder => geocoder.name);
+  }
+
+  async geocode(query: GeocodeQuery): Promise<GeocodeResult | null> {
+    let partial: GeocodeResult | null = null;
+
+    for (const geocoder of this.geocoders) {
+      try {
+        const result = await geocoder.geocode(query);
+        if (!result) continue;
+
+        if (result.lat !== null && result.lng !== null) {
+          return result;
+        }
+
+        // Country-only results are kept in case nothing finds the city
+        partial = partial || result;
+      } catch (err) {
+        logger.warn(`Geocoder ${geocoder.name} failed: ${(err as Error).message}`, {
+          metadata: { query },
+        });
+      }
+    }
+
+    return partial;
+  }
+}
+
+// Export singleton instance
+export const geocoder = new GeocoderChain();
+geocoder.register(new GazetteerGeocoder());
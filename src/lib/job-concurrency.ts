@@ -0,0 +1,41 @@
+/**
+ * Per-worker-type concurrency caps
+ * The most jobs of a worker type allowed to run at once across all job processors, enforced by
+ * claim_next_job. Worker types without a cap are unlimited. JOB_CONCURRENCY_LIMITS overrides or adds
+ * caps as a comma-separated list, e.g. "1001tracklists=2,youtube=3".
+ */
+
+export const DEFAULT_CONCURRENCY_LIMITS: Readonly<Record<string, number>> = {
+  // Each job drives a headless browser, and parallel sessions trip the captcha
+  '1001tracklists': 1,
+};
+
+/**
+ * Parse a "<worker_type>=<jobs>,..." list, throwing on malformed entries
+ */
+export function parseConcurrencyLimits(value: string): Record<string, number> {
+  const limits: Record<string, number> = {};
+
+  for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const match = entry.match(/^([\w-]+)\s*=\s*(\d+)$/);
+    const jobs = match ? parseInt(match[2], 10) : 0;
+
+    if (!match || jobs < 1) {
+      throw new Error(`Invalid JOB_CONCURRENCY_LIMITS entry "${entry}": expected <worker_type>=<jobs> with at least 1 job`);
+    }
+
+    limits[match[1]] = jobs;
+  }
+
+  return limits;
+}
+
+/**
+ * The defaults with any JOB_CONCURRENCY_LIMITS overrides applied
+ */
+export function getConcurrencyLimits(env: NodeJS.ProcessEnv = process.env): Record<string, number> {
+  return {
+    ...DEFAULT_CONCURRENCY_LIMITS,
+    ...parseConcurrencyLimits(env.JOB_CONCURRENCY_LIMITS || ''),
+  };
+}
@@ -0,0 +1,148 @@
+import type { StructuredError } from './supabase/types';
+
+/**
+ * Job failure classification and retry scheduling
+ * Failures are classified from the job's error message and the worker/execution errors it produced,
+ * so a quota error waits out the limit, a timeout retries soon, and a bad payload isn't retried at all.
+ */
+
+export type FailureClass =
+  | 'transient'     // Timeouts, dropped connections, 5xx responses; retry soon
+  | 'rate_limited'  // Quotas, 429s, captchas; back off for longer, or as long as Retry-After says
+  | 'permanent'     // Bad payloads, missing channels, 4xx responses; retrying gives the same result
+  | 'config';       // Missing or rejected credentials; needs an operator before a retry can succeed
+
+export interface FailureClassification {
+  failureClass: FailureClass;
+  retryAfterSeconds: number | null; // From a Retry-After header, when the source sent one
+  matched: string | null;           // The error that decided the class
+}
+
+interface BackoffPolicy {
+  baseSeconds: number;
+  maxSeconds: number;
+}
+
+// Per-class backoff: base * 2^(attempt - 1), capped. Classes without a policy aren't retried.
+const BACKOFF: Partial<Record<FailureClass, BackoffPolicy>> = {
+  transient: { baseSeconds: 60, maxSeconds: 30 * 60 },
+  rate_limited: { baseSeconds: 15 * 60, maxSeconds: 6 * 60 * 60 },
+};
+
+// Longest Retry-After honored, so a bogus header can't park a job for days
+const MAX_RETRY_AFTER_SECONDS = 24 * 60 * 60;
+
+// Checked in order; config first since a rejected key can also look like a 4xx
+const PATTERNS: Array<[FailureClass, RegExp]> = [
+  ['config', /environment variable is required|credentials not configured|API key not valid|keyInvalid|invalid_client|status code 401/i],
+  ['rate_limited', /status code 429|quota|rate.?limit|too many requests|captcha/i],
+  ['transient', /timeout|timed out|ETIMEDOUT|ECONNRESET|ECONNREFUSED|ECONNABORTED|EPIPE|EAI_AGAIN|ENOTFOUND|UND_ERR|socket hang up|fetch failed|network error|status code 5\d\d|lease expired|shutdown during execution/i],
+  ['permanent', /status code (?:400|403|404|410|422)|not found|could not (?:parse|resolve)|payload is required|missing required field|invalid (?:worker_type|mode)|unknown worker type|does not support|must be a positive/i],
+];
+
+// When errors disagree, the class most likely to succeed on retry wins, except config which blocks every retry
+const PRECEDENCE: FailureClass[] = ['config', 'rate_limited', 'transient', 'permanent'];
+
+/**
+ * Classify a failed job from its error message and structured errors
+ * Errors that match nothing are treated as transient, so unknown failures still get retried
+ */
+export function classifyFailure(errorMessage: string, errors: StructuredError[] = []): FailureClassification {
+  const messages = [errorMessage, ...errors.map(error => error.message)].filter(Boolean);
+
+  const found: Array<{ failureClass: FailureClass; matched: string }> = [];
+
+  for (const message of messages) {
+    const pattern = PATTERNS.find(([, regex]) => regex.test(message));
+    if (pattern) {
+      found.push({ failureClass: pattern[0], matched: message });
+    }
+  }
+
+  found.sort((a, b) => PRECEDENCE.indexOf(a.failureClass) - PRECEDENCE.indexOf(b.failureClass));
+
+  return {
+    // A job that failed with errors nobody recognizes may well work next time
+    failureClass: found.length > 0 ? found[0].failureClass : 'transient',
+    matched: found.length > 0 ? found[0].matched : null,
+    retryAfterSeconds: findRetryAfter(messages),
+  };
+}
+
+/**
+ * Seconds to wait before the given attempt (1-based) is retried, or null when the failure shouldn't be retried
+ */
+export function getRetryDelaySeconds(classification: FailureClassification, attempt: number): number | null {
+  const policy = BACKOFF[classification.failureClass];
+  if (!policy) return null;
+
+  if (classification.retryAfterSeconds !== null) {
+    return Math.min(classification.retryAfterSeconds, MAX_RETRY_AFTER_SECONDS);
+  }
+
+  return Math.min(policy.baseSeconds * Math.pow(2, Math.max(attempt - 1, 0)), policy.maxSeconds);
+}
+
+/**
+ * Describe an error for a worker result, keeping the HTTP details that classification needs
+ * e.g. "Request failed with status code 403 (quotaExceeded, retry after 3600s)"
+ */
+export function describeError(err: unknown): string {
+  if (!(err instanceof Error)) return String(err);
+
+  const response = (err as any).response;
+  if (!response) return err.message;
+
+  const details: string[] = [];
+
+  // Google APIs put the reason (quotaExceeded, keyInvalid) in the body
+  const reason = response.data?.error?.errors?.[0]?.reason;
+  if (reason) details.push(reason);
+
+  const retryAfter = parseRetryAfter(response.headers?.['retry-after']);
+  if (retryAfter !== null) details.push(`retry after ${retryAfter}s`);
+
+  return details.length > 0 ? `${err.message} (${details.join(', ')})` : err.message;
+}
+
+/**
+ * Parse a Retry-After header, given either in seconds or as an HTTP date
+ */
+export function parseRetryAfter(value: unknown): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+
+  const text = String(value).trim();
+  if (/^\d+$/.test(text)) {
+    return parseInt(text, 10);
+  }
+
+  const date = Date.parse(text);
+  if (isNaN(date)) return null;
+
+  return Math.max(Math.ceil((date - Date.now()) / 1000), 0);
+}
+
+/**
+ * Longest "retry after Ns" found in the messages
+ */
+function findRetryAfter(messages: string[]): number | null {
+  let longest: number | null = null;
+
+  for (const message of messages) {
+    for (const match of message.matchAll(/retry[- ]after:?\s*(\d+)\s*s?\b/gi)) {
+      const seconds = parseInt(match[1], 10);
+      longest = longest === null ? seconds : Math.max(longest, seconds);
+    }
+  }
+
+  return longest;
+}
+
+/**
+ * Short form of a retry delay for logs, e.g. "90s", "15m", "6h"
+ */
+export function formatRetryDelay(seconds: number): string {
+  if (seconds < 120) return `${seconds}s`;
+  if (seconds < 2 * 60 * 60) return `${Math.round(seconds / 60)}m`;
+  return `${Math.round(seconds / 3600)}h`;
+}
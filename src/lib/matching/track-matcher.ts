@@ -9,6 +9,7 @@ import {
   type MatchCandidate,
   type MatchResult,
 } from './fuzzy-matcher';
+import { isPlaceholder, isUnidentifiedTrack } from '../tracklist-parser';
 import { logger } from '../../services/logger';
 
 /**
@@ -22,6 +23,7 @@ export interface TrackMatchResult {
   shouldCreateNew: boolean;
   confidence: 'high' | 'medium' | 'low';
   aliases: string[];
+  isUnidentified: boolean; // "ID - ID" style placeholder - never matched or created as a track
 }
 
 export interface ExistingTrack {
@@ -67,6 +69,7 @@ export class TrackMatcher {
         shouldCreateNew: false,
         confidence: 'low',
         aliases: [],
+        isUnidentified: false,
       };
     }
     
@@ -82,6 +85,20 @@ export class TrackMatcher {
         shouldCreateNew: false,
         confidence: 'low',
         aliases: [],
+        isUnidentified: false,
+      };
+    }
+    
+    // Unidentified tracks only get their known artist matched - fuzzy matching "ID" would hit junk tracks
+    if (isUnidentifiedTrack(rawArtist, titleToMatch)) {
+      logger.debug(`Unidentified track: ${lineText}`);
+      return {
+        track: null,
+        artists: await this.findMatchingArtists(artistsToMatch),
+        shouldCreateNew: false,
+        confidence: 'low',
+        aliases: [],
+        isUnidentified: true,
       };
     }
     
@@ -106,6 +123,7 @@ export class TrackMatcher {
       shouldCreateNew,
       confidence,
       aliases,
+      isUnidentified: false,
     };
   }
   
@@ -339,7 +357,7 @@ export class TrackMatcher {
       }
     }
     
-    return Array.from(artists).filter(artist => artist.length > 1);
+    return Array.from(artists).filter(artist => artist.length > 1 && !isPlaceholder(artist));
   }
   
   /**
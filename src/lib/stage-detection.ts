@@ -0,0 +1,207 @@
+/**
+ * Stage, festival day and set time extraction for festival mixes
+ * e.g. "Martin Garrix | Mainstage, Tomorrowland 2024 W2 Day 3" → Mainstage, weekend 2, day 3
+ * Stages are found by a name ending in "Stage", Mainstage, or one of a few well-known stages named
+ * without the suffix ("Arcadia"); other unsuffixed stage names aren't detected.
+ */
+
+export interface StageInfo {
+  stage: string | null;    // "Mainstage", "Freedom Stage"
+  day: number | null;      // Festival day ("Day 2")
+  weekend: number | null;  // Festival weekend for multi-weekend festivals ("Weekend 2", "W2")
+  setTime: string | null;  // "23:00" or "23:00-00:30"
+  matchedText: string[];   // Fragments the values were read from
+}
+
+// Edition dates of a festival context (contexts.start_date / end_date)
+export interface FestivalEdition {
+  startDate: string | null;
+  endDate: string | null;
+}
+
+export interface ResolvedEventDate {
+  date: string; // YYYY-MM-DD
+  reason: string;
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7,
+};
+
+const MAINSTAGE = /\bmain\s*stage\b/i;
+
+// Up to three capitalised words directly before "Stage" ("Freedom Stage", "The Rose Garden Stage")
+const NAMED_STAGE = /((?:[A-Z0-9][\w'’&.-]*\s+){1,3})(Stage|STAGE)\b/;
+
+// Well-known stages whose names don't end in "Stage", only looked for in titles since a description's
+// tracklist can name them too
+const KNOWN_STAGES = /\b(Arcadia|Crystal Garden)\b/i;
+
+const DAY = /\bday\s*[-#]?\s*(\d{1,2}|one|two|three|four|five|six|seven)\b/i;
+const WEEKEND = /\b(?:weekend\s*(\d|one|two|three)|w([1-3]))\b/i;
+
+const TIME = '([01]?\\d|2[0-3])[:.h]([0-5]\\d)';
+const TIME_RANGE = new RegExp(`\\b${TIME}\\s*(?:-|–|—|to)\\s*${TIME}\\b`, 'i');
+const SINGLE_TIME = new RegExp(`\\b${TIME}\\b`);
+const SET_TIME_LINE = /set\s*time|time\s*slot|playing\s+(?:from|at)/i;
+
+// Words that sit in front of a stage name without being part of it
+const STAGE_STOPWORDS = new Set(['live', 'at', 'on', 'the', 'from', 'in', 'set', 'dj', 'full', 'b2b', 'x', 'and', 'vs']);
+
+/**
+ * Extract stage, day, weekend and set time from a festival mix's title and description
+ * Pass the festival name so it isn't mistaken for part of the stage name
+ */
+export function extractStageInfo(title: string, description: string = '', festivalName?: string): StageInfo {
+  const info: StageInfo = { stage: null, day: null, weekend: null, setTime: null, matchedText: [] };
+  const text = `${title}\n${description}`;
+
+  const stage = extractStageName(title, festivalName)
+    || extractKnownStage(title)
+    || extractStageName(description, festivalName);
+  if (stage) {
+    info.stage = stage.name;
+    info.matchedText.push(stage.matched);
+  }
+
+  const dayMatch = text.match(DAY);
+  if (dayMatch) {
+    const day = parseNumber(dayMatch[1]);
+    if (day >= 1 && day <= 14) {
+      info.day = day;
+      info.matchedText.push(dayMatch[0]);
+    }
+  }
+
+  const weekendMatch = text.match(WEEKEND);
+  if (weekendMatch) {
+    info.weekend = parseNumber(weekendMatch[1] || weekendMatch[2]);
+    info.matchedText.push(weekendMatch[0]);
+  }
+
+  const setTime = extractSetTime(title, description);
+  if (setTime) {
+    info.setTime = setTime.value;
+    info.matchedText.push(setTime.matched);
+  }
+
+  return info;
+}
+
+/**
+ * Resolve the date a festival set was played by counting its day from the edition's start date
+ * Explicit dates in titles and descriptions are handled by event-date-extraction
+ */
+export function resolveFestivalDay(
+  info: StageInfo,
+  edition?: FestivalEdition | null
+): ResolvedEventDate | null {
+  if (!info.day || !edition?.startDate) return null;
+
+  // Multi-weekend festivals repeat their days a week apart
+  const offset = (info.day - 1) + ((info.weekend || 1) - 1) * 7;
+  const date = addDays(edition.startDate, offset);
+
+  if (edition.endDate && date > edition.endDate.slice(0, 10)) {
+    return null;
+  }
+
+  const weekend = info.weekend ? `weekend ${info.weekend} ` : '';
+  return { date, reason: `${weekend}day ${info.day} of edition starting ${edition.startDate.slice(0, 10)}` };
+}
+
+/**
+ * Find a "... Stage" name or Mainstage in text
+ */
+function extractStageName(text: string, festivalName?: string): { name: string; matched: string } | null {
+  if (!text) return null;
+
+  const mainstage = text.match(MAINSTAGE);
+  if (mainstage) {
+    return { name: 'Mainstage', matched: mainstage[0] };
+  }
+
+  const named = text.match(NAMED_STAGE);
+  if (!named) return null;
+
+  const festivalWords = new Set((festivalName || '').toLowerCase().split(/\s+/).filter(Boolean));
+
+  // Walk back from "Stage" and stop at the first word that can't be part of the name
+  const words = named[1].trim().split(/\s+/);
+  const nameWords: string[] = [];
+  for (let i = words.length - 1; i >= 0; i--) {
+    const word = words[i].toLowerCase();
+    if (STAGE_STOPWORDS.has(word) || festivalWords.has(word) || /^\d+$/.test(word)) break;
+    nameWords.unshift(words[i]);
+  }
+
+  if (nameWords.length === 0) return null;
+
+  const matched = `${nameWords.join(' ')} ${named[2]}`;
+  return { name: toDisplayCase(matched), matched };
+}
+
+/**
+ * Find a well-known stage named without "Stage" in text
+ */
+function extractKnownStage(text: string): { name: string; matched: string } | null {
+  const known = text.match(KNOWN_STAGES);
+  if (!known) return null;
+
+  return { name: known[1].toLowerCase().replace(/\b\w/g, char => char.toUpperCase()), matched: known[0] };
+}
+
+/**
+ * Find a set time range in the title, or a set time line in the description
+ * Single times in descriptions are ignored elsewhere since they're usually tracklist timestamps
+ */
+function extractSetTime(title: string, description: string): { value: string; matched: string } | null {
+  const titleRange = title.match(TIME_RANGE);
+  if (titleRange) {
+    return { value: formatTimeRange(titleRange), matched: titleRange[0] };
+  }
+
+  const line = description.split('\n').find(candidate => SET_TIME_LINE.test(candidate));
+  if (!line) return null;
+
+  const range = line.match(TIME_RANGE);
+  if (range) {
+    return { value: formatTimeRange(range), matched: range[0] };
+  }
+
+  const single = line.match(SINGLE_TIME);
+  if (single) {
+    return { value: formatTime(single[1], single[2]), matched: single[0] };
+  }
+
+  return null;
+}
+
+function addDays(startDate: string, days: number): string {
+  const date = new Date(`${startDate.slice(0, 10)}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+function parseNumber(value: string): number {
+  return NUMBER_WORDS[value.toLowerCase()] ?? parseInt(value);
+}
+
+function formatTime(hours: string, minutes: string): string {
+  return `${hours.padStart(2, '0')}:${minutes}`;
+}
+
+function formatTimeRange(match: RegExpMatchArray): string {
+  return `${formatTime(match[1], match[2])}-${formatTime(match[3], match[4])}`;
+}
+
+/**
+ * Title-case names written in all caps ("FREEDOM STAGE" → "Freedom Stage")
+ */
+function toDisplayCase(name: string): string {
+  if (name !== name.toUpperCase()) return name;
+
+  return name
+    .toLowerCase()
+    .replace(/\b\w/g, char => char.toUpperCase());
+}
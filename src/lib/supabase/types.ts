@@ -1,6 +1,8 @@
 // Auto-generated types will go here
 // Run `npm run db:types` to generate from Supabase schema
 
+import type { ContextSuggestion } from '../context-rules-engine'
+
 export type Json =
   | string
   | number
@@ -12,7 +14,7 @@ export type Json =
 // Staging table types
 export interface RawMix {
   id: string
-  provider: 'youtube' | 'soundcloud' | '1001tracklists'
+  provider: 'youtube' | 'soundcloud' | '1001tracklists' | 'mixcloud'
   source_url: string
   external_id: string | null
   raw_title: string | null
@@ -30,7 +32,7 @@ export interface RawMix {
   // New Phase 2 fields for artist discovery and context rules
   discovered_artist_id?: string | null
   discovery_source?: string | null
-  suggested_contexts?: Json | null // ContextSuggestion[] from rules engine
+  suggested_contexts?: ContextSuggestion[] | null // From the context rules engine
 }
 
 export interface RawTrack {
@@ -47,7 +49,7 @@ export interface RawTrack {
 
 export interface IngestionJob {
   id: string
-  worker_type: 'soundcloud' | 'youtube' | '1001tracklists' | 'artist-discovery' | 'canonicalization'
+  worker_type: string // A registered worker type (see lib/worker-registry) or 'canonicalization'
   job_payload: Json | null
   status: 'pending' | 'running' | 'completed' | 'failed'
   attempts: number
@@ -56,6 +58,31 @@ export interface IngestionJob {
   next_run: string | null
   error_message: string | null
   requested_by: string | null
+  locked_by: string | null // Processor holding the job while it runs
+  lease_expires_at: string | null // Reaped back to pending after this unless heartbeats extend it
+  heartbeat_at: string | null
+  failure_class: 'transient' | 'rate_limited' | 'permanent' | 'config' | null // Class of the last failure (see lib/job-failures)
+  schedule_id: string | null // Schedule that created the job, if any
+  parent_job_id: string | null // Job that enqueued this one, e.g. the ingestion job a canonicalization job follows
+  priority: number // Higher is claimed first; defaults to 10 for rolling jobs and 0 for backfill jobs
+  created_at: string
+  updated_at: string
+}
+
+export interface JobSchedule {
+  id: string
+  name: string
+  worker_type: string
+  source_id: string
+  mode: 'backfill' | 'rolling'
+  batch_size: number
+  cron: string // Five-field cron expression or @hourly/@daily/@weekly/@monthly, in UTC
+  max_attempts: number
+  is_active: boolean
+  next_run_at: string
+  last_enqueued_at: string | null
+  last_job_id: string | null
+  last_skipped_at: string | null // Last run skipped because the source's previous job was still active
   created_at: string
   updated_at: string
 }
@@ -82,12 +109,19 @@ export interface SystemHealth {
 
 // Job payload interfaces
 export interface BaseJobPayload {
-  worker_type: 'youtube' | 'soundcloud' | '1001tracklists' | 'artist-discovery'
+  worker_type: string // A registered worker type (see lib/worker-registry)
   source_id: string
   mode: 'backfill' | 'rolling'
   batch_size: number
 }
 
+// Payload of a canonicalization job enqueued after an ingestion job
+export interface CanonicalizationJobPayload {
+  worker_type: 'canonicalization'
+  raw_mix_ids: string[] // Exactly the raw mixes the parent job inserted
+  mode: 'backfill' | 'rolling'
+}
+
 export interface StructuredError {
   video_id?: string
   error_type: string
@@ -100,6 +134,7 @@ export interface ExternalIds {
   youtube?: string  // yt:video_id
   soundcloud?: string  // sc:track_id
   '1001'?: string  // 1001:mix_id
+  mixcloud?: string  // mc:cloudcast_key (e.g. mc:username/mix-slug)
   maps?: string  // gmaps:place_id for venues
   spotify?: string  // spotify:playlist_id
   facebook?: string  // fb:event_id
@@ -116,6 +151,7 @@ export interface Venue {
   name: string
   city: string | null
   country: string | null
+  country_code: string | null // ISO 3166-1 alpha-2
   lat: number | null
   lng: number | null
   capacity: number | null
@@ -136,6 +172,8 @@ export interface Context {
   website: string | null
   external_ids: ExternalIds | null
   venue_id: string | null
+  start_date: string | null // Edition dates, for festivals
+  end_date: string | null
   is_verified: boolean
   verified_by: string | null
   verified_at: string | null
@@ -143,6 +181,44 @@ export interface Context {
   updated_at: string
 }
 
+// Free-form venue awaiting moderator verification
+export interface VenueProposal {
+  id: string
+  raw_mix_id: string
+  mix_id: string | null
+  name: string
+  city: string | null
+  country: string | null
+  confidence: number
+  matched_text: string | null
+  reason_codes: string[]
+  status: 'pending' | 'approved' | 'rejected'
+  venue_id: string | null
+  reviewed_by: string | null
+  reviewed_at: string | null
+  review_notes: string | null
+  created_at: string
+}
+
+// Names recorded when a duplicate was merged, so detections of the old name resolve to the survivor
+export interface VenueAlias {
+  id: string
+  venue_id: string
+  alias: string
+  city: string | null
+  merged_from: string | null
+  created_at: string
+}
+
+export interface ContextAlias {
+  id: string
+  context_id: string
+  alias: string
+  type: ContextType
+  merged_from: string | null
+  created_at: string
+}
+
 export interface MixContext {
   id: string
   mix_id: string
@@ -210,7 +286,7 @@ export interface ContextRule {
   rule_type: 'pattern' | 'keyword' | 'channel_mapping' | 'title_pattern' | 'description_pattern'
   scope: 'global' | 'artist' | 'platform'
   scope_value: string | null
-  target_context_type: ContextType
+  target_context_type: ContextType | 'venue' // Venue rules suggest a venue rather than a context
   target_context_name: string
   confidence_weight: number
   pattern_config: Json
@@ -309,7 +385,8 @@ export interface Database {
           duration: number | null
           venue: string | null  // legacy field - migrating to venue_id
           location: string | null  // legacy field - migrating to venue_id  
-          event_date: string | null
+          event_date: string | null  // When the set was played, not uploaded
+          event_date_precision: 'day' | 'month' | 'year' | null
           published_date: string | null
           created_at: string | null
           created_by: string | null
@@ -368,11 +445,15 @@ export interface Database {
       }
       mix_tracks: {
         Row: {
+          id: string
           mix_id: string
-          track_id: string
+          track_id: string | null // Null for unidentified ("ID - ID") tracks
           position: number | null
           start_time: number | null
           played_with_previous: boolean | null
+          is_unidentified: boolean
+          artist_id: string | null // Known artist of an unidentified track
+          raw_text: string | null
         }
         Insert: any
         Update: any
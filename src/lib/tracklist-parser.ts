@@ -0,0 +1,373 @@
+import type { RawTrack } from './supabase/types';
+
+/**
+ * Shared tracklist parser for free-text tracklists (YouTube/SoundCloud descriptions, pinned comments)
+ * Handles the common conventions DJs and uploaders use:
+ *   00:00 / 1:02:03 / [12:34] / (12:34) timestamps, at the start or end of a line
+ *   01. / 1) / #1 track numbering
+ *   Artist - Title with hyphen, en dash or em dash separators, or "Title by Artist"
+ *   ID - ID unidentified tracks
+ *   w/ overlaps (track played on top of the previous one)
+ *   (X Remix) version and [Label] suffixes
+ *   "A vs. B" mashups
+ */
+
+export interface ParsedTrackLine {
+  artist: string | null;
+  title: string | null;
+  timestamp: number | null;    // Seconds from the start of the mix
+  number: number | null;       // Track number as written in the line (01., #3), not the computed position
+  version: string | null;      // Contents of a (… Remix/Edit/Mix) suffix
+  label: string | null;        // Contents of a trailing [Label] suffix
+  artists: string[];           // Individual artists, split on "vs." for mashups
+  isUnidentified: boolean;     // "ID - ID", "Artist - ID" or "Unknown" placeholder
+  isMashup: boolean;
+  playedWithPrevious: boolean; // "w/" overlap with the previous track
+  confidence: number;          // How sure we are this line is a track (0-1)
+}
+
+export interface TrackCandidate {
+  track: RawTrack;
+  parsed: ParsedTrackLine;
+  confidence: number;
+}
+
+export interface TracklistParseOptions {
+  minConfidence?: number; // Drop lines below this confidence (default DEFAULT_MIN_CONFIDENCE)
+}
+
+/**
+ * Lines scoring below this are dropped by default
+ * Keeps numbered title-only lines ("01. Untitled", 0.4) and drops unnumbered lines that read like prose
+ */
+export const DEFAULT_MIN_CONFIDENCE = 0.4;
+
+// Shorter lines can't hold both an artist and a title ("1. ID" is the shortest useful line)
+const MIN_LINE_LENGTH = 5;
+
+// Hyphen, en dash, em dash and minus surrounded by whitespace
+const SEPARATOR = /\s+[-–—−]\s+/;
+
+// 1:02:03, 12:34, 0:00 - minutes may run past 59 when hours are omitted (75:30)
+const TIME = '(\\d{1,3}):(\\d{2})(?::(\\d{2}))?';
+const LEADING_TIMESTAMP = new RegExp(`^[\\[(]?${TIME}[\\])]?(?:\\s*[-–—|:.]\\s*|\\s+)`);
+const TRAILING_TIMESTAMP = new RegExp(`\\s*[\\[(]?${TIME}[\\])]?$`);
+const LEADING_NUMBER = /^(?:#(\d{1,3})[.)]?\s|(\d{1,3})(?:[.)]|\s*[-–—]\s))\s*/;
+
+const VERSION_SUFFIX = /\(([^()]*\b(?:remix|edit|mix|rework|bootleg|dub|vip|version|remaster(?:ed)?|flip|refix|re-?edit)\b[^()]*)\)/i;
+const LABEL_SUFFIX = /\s*\[([^\[\]]+)\]\s*$/;
+const MASHUP = /\s+vs\.?\s+/i;
+const OVERLAP_PREFIX = /^w\/\s*/i;
+const INLINE_OVERLAP = /\s+w\/\s+/i;
+// "ID", "I.D.", "???", "Unknown", "Unknown Artist" - what tracklists use for tracks nobody has identified yet
+const PLACEHOLDER = /^(?:id|i\.d\.?|\?+|unknown(?:\s+(?:track|artist|title|id))?|tba|tbc)$/i;
+
+// Lines that match track-ish patterns but are promo/social text
+const NOISE = /(https?:\/\/|www\.|subscribe|follow (?:me|us)|instagram|facebook|twitter|tiktok|spotify\.com|bandcamp\.com|tickets?\b|merch)/i;
+
+// Description prose that happens to contain a dash ("Recorded live at Printworks - thanks to everyone who came!")
+const PROSE_PHRASE = /\b(?:thanks? (?:to|for)|thank you|recorded (?:live|at|in)|filmed (?:live|at|in)|tune in|out now|available (?:now|on)|check out|link in bio|full set|tracklist)\b/i;
+// Lowercase function words - titles are usually capitalized, sentences aren't
+const PROSE_WORDS = new Set(['a', 'at', 'to', 'the', 'for', 'of', 'on', 'in', 'from', 'who', 'was', 'were', 'is', 'are', 'we', 'our', 'my', 'your', 'this', 'that', 'every', 'all']);
+
+/**
+ * Parse a block of text into raw track candidates, one per track line
+ * Positions are assigned in order of appearance; "w/" overlaps get their own position
+ */
+export function parseTracklistText(
+  text: string,
+  rawMixId: string,
+  source: string,
+  options: TracklistParseOptions = {}
+): TrackCandidate[] {
+  const { minConfidence = DEFAULT_MIN_CONFIDENCE } = options;
+  const candidates: TrackCandidate[] = [];
+  let position = 1;
+
+  for (const line of text.split(/\r?\n/)) {
+    const trimmedLine = line.trim();
+    if (!isTrackLine(trimmedLine)) continue;
+
+    // "Artist - Title w/ Artist2 - Title2" lists two tracks played together
+    const segments = splitOverlaps(trimmedLine);
+
+    for (const [index, segment] of segments.entries()) {
+      const parsed = parseTrackLine(index > 0 ? `w/ ${segment}` : segment);
+      if (!parsed || parsed.confidence < minConfidence) continue;
+
+      candidates.push({
+        track: {
+          id: '', // Will be generated by database
+          raw_mix_id: rawMixId,
+          line_text: segments.length > 1 ? segment : trimmedLine,
+          position,
+          timestamp_seconds: parsed.timestamp,
+          raw_artist: parsed.artist,
+          raw_title: parsed.title,
+          source,
+          created_at: new Date().toISOString(),
+        },
+        parsed,
+        confidence: parsed.confidence,
+      });
+      position++;
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Check if a line looks like a track listing
+ */
+export function isTrackLine(line: string): boolean {
+  if (!line || line.length < MIN_LINE_LENGTH || NOISE.test(line)) return false;
+
+  const patterns = [
+    LEADING_NUMBER,          // 01. / 1) / #1
+    LEADING_TIMESTAMP,       // 00:00 / [00:00] at start
+    TRAILING_TIMESTAMP,      // ... 12:34 at end
+    SEPARATOR,               // Artist - Title
+    OVERLAP_PREFIX,          // w/ Artist - Title
+  ];
+
+  if (!patterns.some(pattern => pattern.test(line))) return false;
+
+  // Something meaningful has to be left once numbering and timestamps are stripped
+  const content = stripPosition(line).text.replace(OVERLAP_PREFIX, '').trim();
+  return /[\p{L}\p{N}?]/u.test(content) && content.length >= 2;
+}
+
+/**
+ * Parse a single track line into artist, title, timestamp and suffix details
+ * Returns null if nothing track-like is left after stripping numbering and timestamps
+ */
+export function parseTrackLine(line: string): ParsedTrackLine | null {
+  let { text, timestamp, number } = stripPosition(line.trim());
+
+  let playedWithPrevious = false;
+  if (OVERLAP_PREFIX.test(text)) {
+    playedWithPrevious = true;
+    text = text.replace(OVERLAP_PREFIX, '');
+  }
+
+  // Timestamp/number can also follow the overlap marker ("w/ 12:34 Artist - Title")
+  if (timestamp === null || number === null) {
+    const inner = stripPosition(text);
+    text = inner.text;
+    timestamp = timestamp ?? inner.timestamp;
+    number = number ?? inner.number;
+  }
+
+  text = text.trim();
+  if (!text) return null;
+
+  // [Label] only counts as a label at the very end of the line
+  let label: string | null = null;
+  const labelMatch = text.match(LABEL_SUFFIX);
+  if (labelMatch && labelMatch.index! > 0) {
+    label = labelMatch[1].trim();
+    text = text.slice(0, labelMatch.index).trim();
+  }
+
+  const { artist, title, splitBy } = splitArtistTitle(text);
+
+  const versionMatch = title?.match(VERSION_SUFFIX);
+  const isMashup = MASHUP.test(artist || '') || MASHUP.test(title || '');
+  const artists = artist
+    ? artist.split(MASHUP).map(name => name.trim()).filter(Boolean)
+    : [];
+  const isUnidentified = isUnidentifiedTrack(artist, title);
+
+  return {
+    artist,
+    title,
+    timestamp,
+    number,
+    version: versionMatch ? versionMatch[1].trim() : null,
+    label,
+    artists,
+    isUnidentified,
+    isMashup,
+    playedWithPrevious,
+    confidence: scoreLine({
+      artist,
+      title,
+      timestamp,
+      number,
+      label,
+      splitBy,
+      length: line.length,
+      isProse: looksLikeProse(artist, title),
+    }),
+  };
+}
+
+/**
+ * Check if an artist or title is a placeholder for something unknown ("ID", "???", "Unknown")
+ * Version suffixes don't count - "ID (Artist Remix)" is still an unknown track
+ */
+export function isPlaceholder(value: string | null | undefined): boolean {
+  if (!value) return false;
+  return PLACEHOLDER.test(value.replace(/\s*[\[(][^\])]*[\])]/g, '').trim());
+}
+
+/**
+ * Check if a track is unidentified: "ID - ID", "Artist - ID", or a bare "ID"/"Unknown"
+ * The artist may still be known, so "Artist - ID" keeps its artist
+ */
+export function isUnidentifiedTrack(artist: string | null | undefined, title: string | null | undefined): boolean {
+  return title ? isPlaceholder(title) : isPlaceholder(artist);
+}
+
+/**
+ * Strip leading numbering and leading/trailing timestamps, in either order
+ */
+function stripPosition(line: string): { text: string; timestamp: number | null; number: number | null } {
+  let text = line;
+  let timestamp: number | null = null;
+  let number: number | null = null;
+
+  // Numbering and timestamps appear in both orders ("01. 00:00 ..." and "00:00 01. ...")
+  for (let pass = 0; pass < 2; pass++) {
+    const timestampMatch = timestamp === null ? text.match(LEADING_TIMESTAMP) : null;
+    if (timestampMatch) {
+      timestamp = timestampFromMatch(timestampMatch);
+      text = text.slice(timestampMatch[0].length);
+      continue;
+    }
+
+    const numberMatch = number === null ? text.match(LEADING_NUMBER) : null;
+    if (numberMatch) {
+      number = parseInt(numberMatch[1] || numberMatch[2]);
+      text = text.slice(numberMatch[0].length);
+    }
+  }
+
+  if (timestamp === null) {
+    const trailingMatch = text.match(TRAILING_TIMESTAMP);
+    // Don't treat a title that is only a time ("12:34") as a trailing timestamp
+    if (trailingMatch && trailingMatch.index! > 0) {
+      timestamp = timestampFromMatch(trailingMatch);
+      text = text.slice(0, trailingMatch.index);
+    }
+  }
+
+  return { text: text.trim(), timestamp, number };
+}
+
+/**
+ * Split a cleaned line into artist and title
+ */
+function splitArtistTitle(text: string): {
+  artist: string | null;
+  title: string | null;
+  splitBy: 'dash' | 'by' | null;
+} {
+  // Mashups written as "A - Title A vs. B - Title B" have one separator per side
+  const mashupSides = text.split(MASHUP);
+  if (mashupSides.length > 1 && mashupSides.every(side => SEPARATOR.test(side))) {
+    const parts = mashupSides.map(side => splitOnFirstSeparator(side));
+    return {
+      artist: parts.map(part => part.artist).join(' vs. '),
+      title: parts.map(part => part.title).join(' vs. '),
+      splitBy: 'dash',
+    };
+  }
+
+  if (SEPARATOR.test(text)) {
+    return { ...splitOnFirstSeparator(text), splitBy: 'dash' };
+  }
+
+  // "Title by Artist" is common on YouTube
+  const bySplit = text.split(/\s+by\s+/i);
+  if (bySplit.length === 2 && bySplit[0] && bySplit[1]) {
+    return { artist: bySplit[1].trim(), title: bySplit[0].trim(), splitBy: 'by' };
+  }
+
+  // No clear artist/title split, treat the whole line as title
+  return { artist: null, title: text, splitBy: null };
+}
+
+/**
+ * Split on the first separator - titles often contain dashes of their own
+ */
+function splitOnFirstSeparator(text: string): { artist: string; title: string } {
+  const match = text.match(SEPARATOR)!;
+  return {
+    artist: text.slice(0, match.index).trim(),
+    title: text.slice(match.index! + match[0].length).trim(),
+  };
+}
+
+/**
+ * Split "A - B w/ C - D" into its overlapping tracks
+ */
+function splitOverlaps(line: string): string[] {
+  const segments = line.split(INLINE_OVERLAP).map(segment => segment.trim()).filter(Boolean);
+  // Only split when every segment is a full track, otherwise "w/" is part of a title
+  return segments.length > 1 && segments.every(segment => SEPARATOR.test(segment)) ? segments : [line];
+}
+
+/**
+ * Score how confident we are that a line is a real track (0-1)
+ */
+function scoreLine(line: {
+  artist: string | null;
+  title: string | null;
+  timestamp: number | null;
+  number: number | null;
+  label: string | null;
+  splitBy: 'dash' | 'by' | null;
+  length: number;
+  isProse: boolean;
+}): number {
+  let confidence = 0.3;
+
+  if (line.splitBy === 'dash') confidence += 0.35;
+  else if (line.splitBy === 'by') confidence += 0.2;
+
+  if (line.timestamp !== null) confidence += 0.2;
+  if (line.number !== null) confidence += 0.1;
+  if (line.label) confidence += 0.05;
+
+  // Very long lines are usually prose that happens to contain a dash
+  if (line.length > 150) confidence -= 0.3;
+  else if (line.length > 100) confidence -= 0.1;
+
+  // Without a timestamp or numbering, only the dash says it's a track
+  if (line.timestamp === null && line.number === null) {
+    // Title-only lines are weak evidence
+    if (!line.artist) confidence -= 0.1;
+    // Sentences from the description that happen to contain a dash
+    if (line.isProse) confidence -= 0.35;
+  }
+
+  return Math.max(0, Math.min(1, Math.round(confidence * 100) / 100));
+}
+
+/**
+ * Check if an artist/title split reads like a sentence rather than a track
+ */
+function looksLikeProse(artist: string | null, title: string | null): boolean {
+  const text = [artist, title].filter(Boolean).join(' ');
+  if (PROSE_PHRASE.test(text)) return true;
+
+  const words = text.split(/\s+/);
+  if (words.filter(word => PROSE_WORDS.has(word)).length >= 3) return true;
+
+  // Titles rarely end a sentence ("Hey Ya!" does, but it's short)
+  return !!title && /[.!]$/.test(title) && title.split(/\s+/).length >= 4;
+}
+
+/**
+ * Convert a TIME regex match (groups 1-3) to seconds
+ */
+function timestampFromMatch(match: RegExpMatchArray): number {
+  const [first, second, third] = [match[1], match[2], match[3]].map(part => (part ? parseInt(part) : undefined));
+
+  // With three groups it's h:mm:ss, otherwise m:ss
+  return third !== undefined
+    ? first! * 3600 + second! * 60 + third
+    : first! * 60 + second!;
+}
@@ -0,0 +1,167 @@
+import { getServiceClient } from './supabase/service';
+
+/**
+ * Tracklist overlap similarity between production mixes, computed from mix_tracks
+ * Catches back-to-back re-uploads, radio show repeats and artists replaying their own sets
+ */
+
+// A tracklist is a probable duplicate when it overlaps this much and shares enough tracks to be meaningful
+export const NEAR_IDENTICAL_TRACKLIST = {
+  MIN_JACCARD: 0.8,
+  MIN_SHARED_TRACKS: 5,
+} as const;
+
+export interface TracklistSimilarity {
+  mixId: string;
+  title: string;
+  sharedTracks: number;   // Distinct tracks in both mixes
+  trackCount: number;     // Distinct tracks in the other mix
+  jaccard: number;        // shared / union (0-1)
+  orderedOverlap: number; // Longest common subsequence / shorter tracklist (0-1)
+  nearIdentical: boolean;
+}
+
+export interface SimilarityOptions {
+  limit?: number;
+  minSharedTracks?: number;
+  excludeMixId?: string;
+}
+
+/**
+ * Find mixes whose tracklists overlap with an existing mix
+ */
+export async function findSimilarMixes(
+  mixId: string,
+  options: SimilarityOptions = {}
+): Promise<TracklistSimilarity[]> {
+  const trackIds = await getOrderedTrackIds(mixId);
+  return findMixesSharingTracks(trackIds, { ...options, excludeMixId: mixId });
+}
+
+/**
+ * Find mixes whose tracklists overlap with an ordered list of track IDs
+ * Used during canonicalization, before the new mix has any mix_tracks rows
+ */
+export async function findMixesSharingTracks(
+  trackIds: string[],
+  options: SimilarityOptions = {}
+): Promise<TracklistSimilarity[]> {
+  const { limit = 20, minSharedTracks = 2, excludeMixId } = options;
+  if (new Set(trackIds).size < minSharedTracks) return [];
+
+  const supabase = getServiceClient();
+  const { data, error } = await supabase.rpc('find_mixes_sharing_tracks', {
+    p_track_ids: Array.from(new Set(trackIds)),
+    p_exclude_mix_id: excludeMixId || null,
+    p_min_shared: minSharedTracks,
+    p_limit: limit,
+  });
+
+  if (error) {
+    throw new Error(`Failed to find mixes sharing tracks: ${error.message}`);
+  }
+
+  const matches = (data || []) as Array<{
+    mix_id: string;
+    title: string;
+    shared_tracks: number;
+    track_count: number;
+    jaccard: number | string;
+  }>;
+  if (matches.length === 0) return [];
+
+  const tracklists = await getOrderedTrackIdsForMixes(matches.map(match => match.mix_id));
+
+  return matches.map(match => {
+    const jaccard = Number(match.jaccard);
+    return {
+      mixId: match.mix_id,
+      title: match.title,
+      sharedTracks: match.shared_tracks,
+      trackCount: match.track_count,
+      jaccard,
+      orderedOverlap: orderedOverlap(trackIds, tracklists.get(match.mix_id) || []),
+      nearIdentical: isNearIdentical(jaccard, match.shared_tracks),
+    };
+  });
+}
+
+/**
+ * Whether an overlap is high enough to treat two mixes as the same set
+ */
+export function isNearIdentical(jaccard: number, sharedTracks: number): boolean {
+  return jaccard >= NEAR_IDENTICAL_TRACKLIST.MIN_JACCARD
+    && sharedTracks >= NEAR_IDENTICAL_TRACKLIST.MIN_SHARED_TRACKS;
+}
+
+/**
+ * Jaccard similarity of two tracklists (distinct tracks, order ignored)
+ */
+export function jaccardSimilarity(a: string[], b: string[]): number {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  const shared = Array.from(setA).filter(id => setB.has(id)).length;
+  const union = setA.size + setB.size - shared;
+
+  return union > 0 ? shared / union : 0;
+}
+
+/**
+ * How much of the shorter tracklist appears in the same order in the other one
+ * Uses the longest common subsequence, so a re-upload with a skipped track still scores high
+ */
+export function orderedOverlap(a: string[], b: string[]): number {
+  const shorter = Math.min(a.length, b.length);
+  if (shorter === 0) return 0;
+
+  // Single-row LCS table
+  const previous = new Array<number>(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = 0;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = a[i - 1] === b[j - 1]
+        ? diagonal + 1
+        : Math.max(previous[j], previous[j - 1]);
+      diagonal = above;
+    }
+  }
+
+  return previous[b.length] / shorter;
+}
+
+/**
+ * Get a mix's track IDs in tracklist order
+ */
+async function getOrderedTrackIds(mixId: string): Promise<string[]> {
+  const tracklists = await getOrderedTrackIdsForMixes([mixId]);
+  return tracklists.get(mixId) || [];
+}
+
+/**
+ * Get track IDs in tracklist order for several mixes in one query
+ */
+async function getOrderedTrackIdsForMixes(mixIds: string[]): Promise<Map<string, string[]>> {
+  const supabase = getServiceClient();
+  const tracklists = new Map<string, string[]>();
+
+  // Unidentified tracks have no track_id and say nothing about overlap
+  const { data, error } = await supabase
+    .from('mix_tracks')
+    .select('mix_id, track_id, position')
+    .in('mix_id', mixIds)
+    .not('track_id', 'is', null)
+    .order('position', { ascending: true, nullsFirst: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch mix tracks: ${error.message}`);
+  }
+
+  for (const row of data || []) {
+    const tracklist = tracklists.get(row.mix_id) || [];
+    tracklist.push(row.track_id);
+    tracklists.set(row.mix_id, tracklist);
+  }
+
+  return tracklists;
+}
@@ -0,0 +1,138 @@
+import { loadGazetteer, normalizePlaceName } from './geocoding/gazetteer';
+
+/**
+ * Free-form venue extraction from "live at <place>, <city/country>" phrasing
+ * e.g. "Artist live at Château de Fontainebleau, France" → Château de Fontainebleau (France)
+ * Catches venues no rule knows about, so mentions are proposals for a moderator to verify
+ */
+
+export interface VenueMention {
+  name: string;
+  city?: string;
+  country?: string;
+  confidence: number; // 0-1 scale, kept below rule-based venue confidence
+  source: 'title' | 'description';
+  matchedText: string;
+}
+
+const CONFIDENCE = {
+  title: 0.5,
+  description: 0.45,
+  knownLocation: 0.1, // Added when the city or country is in the gazetteer
+};
+
+// "live at", "recorded at", "live from", "live @", or a bare " @ "
+const VENUE_PHRASE = /(?:\b(?:live|recorded|filmed|streamed|broadcast(?:ing)?)\s+(?:at|from|in|@)|\blive\s*@|(?:^|\s)@)\s*/i;
+
+// Where the place and its location end
+const PHRASE_END = /\s+[|–—-]\s+|\s*[|([\]{}]|\s+(?:for|by|with|feat\.?|ft\.?|b2b|presents)\s+|\s+\/\/?\s+|[\n!?]/i;
+
+// Dates, years and set descriptions trailing a place ("Printworks 2019", "Fabric 14.07.2022 full set")
+const TRAILING_NOISE = /\s+(?:\d{1,2}[./-]\d{1,2}[./-]\d{2,4}|(?:19|20)\d{2}|full\s+set|dj\s+set|live\s+set|sunrise\s+set|sunset\s+set)\b.*$/i;
+
+const MAX_PLACE_WORDS = 6;
+
+/**
+ * Find a venue mention in a title, then in the description
+ * Places matching an exclude name (detected festivals, the channel) aren't venues and are skipped
+ */
+export function extractVenueMention(
+  title: string,
+  description: string = '',
+  options: { exclude?: string[] } = {}
+): VenueMention | null {
+  const exclude = new Set((options.exclude || []).map(name => normalizePlaceName(name.replace(TRAILING_NOISE, ''))));
+
+  const fromTitle = findMention(title, 'title', exclude);
+  if (fromTitle) return fromTitle;
+
+  for (const line of description.split('\n')) {
+    const mention = findMention(line, 'description', exclude);
+    if (mention) return mention;
+  }
+
+  return null;
+}
+
+/**
+ * Read the place and location following a venue phrase in one line of text
+ */
+function findMention(
+  text: string,
+  source: VenueMention['source'],
+  exclude: Set<string>
+): VenueMention | null {
+  if (!text) return null;
+
+  const phrase = text.match(VENUE_PHRASE);
+  if (!phrase || phrase.index === undefined) return null;
+
+  const rest = text.slice(phrase.index + phrase[0].length);
+  const end = rest.search(PHRASE_END);
+  const captured = (end >= 0 ? rest.slice(0, end) : rest).replace(TRAILING_NOISE, '').trim();
+  if (!captured) return null;
+
+  const gazetteer = loadGazetteer();
+  const parts = captured.split(',').map(part => part.trim()).filter(Boolean);
+  let place = parts.shift() || '';
+
+  // "Grand Palais in Paris" - split off a known city or country
+  const inLocation = place.match(/^(.+?)\s+in\s+(.+)$/i);
+  if (inLocation && (gazetteer.findCities(inLocation[2]).length > 0 || gazetteer.findCountry(inLocation[2]))) {
+    place = inLocation[1];
+    parts.unshift(inLocation[2]);
+  }
+
+  if (!isPlausiblePlace(place) || exclude.has(normalizePlaceName(place))) return null;
+
+  // "Live from Berlin" names a city, not a venue
+  if (gazetteer.findCities(place).length > 0 || gazetteer.findCountry(place)) return null;
+
+  const mention: VenueMention = {
+    name: place,
+    confidence: CONFIDENCE[source],
+    source,
+    matchedText: `${phrase[0].trim()} ${captured}`.trim(),
+  };
+
+  let known = false;
+  let countryCode: string | undefined;
+  for (const part of parts) {
+    const country = gazetteer.findCountry(part);
+    if (country && !mention.country) {
+      mention.country = part;
+      countryCode = country.code;
+      known = true;
+    } else if (!mention.city && !country) {
+      mention.city = part;
+      known = known || gazetteer.findCities(part).length > 0;
+    }
+  }
+
+  // "Hï Ibiza, Spain" - the city is part of the venue name. Like the geocoder, this is only trusted when
+  // the country confirms it: "Club Nice" isn't in Nice
+  if (!mention.city && countryCode) {
+    const [city] = gazetteer.findCityInName(place, countryCode);
+    if (city) {
+      mention.city = city.name;
+      known = true;
+    }
+  }
+
+  if (known) {
+    mention.confidence = Math.round((mention.confidence + CONFIDENCE.knownLocation) * 100) / 100;
+  }
+
+  return mention;
+}
+
+/**
+ * A place name starts with a capital or digit, has a few words and isn't just punctuation
+ */
+function isPlausiblePlace(place: string): boolean {
+  if (place.length < 2 || place.length > 60) return false;
+  if (!/^[\p{Lu}\d]/u.test(place)) return false;
+  if (!/\p{L}/u.test(place)) return false;
+
+  return place.split(/\s+/).length <= MAX_PLACE_WORDS;
+}
@@ -0,0 +1,164 @@
+import { getServiceClient } from './supabase/service';
+import { contextVenueService } from './contextVenueService';
+import { logger } from '../services/logger';
+import type { VenueProposal } from './supabase/types';
+
+/**
+ * Moderator review of free-form venue mentions (venue_proposals)
+ * Approving creates (or reuses) the venue, marks it verified and links it to the canonical mix
+ */
+
+export type VenueVerdict = 'approve' | 'reject';
+
+export interface VenueReviewResult {
+  proposalId: string;
+  verdict: VenueVerdict;
+  venueId?: string;
+  venueCreated?: boolean;
+  mixId?: string;
+  linked: boolean; // Whether the venue was linked to the canonical mix
+  note?: string;
+}
+
+export class VenueReviewService {
+  private supabase = getServiceClient();
+
+  /**
+   * Get a page of pending proposals, highest confidence first
+   */
+  async getPendingProposals(limit: number = 20, offset: number = 0): Promise<VenueProposal[]> {
+    const { data, error } = await this.supabase
+      .from('venue_proposals')
+      .select('*')
+      .eq('status', 'pending')
+      .order('confidence', { ascending: false })
+      .order('created_at', { ascending: true })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch venue proposals: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Count proposals still waiting for a moderator
+   */
+  async countPendingProposals(): Promise<number> {
+    const { count, error } = await this.supabase
+      .from('venue_proposals')
+      .select('*', { count: 'exact', head: true })
+      .eq('status', 'pending');
+
+    if (error) {
+      throw new Error(`Failed to count venue proposals: ${error.message}`);
+    }
+
+    return count || 0;
+  }
+
+  /**
+   * Look up a pending proposal by ID
+   */
+  async getPendingProposal(proposalId: string): Promise<VenueProposal | null> {
+    const { data, error } = await this.supabase
+      .from('venue_proposals')
+      .select('*')
+      .eq('id', proposalId)
+      .eq('status', 'pending')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch venue proposal: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Record a moderator verdict on a venue proposal
+   * A venue already on the mix (e.g. from a rule) is kept
+   */
+  async submitReview(
+    proposal: VenueProposal,
+    verdict: VenueVerdict,
+    options: { reviewerId?: string; notes?: string } = {}
+  ): Promise<VenueReviewResult> {
+    const result: VenueReviewResult = {
+      proposalId: proposal.id,
+      verdict,
+      linked: false,
+    };
+
+    // Apply the verdict to production first so a failure leaves the proposal pending
+    if (verdict === 'approve') {
+      const { venue, created } = await contextVenueService.ensureVenue({
+        name: proposal.name,
+        city: proposal.city || undefined,
+        country: proposal.country || undefined,
+        confidence: proposal.confidence,
+        reason_codes: [...proposal.reason_codes, 'moderator_review'],
+      });
+      await contextVenueService.verifyVenue(venue.id, options.reviewerId || null);
+
+      result.venueId = venue.id;
+      result.venueCreated = created;
+
+      const mixId = proposal.mix_id || await this.getCanonicalMixId(proposal.raw_mix_id);
+      if (mixId) {
+        await contextVenueService.updateMixVenue(mixId, venue.id, { onlyIfEmpty: true });
+        result.mixId = mixId;
+        result.linked = true;
+      } else {
+        result.note = 'Raw mix has not been canonicalized yet, venue was not linked to a mix';
+        logger.warn(`Raw mix ${proposal.raw_mix_id} not canonicalized, skipping mix venue link`, {
+          rawMixId: proposal.raw_mix_id,
+        });
+      }
+    }
+
+    const { error } = await this.supabase
+      .from('venue_proposals')
+      .update({
+        status: verdict === 'approve' ? 'approved' : 'rejected',
+        venue_id: result.venueId || null,
+        mix_id: result.mixId || proposal.mix_id,
+        reviewed_by: options.reviewerId || null,
+        reviewed_at: new Date().toISOString(),
+        review_notes: options.notes || result.note || null,
+      })
+      .eq('id', proposal.id);
+
+    if (error) {
+      throw new Error(`Failed to record venue review: ${error.message}`);
+    }
+
+    logger.info(`Reviewed venue proposal ${proposal.id}: ${verdict}`, {
+      rawMixId: proposal.raw_mix_id,
+      metadata: { name: proposal.name, venueId: result.venueId, mixId: result.mixId },
+    });
+
+    return result;
+  }
+
+  /**
+   * Get the production mix a raw mix was canonicalized into
+   */
+  private async getCanonicalMixId(rawMixId: string): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .from('raw_mixes')
+      .select('canonicalized_mix_id')
+      .eq('id', rawMixId)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to fetch raw mix: ${error.message}`);
+    }
+
+    return data?.canonicalized_mix_id || null;
+  }
+}
+
+// Export singleton instance
+export const venueReviewService = new VenueReviewService();
@@ -1,4 +1,5 @@
 import type { RawMix, RawTrack } from './supabase/types';
+import { describeError } from './job-failures';
 
 /**
  * Base interface that all ingestion workers must implement
@@ -51,9 +52,14 @@ export interface SourceConfig {
   searchTerms?: string[];   // 1001Tracklists search terms
   urls?: string[];          // Direct URLs to scrape
   artistNames?: string[];   // Artist names for discovery worker
+  users?: string[];         // Mixcloud usernames
 }
 
-export type WorkerType = 'soundcloud' | 'youtube' | '1001tracklists' | 'artist-discovery';
+/**
+ * Worker type identifier - valid values are whatever is registered in the worker registry
+ * (see worker-registry.ts), e.g. 'soundcloud', 'youtube', '1001tracklists', 'artist-discovery', 'mixcloud'
+ */
+export type WorkerType = string;
 
 /**
  * Result of a worker run
@@ -63,6 +69,8 @@ export interface WorkerResult {
   mixesFound: number;
   mixesAdded: number;
   mixesSkipped: number;
+  tracksParsed: number; // raw_tracks rows inserted for newly added mixes
+  rawMixIds: string[]; // raw_mixes rows inserted by this run, for the canonicalization job that follows
   errors: string[];
   duration: number; // milliseconds
 }
@@ -94,6 +102,8 @@ export abstract class BaseIngestionWorker implements IngestionWorker {
       mixesFound: 0,
       mixesAdded: 0,
       mixesSkipped: 0,
+      tracksParsed: 0,
+      rawMixIds: [],
       errors: [],
       duration: 0,
     };
@@ -112,14 +122,16 @@ export abstract class BaseIngestionWorker implements IngestionWorker {
       for (const rawMix of rawMixes) {
         try {
           // Check for duplicates and save
-          const saved = await this.saveMixIfNotDuplicate(rawMix);
-          if (saved) {
+          const savedMixId = await this.saveMixIfNotDuplicate(rawMix);
+          if (savedMixId) {
             result.mixesAdded++;
+            result.rawMixIds.push(savedMixId);
+            result.tracksParsed += await this.saveTracklist(savedMixId, rawMix);
           } else {
             result.mixesSkipped++;
           }
         } catch (err) {
-          const error = `Failed to process mix ${rawMix.source_url}: ${err}`;
+          const error = `Failed to process mix ${rawMix.source_url}: ${describeError(err)}`;
           result.errors.push(error);
           console.error(error);
         }
@@ -133,7 +145,7 @@ export abstract class BaseIngestionWorker implements IngestionWorker {
       result.duration = Date.now() - startTime;
       
       if (result.success) {
-        console.log(`✅ ${this.name} completed: ${result.mixesAdded} added, ${result.mixesSkipped} skipped`);
+        console.log(`✅ ${this.name} completed: ${result.mixesAdded} added, ${result.mixesSkipped} skipped, ${result.tracksParsed} tracks parsed`);
       } else if (!hasContent && !hasErrors) {
         console.log(`⚠️ ${this.name} completed but found no content: 0 mixes found`);
       } else {
@@ -141,7 +153,7 @@ export abstract class BaseIngestionWorker implements IngestionWorker {
       }
       
     } catch (err) {
-      const error = `${this.name} worker failed: ${err}`;
+      const error = `${this.name} worker failed: ${describeError(err)}`;
       result.errors.push(error);
       result.duration = Date.now() - startTime;
       console.error(error);
@@ -152,8 +164,9 @@ export abstract class BaseIngestionWorker implements IngestionWorker {
   
   /**
    * Save a raw mix if it's not a duplicate
+   * @returns The inserted raw mix ID, or null if the mix was skipped as a duplicate
    */
-  protected async saveMixIfNotDuplicate(rawMix: RawMix): Promise<boolean> {
+  protected async saveMixIfNotDuplicate(rawMix: RawMix): Promise<string | null> {
     // Import here to avoid circular dependencies
     const { checkForDuplicateRawMix } = await import('../lib/duplicate-detection');
     const { getServiceClient } = await import('../lib/supabase/service');
@@ -166,7 +179,7 @@ export abstract class BaseIngestionWorker implements IngestionWorker {
     
     if (isDuplicate) {
       console.log(`⏭️  Skipping duplicate mix: ${rawMix.source_url}`);
-      return false;
+      return null;
     }
     
     // Save to raw_mixes table
@@ -189,7 +202,46 @@ export abstract class BaseIngestionWorker implements IngestionWorker {
     }
     
     console.log(`💾 Saved new mix: ${rawMix.raw_title || rawMix.source_url}`);
-    return true;
+    return savedMix.id;
+  }
+
+  /**
+   * Parse the tracklist for a newly saved mix and bulk-insert it into raw_tracks
+   * @returns Number of tracks inserted
+   */
+  protected async saveTracklist(rawMixId: string, rawMix: RawMix): Promise<number> {
+    if (!this.parseTracklist) return 0;
+    
+    try {
+      // Parsers read raw_mix_id from the mix, so hand them the saved ID
+      const tracks = await this.parseTracklist({ ...rawMix, id: rawMixId });
+      if (!tracks || tracks.length === 0) return 0;
+      
+      const { getServiceClient } = await import('../lib/supabase/service');
+      const supabase = getServiceClient();
+      
+      // Remove the id field since it will be auto-generated by the database
+      const rows = tracks.map(({ id, ...track }) => ({
+        ...track,
+        raw_mix_id: rawMixId,
+      }));
+      
+      const { error } = await supabase
+        .from('raw_tracks')
+        .insert(rows);
+      
+      if (error) {
+        console.warn(`Failed to save tracklist for mix ${rawMixId}:`, error.message);
+        return 0;
+      }
+      
+      console.log(`🎶 Saved ${rows.length} tracks for mix`);
+      return rows.length;
+    } catch (err) {
+      // Don't fail the mix - it's already saved and can be re-parsed later
+      console.warn(`Failed to parse tracklist for mix ${rawMixId}: ${err}`);
+      return 0;
+    }
   }
 
   /**
@@ -199,8 +251,7 @@ export abstract class BaseIngestionWorker implements IngestionWorker {
     const { getServiceClient } = await import('../lib/supabase/service');
     const supabase = getServiceClient();
     
-    // Type guard to ensure suggested_contexts is ContextSuggestion[]
-    const suggestions = rawMix.suggested_contexts as any[];
+    const suggestions = rawMix.suggested_contexts;
     if (!Array.isArray(suggestions)) return;
     
     const ruleApplications = suggestions.map(suggestion => ({
@@ -218,6 +269,7 @@ export abstract class BaseIngestionWorker implements IngestionWorker {
       channel_name: (rawMix.raw_metadata as any)?.channelTitle || null,
       channel_id: (rawMix.raw_metadata as any)?.channelId || null,
       requires_approval: suggestion.requires_approval,
+      rule_version: suggestion.rule_version || 1,
       applied_automatically: true
     }));
     
@@ -0,0 +1,126 @@
+import type { BaseIngestionWorker, SourceConfig, WorkerType } from './worker-interface';
+
+/**
+ * Worker registry
+ * Workers register themselves with their type, config schema and capabilities so that
+ * job validation, CLI commands and the job processor all read from one place
+ */
+
+export type WorkerMode = 'backfill' | 'rolling';
+
+/**
+ * What a worker is able to do
+ */
+export interface WorkerCapabilities {
+  hasTracklists: boolean;    // Worker can parse tracklists into raw_tracks
+  supportsBackfill: boolean; // Worker can run historical backfill jobs
+  supportsRolling: boolean;  // Worker can run rolling (recent content) jobs
+  producesMixes: boolean;    // Worker inserts raw_mixes that need canonicalization
+}
+
+/**
+ * How a job's source_id maps onto the worker's SourceConfig
+ */
+export interface WorkerConfigSchema {
+  sourceIdDescription: string; // e.g. "YouTube channel ID, handle or URL"
+  toSourceConfig(sourceId: string): SourceConfig;
+  requiredEnv?: string[];      // Environment variables the worker needs to run
+}
+
+export interface WorkerRegistration {
+  type: WorkerType;
+  name: string;
+  create: () => BaseIngestionWorker;
+  configSchema: WorkerConfigSchema;
+  capabilities: WorkerCapabilities;
+}
+
+export class WorkerRegistry {
+  private registrations = new Map<WorkerType, WorkerRegistration>();
+  private instances = new Map<WorkerType, BaseIngestionWorker>();
+
+  /**
+   * Register a worker type
+   */
+  register(registration: WorkerRegistration): void {
+    if (this.registrations.has(registration.type)) {
+      throw new Error(`Worker type already registered: ${registration.type}`);
+    }
+
+    this.registrations.set(registration.type, registration);
+  }
+
+  /**
+   * Check whether a worker type is registered
+   */
+  has(type: string): boolean {
+    return this.registrations.has(type);
+  }
+
+  /**
+   * Get a registration, or undefined if the type is unknown
+   */
+  get(type: string): WorkerRegistration | undefined {
+    return this.registrations.get(type);
+  }
+
+  /**
+   * Get a registration, throwing if the type is unknown
+   */
+  require(type: string): WorkerRegistration {
+    const registration = this.registrations.get(type);
+    if (!registration) {
+      throw new Error(`Unknown worker type: ${type}`);
+    }
+    return registration;
+  }
+
+  /**
+   * All registrations in registration order
+   */
+  list(): WorkerRegistration[] {
+    return Array.from(this.registrations.values());
+  }
+
+  /**
+   * All registered worker types
+   */
+  types(): WorkerType[] {
+    return Array.from(this.registrations.keys());
+  }
+
+  /**
+   * Check whether a worker type supports the given job mode
+   */
+  supportsMode(type: string, mode: WorkerMode): boolean {
+    const registration = this.registrations.get(type);
+    if (!registration) return false;
+
+    return mode === 'backfill'
+      ? registration.capabilities.supportsBackfill
+      : registration.capabilities.supportsRolling;
+  }
+
+  /**
+   * Get a worker instance, creating it on first use
+   * Workers are created lazily because some require API keys at construction time
+   */
+  getWorker(type: string): BaseIngestionWorker {
+    const existing = this.instances.get(type);
+    if (existing) return existing;
+
+    const worker = this.require(type).create();
+    this.instances.set(type, worker);
+    return worker;
+  }
+}
+
+// Export singleton instance
+export const workerRegistry = new WorkerRegistry();
+
+/**
+ * Register a worker with the shared registry (called by each worker module)
+ */
+export function registerWorker(registration: WorkerRegistration): void {
+  workerRegistry.register(registration);
+}
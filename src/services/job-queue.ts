@@ -1,12 +1,14 @@
-import type { IngestionJob, IngestionLog } from '../lib/supabase/types';
+import type { IngestionJob, IngestionLog, StructuredError } from '../lib/supabase/types';
+import type { WorkerType } from '../lib/worker-interface';
 import { getServiceClient } from '../lib/supabase/service';
+import { classifyFailure, formatRetryDelay, getRetryDelaySeconds } from '../lib/job-failures';
 
 /**
  * Job queue system for managing ingestion tasks
  */
 
 export interface JobPayload {
-  workerType: 'soundcloud' | 'youtube' | '1001tracklists' | 'canonicalization';
+  workerType: WorkerType | 'canonicalization';
   config?: any; // Source-specific configuration
   [key: string]: any;
 }
@@ -16,6 +18,40 @@ export interface CreateJobOptions {
   payload?: any;
   maxAttempts?: number;
   runAt?: Date; // Schedule for later
+  parentJobId?: string; // Job this one follows, e.g. the ingestion job for a canonicalization job
+  priority?: number; // Higher runs first; defaults from the payload's mode (rolling 10, backfill 0)
+}
+
+// One job in a parent/child chain (see get_job_chain)
+export interface JobChainEntry {
+  id: string;
+  parent_job_id: string | null;
+  worker_type: string;
+  status: IngestionJob['status'];
+  attempts: number;
+  max_attempts: number;
+  failure_class: IngestionJob['failure_class'];
+  error_message: string | null;
+  created_at: string;
+  updated_at: string;
+  depth: number; // 0 for the root job
+}
+
+export interface JobChain {
+  rootJobId: string;
+  status: IngestionJob['status']; // Status of the chain as a whole
+  jobs: JobChainEntry[];
+}
+
+/**
+ * Status of a chain of jobs as a whole
+ * Completed only once every job has; failed once nothing is left to run and any job failed
+ */
+export function summarizeChainStatus(statuses: Array<IngestionJob['status']>): IngestionJob['status'] {
+  if (statuses.every(status => status === 'completed')) return 'completed';
+  if (statuses.every(status => status === 'pending')) return 'pending';
+  if (statuses.some(status => status === 'pending' || status === 'running')) return 'running';
+  return 'failed';
 }
 
 /**
@@ -28,7 +64,15 @@ export class JobQueue {
    * Create a new job
    */
   async createJob(options: CreateJobOptions): Promise<string> {
-    const { workerType, payload = {}, maxAttempts = 3, runAt } = options;
+    const { workerType, payload = {}, maxAttempts = 3, runAt, parentJobId, priority } = options;
+    
+    if (workerType !== 'canonicalization') {
+      // Dynamic import to avoid circular dependencies (workers -> logger -> job-queue)
+      const { workerRegistry } = await import('../workers');
+      if (!workerRegistry.has(workerType)) {
+        throw new Error(`Unknown worker type: ${workerType}`);
+      }
+    }
     
     const jobData: Partial<IngestionJob> = {
       worker_type: workerType,
@@ -36,6 +80,9 @@ export class JobQueue {
       max_attempts: maxAttempts,
       next_run: runAt?.toISOString() || new Date().toISOString(),
       status: 'pending',
+      parent_job_id: parentJobId || null,
+      // Left out when not given so the insert trigger picks one from the mode
+      ...(priority !== undefined ? { priority } : {}),
     };
     
     const { data, error } = await this.supabase
@@ -53,7 +100,7 @@ export class JobQueue {
   }
   
   /**
-   * Get the next job to run
+   * Get the next job to run, highest priority first
    */
   async getNextJob(): Promise<IngestionJob | null> {
     const { data, error } = await this.supabase
@@ -61,6 +108,7 @@ export class JobQueue {
       .select('*')
       .eq('status', 'pending')
       .lte('next_run', new Date().toISOString())
+      .order('priority', { ascending: false })
       .order('created_at', { ascending: true })
       .limit(1)
       .maybeSingle();
@@ -101,6 +149,7 @@ export class JobQueue {
       .from('ingestion_jobs')
       .update({
         status: 'completed',
+        failure_class: null,
         updated_at: new Date().toISOString(),
       })
       .eq('id', jobId);
@@ -118,8 +167,9 @@ export class JobQueue {
   
   /**
    * Mark a job as failed and handle retries
+   * The failure is classified to pick the backoff; permanent and config failures aren't retried
    */
-  async failJob(jobId: string, errorMessage: string): Promise<void> {
+  async failJob(jobId: string, errorMessage: string, errors: StructuredError[] = []): Promise<void> {
     // First, get the current job to check attempts
     const { data: job, error: fetchError } = await this.supabase
       .from('ingestion_jobs')
@@ -133,12 +183,12 @@ export class JobQueue {
     }
     
     const newAttempts = job.attempts + 1;
-    const shouldRetry = newAttempts < job.max_attempts;
+    const classification = classifyFailure(errorMessage, errors);
+    const delaySeconds = getRetryDelaySeconds(classification, newAttempts);
     
-    if (shouldRetry) {
-      // Schedule retry with exponential backoff
-      const backoffMinutes = Math.pow(2, newAttempts) * 5; // 5, 10, 20 minutes
-      const nextRun = new Date(Date.now() + backoffMinutes * 60 * 1000);
+    if (delaySeconds !== null && newAttempts < job.max_attempts) {
+      // Schedule retry with the class's backoff
+      const nextRun = new Date(Date.now() + delaySeconds * 1000);
       
       const { error } = await this.supabase
         .from('ingestion_jobs')
@@ -146,6 +196,7 @@ export class JobQueue {
           status: 'pending',
           attempts: newAttempts,
           error_message: errorMessage,
+          failure_class: classification.failureClass,
           next_run: nextRun.toISOString(),
           updated_at: new Date().toISOString(),
         })
@@ -158,7 +209,7 @@ export class JobQueue {
       
       await this.log(
         jobId, 
-        `Job failed (attempt ${newAttempts}/${job.max_attempts}), retrying in ${backoffMinutes} minutes: ${errorMessage}`, 
+        `Job failed with a ${classification.failureClass} error (attempt ${newAttempts}/${job.max_attempts}), retrying in ${formatRetryDelay(delaySeconds)}: ${errorMessage}`, 
         'warn'
       );
     } else {
@@ -169,6 +220,7 @@ export class JobQueue {
           status: 'failed',
           attempts: newAttempts,
           error_message: errorMessage,
+          failure_class: classification.failureClass,
           updated_at: new Date().toISOString(),
         })
         .eq('id', jobId);
@@ -178,9 +230,13 @@ export class JobQueue {
         return;
       }
       
+      const reason = delaySeconds === null
+        ? `with a ${classification.failureClass} error, not retrying`
+        : `after ${newAttempts} attempts`;
+      
       await this.log(
         jobId, 
-        `Job permanently failed after ${newAttempts} attempts: ${errorMessage}`, 
+        `Job permanently failed ${reason}: ${errorMessage}`, 
         'error'
       );
     }
@@ -195,6 +251,7 @@ export class JobQueue {
       .update({
         status: 'pending',
         error_message: null,
+        failure_class: null,
         next_run: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       })
@@ -207,6 +264,28 @@ export class JobQueue {
     await this.log(jobId, 'Job manually reset to pending', 'info');
   }
   
+  /**
+   * Get the chain of parent and child jobs a job belongs to, with the chain's overall status
+   */
+  async getJobChain(jobId: string): Promise<JobChain | null> {
+    const { data, error } = await this.supabase.rpc('get_job_chain', { p_job_id: jobId });
+    
+    if (error) {
+      throw new Error(`Failed to fetch job chain: ${error.message}`);
+    }
+    
+    const jobs = (data || []) as JobChainEntry[];
+    if (jobs.length === 0) {
+      return null;
+    }
+    
+    return {
+      rootJobId: jobs[0].id,
+      status: summarizeChainStatus(jobs.map(job => job.status)),
+      jobs,
+    };
+  }
+  
   /**
    * Log a message for a job
    */
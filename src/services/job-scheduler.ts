@@ -0,0 +1,283 @@
+import type { JobSchedule } from '../lib/supabase/types';
+import { getServiceClient } from '../lib/supabase/service';
+import { nextCronTime, parseCron } from '../lib/cron';
+import { logger } from './logger';
+
+/**
+ * Recurring job schedules
+ * Each schedule turns into an ingestion job for one source whenever its cron expression comes due.
+ * Several processors can run the scheduler: a due schedule is advanced with a compare-and-set on
+ * next_run_at, so only the processor that advanced it creates the job.
+ */
+
+export interface CreateScheduleOptions {
+  workerType: string;
+  sourceId: string;
+  cron: string;
+  name?: string;                  // Defaults to "<workerType>:<sourceId>"
+  mode?: 'backfill' | 'rolling';  // Default rolling
+  batchSize?: number;             // Default 50
+  maxAttempts?: number;           // Default 3
+}
+
+export interface ScheduleRunSummary {
+  enqueued: number;
+  skipped: number; // Previous job for the source still pending or running
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export class JobScheduler {
+  private supabase = getServiceClient();
+
+  /**
+   * All schedules, by name
+   */
+  async listSchedules(): Promise<JobSchedule[]> {
+    const { data, error } = await this.supabase
+      .from('job_schedules')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch job schedules: ${error.message}`);
+    }
+
+    return (data || []) as JobSchedule[];
+  }
+
+  /**
+   * Create a schedule, due at the cron expression's next match
+   */
+  async addSchedule(options: CreateScheduleOptions): Promise<JobSchedule> {
+    const { workerType, sourceId, cron, mode = 'rolling', batchSize = 50, maxAttempts = 3 } = options;
+
+    // Dynamic import to avoid circular dependencies (workers -> logger -> job-queue)
+    const { workerRegistry } = await import('../workers');
+    if (!workerRegistry.has(workerType)) {
+      throw new Error(`Unknown worker type: ${workerType}`);
+    }
+    if (!workerRegistry.supportsMode(workerType, mode)) {
+      throw new Error(`Worker ${workerType} does not support ${mode} mode`);
+    }
+
+    const nextRunAt = nextCronTime(parseCron(cron));
+
+    const { data, error } = await this.supabase
+      .from('job_schedules')
+      .insert({
+        name: options.name || `${workerType}:${sourceId}`,
+        worker_type: workerType,
+        source_id: sourceId,
+        mode,
+        batch_size: batchSize,
+        cron: cron.trim(),
+        max_attempts: maxAttempts,
+        next_run_at: nextRunAt.toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error(`A schedule already exists for ${workerType} ${sourceId} (${mode}) or with that name`);
+      }
+      throw new Error(`Failed to create job schedule: ${error.message}`);
+    }
+
+    logger.info(`Created job schedule ${data.name} (${data.cron}), next run ${data.next_run_at}`);
+    return data as JobSchedule;
+  }
+
+  /**
+   * Pause or resume a schedule by name or ID
+   * A resumed schedule is next due at its following match, not at the runs it missed while paused
+   */
+  async setScheduleActive(nameOrId: string, active: boolean): Promise<JobSchedule> {
+    const schedule = await this.getSchedule(nameOrId);
+
+    const update: Partial<JobSchedule> = {
+      is_active: active,
+      updated_at: new Date().toISOString(),
+    };
+    if (active) {
+      update.next_run_at = nextCronTime(schedule.cron).toISOString();
+    }
+
+    const { data, error } = await this.supabase
+      .from('job_schedules')
+      .update(update)
+      .eq('id', schedule.id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to ${active ? 'resume' : 'pause'} job schedule: ${error.message}`);
+    }
+
+    return data as JobSchedule;
+  }
+
+  /**
+   * Create jobs for every active schedule that's due
+   */
+  async runDueSchedules(now: Date = new Date()): Promise<ScheduleRunSummary> {
+    const summary: ScheduleRunSummary = { enqueued: 0, skipped: 0 };
+
+    const { data, error } = await this.supabase
+      .from('job_schedules')
+      .select('*')
+      .eq('is_active', true)
+      .lte('next_run_at', now.toISOString())
+      .order('next_run_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch due job schedules: ${error.message}`);
+    }
+
+    for (const schedule of (data || []) as JobSchedule[]) {
+      try {
+        if (!(await this.advanceSchedule(schedule, now))) continue;
+
+        const jobId = await this.enqueueScheduledJob(schedule, now);
+        if (jobId) {
+          summary.enqueued++;
+        } else {
+          summary.skipped++;
+        }
+      } catch (err) {
+        logger.error(`Failed to run job schedule ${schedule.name}`, err as Error, {
+          metadata: { scheduleId: schedule.id }
+        });
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Move a due schedule to its next run; false if another processor already did
+   */
+  private async advanceSchedule(schedule: JobSchedule, now: Date): Promise<boolean> {
+    const nextRunAt = nextCronTime(schedule.cron, now);
+
+    const { data, error } = await this.supabase
+      .from('job_schedules')
+      .update({
+        next_run_at: nextRunAt.toISOString(),
+        updated_at: now.toISOString(),
+      })
+      .eq('id', schedule.id)
+      .eq('next_run_at', schedule.next_run_at)
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to advance job schedule: ${error.message}`);
+    }
+
+    return !!data;
+  }
+
+  /**
+   * Create the job for a due schedule, unless the source's previous job is still pending or running
+   * @returns The new job's ID, or null when the run was skipped
+   */
+  private async enqueueScheduledJob(schedule: JobSchedule, now: Date): Promise<string | null> {
+    const { data: activeJob, error: activeError } = await this.supabase
+      .from('ingestion_jobs')
+      .select('id, status')
+      .eq('worker_type', schedule.worker_type)
+      .eq('job_payload->>source_id', schedule.source_id)
+      .in('status', ['pending', 'running'])
+      .limit(1)
+      .maybeSingle();
+
+    if (activeError) {
+      throw new Error(`Failed to check for active jobs: ${activeError.message}`);
+    }
+
+    if (activeJob) {
+      await this.markSkipped(schedule, now, `job ${activeJob.id} is still ${activeJob.status}`);
+      return null;
+    }
+
+    const { data: job, error } = await this.supabase
+      .from('ingestion_jobs')
+      .insert({
+        worker_type: schedule.worker_type,
+        job_payload: {
+          worker_type: schedule.worker_type,
+          source_id: schedule.source_id,
+          mode: schedule.mode,
+          batch_size: schedule.batch_size,
+        },
+        max_attempts: schedule.max_attempts,
+        next_run: now.toISOString(),
+        status: 'pending',
+        schedule_id: schedule.id,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      // idx_ingestion_jobs_unique_active: a job for the source appeared since the check
+      if (error.code === '23505') {
+        await this.markSkipped(schedule, now, 'a job for the source was created concurrently');
+        return null;
+      }
+      throw new Error(`Failed to create scheduled job: ${error.message}`);
+    }
+
+    const { error: updateError } = await this.supabase
+      .from('job_schedules')
+      .update({
+        last_enqueued_at: now.toISOString(),
+        last_job_id: job.id,
+      })
+      .eq('id', schedule.id);
+
+    if (updateError) {
+      logger.warn(`Failed to record job for schedule ${schedule.name}: ${updateError.message}`);
+    }
+
+    logger.info(`⏰ Scheduled ${schedule.worker_type} job ${job.id} for ${schedule.source_id} (${schedule.name})`);
+    return job.id;
+  }
+
+  private async markSkipped(schedule: JobSchedule, now: Date, reason: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('job_schedules')
+      .update({ last_skipped_at: now.toISOString() })
+      .eq('id', schedule.id);
+
+    if (error) {
+      logger.warn(`Failed to record skipped run for schedule ${schedule.name}: ${error.message}`);
+    }
+
+    logger.info(`⏭️ Skipped schedule ${schedule.name}: ${reason}`);
+  }
+
+  /**
+   * Find a schedule by ID or name
+   */
+  private async getSchedule(nameOrId: string): Promise<JobSchedule> {
+    const { data, error } = await this.supabase
+      .from('job_schedules')
+      .select('*')
+      .eq(UUID_PATTERN.test(nameOrId) ? 'id' : 'name', nameOrId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch job schedule: ${error.message}`);
+    }
+    if (!data) {
+      throw new Error(`Job schedule not found: ${nameOrId}`);
+    }
+
+    return data as JobSchedule;
+  }
+}
+
+// Export singleton instance
+export const jobScheduler = new JobScheduler();
@@ -22,6 +22,13 @@ class Logger {
     this.logLevel = (process.env.LOG_LEVEL as LogLevel) || 'info';
   }
   
+  /**
+   * Change the minimum level logged (e.g. to keep stdout clean for JSON output)
+   */
+  setLevel(level: LogLevel): void {
+    this.logLevel = level;
+  }
+  
   /**
    * Log a debug message
    */
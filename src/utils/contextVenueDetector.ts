@@ -1,5 +1,13 @@
 import { logger } from '../services/logger';
-import type { ExternalIds } from '../lib/supabase/types';
+import {
+  BasicContextRulesEngine,
+  type ContextSuggestion,
+  type RuleDetection,
+  type VenueSuggestion,
+} from '../lib/context-rules-engine';
+import { extractStageInfo, type StageInfo } from '../lib/stage-detection';
+import { extractVenueMention } from '../lib/venue-extraction';
+import type { ContextType, ExternalIds, MixContextRole, RawMix } from '../lib/supabase/types';
 
 export interface DetectedContext {
   name: string;
@@ -8,106 +16,50 @@ export interface DetectedContext {
   confidence: number; // 0-1 scale
   reason_codes: string[]; // ['exact_match', 'channel_mapping', 'title_pattern']
   external_ids?: ExternalIds;
+  parent?: { name: string; type: ContextType }; // e.g. the festival a stage belongs to
 }
 
 export interface DetectedVenue {
   name: string;
   city?: string;
   country?: string;
+  country_code?: string; // ISO 3166-1 alpha-2, filled in by geocoding
   lat?: number;
   lng?: number;
   confidence: number; // 0-1 scale
   reason_codes: string[]; // ['description_location', 'title_extraction']
   external_ids?: ExternalIds;
+  requires_verification?: boolean; // Free-form venues are proposed for a moderator instead of created
+  matched_text?: string;
 }
 
 export interface DetectionResult {
   contexts: DetectedContext[];
   venue?: DetectedVenue;
+  stage?: StageInfo; // Stage, day and set time, when a festival was detected
 }
 
-// Known channel mappings for publisher detection
-const CHANNEL_PUBLISHER_MAPPINGS: Record<string, {
-  name: string;
-  type: DetectedContext['type'];
-  external_ids?: ExternalIds;
-}> = {
-  'UCPKT_csvP72boVX0XrMtagQ': {
-    name: 'Cercle',
-    type: 'publisher',
-    external_ids: { youtube: 'yt:UCPKT_csvP72boVX0XrMtagQ', soundcloud: 'sc:cerclemusic' }
-  },
-  'UCGBAsFXa8TP60B4d2CGet0w': {
-    name: 'Lane 8',
-    type: 'publisher',
-    external_ids: { youtube: 'yt:UCGBAsFXa8TP60B4d2CGet0w', soundcloud: 'sc:lane8music' }
-  },
-  'UC_CiDDWOQNqhzD-h_8kOXBg': {
-    name: 'Tomorrowland',
-    type: 'publisher',
-    external_ids: { youtube: 'yt:UC_CiDDWOQNqhzD-h_8kOXBg' }
-  },
-  'UCtUJOcJ7PjeB-QS8jeWm0VA': {
-    name: 'Boiler Room',
-    type: 'publisher',
-    external_ids: { youtube: 'yt:UCtUJOcJ7PjeB-QS8jeWm0VA' }
-  }
-};
+// Shared engine for callers that don't run the rules themselves, created on first use
+let rulesEngine: BasicContextRulesEngine | null = null;
 
-// Festival patterns for exact matching
-const FESTIVAL_PATTERNS: Array<{
-  pattern: RegExp;
-  name: string;
-  confidence: number;
-}> = [
-  { pattern: /tomorrowland\s*(\d{4})?/i, name: 'Tomorrowland', confidence: 0.9 },
-  { pattern: /ultra\s*music\s*festival/i, name: 'Ultra Music Festival', confidence: 0.9 },
-  { pattern: /edc\s*(las\s*vegas|orlando|uk)?/i, name: 'Electric Daisy Carnival', confidence: 0.9 },
-  { pattern: /coachella/i, name: 'Coachella', confidence: 0.9 },
-  { pattern: /burning\s*man/i, name: 'Burning Man', confidence: 0.9 },
-  { pattern: /defqon\s*1/i, name: 'Defqon.1', confidence: 0.85 },
-  { pattern: /awakenings/i, name: 'Awakenings', confidence: 0.85 },
-  { pattern: /time\s*warp/i, name: 'Time Warp', confidence: 0.85 }
-];
-
-// Radio show patterns
-const RADIO_SHOW_PATTERNS: Array<{
-  pattern: RegExp;
-  name: string;
-  parent?: string;
-  confidence: number;
-}> = [
-  { pattern: /essential\s*mix/i, name: 'Essential Mix', parent: 'BBC Radio 1', confidence: 0.95 },
-  { pattern: /group\s*therapy/i, name: 'Group Therapy', parent: 'Anjunabeats', confidence: 0.95 },
-  { pattern: /diplo\s*&\s*friends/i, name: 'Diplo & Friends', parent: 'BBC Radio 1', confidence: 0.95 },
-  { pattern: /odd\s*one\s*out\s*radio/i, name: 'Odd One Out Radio', parent: 'YOTTO', confidence: 0.95 },
-  { pattern: /deep\s*house\s*lounge/i, name: 'Deep House Lounge', confidence: 0.8 },
-  { pattern: /future\s*sounds/i, name: 'Future Sounds', parent: 'BBC Radio 1', confidence: 0.9 },
-  { pattern: /in\s*new\s*music\s*we\s*trust/i, name: 'In New Music We Trust', parent: 'BBC Radio 1', confidence: 0.9 },
-  { pattern: /mixmag\s*lab/i, name: 'Mixmag Lab', parent: 'Mixmag', confidence: 0.9 },
-  { pattern: /anjunadeep\s*open\s*air/i, name: 'Anjunadeep Open Air', parent: 'Anjunadeep', confidence: 0.9 }
-];
-
-// Venue location patterns
-const VENUE_LOCATION_PATTERNS: Array<{
-  pattern: RegExp;
-  name: string;
-  city?: string;
-  country?: string;
-  confidence: number;
-}> = [
-  { pattern: /printworks\s*(?:london)?/i, name: 'Printworks London', city: 'London', country: 'UK', confidence: 0.9 },
-  { pattern: /fabric\s*(?:london)?/i, name: 'Fabric', city: 'London', country: 'UK', confidence: 0.9 },
-  { pattern: /pacha\s*(?:ibiza)?/i, name: 'Pacha Ibiza', city: 'Ibiza', country: 'Spain', confidence: 0.9 },
-  { pattern: /s[óo]\s*track\s*boa/i, name: 'SÓ TRACK BOA', city: 'São Paulo', country: 'Brazil', confidence: 0.9 },
-  { pattern: /electric\s*brixton/i, name: 'Electric Brixton', city: 'London', country: 'UK', confidence: 0.9 },
-  { pattern: /berghain/i, name: 'Berghain', city: 'Berlin', country: 'Germany', confidence: 0.9 },
-  { pattern: /watergate\s*(?:berlin)?/i, name: 'Watergate', city: 'Berlin', country: 'Germany', confidence: 0.9 },
-  { pattern: /output\s*(?:brooklyn)?/i, name: 'Output', city: 'Brooklyn', country: 'USA', confidence: 0.85 },
-  { pattern: /ministry\s*of\s*sound/i, name: 'Ministry of Sound', city: 'London', country: 'UK', confidence: 0.9 },
-  { pattern: /biosphere\s*(?:museum)?/i, name: 'Biosphere Museum', city: 'Montreal', country: 'Canada', confidence: 0.85 },
-  { pattern: /l[öo]yly/i, name: 'Löyly', city: 'Helsinki', country: 'Finland', confidence: 0.9 }
-];
+/**
+ * How a mix relates to a context of each type
+ */
+export function getRoleForContextType(type: ContextType): MixContextRole {
+  switch (type) {
+    case 'festival':
+    case 'stage':
+    case 'promoter':
+      return 'performed_at';
+    case 'radio_show':
+    case 'series':
+      return 'broadcasted_on';
+    case 'publisher':
+    case 'label':
+    default:
+      return 'published_by';
+  }
+}
 
 /**
  * Normalize text for consistent matching
@@ -122,89 +74,38 @@ function normalizeText(text: string): string {
 }
 
 /**
- * Extract year from text if present
- */
-function extractYear(text: string): number | undefined {
-  const yearMatch = text.match(/\b(20\d{2})\b/);
-  return yearMatch ? parseInt(yearMatch[1]) : undefined;
-}
-
-/**
- * Detect contexts (festivals, radio shows, publishers) from video metadata
+ * Detect contexts (festivals, radio shows, publishers) from rule suggestions and the channel
+ * Suggestions that need moderator approval are left to the review queue
  */
 function detectContexts(
-  title: string,
-  description: string,
+  suggestions: ContextSuggestion[],
   channelName: string,
   channelId?: string
 ): DetectedContext[] {
-  const contexts: DetectedContext[] = [];
-  const combinedText = `${title} ${description} ${channelName}`;
-  const normalizedText = normalizeText(combinedText);
-
-  // 1. Channel-based publisher detection (highest confidence)
-  if (channelId && CHANNEL_PUBLISHER_MAPPINGS[channelId]) {
-    const mapping = CHANNEL_PUBLISHER_MAPPINGS[channelId];
-    contexts.push({
-      name: mapping.name,
-      type: mapping.type,
-      role: 'published_by',
-      confidence: 0.95,
-      reason_codes: ['channel_mapping', 'exact_match'],
-      external_ids: mapping.external_ids
-    });
-  }
-
-  // 2. Festival detection
-  for (const festival of FESTIVAL_PATTERNS) {
-    if (festival.pattern.test(combinedText)) {
-      let contextName = festival.name;
-      const year = extractYear(combinedText);
-      if (year) {
-        contextName = `${festival.name} ${year}`;
-      }
-
-      contexts.push({
-        name: contextName,
-        type: 'festival',
-        role: 'performed_at',
-        confidence: festival.confidence,
-        reason_codes: ['title_pattern', 'exact_match'],
-        external_ids: {}
-      });
-      break; // Only match one festival per video
-    }
-  }
+  const accepted = suggestions.filter(suggestion => !suggestion.requires_approval);
+
+  const contexts: DetectedContext[] = accepted.map(suggestion => {
+    // A rule's parent (e.g. a radio show's station) is suggested alongside the context it belongs to
+    const parent = accepted.find(other => other.parent_of === suggestion.context_name);
+
+    return {
+      name: suggestion.context_name,
+      type: suggestion.context_type,
+      role: getRoleForContextType(suggestion.context_type),
+      confidence: suggestion.confidence,
+      reason_codes: [
+        suggestion.parent_of ? 'parent_relationship' : suggestion.rule_type || 'rule_match',
+        `rule:${suggestion.rule_name}`
+      ],
+      external_ids: suggestion.external_ids || {},
+      ...(parent && !suggestion.parent_of ? { parent: { name: parent.context_name, type: parent.context_type } } : {})
+    };
+  });
 
-  // 3. Radio show detection
-  for (const radioShow of RADIO_SHOW_PATTERNS) {
-    if (radioShow.pattern.test(combinedText)) {
-      contexts.push({
-        name: radioShow.name,
-        type: 'radio_show',
-        role: 'broadcasted_on',
-        confidence: radioShow.confidence,
-        reason_codes: ['title_pattern', 'exact_match'],
-        external_ids: {}
-      });
-      
-      // Also add parent publisher if specified
-      if (radioShow.parent) {
-        contexts.push({
-          name: radioShow.parent,
-          type: 'publisher',
-          role: 'published_by',
-          confidence: radioShow.confidence - 0.1,
-          reason_codes: ['parent_relationship', 'radio_show_mapping'],
-          external_ids: {}
-        });
-      }
-      break; // Only match one radio show per video
-    }
-  }
+  const hasChannelMapping = suggestions.some(suggestion => suggestion.rule_type === 'channel_mapping');
 
-  // 4. Generic publisher detection based on channel name
-  if (!channelId || !CHANNEL_PUBLISHER_MAPPINGS[channelId]) {
+  // Generic publisher detection based on channel name
+  if (!hasChannelMapping) {
     // If no specific mapping, create generic publisher from channel name
     const normalizedChannelName = channelName.trim();
     if (normalizedChannelName && normalizedChannelName.length > 0) {
@@ -228,78 +129,95 @@ function detectContexts(
 }
 
 /**
- * Detect venue from video metadata
+ * Detect the stage of a festival set and parent stage contexts to the festival
+ * Stages come from stage rules or a "... Stage" / Mainstage mention in the title or description
+ */
+function detectStage(
+  contexts: DetectedContext[],
+  title: string,
+  description: string
+): StageInfo | undefined {
+  const festival = contexts.find(context => context.type === 'festival');
+  if (!festival) return undefined;
+
+  const parent = { name: festival.name, type: festival.type };
+  const stageInfo = extractStageInfo(title, description, festival.name);
+  const stages = contexts.filter(context => context.type === 'stage');
+
+  for (const stage of stages) {
+    stage.parent = stage.parent || parent;
+  }
+
+  if (stages.length === 0 && stageInfo.stage) {
+    contexts.push({
+      name: stageInfo.stage,
+      type: 'stage',
+      role: 'performed_at',
+      confidence: Math.max(0, Math.round((festival.confidence - 0.1) * 100) / 100),
+      reason_codes: ['stage_pattern', 'festival_stage'],
+      external_ids: {},
+      parent
+    });
+  }
+
+  return {
+    ...stageInfo,
+    stage: stages[0]?.name || stageInfo.stage
+  };
+}
+
+/**
+ * Detect venue from rule suggestions, falling back to "live at <place>, <city>" phrases
+ * Phrase matches aren't known venues, so they're marked for manual verification
  */
 function detectVenue(
+  venues: VenueSuggestion[],
   title: string,
   description: string,
+  contexts: DetectedContext[],
   channelName: string
 ): DetectedVenue | undefined {
-  const combinedText = `${title} ${description}`;
-
-  // Check for known venue patterns
-  for (const venue of VENUE_LOCATION_PATTERNS) {
-    if (venue.pattern.test(combinedText)) {
-      return {
-        name: venue.name,
-        city: venue.city,
-        country: venue.country,
-        confidence: venue.confidence,
-        reason_codes: ['venue_pattern', 'exact_match'],
-        external_ids: {}
-      };
-    }
-  }
-
-  // Try to extract location from description using common patterns
-  const locationPatterns = [
-    /(?:live\s+(?:from|at)|recorded\s+(?:at|in))\s+([^,\n\d:]+)/i,
-    /(?:@|at)\s+([A-Z][a-zA-Z\s&]+(?:,\s*[A-Z][a-zA-Z\s]+)*)/,
-    /location:\s*([^,\n\d:]+)/i
-  ];
-
-  for (const pattern of locationPatterns) {
-    const match = description.match(pattern);
-    if (match && match[1]) {
-      let locationText = match[1].trim();
-      
-      // Clean up common noise patterns
-      locationText = locationText
-        .replace(/\d{1,2}:\d{2}(?::\d{2})?/g, '') // Remove timestamps
-        .replace(/\s+/g, ' ') // Normalize whitespace
-        .trim();
-      
-      // Skip if it's too short or contains mostly numbers
-      if (locationText.length < 3 || /^\d+/.test(locationText)) {
-        continue;
-      }
-      
-      const parts = locationText.split(',').map(p => p.trim());
-      
-      if (parts.length >= 1 && parts[0].length > 2) {
-        return {
-          name: parts[0],
-          city: parts[1] || undefined,
-          country: parts[2] || undefined,
-          confidence: 0.6,
-          reason_codes: ['description_extraction', 'location_pattern'],
-          external_ids: {}
-        };
-      }
-    }
+  // Venue rules come back sorted by confidence
+  const [venue] = venues;
+  if (venue) {
+    return {
+      name: venue.name,
+      city: venue.city,
+      country: venue.country,
+      confidence: venue.confidence,
+      reason_codes: ['venue_pattern', `rule:${venue.rule_name}`],
+      external_ids: {}
+    };
   }
 
-  return undefined;
+  // Festivals and publishers show up in the same phrasing ("live @ Tomorrowland 2024")
+  const mention = extractVenueMention(title, description, {
+    exclude: [...contexts.map(context => context.name), channelName]
+  });
+  if (!mention) return undefined;
+
+  return {
+    name: mention.name,
+    city: mention.city,
+    country: mention.country,
+    confidence: mention.confidence,
+    reason_codes: ['venue_phrase', `${mention.source}_extraction`],
+    external_ids: {},
+    requires_verification: true,
+    matched_text: mention.matchedText
+  };
 }
 
 /**
  * Main detection function that analyzes video metadata and returns detected contexts and venues
+ * Pass the rules engine's detection when the caller already ran it, so both share one suggestion set
  */
 export async function detectContextsAndVenues(
   title: string,
   description: string,
   channelName: string,
-  channelId?: string
+  channelId?: string,
+  ruleDetection?: RuleDetection
 ): Promise<DetectionResult> {
   try {
     logger.debug('Starting context/venue detection', {
@@ -311,18 +229,34 @@ export async function detectContextsAndVenues(
       }
     });
 
+    let detection = ruleDetection;
+    if (!detection) {
+      rulesEngine = rulesEngine || new BasicContextRulesEngine();
+      detection = await rulesEngine.detect({
+        title,
+        description,
+        platform: 'youtube',
+        channel_name: channelName,
+        channel_id: channelId
+      }, undefined, 'youtube');
+    }
+
     // Detect contexts
-    const contexts = detectContexts(title, description, channelName, channelId);
+    const contexts = detectContexts(detection.contexts, channelName, channelId);
     
+    // Detect stage, day and set time for festival sets
+    const stage = detectStage(contexts, title, description);
+
     // Detect venue
-    const venue = detectVenue(title, description, channelName);
+    const venue = detectVenue(detection.venues, title, description, contexts, channelName);
 
     // Sort contexts by confidence (highest first)
     contexts.sort((a, b) => b.confidence - a.confidence);
 
     const result: DetectionResult = {
       contexts,
-      venue
+      venue,
+      stage
     };
 
     // Log detection results
@@ -358,6 +292,23 @@ export async function detectContextsAndVenues(
   }
 }
 
+/**
+ * Detection results a worker stored in raw_metadata.contextVenueDetection, if any
+ */
+export function getStoredDetection(rawMix: Pick<RawMix, 'raw_metadata'>): DetectionResult | null {
+  const metadata = rawMix.raw_metadata;
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) return null;
+
+  const stored = metadata.contextVenueDetection as Partial<DetectionResult> | null | undefined;
+  if (!stored || typeof stored !== 'object') return null;
+
+  return {
+    contexts: Array.isArray(stored.contexts) ? stored.contexts : [],
+    venue: stored.venue || undefined,
+    stage: stored.stage || undefined
+  };
+}
+
 /**
  * Normalize context name for consistent database matching
  */
@@ -3,10 +3,33 @@ import * as cheerio from 'cheerio';
 import { chromium, type Browser, type Page } from 'playwright';
 import * as readline from 'readline';
 import { BaseIngestionWorker, type SourceConfig, type WorkerType } from '../lib/worker-interface';
+import { registerWorker } from '../lib/worker-registry';
 import type { RawMix, RawTrack } from '../lib/supabase/types';
 import { createExternalId } from '../lib/external-ids';
 import { logger } from '../services/logger';
 
+// Bot checks served instead of the page, by 1001Tracklists itself or its CDN
+const CHALLENGE_TITLE = /captcha|just a moment|attention required|access denied|verify you are (?:a )?human/i;
+const CHALLENGE_MARKUP = /id="challenge-form"|cf-challenge|cf-turnstile|cf-chl-/i;
+
+/**
+ * Whether a fetched page is a captcha or bot check rather than the page asked for
+ */
+export function isChallengePage(html: string): boolean {
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1] || '';
+  return CHALLENGE_TITLE.test(title) || CHALLENGE_MARKUP.test(html);
+}
+
+/**
+ * Raised when 1001Tracklists answers with a captcha, so the run stops instead of saving an empty page
+ * The message mentions the captcha so the job is retried as rate limited
+ */
+class ChallengePageError extends Error {
+  constructor(url: string) {
+    super(`1001Tracklists served a captcha instead of ${url}`);
+  }
+}
+
 /**
  * Enhanced 1001Tracklists ingestion worker
  * Scrapes tracklists from 1001tracklists.com using advanced Playwright automation
@@ -43,6 +66,8 @@ export class OneTracklistWorker extends BaseIngestionWorker {
         
         await this.delay(this.requestDelay);
       } catch (err) {
+        // Every later request would get the same captcha
+        if (err instanceof ChallengePageError) throw err;
         logger.error(`Failed to fetch tracklist from URL ${url}`, err as Error, {
           workerType: this.workerType,
         });
@@ -58,6 +83,7 @@ export class OneTracklistWorker extends BaseIngestionWorker {
         
         await this.delay(this.requestDelay);
       } catch (err) {
+        if (err instanceof ChallengePageError) throw err;
         logger.error(`Failed to search for ${searchTerm}`, err as Error, {
           workerType: this.workerType,
         });
@@ -125,6 +151,11 @@ export class OneTracklistWorker extends BaseIngestionWorker {
         timeout: 30000,
       });
       
+      // The browser fallback may get through a bot check the plain request couldn't
+      if (isChallengePage(response.data)) {
+        throw new ChallengePageError(searchUrl);
+      }
+      
       return this.parseSearchResults(response.data, maxResults, dateRange);
     } catch (err) {
       logger.warn(`HTTP request failed for search: ${searchTerm}, trying headless browser`);
@@ -160,13 +191,21 @@ export class OneTracklistWorker extends BaseIngestionWorker {
       await page.goto(searchUrl, { waitUntil: 'networkidle' });
       
       // Wait for search results to load
-      await page.waitForSelector('.tracklist-item, .no-results', { timeout: 10000 });
+      try {
+        await page.waitForSelector('.tracklist-item, .no-results', { timeout: 10000 });
+      } catch (err) {
+        if (isChallengePage(await page.content())) {
+          throw new ChallengePageError(searchUrl);
+        }
+        throw err;
+      }
       
       // Get page content
       const content = await page.content();
       
       return this.parseSearchResults(content, maxResults, dateRange);
     } catch (err) {
+      if (err instanceof ChallengePageError) throw err;
       logger.error(`Browser search failed for: ${searchTerm}`, err as Error);
       return [];
     } finally {
@@ -284,6 +323,10 @@ export class OneTracklistWorker extends BaseIngestionWorker {
       // Wait for page to finish loading
       await page.waitForTimeout(10000);
       
+      if (isChallengePage(await page.content())) {
+        throw new ChallengePageError(url);
+      }
+      
       // Extract all data using sophisticated parsing
       // @ts-ignore - This code runs in browser context and has access to DOM
       const mixData = await page.evaluate(() => {
@@ -303,6 +346,13 @@ export class OneTracklistWorker extends BaseIngestionWorker {
           fullTitle = 'Unknown Title';
         }
 
+        const trackRows = Array.from(document.querySelectorAll('div[id^="tlp_"].tlpTog.tlpItem'));
+
+        // Not a tracklist page (removed, or a layout we don't recognize)
+        if (!pageTitleEl && trackRows.length === 0) {
+          return null;
+        }
+
         const soundcloudLink = Array.from(document.querySelectorAll('a')).find((a: any) =>
           a.href && a.href.includes('soundcloud.com')
         )?.href || null;
@@ -325,7 +375,6 @@ export class OneTracklistWorker extends BaseIngestionWorker {
           }
         }
 
-        const trackRows = Array.from(document.querySelectorAll('div[id^="tlp_"].tlpTog.tlpItem'));
         let unknownTrackCounter = 0;
         const tracklist = trackRows.map((row: any, idx: number) => {
           const trackNumber = (row.querySelector('.fontXL') as HTMLElement)?.innerText.trim() || (idx + 1);
@@ -416,6 +465,7 @@ export class OneTracklistWorker extends BaseIngestionWorker {
       return this.convertToRawMix(mixData, url);
       
     } catch (err) {
+      if (err instanceof ChallengePageError) throw err;
       logger.error(`Browser fetch failed for URL: ${url}`, err as Error);
       return null;
     } finally {
@@ -602,4 +652,23 @@ export class OneTracklistWorker extends BaseIngestionWorker {
   private async delay(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
-}
\ No newline at end of file
+}
+
+registerWorker({
+  type: '1001tracklists',
+  name: '1001Tracklists Worker',
+  create: () => new OneTracklistWorker(),
+  configSchema: {
+    sourceIdDescription: '1001Tracklists search term or tracklist URL',
+    // source_id can be either a tracklist URL or a search term
+    toSourceConfig: (sourceId) => sourceId.startsWith('http')
+      ? { urls: [sourceId] }
+      : { searchTerms: [sourceId] },
+  },
+  capabilities: {
+    hasTracklists: true,
+    supportsBackfill: true,
+    supportsRolling: true,
+    producesMixes: true,
+  },
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { isChallengePage } from '../1001tracklists-worker';
+
+describe('isChallengePage', () => {
+  it.each([
+    ['<html><head><title>Just a moment...</title></head><body></body></html>'],
+    ['<html><head><title>Attention Required! | Cloudflare</title></head></html>'],
+    ['<html><head><title>1001Tracklists - Captcha</title></head></html>'],
+    ['<html><body><form id="challenge-form" action="/tracklist/1abc"></form></body></html>'],
+    ['<html><body><div class="cf-turnstile" data-sitekey="x"></div></body></html>'],
+  ])('recognizes a bot check: %s', html => {
+    expect(isChallengePage(html)).toBe(true);
+  });
+
+  it('does not flag tracklist and search pages', () => {
+    expect(isChallengePage(
+      '<html><head><title>Anyma @ Tomorrowland 2024 Tracklist</title></head>' +
+      '<body><div id="pageTitle"><h1>Anyma @ Mainstage, Tomorrowland 2024-07-20</h1></div></body></html>'
+    )).toBe(false);
+    expect(isChallengePage(
+      '<html><head><title>Search Tracklists</title></head><body><div class="tlListItem"></div></body></html>'
+    )).toBe(false);
+  });
+});
@@ -0,0 +1,208 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ContextSuggestion } from '../../lib/context-rules-engine';
+import type { RawMix } from '../../lib/supabase/types';
+
+const { suggestContexts } = vi.hoisted(() => ({ suggestContexts: vi.fn() }));
+
+// The rules engine reads its rules from the database
+vi.mock('../../lib/context-rules-engine', () => ({
+  BasicContextRulesEngine: class {
+    suggestContexts = suggestContexts;
+  },
+}));
+
+import { MixcloudWorker, type MixcloudFetcher } from '../mixcloud-worker';
+
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'mixcloud');
+
+// Recorded API responses, keyed by path (and offset for list pages)
+const FIXTURES: Record<string, string> = {
+  '/anjunadeep/cloudcasts/?offset=0': 'anjunadeep-cloudcasts-page1.json',
+  '/anjunadeep/cloudcasts/?offset=3': 'anjunadeep-cloudcasts-page2.json',
+  '/anjunadeep/the-anjunadeep-edition-450-with-simon-doty/': 'the-anjunadeep-edition-450-with-simon-doty.json',
+  '/anjunadeep/the-anjunadeep-edition-449-with-cassian/': 'the-anjunadeep-edition-449-with-cassian.json',
+  '/anjunadeep/the-anjunadeep-edition-448-with-nox-vahn/': 'the-anjunadeep-edition-448-with-nox-vahn.json',
+};
+
+/**
+ * Fetcher that replays the recorded responses, recording each request
+ */
+function fixtureFetcher(requests: string[]): MixcloudFetcher {
+  return async (apiPath, params) => {
+    const key = params?.offset !== undefined ? `${apiPath}?offset=${params.offset}` : apiPath;
+    requests.push(key);
+
+    const file = FIXTURES[key];
+    if (!file) {
+      throw new Error(`Request failed with status code 404: ${key}`);
+    }
+    return JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, file), 'utf8'));
+  };
+}
+
+function createWorker(requests: string[] = []): MixcloudWorker {
+  const worker = new MixcloudWorker(fixtureFetcher(requests));
+  // No need to space out requests to recorded responses
+  vi.spyOn(worker as any, 'delay').mockResolvedValue(undefined);
+  return worker;
+}
+
+describe('MixcloudWorker', () => {
+  beforeEach(() => {
+    suggestContexts.mockReset();
+    suggestContexts.mockResolvedValue([]);
+  });
+
+  describe('fetchNewMixes', () => {
+    it('maps a user\'s cloudcasts to raw mixes, skipping uploads shorter than a mix', async () => {
+      const mixes = await createWorker().fetchNewMixes({ users: ['anjunadeep'] });
+
+      expect(mixes.map(mix => mix.raw_title)).toEqual([
+        'The Anjunadeep Edition 450 with Simon Doty',
+        'The Anjunadeep Edition 449 with Cassian',
+      ]);
+
+      const [edition450] = mixes;
+      expect(edition450).toMatchObject({
+        provider: 'mixcloud',
+        source_url: 'https://www.mixcloud.com/anjunadeep/the-anjunadeep-edition-450-with-simon-doty/',
+        external_id: 'mc:anjunadeep/the-anjunadeep-edition-450-with-simon-doty',
+        raw_artist: 'Anjunadeep',
+        raw_description: 'Simon Doty takes over The Anjunadeep Edition for a deep and driving hour, with an interview halfway through.',
+        uploaded_at: '2025-07-31T14:00:12.000Z',
+        duration_seconds: 3612,
+        artwork_url: 'https://thumbnailer.mixcloud.com/unsafe/600x600/extaudio/edition-450.jpg',
+        status: 'pending',
+      });
+      expect(edition450.raw_metadata).toMatchObject({
+        key: '/anjunadeep/the-anjunadeep-edition-450-with-simon-doty/',
+        tags: ['Deep House', 'Progressive House'],
+        user: { username: 'anjunadeep', name: 'Anjunadeep' },
+      });
+      expect((edition450.raw_metadata as any).sections).toHaveLength(5);
+
+      // An empty description is stored as null
+      expect(mixes[1].raw_description).toBeNull();
+    });
+
+    it('only fetches the first page in rolling mode', async () => {
+      const requests: string[] = [];
+      await createWorker(requests).fetchNewMixes({ users: ['anjunadeep'] });
+
+      expect(requests).not.toContain('/anjunadeep/cloudcasts/?offset=3');
+    });
+
+    it('follows pagination in backfill mode', async () => {
+      const requests: string[] = [];
+      const mixes = await createWorker(requests).fetchNewMixes({ users: ['anjunadeep'] }, true);
+
+      expect(requests).toContain('/anjunadeep/cloudcasts/?offset=3');
+      expect(mixes.map(mix => mix.external_id)).toEqual([
+        'mc:anjunadeep/the-anjunadeep-edition-450-with-simon-doty',
+        'mc:anjunadeep/the-anjunadeep-edition-449-with-cassian',
+        'mc:anjunadeep/the-anjunadeep-edition-448-with-nox-vahn',
+      ]);
+    });
+
+    it('stops paging once cloudcasts are older than the date range', async () => {
+      const requests: string[] = [];
+      const mixes = await createWorker(requests).fetchNewMixes({
+        users: ['anjunadeep'],
+        dateRange: { from: new Date('2025-07-30T00:00:00Z') },
+      }, true);
+
+      expect(mixes.map(mix => mix.raw_title)).toEqual(['The Anjunadeep Edition 450 with Simon Doty']);
+      expect(requests).not.toContain('/anjunadeep/cloudcasts/?offset=3');
+    });
+
+    it('fetches direct cloudcast URLs', async () => {
+      const mixes = await createWorker().fetchNewMixes({
+        urls: ['https://www.mixcloud.com/anjunadeep/the-anjunadeep-edition-448-with-nox-vahn/?utm_source=share'],
+      });
+
+      expect(mixes).toHaveLength(1);
+      expect(mixes[0].external_id).toBe('mc:anjunadeep/the-anjunadeep-edition-448-with-nox-vahn');
+    });
+
+    it('skips URLs and users that fail without failing the run', async () => {
+      const mixes = await createWorker().fetchNewMixes({
+        users: ['no-such-user'],
+        urls: [
+          'https://www.mixcloud.com/anjunadeep/',
+          'https://www.mixcloud.com/anjunadeep/deleted-mix/',
+          'https://www.mixcloud.com/anjunadeep/the-anjunadeep-edition-448-with-nox-vahn/',
+        ],
+      });
+
+      expect(mixes.map(mix => mix.raw_title)).toEqual(['The Anjunadeep Edition 448 with Nox Vahn']);
+    });
+
+    it('stores the rules engine\'s context suggestions', async () => {
+      const suggestion: ContextSuggestion = {
+        rule_id: 'rule-1',
+        rule_name: 'The Anjunadeep Edition',
+        context_type: 'radio_show',
+        context_name: 'The Anjunadeep Edition',
+        confidence: 0.95,
+        reasoning: 'Title matches "The Anjunadeep Edition"',
+        requires_approval: false,
+      };
+      suggestContexts.mockResolvedValue([suggestion]);
+
+      const mixes = await createWorker().fetchNewMixes({
+        urls: ['https://www.mixcloud.com/anjunadeep/the-anjunadeep-edition-450-with-simon-doty/'],
+      });
+
+      expect(mixes[0].suggested_contexts).toEqual([suggestion]);
+      expect(suggestContexts).toHaveBeenCalledWith(
+        expect.objectContaining({
+          title: 'The Anjunadeep Edition 450 with Simon Doty',
+          platform: 'mixcloud',
+          channel_id: 'anjunadeep',
+        }),
+        undefined,
+        'mixcloud'
+      );
+    });
+  });
+
+  describe('parseTracklist', () => {
+    async function fetchMix(url: string): Promise<RawMix> {
+      const [mix] = await createWorker().fetchNewMixes({ urls: [url] });
+      return { ...mix, id: 'raw-mix-1' };
+    }
+
+    it('turns track sections into timestamped raw tracks, skipping chapters and empty tracks', async () => {
+      const mix = await fetchMix('https://www.mixcloud.com/anjunadeep/the-anjunadeep-edition-450-with-simon-doty/');
+      const tracks = await createWorker().parseTracklist(mix);
+
+      expect(tracks?.map(({ line_text, position, timestamp_seconds, raw_artist, raw_title }) =>
+        ({ line_text, position, timestamp_seconds, raw_artist, raw_title }))).toEqual([
+        { line_text: 'Simon Doty - In The Dark', position: 1, timestamp_seconds: 0, raw_artist: 'Simon Doty', raw_title: 'In The Dark' },
+        { line_text: 'Yotto - The Owls Are Not', position: 2, timestamp_seconds: 412, raw_artist: 'Yotto', raw_title: 'The Owls Are Not' },
+        { line_text: 'ID', position: 3, timestamp_seconds: 2105, raw_artist: null, raw_title: 'ID' },
+        { line_text: 'Lane 8 - Brightest Lights (feat. POLIÇA)', position: 4, timestamp_seconds: 2540, raw_artist: 'Lane 8', raw_title: 'Brightest Lights (feat. POLIÇA)' },
+      ]);
+      expect(tracks?.every(track => track.raw_mix_id === 'raw-mix-1' && track.source === 'mixcloud_sections')).toBe(true);
+    });
+
+    it('returns null for a cloudcast without sections', async () => {
+      const mix = await fetchMix('https://www.mixcloud.com/anjunadeep/the-anjunadeep-edition-449-with-cassian/');
+
+      expect(await createWorker().parseTracklist(mix)).toBeNull();
+    });
+
+    it('fetches sections from the API for rows stored without them', async () => {
+      const mix = await fetchMix('https://www.mixcloud.com/anjunadeep/the-anjunadeep-edition-448-with-nox-vahn/');
+      const { sections, ...metadata } = mix.raw_metadata as any;
+
+      const requests: string[] = [];
+      const tracks = await createWorker(requests).parseTracklist({ ...mix, raw_metadata: metadata });
+
+      expect(requests).toEqual(['/anjunadeep/the-anjunadeep-edition-448-with-nox-vahn/']);
+      expect(tracks?.map(track => track.line_text)).toEqual(['Nox Vahn - Nevermind']);
+    });
+  });
+});
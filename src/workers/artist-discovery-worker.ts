@@ -2,6 +2,7 @@ import axios from 'axios';
 import * as cheerio from 'cheerio';
 import { chromium, type Browser, type Page } from 'playwright';
 import { BaseIngestionWorker, type SourceConfig, type WorkerType } from '../lib/worker-interface';
+import { registerWorker } from '../lib/worker-registry';
 import type { RawMix, ArtistProfile, PlatformDiscoveryResult, ArtistDiscoveryResult } from '../lib/supabase/types';
 import { createExternalId } from '../lib/external-ids';
 import { logger } from '../services/logger';
@@ -81,6 +82,8 @@ export class ArtistLinkDiscoveryWorker extends BaseIngestionWorker {
       mixesFound: 0,
       mixesAdded: 0,
       mixesSkipped: 0,
+      tracksParsed: 0, // Discovery doesn't produce tracklists
+      rawMixIds: [],
       errors: [],
       duration: 0,
     };
@@ -799,4 +802,20 @@ export class ArtistLinkDiscoveryWorker extends BaseIngestionWorker {
   private async delay(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
-}
\ No newline at end of file
+}
+
+registerWorker({
+  type: 'artist-discovery',
+  name: 'Artist Link Discovery Worker',
+  create: () => new ArtistLinkDiscoveryWorker(),
+  configSchema: {
+    sourceIdDescription: 'Artist name to discover platform profiles for',
+    toSourceConfig: (sourceId) => ({ artistNames: [sourceId] }),
+  },
+  capabilities: {
+    hasTracklists: false,
+    supportsBackfill: true,
+    supportsRolling: true,
+    producesMixes: false, // Discovers artist_profiles, not raw_mixes
+  },
+});
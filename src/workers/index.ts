@@ -0,0 +1,13 @@
+/**
+ * Loads every ingestion worker so each one registers itself with the worker registry
+ * Import the registry from here rather than from lib/worker-registry to make sure it's populated
+ */
+
+import './soundcloud-worker';
+import './youtube-worker';
+import './1001tracklists-worker';
+import './artist-discovery-worker';
+import './mixcloud-worker';
+
+export { workerRegistry } from '../lib/worker-registry';
+export type { WorkerRegistration, WorkerCapabilities, WorkerConfigSchema } from '../lib/worker-registry';
@@ -0,0 +1,319 @@
+import axios from 'axios';
+import { BaseIngestionWorker, type SourceConfig, type WorkerType } from '../lib/worker-interface';
+import { registerWorker } from '../lib/worker-registry';
+import type { RawMix, RawTrack } from '../lib/supabase/types';
+import { createExternalId } from '../lib/external-ids';
+import { logger } from '../services/logger';
+import { BasicContextRulesEngine, type MixContent } from '../lib/context-rules-engine';
+
+/**
+ * Fetches a Mixcloud API path (e.g. "/username/cloudcasts/") and returns the parsed JSON
+ * Swapped out for a fixture loader when replaying recorded API responses
+ */
+export type MixcloudFetcher = (path: string, params?: Record<string, string | number>) => Promise<any>;
+
+/**
+ * Mixcloud ingestion worker
+ * Fetches cloudcasts from Mixcloud users via the public JSON API and parses the structured
+ * `sections` tracklist into raw tracks with timestamps
+ */
+export class MixcloudWorker extends BaseIngestionWorker {
+  readonly workerType: WorkerType = 'mixcloud';
+  readonly name = 'Mixcloud Worker';
+
+  private baseUrl = 'https://api.mixcloud.com';
+  private userAgent = 'mixd-ingestion/1.0';
+  private requestDelay = 500; // Mixcloud rate limits aggressively, keep requests spaced out
+  private contextRulesEngine: BasicContextRulesEngine;
+  private fetchJson: MixcloudFetcher;
+
+  constructor(fetchJson?: MixcloudFetcher) {
+    super();
+    this.contextRulesEngine = new BasicContextRulesEngine();
+    this.fetchJson = fetchJson || ((path, params) => this.fetchFromApi(path, params));
+  }
+
+  /**
+   * Fetch new cloudcasts from Mixcloud users and direct cloudcast URLs
+   */
+  async fetchNewMixes(config: SourceConfig, backfillMode: boolean = false): Promise<RawMix[]> {
+    const { users = [], urls = [], maxResults = 50, dateRange } = config;
+
+    if (users.length === 0 && urls.length === 0) {
+      logger.warn('No Mixcloud users or URLs configured');
+      return [];
+    }
+
+    const rawMixes: RawMix[] = [];
+
+    // Process direct cloudcast URLs
+    for (const url of urls) {
+      try {
+        const key = this.extractCloudcastKey(url);
+        if (!key) {
+          logger.warn(`Could not extract cloudcast key from URL: ${url}`);
+          continue;
+        }
+
+        logger.info(`Fetching Mixcloud cloudcast: ${key}`);
+        const cloudcast = await this.fetchJson(key);
+        rawMixes.push(await this.mapCloudcastToRawMix(cloudcast));
+      } catch (err) {
+        logger.error(`Failed to fetch Mixcloud cloudcast ${url}`, err as Error, {
+          workerType: this.workerType,
+        });
+      }
+    }
+
+    // Process users
+    for (const username of users) {
+      try {
+        const mode = backfillMode ? 'backfill' : 'daily';
+        logger.info(`Fetching cloudcasts from Mixcloud user: ${username} (${mode} mode)`);
+        const mixes = await this.fetchUserCloudcasts(username, maxResults, dateRange, backfillMode);
+        rawMixes.push(...mixes);
+      } catch (err) {
+        logger.error(`Failed to fetch cloudcasts from ${username}`, err as Error, {
+          workerType: this.workerType,
+        });
+      }
+    }
+
+    return rawMixes;
+  }
+
+  /**
+   * Parse tracklist from the cloudcast's structured sections
+   */
+  async parseTracklist(rawMix: RawMix): Promise<RawTrack[] | null> {
+    const metadata = rawMix.raw_metadata as any;
+    let sections: any[] | undefined = metadata?.sections;
+
+    // Sections are stored at fetch time, but fall back to the API for older rows
+    if (!Array.isArray(sections) && metadata?.key) {
+      try {
+        const cloudcast = await this.fetchJson(metadata.key);
+        sections = cloudcast.sections;
+      } catch (err) {
+        logger.warn(`Failed to fetch sections for cloudcast ${metadata.key}`, { metadata: err });
+      }
+    }
+
+    if (!Array.isArray(sections) || sections.length === 0) {
+      logger.debug(`No sections found for Mixcloud mix: ${rawMix.raw_title}`);
+      return null;
+    }
+
+    const tracks = this.parseSections(sections, rawMix.id);
+
+    logger.info(`Parsed ${tracks.length} tracks from Mixcloud sections`);
+    return tracks.length > 0 ? tracks : null;
+  }
+
+  /**
+   * Map Mixcloud sections to raw tracks
+   * Only 'track' sections carry artist/title data; chapters and other section types are skipped
+   */
+  parseSections(sections: any[], rawMixId: string): RawTrack[] {
+    const tracks: RawTrack[] = [];
+    let position = 1;
+
+    for (const section of sections) {
+      if (section.section_type && section.section_type !== 'track') continue;
+
+      const title: string | null = section.track?.name?.trim() || null;
+      const artist: string | null = section.track?.artist?.name?.trim() || null;
+      if (!title && !artist) continue;
+
+      tracks.push({
+        id: '', // Will be generated by database
+        raw_mix_id: rawMixId,
+        line_text: artist && title ? `${artist} - ${title}` : (artist || title)!,
+        position,
+        timestamp_seconds: typeof section.start_time === 'number' ? section.start_time : null,
+        raw_artist: artist,
+        raw_title: title,
+        source: 'mixcloud_sections',
+        created_at: new Date().toISOString(),
+      });
+      position++;
+    }
+
+    return tracks;
+  }
+
+  /**
+   * Fetch cloudcasts for a user, following pagination in backfill mode
+   */
+  private async fetchUserCloudcasts(
+    username: string,
+    maxResults: number,
+    dateRange?: { from?: Date; to?: Date },
+    enablePagination: boolean = false
+  ): Promise<RawMix[]> {
+    const rawMixes: RawMix[] = [];
+    let offset = 0;
+
+    while (rawMixes.length < maxResults) {
+      const limit = Math.min(100, maxResults - rawMixes.length); // API max page size is 100
+      const page = await this.fetchJson(`/${username}/cloudcasts/`, { limit, offset });
+      const cloudcasts: any[] = page.data || [];
+
+      for (const summary of cloudcasts) {
+        if (!this.isValidMix(summary, dateRange)) continue;
+
+        // The list endpoint omits description and sections, so fetch the full cloudcast
+        const cloudcast = await this.fetchJson(summary.key);
+        rawMixes.push(await this.mapCloudcastToRawMix(cloudcast));
+
+        if (rawMixes.length >= maxResults) break;
+        await this.delay(this.requestDelay);
+      }
+
+      // Cloudcasts are newest first, so stop once we've paged past the date range
+      const oldest = cloudcasts[cloudcasts.length - 1];
+      const pastRange = dateRange?.from && oldest?.created_time && new Date(oldest.created_time) < dateRange.from;
+
+      if (!enablePagination || !page.paging?.next || cloudcasts.length === 0 || pastRange) break;
+
+      offset += cloudcasts.length;
+      await this.delay(this.requestDelay);
+    }
+
+    logger.info(`Fetched ${rawMixes.length} cloudcasts from Mixcloud user ${username}`);
+    return rawMixes;
+  }
+
+  /**
+   * Map a full Mixcloud cloudcast response to RawMix
+   */
+  async mapCloudcastToRawMix(cloudcast: any): Promise<RawMix> {
+    const key = this.normalizeKey(cloudcast.key);
+    const displayName = cloudcast.user?.name || cloudcast.user?.username || null;
+
+    // Use context rules engine for Phase 2 detection
+    const mixContent: MixContent = {
+      title: cloudcast.name || '',
+      description: cloudcast.description || '',
+      artist_name: displayName,
+      platform: 'mixcloud',
+      channel_name: displayName,
+      channel_id: cloudcast.user?.username || null
+    };
+
+    const contextSuggestions = await this.contextRulesEngine.suggestContexts(
+      mixContent,
+      undefined, // artistId - will be populated after artist is approved
+      'mixcloud'
+    );
+
+    return {
+      id: '', // Will be generated
+      provider: 'mixcloud',
+      source_url: cloudcast.url || `https://www.mixcloud.com${cloudcast.key}`,
+      external_id: createExternalId('mixcloud', key),
+      raw_title: cloudcast.name || null,
+      raw_description: cloudcast.description || null,
+      raw_artist: displayName,
+      uploaded_at: cloudcast.created_time ? new Date(cloudcast.created_time).toISOString() : null,
+      duration_seconds: cloudcast.audio_length || null,
+      artwork_url: cloudcast.pictures?.extra_large || cloudcast.pictures?.large || null,
+      raw_metadata: {
+        key: cloudcast.key,
+        slug: cloudcast.slug,
+        tags: (cloudcast.tags || []).map((tag: any) => tag.name),
+        play_count: cloudcast.play_count,
+        favorite_count: cloudcast.favorite_count,
+        user: {
+          username: cloudcast.user?.username,
+          name: cloudcast.user?.name,
+        },
+        sections: cloudcast.sections || null,
+      },
+      status: 'pending',
+      canonicalized_mix_id: null,
+      error_message: null,
+      created_at: new Date().toISOString(),
+      processed_at: null,
+      // Add Phase 2 context suggestions to raw_mix for moderator review
+      suggested_contexts: contextSuggestions,
+    };
+  }
+
+  /**
+   * Check if a cloudcast is a valid mix based on duration and date filters
+   */
+  private isValidMix(cloudcast: any, dateRange?: { from?: Date; to?: Date }): boolean {
+    // Filter by duration (mixes are typically longer than 10 minutes)
+    if (cloudcast.audio_length && cloudcast.audio_length < 10 * 60) {
+      return false;
+    }
+
+    // Filter by date range if specified
+    if (dateRange && cloudcast.created_time) {
+      const createdAt = new Date(cloudcast.created_time);
+      if (dateRange.from && createdAt < dateRange.from) return false;
+      if (dateRange.to && createdAt > dateRange.to) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Extract the cloudcast key (e.g. "/username/mix-slug/") from a Mixcloud URL
+   */
+  private extractCloudcastKey(url: string): string | null {
+    const match = url.match(/mixcloud\.com(\/[^\/\?#]+\/[^\/\?#]+\/?)/);
+    if (!match) return null;
+
+    return match[1].endsWith('/') ? match[1] : `${match[1]}/`;
+  }
+
+  /**
+   * Strip surrounding slashes from a cloudcast key for use as an external ID
+   */
+  private normalizeKey(key: string): string {
+    return key.replace(/^\/+|\/+$/g, '');
+  }
+
+  /**
+   * GET a path from the Mixcloud API
+   */
+  private async fetchFromApi(path: string, params?: Record<string, string | number>): Promise<any> {
+    const response = await axios.get(`${this.baseUrl}${path}`, {
+      params,
+      headers: {
+        'User-Agent': this.userAgent,
+      },
+      timeout: 15000,
+    });
+
+    return response.data;
+  }
+
+  /**
+   * Delay execution
+   */
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+registerWorker({
+  type: 'mixcloud',
+  name: 'Mixcloud Worker',
+  create: () => new MixcloudWorker(),
+  configSchema: {
+    sourceIdDescription: 'Mixcloud username or cloudcast URL',
+    // source_id can be either a cloudcast URL or a username
+    toSourceConfig: (sourceId) => sourceId.startsWith('http')
+      ? { urls: [sourceId] }
+      : { users: [sourceId] },
+  },
+  capabilities: {
+    hasTracklists: true,
+    supportsBackfill: true,
+    supportsRolling: true,
+    producesMixes: true,
+  },
+});
@@ -1,8 +1,10 @@
 import axios from 'axios';
 import * as cheerio from 'cheerio';
 import { BaseIngestionWorker, type SourceConfig, type WorkerType } from '../lib/worker-interface';
+import { registerWorker } from '../lib/worker-registry';
 import type { RawMix, RawTrack } from '../lib/supabase/types';
 import { createExternalId } from '../lib/external-ids';
+import { parseTracklistText } from '../lib/tracklist-parser';
 import { logger } from '../services/logger';
 import { BasicContextRulesEngine, type ContextSuggestion, type MixContent } from '../lib/context-rules-engine';
 
@@ -67,30 +69,8 @@ export class SoundCloudWorker extends BaseIngestionWorker {
     
     logger.debug(`Parsing tracklist for: ${rawMix.raw_title}`);
     
-    const tracks: RawTrack[] = [];
-    const lines = rawMix.raw_description.split('\n');
-    let position = 1;
-    
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-      if (this.isTrackLine(trimmedLine)) {
-        const parsedTrack = this.parseTrackLine(trimmedLine, position);
-        if (parsedTrack) {
-          tracks.push({
-            id: '', // Will be generated by database
-            raw_mix_id: rawMix.id,
-            line_text: trimmedLine,
-            position,
-            timestamp_seconds: parsedTrack.timestamp ?? null,
-            raw_artist: parsedTrack.artist ?? null,
-            raw_title: parsedTrack.title ?? null,
-            source: 'description',
-            created_at: new Date().toISOString(),
-          });
-          position++;
-        }
-      }
-    }
+    const tracks = parseTracklistText(rawMix.raw_description, rawMix.id, 'description')
+      .map(candidate => candidate.track);
     
     logger.info(`Parsed ${tracks.length} tracks from SoundCloud description`);
     return tracks.length > 0 ? tracks : null;
@@ -535,66 +515,20 @@ export class SoundCloudWorker extends BaseIngestionWorker {
     const match = url.match(/soundcloud\.com\/([^\/]+)\/([^\/\?]+)/);
     return match ? `${match[1]}/${match[2]}` : null;
   }
-  
-  /**
-   * Check if a line looks like a track listing
-   */
-  private isTrackLine(line: string): boolean {
-    // Common patterns for track listings:
-    // - Contains "- " (artist - title)
-    // - Contains timestamp (00:00, [00:00], 1:23:45)
-    // - Starts with number (1. , 01. , etc.)
-    
-    const patterns = [
-      /^\d+[\.\)]\s+/, // Starts with number
-      /\d{1,2}:\d{2}/, // Contains timestamp
-      /\s-\s/, // Contains dash separator
-      /^\[\d+:\d+\]/, // Starts with timestamp in brackets
-    ];
-    
-    return patterns.some(pattern => pattern.test(line)) && line.length > 10;
-  }
-  
-  /**
-   * Parse a track line to extract artist, title, and timestamp
-   */
-  private parseTrackLine(line: string, position: number): {
-    artist?: string;
-    title?: string;
-    timestamp?: number;
-  } | null {
-    // Remove leading numbers and dots
-    let cleanLine = line.replace(/^\d+[\.\)]\s*/, '');
-    
-    // Extract timestamp
-    const timestampMatch = cleanLine.match(/(\[?(\d{1,2}):(\d{2})(?::(\d{2}))?\]?)/);
-    let timestamp: number | undefined;
-    
-    if (timestampMatch) {
-      const hours = timestampMatch[4] ? parseInt(timestampMatch[2]) : 0;
-      const minutes = timestampMatch[4] ? parseInt(timestampMatch[3]) : parseInt(timestampMatch[2]);
-      const seconds = timestampMatch[4] ? parseInt(timestampMatch[4]) : parseInt(timestampMatch[3]);
-      
-      timestamp = hours * 3600 + minutes * 60 + seconds;
-      
-      // Remove timestamp from line
-      cleanLine = cleanLine.replace(timestampMatch[1], '').trim();
-    }
-    
-    // Try to split artist and title by " - "
-    const dashSplit = cleanLine.split(' - ');
-    if (dashSplit.length >= 2) {
-      return {
-        artist: dashSplit[0].trim(),
-        title: dashSplit.slice(1).join(' - ').trim(),
-        timestamp,
-      };
-    }
-    
-    // If no clear artist/title split, treat the whole line as title
-    return {
-      title: cleanLine.trim(),
-      timestamp,
-    };
-  }
-}
\ No newline at end of file
+}
+
+registerWorker({
+  type: 'soundcloud',
+  name: 'SoundCloud Worker',
+  create: () => new SoundCloudWorker(),
+  configSchema: {
+    sourceIdDescription: 'SoundCloud artist or label username',
+    toSourceConfig: (sourceId) => ({ artists: [sourceId] }),
+  },
+  capabilities: {
+    hasTracklists: true,
+    supportsBackfill: true,
+    supportsRolling: true,
+    producesMixes: true,
+  },
+});
@@ -1,7 +1,9 @@
 import axios from 'axios';
 import { BaseIngestionWorker, type SourceConfig, type WorkerType } from '../lib/worker-interface';
+import { registerWorker } from '../lib/worker-registry';
 import type { RawMix, RawTrack } from '../lib/supabase/types';
 import { createExternalId } from '../lib/external-ids';
+import { parseTracklistText } from '../lib/tracklist-parser';
 import { logger } from '../services/logger';
 import { extractArtistsFromVideo, extractMultipleArtists } from '../lib/artist-extraction/intelligent-parser';
 import { getMixDetectionDetails } from '../lib/content-classification/mix-detector';
@@ -9,6 +11,7 @@ import { detectContextsAndVenues } from '../utils/contextVenueDetector';
 import { contextVenueService } from '../lib/contextVenueService';
 import { BasicContextRulesEngine, type ContextSuggestion, type MixContent } from '../lib/context-rules-engine';
 import { getServiceClient } from '../lib/supabase/service';
+import { describeError } from '../lib/job-failures';
 
 /**
  * YouTube ingestion worker
@@ -53,7 +56,7 @@ export class YouTubeWorker extends BaseIngestionWorker {
         const videos = await this.fetchChannelVideos(channelId, maxResults, dateRange, backfillMode);
         rawMixes.push(...videos);
       } catch (err) {
-        const errorMessage = `Failed to fetch videos from channel ${channelId}: ${err instanceof Error ? err.message : err}`;
+        const errorMessage = `Failed to fetch videos from channel ${channelId}: ${describeError(err)}`;
         logger.error(errorMessage, err as Error, {
           workerType: this.workerType,
         });
@@ -292,32 +295,7 @@ export class YouTubeWorker extends BaseIngestionWorker {
    * Parse tracklist from text (description or comment)
    */
   private parseTracklistFromText(text: string, rawMixId: string, source: string): RawTrack[] {
-    const tracks: RawTrack[] = [];
-    const lines = text.split('\n');
-    let position = 1;
-    
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-      if (this.isTrackLine(trimmedLine)) {
-        const parsedTrack = this.parseTrackLine(trimmedLine, position);
-        if (parsedTrack) {
-          tracks.push({
-            id: undefined as any, // Will be generated by database
-            raw_mix_id: rawMixId,
-            line_text: trimmedLine,
-            position,
-            timestamp_seconds: parsedTrack.timestamp ?? null,
-            raw_artist: parsedTrack.artist ?? null,
-            raw_title: parsedTrack.title ?? null,
-            source,
-            created_at: new Date().toISOString(),
-          });
-          position++;
-        }
-      }
-    }
-    
-    return tracks;
+    return parseTracklistText(text, rawMixId, source).map(candidate => candidate.track);
   }
   
   /**
@@ -406,15 +384,7 @@ export class YouTubeWorker extends BaseIngestionWorker {
       video.snippet.tags || []
     );
 
-    // Detect contexts and venues using legacy system
-    const contextVenueDetection = await detectContextsAndVenues(
-      video.snippet.title,
-      video.snippet.description || '',
-      video.snippet.channelTitle,
-      video.snippet.channelId
-    );
-    
-    // Use new context rules engine for Phase 2 detection
+    // Run the context rules once and share the result with the context/venue detector
     const mixContent: MixContent = {
       title: video.snippet.title,
       description: video.snippet.description || '',
@@ -424,11 +394,20 @@ export class YouTubeWorker extends BaseIngestionWorker {
       channel_id: video.snippet.channelId
     };
     
-    const contextSuggestions = await this.contextRulesEngine.suggestContexts(
+    const ruleDetection = await this.contextRulesEngine.detect(
       mixContent,
       undefined, // artistId - will be populated after artist is approved
       'youtube'
     );
+    const contextSuggestions = ruleDetection.contexts;
+
+    const contextVenueDetection = await detectContextsAndVenues(
+      video.snippet.title,
+      video.snippet.description || '',
+      video.snippet.channelTitle,
+      video.snippet.channelId,
+      ruleDetection
+    );
     
     logger.debug(`Artist extraction for "${video.snippet.title}": ${artistExtraction.extractionMethod} (${artistExtraction.confidence}) -> ${artistExtraction.performingArtists.join(', ')}`);
     
@@ -477,7 +456,7 @@ export class YouTubeWorker extends BaseIngestionWorker {
           score: mixDetection.score,
           reasons: mixDetection.reasons
         },
-        // Context and venue detection metadata (legacy)
+        // Context and venue detection metadata (from the context rules)
         contextVenueDetection: {
           contexts: contextVenueDetection.contexts.map(context => ({
             name: context.name,
@@ -485,7 +464,8 @@ export class YouTubeWorker extends BaseIngestionWorker {
             role: context.role,
             confidence: context.confidence,
             reason_codes: context.reason_codes,
-            external_ids: context.external_ids || {}
+            external_ids: context.external_ids || {},
+            parent: context.parent
           })),
           venue: contextVenueDetection.venue ? {
             name: contextVenueDetection.venue.name,
@@ -493,8 +473,11 @@ export class YouTubeWorker extends BaseIngestionWorker {
             country: contextVenueDetection.venue.country,
             confidence: contextVenueDetection.venue.confidence,
             reason_codes: contextVenueDetection.venue.reason_codes,
-            external_ids: contextVenueDetection.venue.external_ids || {}
-          } : undefined
+            external_ids: contextVenueDetection.venue.external_ids || {},
+            requires_verification: contextVenueDetection.venue.requires_verification,
+            matched_text: contextVenueDetection.venue.matched_text
+          } : undefined,
+          stage: contextVenueDetection.stage
         } as any
       },
       // Add Phase 2 context suggestions to raw_mix for moderator review
@@ -542,30 +525,6 @@ export class YouTubeWorker extends BaseIngestionWorker {
     return null;
   }
   
-  /**
-   * Check if a line looks like a track listing
-   */
-  private isTrackLine(line: string): boolean {
-    // Common patterns for track listings in YouTube descriptions:
-    // - Contains timestamp (00:00, [00:00], 1:23:45)
-    // - Contains "- " (artist - title)
-    // - Starts with number (1. , 01. , etc.)
-    // - Contains track numbering
-    
-    const patterns = [
-      /^\d+[\.\)]\s+/, // Starts with number
-      /\d{1,2}:\d{2}/, // Contains timestamp
-      /\s-\s/, // Contains dash separator
-      /^\[\d+:\d+\]/, // Starts with timestamp in brackets
-      /\d+:\d+\s+/, // Timestamp followed by space
-    ];
-    
-    return patterns.some(pattern => pattern.test(line)) && 
-           line.length > 10 && 
-           !line.toLowerCase().includes('subscribe') &&
-           !line.toLowerCase().includes('follow');
-  }
-  
   /**
    * Extract clean artist name from channel name
    */
@@ -591,65 +550,6 @@ export class YouTubeWorker extends BaseIngestionWorker {
     return null;
   }
 
-  /**
-   * Parse a track line to extract artist, title, and timestamp
-   */
-  private parseTrackLine(line: string, position: number): {
-    artist?: string;
-    title?: string;
-    timestamp?: number;
-  } | null {
-    // Remove leading numbers and dots
-    let cleanLine = line.replace(/^\d+[\.\)]\s*/, '');
-    
-    // Extract timestamp - YouTube often uses [mm:ss] or mm:ss format
-    const timestampPatterns = [
-      /^\[?(\d{1,2}):(\d{2})(?::(\d{2}))?\]?\s*/, // [00:00] or 00:00 at start
-      /(\d{1,2}):(\d{2})(?::(\d{2}))?\s+/, // 00:00 followed by space
-    ];
-    
-    let timestamp: number | undefined;
-    
-    for (const pattern of timestampPatterns) {
-      const match = cleanLine.match(pattern);
-      if (match) {
-        const hours = match[3] ? parseInt(match[1]) : 0;
-        const minutes = match[3] ? parseInt(match[2]) : parseInt(match[1]);
-        const seconds = match[3] ? parseInt(match[3]) : parseInt(match[2]);
-        
-        timestamp = hours * 3600 + minutes * 60 + seconds;
-        cleanLine = cleanLine.replace(match[0], '').trim();
-        break;
-      }
-    }
-    
-    // Try to split artist and title by " - "
-    const dashSplit = cleanLine.split(' - ');
-    if (dashSplit.length >= 2) {
-      return {
-        artist: dashSplit[0].trim(),
-        title: dashSplit.slice(1).join(' - ').trim(),
-        timestamp,
-      };
-    }
-    
-    // Try to split by " by " (common in YouTube)
-    const bySplit = cleanLine.split(' by ');
-    if (bySplit.length === 2) {
-      return {
-        title: bySplit[0].trim(),
-        artist: bySplit[1].trim(),
-        timestamp,
-      };
-    }
-    
-    // If no clear artist/title split, treat the whole line as title
-    return {
-      title: cleanLine.trim(),
-      timestamp,
-    };
-  }
-
   /**
    * Resolve a channel URL or username to a Channel ID
    */
@@ -735,4 +635,21 @@ export class YouTubeWorker extends BaseIngestionWorker {
       throw new Error(`Could not resolve channel: ${input}`);
     }
   }
-}
\ No newline at end of file
+}
+
+registerWorker({
+  type: 'youtube',
+  name: 'YouTube Worker',
+  create: () => new YouTubeWorker(),
+  configSchema: {
+    sourceIdDescription: 'YouTube channel ID, handle or channel URL',
+    toSourceConfig: (sourceId) => ({ channels: [sourceId] }),
+    requiredEnv: ['YOUTUBE_API_KEY'],
+  },
+  capabilities: {
+    hasTracklists: true,
+    supportsBackfill: true,
+    supportsRolling: true,
+    producesMixes: true,
+  },
+});
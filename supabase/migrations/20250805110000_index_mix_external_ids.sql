@@ -0,0 +1,32 @@
+-- Migration: Indexed duplicate lookup on mixes.external_ids
+-- Date: 2025-08-05
+-- Duplicate detection used to load every mix with external_ids and compare in JS.
+-- A GIN index lets us look mixes up by jsonb containment on the specific external ID values.
+
+CREATE INDEX IF NOT EXISTS idx_mixes_external_ids ON mixes USING GIN (external_ids jsonb_path_ops);
+
+-- Batch lookup: p_lookups maps a caller-chosen key (e.g. raw mix ID) to an external_ids object,
+-- e.g. {"<raw_mix_id>": {"youtube": "yt:abc", "soundcloud": "sc:123"}}
+-- Returns the oldest production mix that shares any external ID with each key, in one round-trip
+CREATE OR REPLACE FUNCTION find_mixes_by_external_ids(p_lookups JSONB)
+RETURNS TABLE (
+    lookup_key TEXT,
+    mix_id UUID,
+    matched_on TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT DISTINCT ON (l.key)
+        l.key AS lookup_key,
+        m.id AS mix_id,
+        e.value AS matched_on
+    FROM jsonb_each(p_lookups) AS l(key, ids)
+    CROSS JOIN LATERAL jsonb_each_text(l.ids) AS e(provider, value)
+    JOIN mixes m ON m.external_ids @> jsonb_build_object(e.provider, e.value)
+    WHERE jsonb_typeof(l.ids) = 'object'
+    ORDER BY l.key, m.created_at ASC;
+$$;
+
+COMMENT ON INDEX idx_mixes_external_ids IS 'Supports external_ids containment lookups for duplicate detection';
+COMMENT ON FUNCTION find_mixes_by_external_ids(JSONB) IS 'Finds existing mixes sharing any external ID with each lookup key, using idx_mixes_external_ids';
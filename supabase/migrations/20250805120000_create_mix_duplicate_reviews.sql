@@ -0,0 +1,29 @@
+-- Migration: Review queue for possible cross-platform duplicate mixes
+-- Date: 2025-08-05
+-- External IDs can't match the same set uploaded to different platforms, so canonicalization
+-- also compares content (title, artist, duration, upload date, tracklist). High scores are merged
+-- automatically; medium scores land here for a moderator to confirm or reject.
+
+CREATE TABLE IF NOT EXISTS mix_duplicate_reviews (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    raw_mix_id UUID NOT NULL REFERENCES raw_mixes(id) ON DELETE CASCADE,
+    mix_id UUID NOT NULL REFERENCES mixes(id) ON DELETE CASCADE,
+    candidate_mix_id UUID NOT NULL REFERENCES mixes(id) ON DELETE CASCADE,
+    candidate_raw_mix_id UUID REFERENCES raw_mixes(id) ON DELETE SET NULL,
+    score NUMERIC(4,3) NOT NULL CHECK (score >= 0 AND score <= 1),
+    signals JSONB NOT NULL DEFAULT '{}'::JSONB,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'merged', 'rejected')),
+    reviewed_by UUID,
+    reviewed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (mix_id, candidate_mix_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_mix_duplicate_reviews_pending
+    ON mix_duplicate_reviews (score DESC)
+    WHERE status = 'pending';
+
+COMMENT ON TABLE mix_duplicate_reviews IS 'Possible cross-platform duplicate mixes found by content matching, awaiting moderator review';
+COMMENT ON COLUMN mix_duplicate_reviews.mix_id IS 'Mix created from raw_mix_id';
+COMMENT ON COLUMN mix_duplicate_reviews.candidate_mix_id IS 'Existing mix that may be the same set';
+COMMENT ON COLUMN mix_duplicate_reviews.signals IS 'Per-signal scores 0-1: title, artist, duration, uploadDate, tracklist';
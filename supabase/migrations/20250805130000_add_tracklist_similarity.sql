@@ -0,0 +1,61 @@
+-- Migration: Tracklist overlap similarity between mixes
+-- Date: 2025-08-05
+-- Finds mixes sharing tracks with a given tracklist (re-uploads, radio show repeats, replayed sets).
+-- Candidates are ranked by Jaccard similarity over distinct track IDs; ordered overlap is computed
+-- client-side for the top matches.
+
+CREATE INDEX IF NOT EXISTS idx_mix_tracks_track_id ON mix_tracks (track_id);
+
+CREATE OR REPLACE FUNCTION find_mixes_sharing_tracks(
+    p_track_ids UUID[],
+    p_exclude_mix_id UUID DEFAULT NULL,
+    p_min_shared INTEGER DEFAULT 2,
+    p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+    mix_id UUID,
+    title TEXT,
+    shared_tracks INTEGER,
+    track_count INTEGER,
+    jaccard NUMERIC
+)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH source AS (
+        SELECT DISTINCT unnest(p_track_ids) AS track_id
+    ),
+    shared AS (
+        SELECT mt.mix_id, COUNT(DISTINCT mt.track_id)::INTEGER AS shared_tracks
+        FROM mix_tracks mt
+        JOIN source s ON s.track_id = mt.track_id
+        WHERE p_exclude_mix_id IS NULL OR mt.mix_id <> p_exclude_mix_id
+        GROUP BY mt.mix_id
+        HAVING COUNT(DISTINCT mt.track_id) >= p_min_shared
+    ),
+    sized AS (
+        SELECT sh.mix_id, sh.shared_tracks, COUNT(DISTINCT mt.track_id)::INTEGER AS track_count
+        FROM shared sh
+        JOIN mix_tracks mt ON mt.mix_id = sh.mix_id
+        GROUP BY sh.mix_id, sh.shared_tracks
+    )
+    SELECT
+        z.mix_id,
+        m.title,
+        z.shared_tracks,
+        z.track_count,
+        ROUND(z.shared_tracks::NUMERIC / ((SELECT COUNT(*) FROM source) + z.track_count - z.shared_tracks), 4) AS jaccard
+    FROM sized z
+    JOIN mixes m ON m.id = z.mix_id
+    ORDER BY jaccard DESC, z.shared_tracks DESC
+    LIMIT p_limit;
+$$;
+
+-- Tracklist-overlap flags share the duplicate review queue with content matches
+ALTER TABLE mix_duplicate_reviews
+    ADD COLUMN IF NOT EXISTS match_type TEXT NOT NULL DEFAULT 'content'
+    CHECK (match_type IN ('content', 'tracklist'));
+
+COMMENT ON INDEX idx_mix_tracks_track_id IS 'Supports finding mixes that share tracks';
+COMMENT ON FUNCTION find_mixes_sharing_tracks(UUID[], UUID, INTEGER, INTEGER) IS 'Mixes sharing at least p_min_shared of the given tracks, ranked by Jaccard similarity';
+COMMENT ON COLUMN mix_duplicate_reviews.match_type IS 'content = cross-platform content match, tracklist = near-identical tracklist';
@@ -0,0 +1,208 @@
+-- Migration: Unidentified ("ID - ID") tracks as mix_tracks placeholders
+-- Date: 2025-08-05
+-- Tracklists are full of "ID - ID", "Artist - ID" and "Unknown" lines. Instead of creating junk
+-- tracks named "ID", canonicalization now links them as mix_tracks rows with no track_id, flagged
+-- unidentified and keeping the known artist, so they can be resolved once someone IDs the track.
+
+-- mix_tracks was keyed on (mix_id, track_id); placeholder rows have no track, so give rows their own ID
+ALTER TABLE mix_tracks ADD COLUMN IF NOT EXISTS id UUID NOT NULL DEFAULT gen_random_uuid();
+
+DO $$
+DECLARE
+    v_pk TEXT;
+BEGIN
+    SELECT conname INTO v_pk
+    FROM pg_constraint
+    WHERE conrelid = 'mix_tracks'::regclass AND contype = 'p';
+
+    IF v_pk IS NOT NULL THEN
+        EXECUTE format('ALTER TABLE mix_tracks DROP CONSTRAINT %I', v_pk);
+    END IF;
+END $$;
+
+ALTER TABLE mix_tracks ADD PRIMARY KEY (id);
+ALTER TABLE mix_tracks ALTER COLUMN track_id DROP NOT NULL;
+
+ALTER TABLE mix_tracks
+    ADD COLUMN IF NOT EXISTS is_unidentified BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS artist_id UUID REFERENCES artists(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS raw_text TEXT;
+
+ALTER TABLE mix_tracks
+    ADD CONSTRAINT mix_tracks_track_or_unidentified CHECK (track_id IS NOT NULL OR is_unidentified);
+
+-- Find open IDs, optionally by artist, when resolving them later
+CREATE INDEX IF NOT EXISTS idx_mix_tracks_unidentified
+    ON mix_tracks (artist_id)
+    WHERE is_unidentified;
+
+COMMENT ON COLUMN mix_tracks.is_unidentified IS 'Track is an unidentified placeholder (ID - ID); track_id is null until resolved';
+COMMENT ON COLUMN mix_tracks.artist_id IS 'Known artist of an unidentified track (Artist - ID)';
+COMMENT ON COLUMN mix_tracks.raw_text IS 'Original tracklist line for unidentified tracks';
+
+CREATE OR REPLACE FUNCTION canonicalize_raw_mix(p_plan JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_stage TEXT := 'mix';
+    v_mix JSONB := p_plan->'mix';
+    v_mix_id UUID;
+    v_track JSONB;
+    v_track_id UUID;
+    v_artist JSONB;
+    v_artist_id UUID;
+    v_alias TEXT;
+    v_tracks_created INTEGER := 0;
+    v_artists_created INTEGER := 0;
+    v_aliases_created INTEGER := 0;
+BEGIN
+    -- Mix: merge into the existing duplicate or create a new one
+    IF p_plan->>'action' = 'merge' THEN
+        v_mix_id := (p_plan->>'existingMixId')::UUID;
+
+        UPDATE mixes SET
+            external_ids = COALESCE(external_ids, '{}'::JSONB) || COALESCE(v_mix->'externalIds', '{}'::JSONB),
+            -- Only fill in values that are currently null/empty
+            description = COALESCE(NULLIF(description, ''), v_mix->>'description'),
+            cover_url = COALESCE(NULLIF(cover_url, ''), v_mix->>'coverUrl'),
+            duration = COALESCE(duration, (v_mix->>'duration')::INTEGER)
+        WHERE id = v_mix_id;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Existing mix not found: %', v_mix_id;
+        END IF;
+    ELSE
+        INSERT INTO mixes (
+            title, description, audio_url, cover_url, duration, published_date, external_ids,
+            is_verified, verified_by, verified_at, ingestion_source, raw_mix_id
+        ) VALUES (
+            v_mix->>'title',
+            v_mix->>'description',
+            v_mix->>'audioUrl',
+            v_mix->>'coverUrl',
+            (v_mix->>'duration')::INTEGER,
+            (v_mix->>'publishedDate')::TIMESTAMPTZ,
+            COALESCE(v_mix->'externalIds', '{}'::JSONB),
+            COALESCE((v_mix->>'isVerified')::BOOLEAN, false),
+            (v_mix->>'verifiedBy')::UUID,
+            (v_mix->>'verifiedAt')::TIMESTAMPTZ,
+            v_mix->>'ingestionSource',
+            (p_plan->>'rawMixId')::UUID
+        )
+        RETURNING id INTO v_mix_id;
+    END IF;
+
+    -- Mix artist (DJ/host)
+    v_stage := 'mix_artists';
+    v_artist := p_plan->'mixArtist';
+    IF jsonb_typeof(v_artist) = 'object' THEN
+        IF v_artist->>'artistId' IS NULL THEN
+            INSERT INTO artists (name, is_verified, ingestion_source)
+            VALUES (v_artist->>'name', COALESCE((v_artist->>'isVerified')::BOOLEAN, false), 'auto')
+            RETURNING id INTO v_artist_id;
+            v_artists_created := v_artists_created + 1;
+        ELSE
+            v_artist_id := (v_artist->>'artistId')::UUID;
+        END IF;
+
+        INSERT INTO mix_artists (mix_id, artist_id, role)
+        VALUES (v_mix_id, v_artist_id, COALESCE(v_artist->>'role', 'dj'));
+    END IF;
+
+    -- Tracks, in tracklist order
+    FOR v_track IN SELECT * FROM jsonb_array_elements(COALESCE(p_plan->'tracks', '[]'::JSONB)) LOOP
+        -- Unidentified ("ID - ID"): no canonical track, just a placeholder row with the known artist
+        IF COALESCE((v_track->>'isUnidentified')::BOOLEAN, false) THEN
+            v_stage := 'track_artists';
+            v_artist_id := NULL;
+            v_artist := v_track->'artists'->0;
+            IF jsonb_typeof(v_artist) = 'object' THEN
+                IF v_artist->>'artistId' IS NULL THEN
+                    INSERT INTO artists (name, is_verified, ingestion_source)
+                    VALUES (v_artist->>'name', COALESCE((v_artist->>'isVerified')::BOOLEAN, false), 'auto')
+                    RETURNING id INTO v_artist_id;
+                    v_artists_created := v_artists_created + 1;
+                ELSE
+                    v_artist_id := (v_artist->>'artistId')::UUID;
+                END IF;
+            END IF;
+
+            v_stage := 'mix_tracks';
+            INSERT INTO mix_tracks (mix_id, track_id, position, start_time, is_unidentified, artist_id, raw_text)
+            VALUES (
+                v_mix_id, NULL, (v_track->>'position')::INTEGER, (v_track->>'startTime')::INTEGER,
+                true, v_artist_id, v_track->>'lineText'
+            );
+            CONTINUE;
+        END IF;
+
+        v_stage := 'tracks';
+        IF v_track->>'trackId' IS NULL THEN
+            INSERT INTO tracks (title, is_verified, ingestion_source)
+            VALUES (v_track->>'title', COALESCE((v_track->>'isVerified')::BOOLEAN, false), 'auto')
+            RETURNING id INTO v_track_id;
+            v_tracks_created := v_tracks_created + 1;
+
+            -- Artists are only linked for newly created tracks
+            v_stage := 'track_artists';
+            FOR v_artist IN SELECT * FROM jsonb_array_elements(COALESCE(v_track->'artists', '[]'::JSONB)) LOOP
+                IF v_artist->>'artistId' IS NULL THEN
+                    INSERT INTO artists (name, is_verified, ingestion_source)
+                    VALUES (v_artist->>'name', COALESCE((v_artist->>'isVerified')::BOOLEAN, false), 'auto')
+                    RETURNING id INTO v_artist_id;
+                    v_artists_created := v_artists_created + 1;
+                ELSE
+                    v_artist_id := (v_artist->>'artistId')::UUID;
+                END IF;
+
+                INSERT INTO track_artists (track_id, artist_id, role, position)
+                VALUES (v_track_id, v_artist_id, v_artist->>'role', (v_artist->>'position')::INTEGER);
+            END LOOP;
+        ELSE
+            v_track_id := (v_track->>'trackId')::UUID;
+        END IF;
+
+        v_stage := 'mix_tracks';
+        INSERT INTO mix_tracks (mix_id, track_id, position, start_time)
+        VALUES (v_mix_id, v_track_id, (v_track->>'position')::INTEGER, (v_track->>'startTime')::INTEGER);
+
+        v_stage := 'track_aliases';
+        FOR v_alias IN SELECT jsonb_array_elements_text(COALESCE(v_track->'aliases', '[]'::JSONB)) LOOP
+            BEGIN
+                INSERT INTO track_aliases (track_id, alias, source_type, mix_id, is_primary)
+                VALUES (v_track_id, v_alias, 'ingestion', v_mix_id, false);
+                v_aliases_created := v_aliases_created + 1;
+            EXCEPTION WHEN unique_violation THEN
+                -- Don't fail if alias already exists
+                NULL;
+            END;
+        END LOOP;
+    END LOOP;
+
+    -- Mark raw mix as processed
+    v_stage := 'mark_processed';
+    UPDATE raw_mixes SET
+        status = 'canonicalized',
+        canonicalized_mix_id = v_mix_id,
+        processed_at = NOW()
+    WHERE id = (p_plan->>'rawMixId')::UUID;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'mix_id', v_mix_id,
+        'tracks_created', v_tracks_created,
+        'artists_created', v_artists_created,
+        'aliases_created', v_aliases_created
+    );
+EXCEPTION WHEN OTHERS THEN
+    -- Everything written above is rolled back; report the stage that failed
+    RETURN jsonb_build_object(
+        'success', false,
+        'failed_stage', v_stage,
+        'error', SQLERRM
+    );
+END;
+$$;
+
+COMMENT ON FUNCTION canonicalize_raw_mix(JSONB) IS 'Applies a canonicalization plan for one raw mix atomically; returns failed_stage and rolls back on any error. Unidentified tracks are linked as placeholders without creating tracks';
@@ -0,0 +1,71 @@
+-- Migration: Per-version rule feedback stats
+-- Date: 2025-08-05
+-- The rule feedback job aggregates moderator verdicts per rule and version, recomputes accuracy,
+-- and lowers confidence or deactivates rules that fall below the configured precision.
+
+-- Moderator verdict counts per rule and rule version
+CREATE OR REPLACE VIEW rule_feedback_by_version AS
+SELECT
+  ra.rule_id,
+  ra.rule_version,
+  COUNT(*) AS total_applications,
+  COUNT(ra.moderator_feedback) AS reviewed_applications,
+  COUNT(CASE WHEN ra.moderator_feedback = 'correct' THEN 1 END) AS correct_applications,
+  COUNT(CASE WHEN ra.moderator_feedback = 'partially_correct' THEN 1 END) AS partially_correct_applications,
+  COUNT(CASE WHEN ra.moderator_feedback = 'incorrect' THEN 1 END) AS incorrect_applications,
+  COUNT(CASE WHEN ra.moderator_feedback = 'spam' THEN 1 END) AS spam_applications,
+  MAX(ra.reviewed_at) AS last_reviewed_at
+FROM rule_applications ra
+GROUP BY ra.rule_id, ra.rule_version;
+
+-- Only count feedback for the rule's current version, so a revised rule isn't judged on its old behaviour
+CREATE OR REPLACE FUNCTION update_rule_accuracy_on_feedback()
+RETURNS TRIGGER AS $$
+DECLARE
+  current_version INTEGER;
+  total_apps INTEGER;
+  correct_apps INTEGER;
+  new_accuracy DECIMAL(4,3);
+BEGIN
+  -- Only update when feedback is added/changed
+  IF NEW.moderator_feedback IS NOT NULL AND 
+     (OLD.moderator_feedback IS NULL OR OLD.moderator_feedback != NEW.moderator_feedback) THEN
+    
+    SELECT version INTO current_version FROM context_rules WHERE id = NEW.rule_id;
+    
+    -- Count reviewed applications for the current version
+    SELECT COUNT(*) INTO total_apps
+    FROM rule_applications 
+    WHERE rule_id = NEW.rule_id
+      AND COALESCE(rule_version, 1) = COALESCE(current_version, 1)
+      AND moderator_feedback IS NOT NULL;
+    
+    -- Count correct applications
+    SELECT COUNT(*) INTO correct_apps
+    FROM rule_applications 
+    WHERE rule_id = NEW.rule_id 
+      AND COALESCE(rule_version, 1) = COALESCE(current_version, 1)
+      AND moderator_feedback IN ('correct', 'partially_correct');
+    
+    -- Calculate new accuracy
+    new_accuracy := CASE 
+      WHEN total_apps > 0 THEN correct_apps::DECIMAL / total_apps::DECIMAL
+      ELSE NULL 
+    END;
+    
+    -- Update the rule's accuracy score
+    UPDATE context_rules 
+    SET 
+      accuracy_score = new_accuracy,
+      correct_applications = correct_apps,
+      application_count = total_apps,
+      updated_at = NOW()
+    WHERE id = NEW.rule_id;
+  END IF;
+  
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON VIEW rule_feedback_by_version IS 'Moderator verdict counts per context rule and rule version';
+COMMENT ON FUNCTION update_rule_accuracy_on_feedback IS 'Updates rule accuracy scores from moderator feedback on the rule''s current version';
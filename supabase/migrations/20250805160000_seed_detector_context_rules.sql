@@ -0,0 +1,121 @@
+-- Migration: Move contextVenueDetector's hard-coded tables into context_rules
+-- Date: 2025-08-05
+-- The YouTube context/venue detector kept its own channel, festival, radio show and venue tables
+-- while the rules engine read context_rules. The detector now derives its results from the rules
+-- engine, so these tables become rules and adding a festival or venue is a data change.
+
+-- Venue rules suggest a venue (with city/country in pattern_config.venue) instead of a context
+ALTER TABLE context_rules DROP CONSTRAINT IF EXISTS context_rules_target_context_type_check;
+ALTER TABLE context_rules ADD CONSTRAINT context_rules_target_context_type_check
+  CHECK (target_context_type IN ('festival', 'radio_show', 'publisher', 'series', 'label', 'promoter', 'stage', 'venue'));
+
+-- Existing festival pattern rules get a new version that also searches the description and channel
+-- and appends the edition year, as the detector did
+WITH revised AS (
+  INSERT INTO context_rules (
+    rule_name, description, rule_type, scope, scope_value, target_context_type, target_context_name,
+    confidence_weight, pattern_config, created_by, requires_approval, is_active, priority, version, parent_rule_id
+  )
+  SELECT
+    rule_name, description, rule_type, scope, scope_value, target_context_type, target_context_name,
+    confidence_weight,
+    pattern_config || '{"fields": ["title", "description", "channel"], "append_year": true}'::jsonb,
+    created_by, requires_approval, TRUE, priority, version + 1, id
+  FROM context_rules
+  WHERE is_active = TRUE
+    AND rule_type = 'pattern'
+    AND target_context_type = 'festival'
+  ON CONFLICT (rule_name, version) DO NOTHING
+  RETURNING parent_rule_id
+)
+UPDATE context_rules
+SET is_active = FALSE
+WHERE id IN (SELECT parent_rule_id FROM revised);
+
+-- Detector tables, skipping anything an active rule already targets
+INSERT INTO context_rules (
+  rule_name, description, rule_type, target_context_type, target_context_name,
+  pattern_config, confidence_weight, requires_approval, priority
+)
+SELECT
+  v.rule_name, v.description, v.rule_type, v.target_context_type, v.target_context_name,
+  v.pattern_config::jsonb, v.confidence_weight, FALSE, v.priority
+FROM (VALUES
+  -- Publisher channels
+  ('Cercle Channel', 'Cercle YouTube channel', 'channel_mapping', 'publisher', 'Cercle',
+   '{"youtube_channel_ids": ["UCPKT_csvP72boVX0XrMtagQ"], "external_ids": {"youtube": "yt:UCPKT_csvP72boVX0XrMtagQ", "soundcloud": "sc:cerclemusic"}}', 0.95, 50),
+  ('Lane 8 Channel', 'Lane 8 YouTube channel', 'channel_mapping', 'publisher', 'Lane 8',
+   '{"youtube_channel_ids": ["UCGBAsFXa8TP60B4d2CGet0w"], "external_ids": {"youtube": "yt:UCGBAsFXa8TP60B4d2CGet0w", "soundcloud": "sc:lane8music"}}', 0.95, 50),
+  ('Tomorrowland Channel', 'Tomorrowland YouTube channel', 'channel_mapping', 'publisher', 'Tomorrowland',
+   '{"youtube_channel_ids": ["UC_CiDDWOQNqhzD-h_8kOXBg"], "external_ids": {"youtube": "yt:UC_CiDDWOQNqhzD-h_8kOXBg"}}', 0.95, 50),
+  ('Boiler Room Channel', 'Boiler Room YouTube channel', 'channel_mapping', 'publisher', 'Boiler Room',
+   '{"youtube_channel_ids": ["UCtUJOcJ7PjeB-QS8jeWm0VA"], "external_ids": {"youtube": "yt:UCtUJOcJ7PjeB-QS8jeWm0VA"}}', 0.95, 50),
+
+  -- Festivals (Tomorrowland, Ultra and EDC are covered by the revised rules above)
+  ('Coachella Pattern', 'Detects Coachella mentions', 'pattern', 'festival', 'Coachella',
+   '{"regex": "coachella", "flags": "i", "fields": ["title", "description", "channel"], "append_year": true}', 0.90, 100),
+  ('Burning Man Pattern', 'Detects Burning Man mentions', 'pattern', 'festival', 'Burning Man',
+   '{"regex": "burning\\s*man", "flags": "i", "fields": ["title", "description", "channel"], "append_year": true}', 0.90, 100),
+  ('Defqon.1 Pattern', 'Detects Defqon.1 mentions', 'pattern', 'festival', 'Defqon.1',
+   '{"regex": "defqon\\s*1", "flags": "i", "fields": ["title", "description", "channel"], "append_year": true}', 0.85, 100),
+  ('Awakenings Pattern', 'Detects Awakenings mentions', 'pattern', 'festival', 'Awakenings',
+   '{"regex": "awakenings", "flags": "i", "fields": ["title", "description", "channel"], "append_year": true}', 0.85, 100),
+  ('Time Warp Pattern', 'Detects Time Warp mentions', 'pattern', 'festival', 'Time Warp',
+   '{"regex": "time\\s*warp", "flags": "i", "fields": ["title", "description", "channel"], "append_year": true}', 0.85, 100),
+
+  -- Radio shows, with the station or label that publishes them
+  ('Essential Mix Pattern', 'Detects BBC Radio 1 Essential Mix', 'pattern', 'radio_show', 'Essential Mix',
+   '{"regex": "essential\\s*mix", "flags": "i", "fields": ["title", "description", "channel"], "parent": {"name": "BBC Radio 1", "type": "publisher"}}', 0.95, 100),
+  ('Group Therapy Pattern', 'Detects Above & Beyond Group Therapy', 'pattern', 'radio_show', 'Group Therapy',
+   '{"regex": "group\\s*therapy", "flags": "i", "fields": ["title", "description", "channel"], "parent": {"name": "Anjunabeats", "type": "publisher"}}', 0.95, 100),
+  ('Diplo & Friends Pattern', 'Detects Diplo & Friends', 'pattern', 'radio_show', 'Diplo & Friends',
+   '{"regex": "diplo\\s*&\\s*friends", "flags": "i", "fields": ["title", "description", "channel"], "parent": {"name": "BBC Radio 1", "type": "publisher"}}', 0.95, 100),
+  ('Odd One Out Radio Pattern', 'Detects YOTTO''s Odd One Out Radio', 'pattern', 'radio_show', 'Odd One Out Radio',
+   '{"regex": "odd\\s*one\\s*out\\s*radio", "flags": "i", "fields": ["title", "description", "channel"], "parent": {"name": "YOTTO", "type": "publisher"}}', 0.95, 100),
+  ('Deep House Lounge Pattern', 'Detects Deep House Lounge', 'pattern', 'radio_show', 'Deep House Lounge',
+   '{"regex": "deep\\s*house\\s*lounge", "flags": "i", "fields": ["title", "description", "channel"]}', 0.80, 100),
+  ('Future Sounds Pattern', 'Detects BBC Radio 1 Future Sounds', 'pattern', 'radio_show', 'Future Sounds',
+   '{"regex": "future\\s*sounds", "flags": "i", "fields": ["title", "description", "channel"], "parent": {"name": "BBC Radio 1", "type": "publisher"}}', 0.90, 100),
+  ('In New Music We Trust Pattern', 'Detects BBC Radio 1 In New Music We Trust', 'pattern', 'radio_show', 'In New Music We Trust',
+   '{"regex": "in\\s*new\\s*music\\s*we\\s*trust", "flags": "i", "fields": ["title", "description", "channel"], "parent": {"name": "BBC Radio 1", "type": "publisher"}}', 0.90, 100),
+  ('Mixmag Lab Pattern', 'Detects Mixmag Lab sessions', 'pattern', 'radio_show', 'Mixmag Lab',
+   '{"regex": "mixmag\\s*lab", "flags": "i", "fields": ["title", "description", "channel"], "parent": {"name": "Mixmag", "type": "publisher"}}', 0.90, 100),
+  ('Anjunadeep Open Air Pattern', 'Detects Anjunadeep Open Air', 'pattern', 'radio_show', 'Anjunadeep Open Air',
+   '{"regex": "anjunadeep\\s*open\\s*air", "flags": "i", "fields": ["title", "description", "channel"], "parent": {"name": "Anjunadeep", "type": "publisher"}}', 0.90, 100),
+
+  -- Venues
+  ('Printworks London Venue', 'Detects Printworks London', 'pattern', 'venue', 'Printworks London',
+   '{"regex": "printworks\\s*(?:london)?", "flags": "i", "fields": ["title", "description"], "venue": {"city": "London", "country": "UK"}}', 0.90, 100),
+  ('Fabric Venue', 'Detects Fabric London', 'pattern', 'venue', 'Fabric',
+   '{"regex": "fabric\\s*(?:london)?", "flags": "i", "fields": ["title", "description"], "venue": {"city": "London", "country": "UK"}}', 0.90, 100),
+  ('Pacha Ibiza Venue', 'Detects Pacha Ibiza', 'pattern', 'venue', 'Pacha Ibiza',
+   '{"regex": "pacha\\s*(?:ibiza)?", "flags": "i", "fields": ["title", "description"], "venue": {"city": "Ibiza", "country": "Spain"}}', 0.90, 100),
+  ('SÓ TRACK BOA Venue', 'Detects SÓ TRACK BOA', 'pattern', 'venue', 'SÓ TRACK BOA',
+   '{"regex": "s[óo]\\s*track\\s*boa", "flags": "i", "fields": ["title", "description"], "venue": {"city": "São Paulo", "country": "Brazil"}}', 0.90, 100),
+  ('Electric Brixton Venue', 'Detects Electric Brixton', 'pattern', 'venue', 'Electric Brixton',
+   '{"regex": "electric\\s*brixton", "flags": "i", "fields": ["title", "description"], "venue": {"city": "London", "country": "UK"}}', 0.90, 100),
+  ('Berghain Venue', 'Detects Berghain', 'pattern', 'venue', 'Berghain',
+   '{"regex": "berghain", "flags": "i", "fields": ["title", "description"], "venue": {"city": "Berlin", "country": "Germany"}}', 0.90, 100),
+  ('Watergate Venue', 'Detects Watergate Berlin', 'pattern', 'venue', 'Watergate',
+   '{"regex": "watergate\\s*(?:berlin)?", "flags": "i", "fields": ["title", "description"], "venue": {"city": "Berlin", "country": "Germany"}}', 0.90, 100),
+  ('Output Venue', 'Detects Output Brooklyn', 'pattern', 'venue', 'Output',
+   '{"regex": "output\\s*(?:brooklyn)?", "flags": "i", "fields": ["title", "description"], "venue": {"city": "Brooklyn", "country": "USA"}}', 0.85, 100),
+  ('Ministry of Sound Venue', 'Detects Ministry of Sound', 'pattern', 'venue', 'Ministry of Sound',
+   '{"regex": "ministry\\s*of\\s*sound", "flags": "i", "fields": ["title", "description"], "venue": {"city": "London", "country": "UK"}}', 0.90, 100),
+  ('Biosphere Museum Venue', 'Detects the Biosphere Museum, Montreal', 'pattern', 'venue', 'Biosphere Museum',
+   '{"regex": "biosphere\\s*(?:museum)?", "flags": "i", "fields": ["title", "description"], "venue": {"city": "Montreal", "country": "Canada"}}', 0.85, 100),
+  ('Löyly Venue', 'Detects Löyly Helsinki', 'pattern', 'venue', 'Löyly',
+   '{"regex": "l[öo]yly", "flags": "i", "fields": ["title", "description"], "venue": {"city": "Helsinki", "country": "Finland"}}', 0.90, 100)
+) AS v(rule_name, description, rule_type, target_context_type, target_context_name, pattern_config, confidence_weight, priority)
+WHERE NOT EXISTS (
+  SELECT 1
+  FROM context_rules cr
+  WHERE cr.is_active = TRUE
+    AND cr.rule_type = v.rule_type
+    AND cr.target_context_type = v.target_context_type
+    AND LOWER(cr.target_context_name) = LOWER(v.target_context_name)
+)
+ON CONFLICT (rule_name, version) DO NOTHING;
+
+COMMENT ON COLUMN context_rules.target_context_type IS 'Type of context this rule detects (festival, radio_show, publisher, etc), or venue';
+COMMENT ON COLUMN context_rules.pattern_config IS 'JSON configuration for rule matching logic - structure varies by rule_type. All types accept parent, append_year, external_ids and venue options';
@@ -0,0 +1,14 @@
+-- Migration: ISO country codes on venues
+-- Date: 2025-08-05
+-- Venues are now geocoded against an offline gazetteer when they're created, which fills in
+-- coordinates and normalizes the country. The ISO code is stored alongside the country name so
+-- venues can be grouped by country however the name was spelled. Existing venues are filled in
+-- with `contexts geocode-venues`.
+
+ALTER TABLE venues ADD COLUMN IF NOT EXISTS country_code CHAR(2)
+    CHECK (country_code ~ '^[A-Z]{2}$');
+
+CREATE INDEX IF NOT EXISTS idx_venues_country_code ON venues (country_code);
+
+COMMENT ON COLUMN venues.country_code IS 'ISO 3166-1 alpha-2 country code, filled in by geocoding';
+COMMENT ON COLUMN venues.country IS 'Country name, normalized by geocoding (United Kingdom rather than UK)';
@@ -0,0 +1,34 @@
+-- Migration: Review queue for venues extracted from "live at <place>, <city>" phrasing
+-- Date: 2025-08-05
+-- Only venues with a context rule were detected. The detector now also reads free-form venue
+-- mentions, but those names are unvetted, so instead of creating venue rows they're proposed here
+-- when the mix is canonicalized. Approving a proposal creates (or reuses) a verified venue and
+-- links it to the mix.
+
+CREATE TABLE IF NOT EXISTS venue_proposals (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    raw_mix_id UUID NOT NULL REFERENCES raw_mixes(id) ON DELETE CASCADE,
+    mix_id UUID REFERENCES mixes(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    city TEXT,
+    country TEXT,
+    confidence NUMERIC(4,3) NOT NULL CHECK (confidence >= 0 AND confidence <= 1),
+    matched_text TEXT,
+    reason_codes TEXT[] NOT NULL DEFAULT '{}',
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+    venue_id UUID REFERENCES venues(id) ON DELETE SET NULL,
+    reviewed_by UUID,
+    reviewed_at TIMESTAMPTZ,
+    review_notes TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (raw_mix_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_venue_proposals_pending
+    ON venue_proposals (confidence DESC, created_at)
+    WHERE status = 'pending';
+
+COMMENT ON TABLE venue_proposals IS 'Venues extracted from free-form "live at" phrasing, awaiting moderator verification';
+COMMENT ON COLUMN venue_proposals.mix_id IS 'Mix created from raw_mix_id; the approved venue is linked to it';
+COMMENT ON COLUMN venue_proposals.matched_text IS 'Phrase the venue was read from, e.g. "live at Château de Fontainebleau, France"';
+COMMENT ON COLUMN venue_proposals.venue_id IS 'Venue created or reused on approval';
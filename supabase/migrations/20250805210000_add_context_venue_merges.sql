@@ -0,0 +1,178 @@
+-- Migration: Merge duplicate venues and contexts
+-- Date: 2025-08-05
+-- Loose name matching has left duplicates such as "Printworks" / "Printworks London" and
+-- "BBC Radio 1 Essential Mix" / "Essential Mix". Merging repoints everything at the surviving row,
+-- unions external IDs and records the duplicate's name as an alias, so later detections of that
+-- name resolve to the survivor instead of recreating the duplicate.
+
+CREATE TABLE IF NOT EXISTS venue_aliases (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    venue_id UUID NOT NULL REFERENCES venues(id) ON DELETE CASCADE,
+    alias TEXT NOT NULL,
+    city TEXT,
+    merged_from UUID,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_venue_aliases_alias_city
+    ON venue_aliases (lower(alias), COALESCE(lower(city), ''));
+CREATE INDEX IF NOT EXISTS idx_venue_aliases_venue_id ON venue_aliases (venue_id);
+
+CREATE TABLE IF NOT EXISTS context_aliases (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    context_id UUID NOT NULL REFERENCES contexts(id) ON DELETE CASCADE,
+    alias TEXT NOT NULL,
+    type TEXT NOT NULL,
+    merged_from UUID,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_context_aliases_type_alias
+    ON context_aliases (type, lower(alias), context_id);
+CREATE INDEX IF NOT EXISTS idx_context_aliases_context_id ON context_aliases (context_id);
+
+-- Merge p_duplicate_id into p_survivor_id and delete the duplicate, all in one transaction
+CREATE OR REPLACE FUNCTION merge_venues(p_survivor_id UUID, p_duplicate_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    v_survivor venues%ROWTYPE;
+    v_duplicate venues%ROWTYPE;
+    v_mixes INTEGER := 0;
+    v_contexts INTEGER := 0;
+    v_proposals INTEGER := 0;
+BEGIN
+    IF p_survivor_id = p_duplicate_id THEN
+        RAISE EXCEPTION 'Cannot merge venue % into itself', p_survivor_id;
+    END IF;
+
+    SELECT * INTO v_survivor FROM venues WHERE id = p_survivor_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Venue not found: %', p_survivor_id;
+    END IF;
+
+    SELECT * INTO v_duplicate FROM venues WHERE id = p_duplicate_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Venue not found: %', p_duplicate_id;
+    END IF;
+
+    UPDATE mixes SET venue_id = p_survivor_id WHERE venue_id = p_duplicate_id;
+    GET DIAGNOSTICS v_mixes = ROW_COUNT;
+
+    UPDATE contexts SET venue_id = p_survivor_id WHERE venue_id = p_duplicate_id;
+    GET DIAGNOSTICS v_contexts = ROW_COUNT;
+
+    UPDATE venue_proposals SET venue_id = p_survivor_id WHERE venue_id = p_duplicate_id;
+    GET DIAGNOSTICS v_proposals = ROW_COUNT;
+
+    -- The survivor keeps its own values; the duplicate only fills gaps
+    UPDATE venues SET
+        external_ids = COALESCE(v_duplicate.external_ids, '{}'::JSONB) || COALESCE(external_ids, '{}'::JSONB),
+        city = COALESCE(city, v_duplicate.city),
+        country = COALESCE(country, v_duplicate.country),
+        country_code = COALESCE(country_code, v_duplicate.country_code),
+        lat = CASE WHEN lat IS NULL OR lng IS NULL THEN v_duplicate.lat ELSE lat END,
+        lng = CASE WHEN lat IS NULL OR lng IS NULL THEN v_duplicate.lng ELSE lng END,
+        capacity = COALESCE(capacity, v_duplicate.capacity),
+        website = COALESCE(website, v_duplicate.website),
+        is_verified = is_verified OR v_duplicate.is_verified,
+        verified_by = COALESCE(verified_by, v_duplicate.verified_by),
+        verified_at = COALESCE(verified_at, v_duplicate.verified_at),
+        updated_at = NOW()
+    WHERE id = p_survivor_id;
+
+    -- Aliases of the duplicate now point at the survivor, plus the duplicate's own name
+    UPDATE venue_aliases SET venue_id = p_survivor_id WHERE venue_id = p_duplicate_id;
+
+    INSERT INTO venue_aliases (venue_id, alias, city, merged_from)
+    VALUES (p_survivor_id, v_duplicate.name, v_duplicate.city, p_duplicate_id)
+    ON CONFLICT DO NOTHING;
+
+    DELETE FROM venues WHERE id = p_duplicate_id;
+
+    RETURN jsonb_build_object(
+        'survivor_id', p_survivor_id,
+        'duplicate_id', p_duplicate_id,
+        'mixes_relinked', v_mixes,
+        'contexts_relinked', v_contexts,
+        'proposals_relinked', v_proposals,
+        'alias', v_duplicate.name
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION merge_contexts(p_survivor_id UUID, p_duplicate_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    v_survivor contexts%ROWTYPE;
+    v_duplicate contexts%ROWTYPE;
+    v_mixes INTEGER := 0;
+    v_children INTEGER := 0;
+BEGIN
+    IF p_survivor_id = p_duplicate_id THEN
+        RAISE EXCEPTION 'Cannot merge context % into itself', p_survivor_id;
+    END IF;
+
+    SELECT * INTO v_survivor FROM contexts WHERE id = p_survivor_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Context not found: %', p_survivor_id;
+    END IF;
+
+    SELECT * INTO v_duplicate FROM contexts WHERE id = p_duplicate_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Context not found: %', p_duplicate_id;
+    END IF;
+
+    IF v_survivor.type <> v_duplicate.type THEN
+        RAISE EXCEPTION 'Cannot merge % context into % context', v_duplicate.type, v_survivor.type;
+    END IF;
+
+    -- Mixes linked to both keep a single link
+    INSERT INTO mix_contexts (mix_id, context_id, role)
+    SELECT mix_id, p_survivor_id, role FROM mix_contexts WHERE context_id = p_duplicate_id
+    ON CONFLICT (mix_id, context_id, role) DO NOTHING;
+
+    DELETE FROM mix_contexts WHERE context_id = p_duplicate_id;
+    GET DIAGNOSTICS v_mixes = ROW_COUNT;
+
+    UPDATE contexts SET parent_id = p_survivor_id
+    WHERE parent_id = p_duplicate_id AND id <> p_survivor_id;
+    GET DIAGNOSTICS v_children = ROW_COUNT;
+
+    -- Edition dates are taken as a pair so start_date <= end_date still holds
+    UPDATE contexts SET
+        parent_id = CASE WHEN parent_id = p_duplicate_id THEN v_duplicate.parent_id ELSE COALESCE(parent_id, v_duplicate.parent_id) END,
+        external_ids = COALESCE(v_duplicate.external_ids, '{}'::JSONB) || COALESCE(external_ids, '{}'::JSONB),
+        website = COALESCE(website, v_duplicate.website),
+        venue_id = COALESCE(venue_id, v_duplicate.venue_id),
+        start_date = CASE WHEN start_date IS NULL AND end_date IS NULL THEN v_duplicate.start_date ELSE start_date END,
+        end_date = CASE WHEN start_date IS NULL AND end_date IS NULL THEN v_duplicate.end_date ELSE end_date END,
+        is_verified = is_verified OR v_duplicate.is_verified,
+        verified_by = COALESCE(verified_by, v_duplicate.verified_by),
+        verified_at = COALESCE(verified_at, v_duplicate.verified_at),
+        updated_at = NOW()
+    WHERE id = p_survivor_id;
+
+    UPDATE context_aliases SET context_id = p_survivor_id WHERE context_id = p_duplicate_id;
+
+    INSERT INTO context_aliases (context_id, alias, type, merged_from)
+    VALUES (p_survivor_id, v_duplicate.name, v_duplicate.type, p_duplicate_id)
+    ON CONFLICT DO NOTHING;
+
+    DELETE FROM contexts WHERE id = p_duplicate_id;
+
+    RETURN jsonb_build_object(
+        'survivor_id', p_survivor_id,
+        'duplicate_id', p_duplicate_id,
+        'mixes_relinked', v_mixes,
+        'children_repointed', v_children,
+        'alias', v_duplicate.name
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE venue_aliases IS 'Other names for a venue, recorded when duplicates are merged into it';
+COMMENT ON TABLE context_aliases IS 'Other names for a context, recorded when duplicates are merged into it';
+COMMENT ON COLUMN venue_aliases.merged_from IS 'ID of the merged (deleted) venue the alias came from';
+COMMENT ON COLUMN context_aliases.merged_from IS 'ID of the merged (deleted) context the alias came from';
+COMMENT ON FUNCTION merge_venues IS 'Merge a duplicate venue into a survivor: repoint mixes, contexts and proposals, union external IDs, record an alias';
+COMMENT ON FUNCTION merge_contexts IS 'Merge a duplicate context into a survivor: repoint mix_contexts and child contexts, union external IDs, record an alias';
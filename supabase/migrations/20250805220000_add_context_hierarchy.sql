@@ -0,0 +1,147 @@
+-- Migration: Context hierarchy for radio shows and their stations/labels
+-- Date: 2025-08-05
+-- Rules with a parent (Essential Mix → BBC Radio 1, Group Therapy → Anjunabeats) suggested the parent
+-- as a separate context, but the show was never linked to it, so contexts.parent_id stayed null.
+-- Detection now sets parent_id; this backfills existing contexts from the active rules and adds
+-- functions that walk the hierarchy, e.g. all mixes under BBC Radio 1.
+
+-- Create parents that a rule names but that don't exist yet, when a context needs them
+INSERT INTO contexts (name, type, external_ids)
+SELECT DISTINCT r.pattern_config->'parent'->>'name', r.pattern_config->'parent'->>'type', '{}'::JSONB
+FROM context_rules r
+WHERE r.is_active
+  AND r.pattern_config ? 'parent'
+  AND EXISTS (
+      SELECT 1 FROM contexts child
+      WHERE child.type = r.target_context_type
+        AND lower(child.name) = lower(r.target_context_name)
+        AND child.parent_id IS NULL
+  )
+  AND NOT EXISTS (
+      SELECT 1 FROM contexts parent
+      WHERE parent.type = r.pattern_config->'parent'->>'type'
+        AND lower(parent.name) = lower(r.pattern_config->'parent'->>'name')
+  );
+
+-- Link existing contexts to their rule's parent
+UPDATE contexts child
+SET parent_id = parent.id, updated_at = NOW()
+FROM context_rules r
+JOIN contexts parent
+  ON parent.type = r.pattern_config->'parent'->>'type'
+ AND lower(parent.name) = lower(r.pattern_config->'parent'->>'name')
+WHERE r.is_active
+  AND r.pattern_config ? 'parent'
+  AND child.type = r.target_context_type
+  AND lower(child.name) = lower(r.target_context_name)
+  AND child.parent_id IS NULL
+  AND child.id <> parent.id;
+
+-- A context and everything under it; depth 0 is the context itself
+CREATE OR REPLACE FUNCTION get_context_descendants(p_context_id UUID)
+RETURNS TABLE (
+    id UUID,
+    name TEXT,
+    type TEXT,
+    parent_id UUID,
+    depth INTEGER
+)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH RECURSIVE tree AS (
+        SELECT c.id, c.name, c.type, c.parent_id, 0 AS depth, ARRAY[c.id] AS path
+        FROM contexts c
+        WHERE c.id = p_context_id
+
+        UNION ALL
+
+        SELECT c.id, c.name, c.type, c.parent_id, t.depth + 1, t.path || c.id
+        FROM contexts c
+        JOIN tree t ON c.parent_id = t.id
+        WHERE NOT c.id = ANY(t.path)
+          AND t.depth < 10
+    )
+    SELECT tree.id, tree.name, tree.type, tree.parent_id, tree.depth
+    FROM tree
+    ORDER BY tree.depth, tree.name;
+$$;
+
+-- A context's parents, nearest first; depth 0 is the context itself
+CREATE OR REPLACE FUNCTION get_context_ancestors(p_context_id UUID)
+RETURNS TABLE (
+    id UUID,
+    name TEXT,
+    type TEXT,
+    parent_id UUID,
+    depth INTEGER
+)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH RECURSIVE chain AS (
+        SELECT c.id, c.name, c.type, c.parent_id, 0 AS depth, ARRAY[c.id] AS path
+        FROM contexts c
+        WHERE c.id = p_context_id
+
+        UNION ALL
+
+        SELECT c.id, c.name, c.type, c.parent_id, ch.depth + 1, ch.path || c.id
+        FROM contexts c
+        JOIN chain ch ON c.id = ch.parent_id
+        WHERE NOT c.id = ANY(ch.path)
+          AND ch.depth < 10
+    )
+    SELECT chain.id, chain.name, chain.type, chain.parent_id, chain.depth
+    FROM chain
+    ORDER BY chain.depth;
+$$;
+
+-- Mixes linked to a context or any context under it, newest event first
+-- A mix linked at several levels is listed once, via the context nearest the top
+CREATE OR REPLACE FUNCTION get_mixes_under_context(
+    p_context_id UUID,
+    p_limit INTEGER DEFAULT 50,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    mix_id UUID,
+    title TEXT,
+    event_date DATE,
+    published_date TIMESTAMPTZ,
+    context_id UUID,
+    context_name TEXT,
+    role TEXT,
+    depth INTEGER,
+    total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH linked AS (
+        SELECT DISTINCT ON (mc.mix_id)
+            mc.mix_id, d.id AS context_id, d.name AS context_name, mc.role, d.depth
+        FROM get_context_descendants(p_context_id) d
+        JOIN mix_contexts mc ON mc.context_id = d.id
+        ORDER BY mc.mix_id, d.depth
+    )
+    SELECT
+        m.id,
+        m.title,
+        m.event_date::DATE,
+        m.published_date::TIMESTAMPTZ,
+        l.context_id,
+        l.context_name,
+        l.role,
+        l.depth,
+        COUNT(*) OVER () AS total_count
+    FROM linked l
+    JOIN mixes m ON m.id = l.mix_id
+    ORDER BY COALESCE(m.event_date::DATE, m.published_date::DATE) DESC NULLS LAST, m.title
+    LIMIT p_limit
+    OFFSET p_offset;
+$$;
+
+COMMENT ON FUNCTION get_context_descendants(UUID) IS 'A context and all contexts under it, with depth below the given context';
+COMMENT ON FUNCTION get_context_ancestors(UUID) IS 'A context and its parents up to the root, nearest first';
+COMMENT ON FUNCTION get_mixes_under_context(UUID, INTEGER, INTEGER) IS 'Mixes linked to a context or any of its descendants, e.g. all mixes under BBC Radio 1';
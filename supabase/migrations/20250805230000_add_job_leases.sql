@@ -0,0 +1,96 @@
+-- Migration: Job leases and heartbeats for concurrent job processors
+-- Date: 2025-08-05
+-- get_next_pending_job only held its row lock for the length of the RPC, and the processor marked the
+-- job running in a separate update, so two processors could pick up the same job. Jobs are now
+-- claimed with a lease in a single statement. A running processor extends its lease with heartbeats,
+-- and jobs whose lease runs out (the processor crashed or was killed) are reaped back to pending.
+
+ALTER TABLE ingestion_jobs
+    ADD COLUMN IF NOT EXISTS locked_by TEXT,
+    ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_lease
+    ON ingestion_jobs (lease_expires_at)
+    WHERE status = 'running';
+
+-- Claim the oldest pending job for a processor; returns no row when there's nothing to do
+CREATE OR REPLACE FUNCTION claim_next_job(p_worker_id TEXT, p_lease_seconds INTEGER DEFAULT 300)
+RETURNS SETOF ingestion_jobs
+LANGUAGE sql
+AS $$
+    UPDATE ingestion_jobs j
+    SET status = 'running',
+        locked_by = p_worker_id,
+        lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+        heartbeat_at = NOW(),
+        last_run = NOW(),
+        updated_at = NOW()
+    WHERE j.id = (
+        SELECT id
+        FROM ingestion_jobs
+        WHERE status = 'pending'
+        ORDER BY created_at ASC
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING j.*;
+$$;
+
+-- Extend a lease; false means the job is no longer held by this processor (reaped or finished)
+CREATE OR REPLACE FUNCTION heartbeat_job(p_job_id UUID, p_worker_id TEXT, p_lease_seconds INTEGER DEFAULT 300)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    UPDATE ingestion_jobs
+    SET lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+        heartbeat_at = NOW()
+    WHERE id = p_job_id
+      AND status = 'running'
+      AND locked_by = p_worker_id;
+
+    RETURN FOUND;
+END;
+$$;
+
+-- Return running jobs past their lease to pending, counting the lost run as an attempt
+-- Jobs left running from before leases existed are reaped once they've been untouched for p_unleased_after
+CREATE OR REPLACE FUNCTION reap_expired_jobs(p_unleased_after INTERVAL DEFAULT INTERVAL '1 hour')
+RETURNS TABLE (
+    id UUID,
+    worker_type TEXT,
+    locked_by TEXT,
+    attempts INTEGER,
+    status TEXT
+)
+LANGUAGE sql
+AS $$
+    WITH expired AS (
+        SELECT j.id, j.locked_by
+        FROM ingestion_jobs j
+        WHERE j.status = 'running'
+          AND (
+              j.lease_expires_at < NOW()
+              OR (j.lease_expires_at IS NULL AND j.updated_at < NOW() - p_unleased_after)
+          )
+        FOR UPDATE SKIP LOCKED
+    )
+    UPDATE ingestion_jobs j
+    SET status = CASE WHEN j.attempts + 1 >= j.max_attempts THEN 'failed' ELSE 'pending' END,
+        attempts = j.attempts + 1,
+        error_message = 'Lease expired while running' || COALESCE(' on ' || e.locked_by, ''),
+        locked_by = NULL,
+        lease_expires_at = NULL,
+        updated_at = NOW()
+    FROM expired e
+    WHERE j.id = e.id
+    RETURNING j.id, j.worker_type, e.locked_by, j.attempts, j.status;
+$$;
+
+COMMENT ON COLUMN ingestion_jobs.locked_by IS 'Processor holding the job while it runs (host:pid:id)';
+COMMENT ON COLUMN ingestion_jobs.lease_expires_at IS 'When the job is reaped unless the processor sends a heartbeat';
+COMMENT ON COLUMN ingestion_jobs.heartbeat_at IS 'Last heartbeat from the processor running the job';
+COMMENT ON FUNCTION claim_next_job(TEXT, INTEGER) IS 'Atomically claims the oldest pending job with a lease for p_worker_id';
+COMMENT ON FUNCTION heartbeat_job(UUID, TEXT, INTEGER) IS 'Extends a running job''s lease; false if the processor no longer holds it';
+COMMENT ON FUNCTION reap_expired_jobs(INTERVAL) IS 'Returns jobs whose lease expired to pending (or failed once out of attempts)';
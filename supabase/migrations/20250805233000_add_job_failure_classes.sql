@@ -0,0 +1,75 @@
+-- Migration: Failure classes and backoff for job retries
+-- Date: 2025-08-05
+-- Failed jobs were retried on a fixed schedule whether they hit a YouTube quota, a 1001Tracklists
+-- captcha, a network timeout or a bad payload. Failures are now classified, the class is kept on the
+-- job, and retries wait until next_run, which claim_next_job previously ignored.
+
+ALTER TABLE ingestion_jobs
+    ADD COLUMN IF NOT EXISTS failure_class TEXT
+        CHECK (failure_class IN ('transient', 'rate_limited', 'permanent', 'config'));
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_pending_next_run
+    ON ingestion_jobs (next_run)
+    WHERE status = 'pending';
+
+-- Claim the oldest pending job that's due for a processor; returns no row when there's nothing to do
+CREATE OR REPLACE FUNCTION claim_next_job(p_worker_id TEXT, p_lease_seconds INTEGER DEFAULT 300)
+RETURNS SETOF ingestion_jobs
+LANGUAGE sql
+AS $$
+    UPDATE ingestion_jobs j
+    SET status = 'running',
+        locked_by = p_worker_id,
+        lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+        heartbeat_at = NOW(),
+        last_run = NOW(),
+        updated_at = NOW()
+    WHERE j.id = (
+        SELECT id
+        FROM ingestion_jobs
+        WHERE status = 'pending'
+          AND (next_run IS NULL OR next_run <= NOW())
+        ORDER BY created_at ASC
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING j.*;
+$$;
+
+-- Reaped jobs lost their processor, which is worth retrying straight away
+CREATE OR REPLACE FUNCTION reap_expired_jobs(p_unleased_after INTERVAL DEFAULT INTERVAL '1 hour')
+RETURNS TABLE (
+    id UUID,
+    worker_type TEXT,
+    locked_by TEXT,
+    attempts INTEGER,
+    status TEXT
+)
+LANGUAGE sql
+AS $$
+    WITH expired AS (
+        SELECT j.id, j.locked_by
+        FROM ingestion_jobs j
+        WHERE j.status = 'running'
+          AND (
+              j.lease_expires_at < NOW()
+              OR (j.lease_expires_at IS NULL AND j.updated_at < NOW() - p_unleased_after)
+          )
+        FOR UPDATE SKIP LOCKED
+    )
+    UPDATE ingestion_jobs j
+    SET status = CASE WHEN j.attempts + 1 >= j.max_attempts THEN 'failed' ELSE 'pending' END,
+        attempts = j.attempts + 1,
+        error_message = 'Lease expired while running' || COALESCE(' on ' || e.locked_by, ''),
+        failure_class = 'transient',
+        next_run = NOW(),
+        locked_by = NULL,
+        lease_expires_at = NULL,
+        updated_at = NOW()
+    FROM expired e
+    WHERE j.id = e.id
+    RETURNING j.id, j.worker_type, e.locked_by, j.attempts, j.status;
+$$;
+
+COMMENT ON COLUMN ingestion_jobs.failure_class IS 'Class of the last failure (transient, rate_limited, permanent, config); decides the retry backoff';
+COMMENT ON FUNCTION claim_next_job(TEXT, INTEGER) IS 'Atomically claims the oldest pending job whose next_run has passed, with a lease for p_worker_id';
@@ -0,0 +1,42 @@
+-- Migration: Recurring job schedules for rolling ingestion
+-- Date: 2025-08-05
+-- Rolling ingestion only ran when someone ran `npm run ingest` or inserted a job by hand. Schedules
+-- hold a cron expression per source; the job processor materializes an ingestion job each time one
+-- comes due, unless a previous job for the same source is still pending or running.
+
+CREATE TABLE IF NOT EXISTS job_schedules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL UNIQUE,
+    worker_type TEXT NOT NULL,
+    source_id TEXT NOT NULL,
+    mode TEXT NOT NULL DEFAULT 'rolling' CHECK (mode IN ('backfill', 'rolling')),
+    batch_size INTEGER NOT NULL DEFAULT 50 CHECK (batch_size > 0),
+    cron TEXT NOT NULL,
+    max_attempts INTEGER NOT NULL DEFAULT 3,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    next_run_at TIMESTAMPTZ NOT NULL,
+    last_enqueued_at TIMESTAMPTZ,
+    last_job_id UUID REFERENCES ingestion_jobs(id) ON DELETE SET NULL,
+    last_skipped_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (worker_type, source_id, mode)
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_schedules_due
+    ON job_schedules (next_run_at)
+    WHERE is_active;
+
+-- Jobs remember the schedule that created them
+ALTER TABLE ingestion_jobs
+    ADD COLUMN IF NOT EXISTS schedule_id UUID REFERENCES job_schedules(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_schedule_id
+    ON ingestion_jobs (schedule_id)
+    WHERE schedule_id IS NOT NULL;
+
+COMMENT ON TABLE job_schedules IS 'Cron schedules the job processor turns into ingestion_jobs, one source each';
+COMMENT ON COLUMN job_schedules.cron IS 'Five-field cron expression or @hourly/@daily/@weekly/@monthly, evaluated in UTC';
+COMMENT ON COLUMN job_schedules.next_run_at IS 'When the next job is due; advanced by whichever processor materializes it';
+COMMENT ON COLUMN job_schedules.last_skipped_at IS 'Last time a run was skipped because the previous job for the source was still pending or running';
+COMMENT ON COLUMN ingestion_jobs.schedule_id IS 'Schedule that created the job, if any';
@@ -0,0 +1,68 @@
+-- Migration: Dependent canonicalization jobs
+-- Date: 2025-08-05
+-- Ingestion jobs canonicalized inline by re-querying the newest pending raw mixes, which could pick up
+-- mixes inserted by a different job running at the same time. Workers now return the raw mix IDs they
+-- inserted, and the processor enqueues a child canonicalization job for exactly those IDs.
+-- parent_job_id links the two so the status of the whole chain can be read from either job.
+
+ALTER TABLE ingestion_jobs
+    ADD COLUMN IF NOT EXISTS parent_job_id UUID REFERENCES ingestion_jobs(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_parent_job_id
+    ON ingestion_jobs (parent_job_id)
+    WHERE parent_job_id IS NOT NULL;
+
+-- Every job in the chain a job belongs to, from the root down; depth 0 is the root
+CREATE OR REPLACE FUNCTION get_job_chain(p_job_id UUID)
+RETURNS TABLE (
+    id UUID,
+    parent_job_id UUID,
+    worker_type TEXT,
+    status TEXT,
+    attempts INTEGER,
+    max_attempts INTEGER,
+    failure_class TEXT,
+    error_message TEXT,
+    created_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ,
+    depth INTEGER
+)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH RECURSIVE up AS (
+        SELECT j.id, j.parent_job_id, 0 AS height
+        FROM ingestion_jobs j
+        WHERE j.id = p_job_id
+
+        UNION ALL
+
+        SELECT j.id, j.parent_job_id, up.height + 1
+        FROM ingestion_jobs j
+        JOIN up ON j.id = up.parent_job_id
+        WHERE up.height < 10
+    ),
+    root AS (
+        SELECT up.id FROM up ORDER BY up.height DESC LIMIT 1
+    ),
+    down AS (
+        SELECT j.id, 0 AS depth
+        FROM ingestion_jobs j
+        JOIN root ON j.id = root.id
+
+        UNION ALL
+
+        SELECT j.id, down.depth + 1
+        FROM ingestion_jobs j
+        JOIN down ON j.parent_job_id = down.id
+        WHERE down.depth < 10
+    )
+    SELECT j.id, j.parent_job_id, j.worker_type, j.status, j.attempts, j.max_attempts,
+           j.failure_class, j.error_message, j.created_at, j.updated_at, down.depth
+    FROM down
+    JOIN ingestion_jobs j ON j.id = down.id
+    ORDER BY down.depth, j.created_at;
+$$;
+
+COMMENT ON COLUMN ingestion_jobs.parent_job_id IS 'Job this one was enqueued by, e.g. the ingestion job a canonicalization job follows';
+COMMENT ON FUNCTION get_job_chain(UUID) IS 'All jobs in the chain a job belongs to, root first with depth below the root';
@@ -0,0 +1,92 @@
+-- Migration: Job priorities and per-worker-type concurrency caps
+-- Date: 2025-08-05
+-- Jobs were claimed oldest-first, so a multi-year YouTube backfill could hold up a new artist's rolling
+-- job, and nothing stopped two 1001Tracklists browser jobs from running at once. Jobs now have a
+-- priority (rolling above backfill unless given one), and claim_next_job takes the per-worker-type
+-- caps from the job processor (src/lib/job-concurrency.ts, overridable with JOB_CONCURRENCY_LIMITS)
+-- and counts running jobs across all processors before claiming.
+
+-- Higher runs first
+ALTER TABLE ingestion_jobs
+    ADD COLUMN IF NOT EXISTS priority INTEGER;
+
+UPDATE ingestion_jobs
+SET priority = CASE WHEN job_payload->>'mode' = 'rolling' THEN 10 ELSE 0 END
+WHERE priority IS NULL;
+
+-- Jobs inserted without a priority get one from their mode
+CREATE OR REPLACE FUNCTION set_default_job_priority()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.priority IS NULL THEN
+        NEW.priority := CASE WHEN NEW.job_payload->>'mode' = 'rolling' THEN 10 ELSE 0 END;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_set_default_job_priority ON ingestion_jobs;
+CREATE TRIGGER trg_set_default_job_priority
+    BEFORE INSERT ON ingestion_jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION set_default_job_priority();
+
+ALTER TABLE ingestion_jobs
+    ALTER COLUMN priority SET NOT NULL;
+
+DROP INDEX IF EXISTS idx_ingestion_jobs_pending_next_run;
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_pending_priority
+    ON ingestion_jobs (priority DESC, created_at)
+    WHERE status = 'pending';
+
+-- The two-argument version would make calls with named arguments ambiguous
+DROP FUNCTION IF EXISTS claim_next_job(TEXT, INTEGER);
+
+-- Claim the highest-priority due job whose worker type is under its cap; returns no row when there's nothing to do
+-- p_concurrency_limits maps worker_type to the most jobs of that type allowed to run at once, e.g. {"1001tracklists": 1}
+CREATE OR REPLACE FUNCTION claim_next_job(
+    p_worker_id TEXT,
+    p_lease_seconds INTEGER DEFAULT 300,
+    p_concurrency_limits JSONB DEFAULT '{}'::JSONB
+)
+RETURNS SETOF ingestion_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    -- Claims are serialized so two processors can't both see a capped worker type as free
+    PERFORM pg_advisory_xact_lock(hashtext('claim_next_job'));
+
+    RETURN QUERY
+    UPDATE ingestion_jobs j
+    SET status = 'running',
+        locked_by = p_worker_id,
+        lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+        heartbeat_at = NOW(),
+        last_run = NOW(),
+        updated_at = NOW()
+    WHERE j.id = (
+        SELECT c.id
+        FROM ingestion_jobs c
+        WHERE c.status = 'pending'
+          AND (c.next_run IS NULL OR c.next_run <= NOW())
+          AND (
+              NOT (p_concurrency_limits ? c.worker_type)
+              OR (
+                  SELECT COUNT(*)
+                  FROM ingestion_jobs r
+                  WHERE r.status = 'running'
+                    AND r.worker_type = c.worker_type
+              ) < (p_concurrency_limits->>c.worker_type)::INTEGER
+          )
+        ORDER BY c.priority DESC, c.created_at ASC
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING j.*;
+END;
+$$;
+
+COMMENT ON COLUMN ingestion_jobs.priority IS 'Higher is claimed first; defaults to 10 for rolling jobs and 0 for backfill jobs';
+COMMENT ON FUNCTION claim_next_job(TEXT, INTEGER, JSONB) IS 'Atomically claims the highest-priority due job under its worker type''s concurrency cap, with a lease for p_worker_id';
@@ -0,0 +1,219 @@
+-- Migration: Record who verified artists and tracks created during canonicalization
+-- Date: 2025-08-05
+-- Canonicalization used to insert artists and tracks itself and set who verified them and when on
+-- auto-verified rows. Moving the writes into canonicalize_raw_mix only carried that over for the mix,
+-- so auto-verified artists and tracks had is_verified = true with no record of who verified them or when.
+-- The plan now carries verifiedBy/verifiedAt for every new artist and track, and the function stores them.
+-- artists and tracks never had the columns (only mixes, contexts and venues did), so they're added here.
+
+ALTER TABLE artists
+    ADD COLUMN IF NOT EXISTS verified_by UUID REFERENCES auth.users(id),
+    ADD COLUMN IF NOT EXISTS verified_at TIMESTAMPTZ;
+
+ALTER TABLE tracks
+    ADD COLUMN IF NOT EXISTS verified_by UUID REFERENCES auth.users(id),
+    ADD COLUMN IF NOT EXISTS verified_at TIMESTAMPTZ;
+
+CREATE OR REPLACE FUNCTION canonicalize_raw_mix(p_plan JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_stage TEXT := 'mix';
+    v_mix JSONB := p_plan->'mix';
+    v_mix_id UUID;
+    v_track JSONB;
+    v_track_id UUID;
+    v_artist JSONB;
+    v_artist_id UUID;
+    v_alias TEXT;
+    v_tracks_created INTEGER := 0;
+    v_artists_created INTEGER := 0;
+    v_aliases_created INTEGER := 0;
+BEGIN
+    -- Mix: merge into the existing duplicate or create a new one
+    IF p_plan->>'action' = 'merge' THEN
+        v_mix_id := (p_plan->>'existingMixId')::UUID;
+
+        UPDATE mixes SET
+            external_ids = COALESCE(external_ids, '{}'::JSONB) || COALESCE(v_mix->'externalIds', '{}'::JSONB),
+            -- Only fill in values that are currently null/empty
+            description = COALESCE(NULLIF(description, ''), v_mix->>'description'),
+            cover_url = COALESCE(NULLIF(cover_url, ''), v_mix->>'coverUrl'),
+            duration = COALESCE(duration, (v_mix->>'duration')::INTEGER),
+            -- A date already on the mix wins; its precision and notes stay with it
+            event_date_precision = CASE WHEN event_date IS NULL THEN v_mix->>'eventDatePrecision' ELSE event_date_precision END,
+            ingestion_notes = CASE
+                WHEN event_date IS NULL AND v_mix->>'eventDate' IS NOT NULL
+                THEN concat_ws(E'\n', NULLIF(ingestion_notes, ''), v_mix->>'ingestionNotes')
+                ELSE ingestion_notes
+            END,
+            event_date = COALESCE(event_date, (v_mix->>'eventDate')::DATE)
+        WHERE id = v_mix_id;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Existing mix not found: %', v_mix_id;
+        END IF;
+    ELSE
+        INSERT INTO mixes (
+            title, description, audio_url, cover_url, duration, published_date, event_date, event_date_precision,
+            external_ids, is_verified, verified_by, verified_at, ingestion_source, ingestion_notes, raw_mix_id
+        ) VALUES (
+            v_mix->>'title',
+            v_mix->>'description',
+            v_mix->>'audioUrl',
+            v_mix->>'coverUrl',
+            (v_mix->>'duration')::INTEGER,
+            (v_mix->>'publishedDate')::TIMESTAMPTZ,
+            (v_mix->>'eventDate')::DATE,
+            v_mix->>'eventDatePrecision',
+            COALESCE(v_mix->'externalIds', '{}'::JSONB),
+            COALESCE((v_mix->>'isVerified')::BOOLEAN, false),
+            (v_mix->>'verifiedBy')::UUID,
+            (v_mix->>'verifiedAt')::TIMESTAMPTZ,
+            v_mix->>'ingestionSource',
+            v_mix->>'ingestionNotes',
+            (p_plan->>'rawMixId')::UUID
+        )
+        RETURNING id INTO v_mix_id;
+    END IF;
+
+    -- Mix artist (DJ/host)
+    v_stage := 'mix_artists';
+    v_artist := p_plan->'mixArtist';
+    IF jsonb_typeof(v_artist) = 'object' THEN
+        IF v_artist->>'artistId' IS NULL THEN
+            INSERT INTO artists (name, is_verified, verified_by, verified_at, ingestion_source)
+            VALUES (
+                v_artist->>'name',
+                COALESCE((v_artist->>'isVerified')::BOOLEAN, false),
+                (v_artist->>'verifiedBy')::UUID,
+                (v_artist->>'verifiedAt')::TIMESTAMPTZ,
+                'auto'
+            )
+            RETURNING id INTO v_artist_id;
+            v_artists_created := v_artists_created + 1;
+        ELSE
+            v_artist_id := (v_artist->>'artistId')::UUID;
+        END IF;
+
+        INSERT INTO mix_artists (mix_id, artist_id, role)
+        VALUES (v_mix_id, v_artist_id, COALESCE(v_artist->>'role', 'dj'));
+    END IF;
+
+    -- Tracks, in tracklist order
+    FOR v_track IN SELECT * FROM jsonb_array_elements(COALESCE(p_plan->'tracks', '[]'::JSONB)) LOOP
+        -- Unidentified ("ID - ID"): no canonical track, just a placeholder row with the known artist
+        IF COALESCE((v_track->>'isUnidentified')::BOOLEAN, false) THEN
+            v_stage := 'track_artists';
+            v_artist_id := NULL;
+            v_artist := v_track->'artists'->0;
+            IF jsonb_typeof(v_artist) = 'object' THEN
+                IF v_artist->>'artistId' IS NULL THEN
+                    INSERT INTO artists (name, is_verified, verified_by, verified_at, ingestion_source)
+                    VALUES (
+                        v_artist->>'name',
+                        COALESCE((v_artist->>'isVerified')::BOOLEAN, false),
+                        (v_artist->>'verifiedBy')::UUID,
+                        (v_artist->>'verifiedAt')::TIMESTAMPTZ,
+                        'auto'
+                    )
+                    RETURNING id INTO v_artist_id;
+                    v_artists_created := v_artists_created + 1;
+                ELSE
+                    v_artist_id := (v_artist->>'artistId')::UUID;
+                END IF;
+            END IF;
+
+            v_stage := 'mix_tracks';
+            INSERT INTO mix_tracks (mix_id, track_id, position, start_time, is_unidentified, artist_id, raw_text)
+            VALUES (
+                v_mix_id, NULL, (v_track->>'position')::INTEGER, (v_track->>'startTime')::INTEGER,
+                true, v_artist_id, v_track->>'lineText'
+            );
+            CONTINUE;
+        END IF;
+
+        v_stage := 'tracks';
+        IF v_track->>'trackId' IS NULL THEN
+            INSERT INTO tracks (title, is_verified, verified_by, verified_at, ingestion_source)
+            VALUES (
+                v_track->>'title',
+                COALESCE((v_track->>'isVerified')::BOOLEAN, false),
+                (v_track->>'verifiedBy')::UUID,
+                (v_track->>'verifiedAt')::TIMESTAMPTZ,
+                'auto'
+            )
+            RETURNING id INTO v_track_id;
+            v_tracks_created := v_tracks_created + 1;
+
+            -- Artists are only linked for newly created tracks
+            v_stage := 'track_artists';
+            FOR v_artist IN SELECT * FROM jsonb_array_elements(COALESCE(v_track->'artists', '[]'::JSONB)) LOOP
+                IF v_artist->>'artistId' IS NULL THEN
+                    INSERT INTO artists (name, is_verified, verified_by, verified_at, ingestion_source)
+                    VALUES (
+                        v_artist->>'name',
+                        COALESCE((v_artist->>'isVerified')::BOOLEAN, false),
+                        (v_artist->>'verifiedBy')::UUID,
+                        (v_artist->>'verifiedAt')::TIMESTAMPTZ,
+                        'auto'
+                    )
+                    RETURNING id INTO v_artist_id;
+                    v_artists_created := v_artists_created + 1;
+                ELSE
+                    v_artist_id := (v_artist->>'artistId')::UUID;
+                END IF;
+
+                INSERT INTO track_artists (track_id, artist_id, role, position)
+                VALUES (v_track_id, v_artist_id, v_artist->>'role', (v_artist->>'position')::INTEGER);
+            END LOOP;
+        ELSE
+            v_track_id := (v_track->>'trackId')::UUID;
+        END IF;
+
+        v_stage := 'mix_tracks';
+        INSERT INTO mix_tracks (mix_id, track_id, position, start_time)
+        VALUES (v_mix_id, v_track_id, (v_track->>'position')::INTEGER, (v_track->>'startTime')::INTEGER);
+
+        v_stage := 'track_aliases';
+        FOR v_alias IN SELECT jsonb_array_elements_text(COALESCE(v_track->'aliases', '[]'::JSONB)) LOOP
+            BEGIN
+                INSERT INTO track_aliases (track_id, alias, source_type, mix_id, is_primary)
+                VALUES (v_track_id, v_alias, 'ingestion', v_mix_id, false);
+                v_aliases_created := v_aliases_created + 1;
+            EXCEPTION WHEN unique_violation THEN
+                -- Don't fail if alias already exists
+                NULL;
+            END;
+        END LOOP;
+    END LOOP;
+
+    -- Mark raw mix as processed
+    v_stage := 'mark_processed';
+    UPDATE raw_mixes SET
+        status = 'canonicalized',
+        canonicalized_mix_id = v_mix_id,
+        processed_at = NOW()
+    WHERE id = (p_plan->>'rawMixId')::UUID;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'mix_id', v_mix_id,
+        'tracks_created', v_tracks_created,
+        'artists_created', v_artists_created,
+        'aliases_created', v_aliases_created
+    );
+EXCEPTION WHEN OTHERS THEN
+    -- Everything written above is rolled back; report the stage that failed
+    RETURN jsonb_build_object(
+        'success', false,
+        'failed_stage', v_stage,
+        'error', SQLERRM
+    );
+END;
+$$;
+
+COMMENT ON FUNCTION canonicalize_raw_mix(JSONB) IS 'Applies a canonicalization plan for one raw mix atomically; returns failed_stage and rolls back on any error. Unidentified tracks are linked as placeholders without creating tracks; event_date, its precision and reasoning are only filled in when empty on merge; new mixes, artists and tracks record verified_by/verified_at from the plan';
+COMMENT ON COLUMN artists.verified_by IS 'User that verified the artist, or the system user when canonicalization auto-verified it';
+COMMENT ON COLUMN tracks.verified_by IS 'User that verified the track, or the system user when canonicalization auto-verified it';
@@ -0,0 +1,92 @@
+-- Migration: Keep the context hierarchy acyclic when merging contexts
+-- Date: 2025-08-05
+-- merge_contexts let the survivor take the duplicate's parent when it had none. When the duplicate sat
+-- under the survivor, that made the survivor its own parent.
+-- Merging an ancestor into one of its deeper descendants moved the contexts in between under the
+-- survivor, while the survivor still sat under them, which left a cycle.
+-- The survivor no longer takes itself as parent, and merging a context into a descendant below its
+-- direct children is refused. A direct child can still absorb its parent, taking over the parent's parent.
+
+CREATE OR REPLACE FUNCTION merge_contexts(p_survivor_id UUID, p_duplicate_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    v_survivor contexts%ROWTYPE;
+    v_duplicate contexts%ROWTYPE;
+    v_mixes INTEGER := 0;
+    v_children INTEGER := 0;
+BEGIN
+    IF p_survivor_id = p_duplicate_id THEN
+        RAISE EXCEPTION 'Cannot merge context % into itself', p_survivor_id;
+    END IF;
+
+    SELECT * INTO v_survivor FROM contexts WHERE id = p_survivor_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Context not found: %', p_survivor_id;
+    END IF;
+
+    SELECT * INTO v_duplicate FROM contexts WHERE id = p_duplicate_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Context not found: %', p_duplicate_id;
+    END IF;
+
+    IF v_survivor.type <> v_duplicate.type THEN
+        RAISE EXCEPTION 'Cannot merge % context into % context', v_duplicate.type, v_survivor.type;
+    END IF;
+
+    -- The contexts between them would move under the survivor while it still sits under them
+    IF EXISTS (
+        SELECT 1 FROM get_context_ancestors(p_survivor_id) ancestor
+        WHERE ancestor.id = p_duplicate_id AND ancestor.depth > 1
+    ) THEN
+        RAISE EXCEPTION 'Cannot merge context % into its descendant %, merge it the other way round', p_duplicate_id, p_survivor_id;
+    END IF;
+
+    -- Mixes linked to both keep a single link
+    INSERT INTO mix_contexts (mix_id, context_id, role)
+    SELECT mix_id, p_survivor_id, role FROM mix_contexts WHERE context_id = p_duplicate_id
+    ON CONFLICT (mix_id, context_id, role) DO NOTHING;
+
+    DELETE FROM mix_contexts WHERE context_id = p_duplicate_id;
+    GET DIAGNOSTICS v_mixes = ROW_COUNT;
+
+    UPDATE contexts SET parent_id = p_survivor_id
+    WHERE parent_id = p_duplicate_id AND id <> p_survivor_id;
+    GET DIAGNOSTICS v_children = ROW_COUNT;
+
+    -- The duplicate's parent is skipped when it's the survivor itself
+    -- Edition dates are taken as a pair so start_date <= end_date still holds
+    UPDATE contexts SET
+        parent_id = CASE
+            WHEN parent_id = p_duplicate_id THEN NULLIF(v_duplicate.parent_id, p_survivor_id)
+            ELSE COALESCE(parent_id, NULLIF(v_duplicate.parent_id, p_survivor_id))
+        END,
+        external_ids = COALESCE(v_duplicate.external_ids, '{}'::JSONB) || COALESCE(external_ids, '{}'::JSONB),
+        website = COALESCE(website, v_duplicate.website),
+        venue_id = COALESCE(venue_id, v_duplicate.venue_id),
+        start_date = CASE WHEN start_date IS NULL AND end_date IS NULL THEN v_duplicate.start_date ELSE start_date END,
+        end_date = CASE WHEN start_date IS NULL AND end_date IS NULL THEN v_duplicate.end_date ELSE end_date END,
+        is_verified = is_verified OR v_duplicate.is_verified,
+        verified_by = COALESCE(verified_by, v_duplicate.verified_by),
+        verified_at = COALESCE(verified_at, v_duplicate.verified_at),
+        updated_at = NOW()
+    WHERE id = p_survivor_id;
+
+    UPDATE context_aliases SET context_id = p_survivor_id WHERE context_id = p_duplicate_id;
+
+    INSERT INTO context_aliases (context_id, alias, type, merged_from)
+    VALUES (p_survivor_id, v_duplicate.name, v_duplicate.type, p_duplicate_id)
+    ON CONFLICT DO NOTHING;
+
+    DELETE FROM contexts WHERE id = p_duplicate_id;
+
+    RETURN jsonb_build_object(
+        'survivor_id', p_survivor_id,
+        'duplicate_id', p_duplicate_id,
+        'mixes_relinked', v_mixes,
+        'children_repointed', v_children,
+        'alias', v_duplicate.name
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION merge_contexts IS 'Merge a duplicate context into a survivor: repoint mix_contexts and child contexts, union external IDs, record an alias. Refuses merges that would create a parent cycle';
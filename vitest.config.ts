@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['src/**/__tests__/**/*.test.ts'],
+    setupFiles: ['./vitest.setup.ts'],
+    // The service client is created at import time; tests never reach the database
+    env: {
+      SUPABASE_URL: 'http://127.0.0.1:54321',
+      SUPABASE_SERVICE_ROLE_KEY: 'test-service-role-key',
+    },
+  },
+});
@@ -0,0 +1,12 @@
+import { vi } from 'vitest';
+
+// Keep test output clean and stop the logger writing to ingestion_logs
+vi.mock('./src/services/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    setLevel: vi.fn(),
+  },
+}));